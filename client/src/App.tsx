@@ -9,7 +9,11 @@ import AboutPage from "@/pages/about-page";
 import AuthPage from "@/pages/auth-page";
 import RegisterPage from "@/pages/register-page";
 import VerifyEmailPage from "@/pages/verify-email";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
 import SubscriptionPage from "@/pages/subscription-page";
+import DealerVerificationPage from "@/pages/dealer-verification";
+import DealershipPage from "@/pages/dealership-page";
 import DealerDashboard from "@/pages/dealer-dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
 // Dealer dashboard handles both selling and buying functionality
@@ -19,14 +23,17 @@ import CreateAuction from "@/pages/create-auction";
 import MapSearchPage from "@/pages/map-search-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { useAuth } from "./hooks/use-auth";
+import { useDealership } from "./hooks/use-dealership";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { AuthProvider } from "./hooks/use-auth";
 import { WebSocketProvider } from "./hooks/use-websocket";
-import { LogOut, UserCircle, Plus, TrendingUp, Menu, X } from "lucide-react";
+import { LogOut, UserCircle, Plus, TrendingUp, Menu, X, Users } from "lucide-react";
 import InstallPrompt from "./components/mobile/InstallPrompt";
 import BottomNavigation from "./components/mobile/BottomNavigation";
 import ChatWidget from "./components/chat/ChatWidget";
+import VerificationBanner from "./components/layout/VerificationBanner";
+import ImpersonationBanner from "./components/layout/ImpersonationBanner";
 
 // Main router component
 function Router() {
@@ -38,6 +45,8 @@ function Router() {
       <Route path="/auth" component={AuthPage} />
       <Route path="/register" component={RegisterPage} />
       <Route path="/verify-email" component={VerifyEmailPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       
       {/* Stock viewing route - login required */}
       <ProtectedRoute path="/stock" component={AuctionsPage} />
@@ -51,6 +60,8 @@ function Router() {
       <ProtectedRoute path="/admin" component={AdminDashboard} />
       
       <ProtectedRoute path="/subscription" component={SubscriptionPage} />
+      <ProtectedRoute path="/verification" component={DealerVerificationPage} />
+      <ProtectedRoute path="/dealership" component={DealershipPage} />
       <ProtectedRoute path="/auctions" component={MapSearchPage} />
       <ProtectedRoute path="/underwrites" component={MapSearchPage} /> {/* Alias for /auctions */}
       <ProtectedRoute path="/auctions/:id" component={AuctionDetail} />
@@ -71,6 +82,7 @@ function Router() {
 // Navigation component with authentication awareness
 function MainNavigation() {
   const { user, logoutMutation } = useAuth();
+  const { can } = useDealership();
   const [location, navigate] = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -155,17 +167,29 @@ function MainNavigation() {
                     </Link>
                   </li>
                   
-                  {/* All dealers can both list and bid */}
                   <li>
                     <Link 
-                      href="/create-auction" 
-                      className="text-white bg-primary hover:bg-primary/90 rounded-md px-3 py-2 flex items-center"
+                      href="/dealership" 
+                      className="text-gray-600 dark:text-gray-300 hover:text-primary px-3 py-2 flex items-center"
                     >
-                      <Plus className="w-4 h-4 mr-1" />
-                      List Motorcycle
+                      <Users className="w-4 h-4 mr-1" />
+                      Team
                     </Link>
                   </li>
                   
+                  {/* Listing depends on the dealer's staff role */}
+                  {can('list') && (
+                    <li>
+                      <Link 
+                        href="/create-auction" 
+                        className="text-white bg-primary hover:bg-primary/90 rounded-md px-3 py-2 flex items-center"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        List Motorcycle
+                      </Link>
+                    </li>
+                  )}
+                  
 
                   
                   <li>
@@ -214,16 +238,18 @@ function MainNavigation() {
                   // Mobile Navigation for logged in users
                   <>
                     {/* Highlight the List Motorcycle option */}
-                    <li className="py-2">
-                      <Link 
-                        onClick={closeMobileMenu}
-                        href="/create-auction" 
-                        className="flex items-center justify-center py-3 text-white bg-primary hover:bg-primary/90 rounded-md"
-                      >
-                        <Plus className="w-5 h-5 mr-2" />
-                        List Motorcycle
-                      </Link>
-                    </li>
+                    {can('list') && (
+                      <li className="py-2">
+                        <Link 
+                          onClick={closeMobileMenu}
+                          href="/create-auction" 
+                          className="flex items-center justify-center py-3 text-white bg-primary hover:bg-primary/90 rounded-md"
+                        >
+                          <Plus className="w-5 h-5 mr-2" />
+                          List Motorcycle
+                        </Link>
+                      </li>
+                    )}
                     
 
                     
@@ -234,6 +260,13 @@ function MainNavigation() {
                       </Link>
                     </li>
                     
+                    <li>
+                      <Link onClick={closeMobileMenu} href="/dealership" className="block py-2 text-gray-600 dark:text-gray-300 hover:text-primary flex items-center">
+                        <Users className="w-5 h-5 mr-2" />
+                        Team
+                      </Link>
+                    </li>
+                    
                     {/* Admin dashboard link - only show for admin users */}
                     {user.role === 'admin' && (
                       <li>
@@ -323,6 +356,8 @@ function AppContent() {
   return (
     <div className="min-h-screen flex flex-col bg-background text-foreground">
       <MainNavigation />
+      <ImpersonationBanner />
+      <VerificationBanner />
       <main className="flex-grow">
         <Router />
       </main>
@@ -6,8 +6,10 @@ import { formatDistanceToNow } from 'date-fns';
 import { Clock, Users, AlertCircle } from 'lucide-react';
 import { AuctionWithDetails } from '@shared/types';
 import { useAuth } from '@/hooks/use-auth';
+import { getThumbnailUrl } from '@/lib/imageUpload';
 import PendingActions from '@/components/dashboard/PendingActions';
 import ListingActions from '@/components/auctions/ListingActions';
+import VehicleCheckBadges from '@/components/auctions/VehicleCheckBadges';
 
 interface AuctionCardProps {
   auction: AuctionWithDetails;
@@ -79,7 +81,7 @@ export default function AuctionCard({
       <div className="relative">
         <img 
           src={motorcycle.images && motorcycle.images.length > 0 
-            ? motorcycle.images[0] 
+            ? getThumbnailUrl(motorcycle.images[0]) 
             : "/placeholder-bike.jpg"
           } 
           alt={`${motorcycle.make} ${motorcycle.model}`}
@@ -129,6 +131,12 @@ export default function AuctionCard({
           {motorcycle.mileage.toLocaleString()} miles | {motorcycle.condition}
         </div>
         
+        {motorcycle.vehicleCheck && (
+          <div className="mt-2">
+            <VehicleCheckBadges vehicleCheck={motorcycle.vehicleCheck} />
+          </div>
+        )}
+        
         {showDealerInfo && (
           <div className="text-xs text-muted-foreground mt-1">
             By: Dealer #{dealerId}
@@ -146,6 +154,11 @@ export default function AuctionCard({
               <Users className="h-3 w-3 mr-1" />
               {totalBids} bid{totalBids !== 1 ? 's' : ''}
             </div>
+            {isActive && auction.buyNowPrice && (
+              <div className="text-xs font-medium text-green-600">
+                Buy now £{auction.buyNowPrice.toLocaleString()}
+              </div>
+            )}
           </div>
           
           <div className="text-right">
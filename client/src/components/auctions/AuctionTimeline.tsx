@@ -0,0 +1,83 @@
+import { AuctionHistoryEntry, AuctionHistoryEvent } from '@shared/schema';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+
+interface AuctionTimelineProps {
+  auctionId: number;
+}
+
+interface DealerInfo {
+  id: number;
+  companyName: string;
+}
+
+const EVENT_LABELS: Record<AuctionHistoryEvent, string> = {
+  created: 'Listed',
+  expired: 'Auction ended',
+  ended_early: 'Ended early by the seller',
+  bid_accepted: 'Bid accepted',
+  bought_now: 'Bought with buy now',
+  deal_confirmed: 'Deal confirmed by the buyer',
+  collection_confirmed: 'Collection confirmed',
+  deal_completed: 'Deal completed',
+  archived_no_sale: 'Archived as no sale',
+  relisted: 'Relisted',
+  cancelled_by_admin: 'Cancelled by TradeBikes',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  pending_collection: 'Pending collection',
+  completed: 'Completed',
+  no_sale: 'No sale',
+};
+
+export default function AuctionTimeline({ auctionId }: AuctionTimelineProps) {
+  const { user } = useAuth();
+  const { data: history = [], isLoading } = useQuery<AuctionHistoryEntry[]>({
+    queryKey: [`/api/auctions/${auctionId}/history`],
+    enabled: !!auctionId,
+  });
+
+  const { data: dealers = [] } = useQuery<DealerInfo[]>({
+    queryKey: ['/api/dealers'],
+  });
+
+  // System changes (e.g. the auction timing out) have no actor
+  const getActorName = (actorId: number | null): string | null => {
+    if (actorId === null) return null;
+    if (user && user.id === actorId) return 'You';
+    return dealers.find(d => d.id === actorId)?.companyName || `Dealer #${actorId}`;
+  };
+
+  if (isLoading || history.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-gray-500 mb-2">Timeline</h4>
+      <ol className="relative border-l border-gray-200 ml-2">
+        {history.map((entry) => {
+          const actorName = getActorName(entry.actorId);
+          return (
+            <li key={entry.id} className="mb-3 ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+              <p className="text-xs font-medium text-gray-900">
+                {EVENT_LABELS[entry.event as AuctionHistoryEvent] || entry.event}
+                <span className="ml-2 font-normal text-gray-500">
+                  {STATUS_LABELS[entry.toStatus] || entry.toStatus}
+                </span>
+              </p>
+              <p className="text-[11px] text-gray-500">
+                {entry.createdAt ? format(new Date(entry.createdAt), 'd MMM yyyy, HH:mm') : ''}
+                {actorName && ` · ${actorName}`}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Bid, User } from '@shared/schema';
 import { useQuery } from '@tanstack/react-query';
 import { timeAgo } from '@/lib/countdownTimer';
 import { useAuth } from '@/hooks/use-auth';
+import { Badge } from '@/components/ui/badge';
 
 interface BidHistoryProps {
   auctionId: number;
@@ -30,6 +31,9 @@ export default function BidHistory({ auctionId, currentBid }: BidHistoryProps) {
   
   // Check if current user is the auction owner
   const isAuctionOwner = user?.id === auction?.dealerId;
+  
+  // Sealed bids: the server only returns other bidders their own bids
+  const isSealed = auction?.auctionType === 'blind' && !isAuctionOwner;
 
   // Fetch dealer information
   const { data: dealers = [], isLoading: dealersLoading } = useQuery<DealerInfo[]>({
@@ -68,7 +72,9 @@ export default function BidHistory({ auctionId, currentBid }: BidHistoryProps) {
       <div className="mt-4">
         <h4 className="text-sm font-medium text-gray-500 mb-2">Bid History</h4>
         <div className="h-36 flex items-center justify-center border border-gray-200 rounded-md">
-          <div className="text-sm text-gray-500">No bids yet. Be the first to bid!</div>
+          <div className="text-sm text-gray-500">
+            {isSealed ? "This is a blind auction - you haven't bid yet." : "No bids yet. Be the first to bid!"}
+          </div>
         </div>
       </div>
     );
@@ -76,25 +82,30 @@ export default function BidHistory({ auctionId, currentBid }: BidHistoryProps) {
 
   return (
     <div className="mt-4">
-      <h4 className="text-sm font-medium text-gray-500 mb-2">Bid History</h4>
+      <h4 className="text-sm font-medium text-gray-500 mb-2">{isSealed ? 'Your Bids' : 'Bid History'}</h4>
       <div className="overflow-hidden overflow-y-auto max-h-36 border border-gray-200 rounded-md">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
               <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trader</th>
-              {isAuctionOwner && (
-                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Bid</th>
-              )}
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Bid</th>
               <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {sortedBids.map((bid) => (
               <tr key={bid.id}>
-                <td className="px-3 py-2 whitespace-nowrap text-xs font-medium text-gray-900">{getDealerName(bid.dealerId)}</td>
-                {isAuctionOwner && (
-                  <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-900 text-right">£{bid.amount.toLocaleString()}</td>
-                )}
+                <td className="px-3 py-2 whitespace-nowrap text-xs font-medium text-gray-900">
+                  {getDealerName(bid.dealerId)}
+                  <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px] font-normal">
+                    {bid.isProxy ? 'Auto' : 'Manual'}
+                  </Badge>
+                  {/* Maximum bids are only returned for the current user's own bids */}
+                  {bid.maxAmount && (
+                    <span className="ml-2 text-[10px] text-gray-500">max £{bid.maxAmount.toLocaleString()}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-900 text-right">£{bid.amount.toLocaleString()}</td>
                 <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500 text-right">{bid.createdAt ? timeAgo(new Date(bid.createdAt)) : ''}</td>
               </tr>
             ))}
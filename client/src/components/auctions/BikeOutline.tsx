@@ -0,0 +1,77 @@
+import { MouseEvent } from 'react';
+import { DamageMarker, DamageSeverity } from '@shared/schema';
+import { cn } from '@/lib/utils';
+
+const severityColors: Record<DamageSeverity, string> = {
+  minor: 'bg-yellow-400 border-yellow-600',
+  moderate: 'bg-orange-500 border-orange-700',
+  major: 'bg-red-600 border-red-800',
+};
+
+interface BikeOutlineProps {
+  markers: Pick<DamageMarker, 'x' | 'y' | 'severity'>[];
+  selectedIndex?: number | null;
+  onSelectMarker?: (index: number) => void;
+  // When set, clicking the diagram adds a marker at that point (as percentages of the diagram)
+  onAddMarker?: (x: number, y: number) => void;
+  className?: string;
+}
+
+// Side-on motorcycle outline with numbered damage markers
+export default function BikeOutline({ markers, selectedIndex, onSelectMarker, onAddMarker, className }: BikeOutlineProps) {
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onAddMarker) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((event.clientY - bounds.top) / bounds.height) * 100;
+    onAddMarker(Math.round(x * 10) / 10, Math.round(y * 10) / 10);
+  };
+
+  return (
+    <div
+      className={cn('relative w-full aspect-[5/3] rounded-md border bg-white', onAddMarker && 'cursor-crosshair', className)}
+      onClick={handleClick}
+    >
+      <svg viewBox="0 0 200 120" className="absolute inset-0 h-full w-full text-gray-400" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+        {/* Wheels */}
+        <circle cx="42" cy="86" r="24" />
+        <circle cx="42" cy="86" r="8" />
+        <circle cx="160" cy="86" r="24" />
+        <circle cx="160" cy="86" r="8" />
+        {/* Swingarm and forks */}
+        <path d="M42 86 L88 74" />
+        <path d="M160 86 L140 36" />
+        {/* Frame, engine and exhaust */}
+        <path d="M88 74 L108 46 L140 36" />
+        <rect x="84" y="58" width="34" height="24" rx="4" />
+        <path d="M96 82 L60 96 L30 98" />
+        {/* Tank, seat and tail */}
+        <path d="M104 46 Q120 28 142 34 L136 48 Z" />
+        <path d="M104 46 L66 44 L52 54 L86 56" />
+        {/* Headlight and bars */}
+        <path d="M142 34 L154 40 L150 48" />
+        <path d="M138 30 L146 22 L156 24" />
+      </svg>
+
+      {markers.map((marker, index) => (
+        <button
+          key={index}
+          type="button"
+          className={cn(
+            'absolute -translate-x-1/2 -translate-y-1/2 h-6 w-6 rounded-full border-2 text-xs font-bold text-white shadow',
+            severityColors[marker.severity],
+            selectedIndex === index && 'ring-2 ring-offset-1 ring-blue-600'
+          )}
+          style={{ left: `${marker.x}%`, top: `${marker.y}%` }}
+          onClick={(event) => {
+            event.stopPropagation();
+            onSelectMarker?.(index);
+          }}
+          aria-label={`Damage ${index + 1} (${marker.severity})`}
+        >
+          {index + 1}
+        </button>
+      ))}
+    </div>
+  );
+}
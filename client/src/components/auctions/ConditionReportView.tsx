@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getThumbnailUrl } from '@/lib/imageUpload';
+import BikeOutline from '@/components/auctions/BikeOutline';
+import {
+  ConditionReport,
+  CONDITION_REPORT_COMPONENTS,
+  CONDITION_REPORT_COMPONENT_LABELS,
+  CONDITION_GRADE_LABELS,
+  MIN_LEGAL_TREAD_DEPTH_MM,
+} from '@shared/schema';
+
+// Read-only inspection report: grades, tread depths and the damage map with its photos
+export default function ConditionReportView({ report }: { report: ConditionReport }) {
+  const [selectedMarker, setSelectedMarker] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium text-gray-500">Overall grade</h4>
+        <Badge>{report.overallGrade}/5 - {CONDITION_GRADE_LABELS[report.overallGrade]}</Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {CONDITION_REPORT_COMPONENTS.map(component => (
+          <div key={component} className="flex justify-between text-sm">
+            <span className="text-gray-500">{CONDITION_REPORT_COMPONENT_LABELS[component]}</span>
+            <span className="text-gray-900">{CONDITION_GRADE_LABELS[report.components[component]]}</span>
+          </div>
+        ))}
+        {(['frontTreadMm', 'rearTreadMm'] as const).map(tyre => (
+          <div key={tyre} className="flex justify-between text-sm">
+            <span className="text-gray-500">{tyre === 'frontTreadMm' ? 'Front' : 'Rear'} tread</span>
+            <span className={report[tyre] < MIN_LEGAL_TREAD_DEPTH_MM ? 'font-medium text-red-600' : 'text-gray-900'}>
+              {report[tyre]}mm
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {report.damage.length === 0 ? (
+        <p className="text-sm text-gray-500">No damage recorded.</p>
+      ) : (
+        <>
+          <BikeOutline
+            markers={report.damage}
+            selectedIndex={selectedMarker}
+            onSelectMarker={setSelectedMarker}
+          />
+          <ol className="space-y-2">
+            {report.damage.map((marker, index) => (
+              <li
+                key={index}
+                className={`rounded-md border p-2 text-sm cursor-pointer ${selectedMarker === index ? 'border-blue-500 bg-blue-50' : ''}`}
+                onClick={() => setSelectedMarker(index)}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{index + 1}.</span>
+                  <span className="capitalize text-gray-500">{marker.severity}</span>
+                  <span className="text-gray-900">{marker.note}</span>
+                </div>
+                {marker.photos.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {marker.photos.map(photo => (
+                      <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                        <img src={getThumbnailUrl(photo)} alt={`Damage ${index + 1}`} className="h-16 w-16 rounded object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
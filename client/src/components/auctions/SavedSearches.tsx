@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient, getApiErrorMessage } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { BellRing, Trash2 } from 'lucide-react';
+import { AuctionSearchCriteria, SavedSearch } from '@shared/schema';
+
+interface SavedSearchesProps {
+  // The filters currently applied on the search page
+  criteria: AuctionSearchCriteria;
+  onApply: (criteria: AuctionSearchCriteria) => void;
+}
+
+// Save the current search and manage saved ones; dealers are alerted when new listings match
+export default function SavedSearches({ criteria, onApply }: SavedSearchesProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [emailDigest, setEmailDigest] = useState(false);
+
+  const { data: savedSearches = [] } = useQuery<SavedSearch[]>({
+    queryKey: ['/api/saved-searches'],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error), variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/saved-searches', { name: name.trim(), criteria, emailDigest });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setName('');
+      toast({ title: 'Search saved', description: "We'll let you know when new listings match." });
+    },
+    onError: onError("Couldn't save the search"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, emailDigest }: { id: number; emailDigest: boolean }) => {
+      const res = await apiRequest('PATCH', `/api/saved-searches/${id}`, { emailDigest });
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't update the search"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/saved-searches/${id}`);
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't delete the search"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Saved Searches
+        </CardTitle>
+        <CardDescription>Get an alert when a new listing matches the filters you've applied</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="space-y-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (name.trim()) saveMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="Name this search"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            aria-label="Saved search name"
+          />
+          <div className="flex items-center justify-between">
+            <Label htmlFor="email-digest" className="text-sm font-normal">Email me a digest</Label>
+            <Switch id="email-digest" checked={emailDigest} onCheckedChange={setEmailDigest} />
+          </div>
+          <Button type="submit" variant="outline" className="w-full" disabled={!name.trim() || saveMutation.isPending}>
+            Save this search
+          </Button>
+        </form>
+
+        {savedSearches.length > 0 && (
+          <ul className="divide-y">
+            {savedSearches.map((search) => (
+              <li key={search.id} className="py-2 flex items-center gap-2">
+                <button
+                  type="button"
+                  className="flex-1 text-left text-sm font-medium hover:text-primary truncate"
+                  onClick={() => onApply(search.criteria)}
+                  title="Apply this search"
+                >
+                  {search.name}
+                </button>
+                <Switch
+                  checked={search.emailDigest}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: search.id, emailDigest: checked })}
+                  aria-label={`Email digest for ${search.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete ${search.name}`}
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(search.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { VehicleCheckResult } from '@shared/schema';
+
+interface VehicleCheckBadgesProps {
+  vehicleCheck: VehicleCheckResult | null | undefined;
+  // Also show when the check was run and the provider's reference
+  showDetails?: boolean;
+}
+
+// Badges summarising a listing's vehicle history check; renders nothing if the bike hasn't been checked
+export default function VehicleCheckBadges({ vehicleCheck, showDetails = false }: VehicleCheckBadgesProps) {
+  if (!vehicleCheck) return null;
+
+  const warnings: string[] = [];
+  if (vehicleCheck.stolen) warnings.push('Reported stolen');
+  if (vehicleCheck.outstandingFinance) warnings.push('Outstanding finance');
+  if (vehicleCheck.writeOffCategory) warnings.push(`Cat ${vehicleCheck.writeOffCategory} write-off`);
+  if (vehicleCheck.mileageDiscrepancy) {
+    warnings.push(vehicleCheck.highestRecordedMileage
+      ? `Mileage discrepancy (${vehicleCheck.highestRecordedMileage.toLocaleString()} recorded)`
+      : 'Mileage discrepancy');
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {warnings.length === 0 ? (
+          <Badge className="bg-green-600 hover:bg-green-600">
+            <ShieldCheck className="mr-1 h-3 w-3" />
+            History check clear
+          </Badge>
+        ) : (
+          warnings.map(warning => (
+            <Badge key={warning} variant="destructive">
+              <ShieldAlert className="mr-1 h-3 w-3" />
+              {warning}
+            </Badge>
+          ))
+        )}
+      </div>
+      {showDetails && (
+        <p className="text-xs text-muted-foreground">
+          Checked {new Date(vehicleCheck.checkedAt).toLocaleDateString('en-GB')} against {vehicleCheck.regNumber}
+          {vehicleCheck.reference && ` (ref. ${vehicleCheck.reference})`}
+        </p>
+      )}
+    </div>
+  );
+}
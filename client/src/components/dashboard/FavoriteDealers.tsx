@@ -10,6 +10,8 @@ import { Star, Plus, MessageCircle, Phone, Search, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { Input } from '@/components/ui/input';
+import { usePresence } from '@/hooks/use-presence';
+import PresenceIndicator from '@/components/dealers/PresenceIndicator';
 
 // Define dealer interface specifically for this component
 interface DealerInfo {
@@ -41,6 +43,7 @@ const FavoriteDealers = () => {
   });
 
   const isLoading = dealersLoading || favoritesLoading;
+  const { getPresence } = usePresence(favoriteDealers.map(dealer => dealer.id));
 
   // Add favorite mutation
   const addFavoriteMutation = useMutation({
@@ -254,6 +257,7 @@ const FavoriteDealers = () => {
                   </Avatar>
                   <div>
                     <h4 className="font-medium">{dealer.companyName || dealer.username}</h4>
+                    <PresenceIndicator presence={getPresence(dealer.id)} />
                     <div className="flex items-center text-sm text-muted-foreground">
                       <div className="flex items-center mr-3">
                         {[...Array(5)].map((_, i) => (
@@ -1,204 +1,209 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient, getApiErrorMessage } from '@/lib/queryClient';
 import { format } from 'date-fns';
-import { MessageSquare, User, Send } from 'lucide-react';
+import { MessageSquare, Send, Paperclip, FileText, Check, CheckCheck, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { usePresence } from '@/hooks/use-presence';
+import PresenceIndicator from '@/components/dealers/PresenceIndicator';
+import { Message, MessageAttachment, MAX_MESSAGE_ATTACHMENTS, MESSAGE_ATTACHMENT_TYPES } from '@shared/schema';
+import { ConversationSummary } from '@shared/types';
 
-type Message = {
-  id: number;
-  senderId: number;
-  receiverId: number;
-  auctionId?: number;
-  content: string;
-  read: boolean;
-  createdAt: string;
-  otherUser?: {
-    id: number;
-    username: string;
-    companyName: string;
-  };
-};
+// A thread is the conversation with one dealer, either about an auction or general
+type Thread = { userId: number; auctionId: number | null };
 
-type Conversation = {
-  userId: number;
-  username: string;
-  companyName: string;
-  messages: Message[];
-  unreadCount: number;
-  lastMessage: Message;
-};
+const threadKey = (thread: Thread) => `${thread.userId}:${thread.auctionId ?? ''}`;
+
+const summaryThread = (summary: ConversationSummary): Thread => ({
+  userId: summary.counterpart.id,
+  auctionId: summary.auction?.id ?? null,
+});
+
+// How long a typing indicator stays up without another keystroke, and how often we send ours
+const TYPING_TIMEOUT = 5000;
+const TYPING_THROTTLE = 3000;
+
+// Upload files as multipart form data (apiRequest only sends JSON)
+async function uploadAttachments(files: File[]): Promise<MessageAttachment[]> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('attachments', file));
+
+  const res = await fetch('/api/messages/attachments', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.message || `Upload failed (${res.status})`);
+  }
+  return body.attachments;
+}
+
+const AttachmentList = ({ attachments }: { attachments: MessageAttachment[] }) => (
+  <div className="mt-2 flex flex-wrap gap-2">
+    {attachments.map(attachment => (
+      <a key={attachment.url} href={attachment.url} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+        {attachment.contentType.startsWith('image/') ? (
+          <img src={attachment.url} alt={attachment.name} className="h-24 w-24 rounded object-cover" />
+        ) : (
+          <span className="flex items-center gap-1 rounded bg-black/20 px-2 py-1 text-sm underline">
+            <FileText className="h-4 w-4" />
+            {attachment.name}
+          </span>
+        )}
+      </a>
+    ))}
+  </div>
+);
 
 const MessagesTab = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { sendMessage: sendSocketMessage } = useWebSocket();
   const [newMessage, setNewMessage] = useState('');
-  const [selectedConversation, setSelectedConversation] = useState<number | null>(null);
-  const [conversations, setConversations] = useState<Record<number, Conversation>>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [selectedThread, setSelectedThread] = useState<Thread | null>(null);
+  const [typingUntil, setTypingUntil] = useState<Record<string, number>>({});
+  const lastTypingSentAt = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Thread summaries with unread counts, most recent first
+  const { data: conversations = [], isLoading, error } = useQuery<ConversationSummary[]>({
+    queryKey: ['/api/conversations'],
+    enabled: !!user,
+  });
+
+  const { getPresence } = usePresence(conversations.map(conversation => conversation.counterpart.id));
+
+  const selectedConversation = selectedThread
+    ? conversations.find(conversation => threadKey(summaryThread(conversation)) === threadKey(selectedThread))
+    : undefined;
 
-  // Fetch all messages for the current user
-  const { data: messages, isLoading, error } = useQuery({
-    queryKey: ['/api/messages'],
+  // Messages in the open thread, oldest first
+  const { data: threadMessages = [] } = useQuery<Message[]>({
+    queryKey: ['/api/conversations', selectedThread?.userId, 'messages', selectedThread?.auctionId ?? 'general'],
     queryFn: async () => {
-      const res = await fetch('/api/messages');
-      if (!res.ok) {
-        throw new Error('Failed to fetch messages');
-      }
-      return res.json() as Promise<Message[]>;
+      const query = selectedThread!.auctionId ? `?auctionId=${selectedThread!.auctionId}` : '';
+      const res = await apiRequest('GET', `/api/conversations/${selectedThread!.userId}/messages${query}`);
+      return res.json();
     },
-    enabled: !!user,
+    enabled: !!user && !!selectedThread,
   });
 
-  // Mark a message as read
-  const markAsReadMutation = useMutation({
-    mutationFn: async (messageId: number) => {
-      const res = await apiRequest('PATCH', `/api/messages/${messageId}/read`);
-      if (!res.ok) {
-        throw new Error('Failed to mark message as read');
-      }
+  // Open the most recent thread by default
+  useEffect(() => {
+    if (!selectedThread && conversations.length > 0) {
+      setSelectedThread(summaryThread(conversations[0]));
+    }
+  }, [conversations, selectedThread]);
+
+  // Mark the whole thread as read, which sends the other dealer a read receipt
+  const markThreadReadMutation = useMutation({
+    mutationFn: async (thread: Thread) => {
+      const res = await apiRequest('POST', `/api/conversations/${thread.userId}/read`, { auctionId: thread.auctionId });
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: 'Error',
-        description: error.message,
-        variant: 'destructive',
-      });
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/messages/unread/count'] });
     },
   });
 
-  // Send a new message
+  // Automatically mark messages as read when their thread is open
+  const selectedUnreadCount = selectedConversation?.unreadCount ?? 0;
+  useEffect(() => {
+    if (selectedThread && selectedUnreadCount > 0 && !markThreadReadMutation.isPending) {
+      markThreadReadMutation.mutate(selectedThread);
+    }
+  }, [selectedThread, selectedUnreadCount]);
+
+  // Show typing indicators sent over the WebSocket
+  useEffect(() => {
+    const handleTyping = (event: Event) => {
+      const { senderId, auctionId } = (event as CustomEvent<{ senderId: number; auctionId: number | null }>).detail;
+      const key = threadKey({ userId: senderId, auctionId });
+      setTypingUntil(current => ({ ...current, [key]: Date.now() + TYPING_TIMEOUT }));
+
+      // Re-render once it lapses so the indicator disappears
+      setTimeout(() => setTypingUntil(current => ({ ...current })), TYPING_TIMEOUT);
+    };
+
+    window.addEventListener('conversation-typing', handleTyping);
+    return () => window.removeEventListener('conversation-typing', handleTyping);
+  }, []);
+
+  const isTyping = (thread: Thread) => (typingUntil[threadKey(thread)] ?? 0) > Date.now();
+
+  // Send a new message, uploading any attachments first
   const sendMessageMutation = useMutation({
-    mutationFn: async (data: { receiverId: number; content: string; auctionId?: number }) => {
-      const res = await apiRequest('POST', '/api/messages', data);
-      if (!res.ok) {
-        throw new Error('Failed to send message');
-      }
+    mutationFn: async (data: { thread: Thread; content: string; files: File[] }) => {
+      const attachments = data.files.length > 0 ? await uploadAttachments(data.files) : [];
+      const res = await apiRequest('POST', '/api/messages', {
+        receiverId: data.thread.userId,
+        auctionId: data.thread.auctionId,
+        content: data.content,
+        attachments,
+      });
       return res.json();
     },
     onSuccess: () => {
       setNewMessage('');
-      queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
-      toast({
-        title: 'Message sent',
-        description: 'Your message has been sent successfully',
-      });
+      setFiles([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
     },
     onError: (error: Error) => {
       toast({
-        title: 'Error',
-        description: error.message,
+        title: 'Message not sent',
+        description: getApiErrorMessage(error),
         variant: 'destructive',
       });
     },
   });
 
-  // Organize messages into conversations by user
-  useEffect(() => {
-    if (messages) {
-      const newConversations: Record<number, Conversation> = {};
-      
-      messages.forEach(message => {
-        // Determine the other user in the conversation
-        const otherUserId = message.senderId === user?.id ? message.receiverId : message.senderId;
-        const isIncoming = message.senderId !== user?.id;
-        
-        // Get or create the conversation
-        if (!newConversations[otherUserId]) {
-          const otherUser = message.otherUser ?? {
-            id: otherUserId,
-            username: `User ${otherUserId}`,
-            companyName: `Company ${otherUserId}`
-          };
-          
-          newConversations[otherUserId] = {
-            userId: otherUserId,
-            username: otherUser.username,
-            companyName: otherUser.companyName,
-            messages: [],
-            unreadCount: 0,
-            lastMessage: message
-          };
-        }
-        
-        // Add message to conversation
-        newConversations[otherUserId].messages.push(message);
-        
-        // Track unread count
-        if (isIncoming && !message.read) {
-          newConversations[otherUserId].unreadCount += 1;
-        }
-        
-        // Update last message if this one is newer
-        const currentLastMessage = newConversations[otherUserId].lastMessage;
-        if (new Date(message.createdAt) > new Date(currentLastMessage.createdAt)) {
-          newConversations[otherUserId].lastMessage = message;
-        }
-      });
-      
-      // Sort messages in each conversation by date (oldest first)
-      Object.values(newConversations).forEach(conversation => {
-        conversation.messages.sort((a, b) => 
-          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-        );
-      });
-      
-      setConversations(newConversations);
-      
-      // If we don't have a selected conversation but have conversations, select the first one
-      if (selectedConversation === null && Object.keys(newConversations).length > 0) {
-        // Find the conversation with the most recent message
-        const mostRecentConversationId = Object.values(newConversations)
-          .sort((a, b) => 
-            new Date(b.lastMessage.createdAt).getTime() - new Date(a.lastMessage.createdAt).getTime()
-          )[0]?.userId;
-        
-        setSelectedConversation(mostRecentConversationId);
-      }
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedThread || (!newMessage.trim() && files.length === 0)) {
+      return;
     }
-  }, [messages, user?.id, selectedConversation]);
 
-  // Automatically mark messages as read when a conversation is selected
-  useEffect(() => {
-    if (selectedConversation && conversations[selectedConversation]) {
-      const unreadMessages = conversations[selectedConversation].messages
-        .filter(msg => msg.receiverId === user?.id && !msg.read)
-        .map(msg => msg.id);
-      
-      // Mark each unread message as read
-      unreadMessages.forEach(messageId => {
-        markAsReadMutation.mutate(messageId);
+    sendMessageMutation.mutate({ thread: selectedThread, content: newMessage.trim(), files });
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+
+    // Let the other dealer know we're typing, at most every few seconds
+    if (selectedThread && value && Date.now() - lastTypingSentAt.current > TYPING_THROTTLE) {
+      lastTypingSentAt.current = Date.now();
+      sendSocketMessage({
+        type: 'typing',
+        data: { receiverId: selectedThread.userId, auctionId: selectedThread.auctionId },
+        timestamp: Date.now(),
       });
     }
-  }, [selectedConversation, conversations, user?.id, markAsReadMutation]);
+  };
 
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedConversation || !newMessage.trim()) {
-      return;
+  const addFiles = (selected: FileList) => {
+    const combined = [...files, ...Array.from(selected)];
+    if (combined.length > MAX_MESSAGE_ATTACHMENTS) {
+      toast({ title: `You can attach at most ${MAX_MESSAGE_ATTACHMENTS} files`, variant: 'destructive' });
     }
-    
-    sendMessageMutation.mutate({
-      receiverId: selectedConversation,
-      content: newMessage.trim()
-    });
+    setFiles(combined.slice(0, MAX_MESSAGE_ATTACHMENTS));
   };
 
   // Calculate total unread messages
-  const totalUnreadMessages = Object.values(conversations).reduce(
-    (total, conversation) => total + conversation.unreadCount, 
+  const totalUnreadMessages = conversations.reduce(
+    (total, conversation) => total + conversation.unreadCount,
     0
   );
 
@@ -225,7 +230,7 @@ const MessagesTab = () => {
         <div className="sticky top-0 bg-gray-900 p-4 border-b border-gray-700">
           <h3 className="text-lg font-bold text-white flex items-center">
             <MessageSquare className="mr-2" />
-            Messages 
+            Messages
             {totalUnreadMessages > 0 && (
               <Badge variant="destructive" className="ml-2">
                 {totalUnreadMessages}
@@ -234,43 +239,49 @@ const MessagesTab = () => {
           </h3>
         </div>
         <div className="divide-y divide-gray-700">
-          {Object.values(conversations).length === 0 ? (
+          {conversations.length === 0 ? (
             <div className="p-4 text-center text-gray-400">
               No messages found.
             </div>
           ) : (
-            Object.values(conversations)
-              // Sort by last message date (newest first)
-              .sort((a, b) => 
-                new Date(b.lastMessage.createdAt).getTime() - 
-                new Date(a.lastMessage.createdAt).getTime()
-              )
-              .map(conversation => (
-                <div 
-                  key={conversation.userId}
-                  className={`p-3 cursor-pointer hover:bg-gray-800 ${
-                    selectedConversation === conversation.userId ? 'bg-gray-800' : ''
-                  }`}
-                  onClick={() => setSelectedConversation(conversation.userId)}
+            conversations.map(conversation => {
+              const thread = summaryThread(conversation);
+              const isSelected = selectedThread !== null && threadKey(thread) === threadKey(selectedThread);
+
+              return (
+                <div
+                  key={threadKey(thread)}
+                  className={`p-3 cursor-pointer hover:bg-gray-800 ${isSelected ? 'bg-gray-800' : ''}`}
+                  onClick={() => setSelectedThread(thread)}
                 >
                   <div className="flex items-start">
                     <Avatar className="h-10 w-10 mr-3">
                       <AvatarFallback className="bg-primary text-white">
-                        {conversation.companyName.substring(0, 2).toUpperCase()}
+                        {conversation.counterpart.companyName.substring(0, 2).toUpperCase()}
                       </AvatarFallback>
                     </Avatar>
                     <div className="flex-1 min-w-0">
                       <div className="flex justify-between items-center">
                         <p className="font-medium text-white truncate">
-                          {conversation.companyName}
+                          {conversation.counterpart.companyName}
                         </p>
                         <p className="text-xs text-gray-400">
-                          {format(new Date(conversation.lastMessage.createdAt), 'MMM d, h:mm a')}
+                          {format(new Date(conversation.lastMessage.createdAt!), 'MMM d, h:mm a')}
                         </p>
                       </div>
+                      <p className="text-xs text-gray-400 truncate">
+                        {conversation.auction ? conversation.auction.title : 'General'}
+                      </p>
+                      <PresenceIndicator presence={getPresence(conversation.counterpart.id)} />
                       <p className="text-sm text-gray-300 truncate">
-                        {conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}
-                        {conversation.lastMessage.content}
+                        {isTyping(thread) ? (
+                          <span className="italic text-gray-400">typing…</span>
+                        ) : (
+                          <>
+                            {conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}
+                            {conversation.lastMessage.content || 'Sent an attachment'}
+                          </>
+                        )}
                       </p>
                       {conversation.unreadCount > 0 && (
                         <Badge variant="destructive" className="mt-1">
@@ -280,55 +291,119 @@ const MessagesTab = () => {
                     </div>
                   </div>
                 </div>
-              ))
+              );
+            })
           )}
         </div>
       </div>
 
       {/* Messages View */}
       <div className="md:col-span-2 flex flex-col h-full">
-        {selectedConversation && conversations[selectedConversation] ? (
+        {selectedThread && selectedConversation ? (
           <Card className="flex flex-col h-full border border-gray-700 bg-gray-900">
             <CardHeader className="bg-gray-800 border-b border-gray-700 py-4">
               <CardTitle className="text-white flex items-center">
                 <Avatar className="h-8 w-8 mr-2">
                   <AvatarFallback className="bg-primary text-white">
-                    {conversations[selectedConversation].companyName.substring(0, 2).toUpperCase()}
+                    {selectedConversation.counterpart.companyName.substring(0, 2).toUpperCase()}
                   </AvatarFallback>
                 </Avatar>
-                {conversations[selectedConversation].companyName}
+                <div>
+                  <div>{selectedConversation.counterpart.companyName}</div>
+                  <div className="text-xs font-normal text-gray-400">
+                    {selectedConversation.auction ? (
+                      <a href={`/auctions/${selectedConversation.auction.id}`} className="underline">
+                        {selectedConversation.auction.title}
+                      </a>
+                    ) : 'General'}
+                  </div>
+                  <PresenceIndicator presence={getPresence(selectedThread.userId)} className="font-normal" />
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="flex-1 overflow-y-auto p-4 space-y-4">
-              {conversations[selectedConversation].messages.map(message => (
-                <div 
-                  key={message.id} 
-                  className={`flex items-start ${
-                    message.senderId === user?.id ? 'justify-end' : 'justify-start'
-                  }`}
-                >
-                  <div 
-                    className={`max-w-[80%] p-3 rounded-lg ${
-                      message.senderId === user?.id 
-                        ? 'bg-primary text-white ml-auto' 
-                        : 'bg-gray-800 text-white'
-                    }`}
+              {threadMessages.map(message => {
+                const isOwn = message.senderId === user?.id;
+
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex items-start ${isOwn ? 'justify-end' : 'justify-start'}`}
                   >
-                    <p>{message.content}</p>
-                    <p className="text-xs opacity-70 mt-1">
-                      {format(new Date(message.createdAt), 'MMM d, h:mm a')}
-                    </p>
+                    <div
+                      className={`max-w-[80%] p-3 rounded-lg ${
+                        isOwn ? 'bg-primary text-white ml-auto' : 'bg-gray-800 text-white'
+                      }`}
+                    >
+                      {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+                      {message.attachments.length > 0 && <AttachmentList attachments={message.attachments} />}
+                      <p className="text-xs opacity-70 mt-1 flex items-center gap-1">
+                        {format(new Date(message.createdAt!), 'MMM d, h:mm a')}
+                        {/* Read receipt on our own messages */}
+                        {isOwn && (message.readAt ? (
+                          <span className="flex items-center gap-0.5" title={`Read ${format(new Date(message.readAt), 'MMM d, h:mm a')}`}>
+                            <CheckCheck className="h-3 w-3" /> Read
+                          </span>
+                        ) : (
+                          <span title="Sent">
+                            <Check className="h-3 w-3" />
+                          </span>
+                        ))}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
+              {isTyping(selectedThread) && (
+                <p className="text-sm italic text-gray-400">
+                  {selectedConversation.counterpart.companyName} is typing…
+                </p>
+              )}
             </CardContent>
-            <CardFooter className="border-t border-gray-700 p-3 mt-auto">
+            <CardFooter className="border-t border-gray-700 p-3 mt-auto flex-col gap-2">
+              {files.length > 0 && (
+                <div className="flex w-full flex-wrap gap-2">
+                  {files.map((file, index) => (
+                    <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                      {file.name}
+                      <button
+                        type="button"
+                        onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                        aria-label={`Remove ${file.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
               <form onSubmit={handleSendMessage} className="flex w-full gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={MESSAGE_ATTACHMENT_TYPES.join(',')}
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files?.length) addFiles(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="h-full"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={files.length >= MAX_MESSAGE_ATTACHMENTS}
+                  aria-label="Attach files"
+                >
+                  <Paperclip className="h-5 w-5" />
+                </Button>
                 <Textarea
                   className="flex-1 bg-gray-800 border-gray-700 focus:border-gray-500"
                   placeholder="Type your message..."
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
+                  onChange={(e) => handleMessageChange(e.target.value)}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
@@ -336,10 +411,10 @@ const MessagesTab = () => {
                     }
                   }}
                 />
-                <Button 
-                  type="submit" 
+                <Button
+                  type="submit"
                   className="h-full"
-                  disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                  disabled={(!newMessage.trim() && files.length === 0) || sendMessageMutation.isPending}
                 >
                   <Send className="h-5 w-5" />
                 </Button>
@@ -356,4 +431,4 @@ const MessagesTab = () => {
   );
 };
 
-export default MessagesTab;
\ No newline at end of file
+export default MessagesTab;
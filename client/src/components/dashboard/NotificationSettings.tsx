@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient, getApiErrorMessage } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BellRing, Moon } from 'lucide-react';
+import {
+  NotificationChannel,
+  NotificationSettings as NotificationSettingsData,
+  NotificationType,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  REQUIRED_IN_APP_NOTIFICATION_TYPES
+} from '@shared/schema';
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+// Choose how each type of notification arrives, and when texts and pushes should wait
+export default function NotificationSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<NotificationSettingsData | null>(null);
+
+  const { data: settings, isLoading } = useQuery<NotificationSettingsData>({
+    queryKey: ['/api/notification-preferences'],
+  });
+
+  // Edit a copy, so changes are only kept once saved
+  useEffect(() => {
+    if (settings) setDraft(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (preferences: NotificationSettingsData) => {
+      const res = await apiRequest('PUT', '/api/notification-preferences', preferences);
+      return res.json();
+    },
+    onSuccess: (saved: NotificationSettingsData) => {
+      queryClient.setQueryData(['/api/notification-preferences'], saved);
+      toast({ title: 'Notification settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your settings", description: getApiErrorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const quietHoursOn = draft.quietHoursStart !== null;
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel, checked: boolean) => {
+    const current = draft.channels[type];
+    setDraft({
+      ...draft,
+      channels: {
+        ...draft.channels,
+        [type]: checked ? [...current, channel] : current.filter(existing => existing !== channel)
+      }
+    });
+  };
+
+  const isChannelLocked = (type: NotificationType, channel: NotificationChannel) =>
+    (channel === 'in_app' && REQUIRED_IN_APP_NOTIFICATION_TYPES.includes(type)) ||
+    (channel === 'sms' && !user?.phone && !draft.channels[type].includes('sms'));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Notification Settings
+        </CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of update. Untick every box to turn one off.
+          {!user?.phone && ' Add a phone number to your account to get texts.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="py-2 pr-4 text-left font-medium">Notification</th>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <th key={channel} className="py-2 px-3 text-center font-medium">{NOTIFICATION_CHANNEL_LABELS[channel]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {NOTIFICATION_TYPES.map(type => (
+                <tr key={type}>
+                  <td className="py-2 pr-4">{NOTIFICATION_TYPE_LABELS[type]}</td>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <td key={channel} className="py-2 px-3 text-center">
+                      <Checkbox
+                        checked={draft.channels[type].includes(channel)}
+                        disabled={isChannelLocked(type, channel)}
+                        onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                        aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">Account and moderation notices always appear in-app.</p>
+        </div>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="quiet-hours" className="flex items-center gap-2">
+                <Moon className="h-4 w-4" />
+                Quiet hours
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                No texts or push notifications during these hours. They'll be waiting for you in-app instead.
+              </p>
+            </div>
+            <Switch
+              id="quiet-hours"
+              checked={quietHoursOn}
+              onCheckedChange={(checked) => setDraft({
+                ...draft,
+                quietHoursStart: checked ? DEFAULT_QUIET_HOURS.start : null,
+                quietHoursEnd: checked ? DEFAULT_QUIET_HOURS.end : null,
+                timezone: checked && !settings?.quietHoursStart ? browserTimezone : draft.timezone
+              })}
+            />
+          </div>
+
+          {quietHoursOn && (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-start" className="text-xs">From</Label>
+                <Input
+                  id="quiet-hours-start"
+                  type="time"
+                  className="w-32"
+                  value={draft.quietHoursStart ?? ''}
+                  onChange={(event) => setDraft({ ...draft, quietHoursStart: event.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-end" className="text-xs">Until</Label>
+                <Input
+                  id="quiet-hours-end"
+                  type="time"
+                  className="w-32"
+                  value={draft.quietHoursEnd ?? ''}
+                  onChange={(event) => setDraft({ ...draft, quietHoursEnd: event.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground pb-2">Times are in {draft.timezone.replace(/_/g, ' ')}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={!settings || saveMutation.isPending} onClick={() => settings && setDraft(settings)}>
+            Reset
+          </Button>
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate(draft)}>
+            Save settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
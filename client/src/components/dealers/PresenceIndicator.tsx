@@ -0,0 +1,24 @@
+import { formatDistanceToNow } from 'date-fns';
+import { UserPresence } from '@shared/types';
+import { cn } from '@/lib/utils';
+
+interface PresenceIndicatorProps {
+  presence?: UserPresence;
+  className?: string;
+}
+
+// Green dot and "Online", or "Last seen ..." for dealers who have left
+export default function PresenceIndicator({ presence, className }: PresenceIndicatorProps) {
+  if (!presence || (!presence.online && !presence.lastSeenAt)) return null;
+
+  const label = presence.online
+    ? 'Online'
+    : `Last seen ${formatDistanceToNow(new Date(presence.lastSeenAt!), { addSuffix: true })}`;
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs text-muted-foreground', className)} title={label}>
+      <span className={cn('h-2 w-2 rounded-full', presence.online ? 'bg-green-500' : 'bg-gray-400')} aria-hidden="true" />
+      {label}
+    </span>
+  );
+}
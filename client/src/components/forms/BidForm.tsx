@@ -2,15 +2,16 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
-import { useWebSocket } from '@/hooks/use-websocket';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
+import { AuctionWithDetails } from '@shared/types';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -28,12 +29,22 @@ interface BidFormProps {
 export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
   const { user } = useAuth();
   const [_, navigate] = useLocation();
-  const { sendMessage } = useWebSocket();
   const { toast } = useToast();
+  
+  const { data: auction } = useQuery<AuctionWithDetails>({
+    queryKey: [`/api/auctions/${auctionId}`],
+  });
+  
+  // Automatic bidding is only offered where bidders can see the current bid
+  const isOpenAuction = !!auction && auction.auctionType !== 'blind';
+  const minimumBid = isOpenAuction && auction.currentBid
+    ? auction.currentBid + auction.bidIncrement
+    : undefined;
 
   // Create zod schema for bid validation
   const bidSchema = z.object({
     amount: z.string().min(1, "Bid amount is required"),
+    maxAmount: z.string().optional(),
     comments: z.string().optional(),
   });
 
@@ -43,6 +54,7 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
     resolver: zodResolver(bidSchema),
     defaultValues: {
       amount: '',
+      maxAmount: '',
       comments: '',
     },
   });
@@ -54,6 +66,7 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
         const res = await apiRequest("POST", "/api/bids", {
           auctionId,
           amount: parseInt(data.amount, 10),
+          maxAmount: isOpenAuction && data.maxAmount ? parseInt(data.maxAmount, 10) : null,
           comments: data.comments,
         });
         
@@ -69,22 +82,19 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
       }
     },
     onSuccess: (data) => {
-      toast({
-        title: isStock ? "Offer submitted successfully" : "Bid placed successfully",
-        description: `Your ${isStock ? 'offer' : 'bid'} has been placed. Check "My Bids" to track its status.`,
-      });
-      
-      // Send WebSocket notification about the new bid to update dealer stats
-      sendMessage({
-        type: 'new_bid',
-        data: {
-          bidId: data.id,
-          auctionId: auctionId,
-          dealerId: user?.id || 0,
-          amount: data.amount
-        },
-        timestamp: Date.now()
-      });
+      if (data.isLeading === false) {
+        // Another dealer's maximum bid responded straight away
+        toast({
+          title: "You've been outbid",
+          description: `Another dealer's maximum bid was higher. The current bid is now £${data.currentBid.toLocaleString()}.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: isStock ? "Offer submitted successfully" : "Bid placed successfully",
+          description: `Your ${isStock ? 'offer' : 'bid'} has been placed. Check "My Bids" to track its status.`,
+        });
+      }
       
       // Invalidate queries to refresh the auction data
       queryClient.invalidateQueries({ queryKey: [`/api/auctions/${auctionId}`] });
@@ -92,7 +102,7 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       
       // Reset form
-      form.reset({ amount: '', comments: '' });
+      form.reset({ amount: '', maxAmount: '', comments: '' });
       
       // Redirect to dashboard after successful bid
       setTimeout(() => {
@@ -130,6 +140,25 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
       return;
     }
     
+    if (minimumBid && amount < minimumBid) {
+      toast({
+        title: "Bid too low",
+        description: `Your bid must be at least £${minimumBid.toLocaleString()}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const maxAmount = data.maxAmount ? parseInt(data.maxAmount, 10) : null;
+    if (maxAmount !== null && (isNaN(maxAmount) || maxAmount < amount)) {
+      toast({
+        title: "Invalid maximum bid",
+        description: "Your maximum bid must be a number no lower than your bid.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     bidMutation.mutate(data);
   }
 
@@ -138,6 +167,11 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
       <h4 className="text-sm font-medium text-muted-foreground mb-2">
         {isStock ? 'Make Offer on Stock' : 'Place Your Bid'}
       </h4>
+      {auction?.auctionType === 'reserve' && (
+        <p className={`text-xs mb-2 ${auction.reserveMet ? 'text-green-600' : 'text-amber-600'}`}>
+          {auction.reserveMet ? 'Reserve met - this bike will sell to the highest bidder' : 'Reserve not yet met'}
+        </p>
+      )}
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
           <FormField
@@ -158,11 +192,42 @@ export default function BidForm({ auctionId, isStock = false }: BidFormProps) {
                     />
                   </FormControl>
                 </div>
+                {minimumBid && (
+                  <FormDescription>Minimum bid £{minimumBid.toLocaleString()}</FormDescription>
+                )}
                 <FormMessage />
               </FormItem>
             )}
           />
           
+          {isOpenAuction && !isStock && (
+            <FormField
+              control={form.control}
+              name="maxAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum Bid (Optional)</FormLabel>
+                  <div className="relative flex items-center">
+                    <span className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      £
+                    </span>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="Bid automatically up to"
+                        className="pl-7"
+                      />
+                    </FormControl>
+                  </div>
+                  <FormDescription>
+                    We'll bid for you in £{auction.bidIncrement.toLocaleString()} steps when you're outbid, up to this amount. Other dealers never see it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          
           <FormField
             control={form.control}
             name="comments"
@@ -1,14 +1,23 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation } from '@tanstack/react-query';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient, getApiErrorMessage } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { insertMotorcycleSchema } from '@shared/schema';
-import { useWebSocket } from '@/hooks/use-websocket';
+import {
+  insertMotorcycleSchema,
+  MAX_MOTORCYCLE_IMAGES,
+  AUCTION_TYPES,
+  CONDITION_GRADE_LABELS,
+  regNumberSchema,
+  formatRegNumber,
+  computeConditionGrade,
+} from '@shared/schema';
+import { uploadMotorcycleImage } from '@/lib/imageUpload';
+import ConditionReportEditor, { emptyConditionReport } from '@/components/forms/ConditionReportEditor';
 import {
   Form,
   FormControl,
@@ -31,7 +40,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Loader2, Plus, Upload, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Plus, Search, Upload, X } from 'lucide-react';
 
 // Condition options
 const conditionOptions = [
@@ -86,6 +97,29 @@ const uploadSchema = insertMotorcycleSchema.extend({
   engineSize: z.string().optional(),
   description: z.string().optional(),
   
+  // Auction format
+  auctionType: z.enum(AUCTION_TYPES),
+  bidIncrement: z.preprocess(
+    (val) => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().positive("Bid increment must be a positive amount").optional(),
+  ),
+  reservePrice: z.preprocess(
+    (val) => (val === '' || val == null ? null : Number(val)),
+    z.number().int().positive("Reserve price must be a positive amount").nullable().optional(),
+  ),
+  buyNowPrice: z.preprocess(
+    (val) => (val === '' || val == null ? null : Number(val)),
+    z.number().int().positive("Buy-now price must be a positive amount").nullable().optional(),
+  ),
+  softCloseMinutes: z.preprocess(
+    (val) => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().min(0).max(60, "The soft-close window cannot be longer than 60 minutes").optional(),
+  ),
+  softCloseExtensionMinutes: z.preprocess(
+    (val) => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().min(1, "Extensions must be at least 1 minute").max(60, "Extensions cannot be longer than 60 minutes").optional(),
+  ),
+  
   // Visibility options
   visibilityType: z.enum(['all', 'favorites', 'radius'], {
     required_error: "Please select who can see your listing",
@@ -104,19 +138,42 @@ const uploadSchema = insertMotorcycleSchema.extend({
     (a) => a ? new Date(z.string().parse(a)) : undefined,
     z.date().optional()
   ),
-  regNumber: z.string().optional(),
+  regNumber: z.union([z.literal(''), regNumberSchema]).optional(),
+}).refine(values => values.auctionType !== 'reserve' || !!values.reservePrice, {
+  message: "A reserve price is required for reserve auctions",
+  path: ['reservePrice'],
+}).refine(values => !values.buyNowPrice || values.auctionType !== 'reserve' || !values.reservePrice || values.buyNowPrice >= values.reservePrice, {
+  message: "Buy-now price cannot be lower than the reserve price",
+  path: ['buyNowPrice'],
 });
 
 type UploadFormValues = z.infer<typeof uploadSchema>;
 
+// Vehicle details returned by GET /api/vehicle-lookup/:reg
+interface VehicleLookupResult {
+  regNumber: string;
+  make: string;
+  model: string | null;
+  year: number | null;
+  engineCapacity: number | null;
+  colour: string | null;
+}
+
+// An image selected in the form, uploaded in the background as soon as it is picked
+interface ListingImage {
+  id: string;
+  previewUrl: string;
+  progress: number;
+  url?: string; // Set once the server has stored the image
+  error?: string;
+}
+
 export default function BikeUploadForm() {
   const { user } = useAuth();
   const [_, navigate] = useLocation();
   const { toast } = useToast();
-  const { sendMessage } = useWebSocket();
   
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [images, setImages] = useState<ListingImage[]>([]);
   const [isUploading, setIsUploading] = useState(false);
 
   // Define listing duration options
@@ -127,6 +184,13 @@ export default function BikeUploadForm() {
     { value: '1month', label: '1 month' },
   ];
   
+  // Define auction format options
+  const auctionTypeOptions = [
+    { value: 'blind', label: 'Blind', description: 'Sealed bids - only you see the amounts and choose which to accept' },
+    { value: 'open', label: 'Open Ascending', description: 'Bidders see the current bid and must beat it by your minimum increment' },
+    { value: 'reserve', label: 'Reserve', description: 'Open ascending bidding, but it only sells if your hidden reserve price is met' },
+  ];
+  
   // Define visibility options
   const visibilityOptions = [
     { value: 'all', label: 'All Buyers', description: 'Show to all registered buyers' },
@@ -149,12 +213,21 @@ export default function BikeUploadForm() {
       auctionDuration: '1day',
       images: [],
       
+      // Auction format
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
+      
       // Visibility options
       visibilityType: 'all',
       visibilityRadius: null,
       
       // Fields from the site plan
       regNumber: '',
+      conditionReport: null,
       serviceHistory: '',
       tyreCondition: '',
       accessories: '',
@@ -163,47 +236,72 @@ export default function BikeUploadForm() {
     },
   });
 
+  // With an inspection report, the headline condition is its computed grade
+  const conditionReport = form.watch('conditionReport');
+  const reportGrade = conditionReport ? computeConditionGrade(conditionReport) : null;
+  useEffect(() => {
+    if (reportGrade) form.setValue('condition', CONDITION_GRADE_LABELS[reportGrade]);
+  }, [reportGrade]);
+
+  const updateImage = (id: string, changes: Partial<ListingImage>) => {
+    setImages(prev => prev.map(image => image.id === id ? { ...image, ...changes } : image));
+  };
+
+  // Upload a selected image, tracking its progress
+  const startImageUpload = async (image: ListingImage, file: File) => {
+    try {
+      const uploaded = await uploadMotorcycleImage(file, progress => updateImage(image.id, { progress }));
+      updateImage(image.id, { url: uploaded.url, progress: 100 });
+    } catch (error: any) {
+      updateImage(image.id, { error: error.message || "Upload failed" });
+      toast({
+        title: `Failed to upload ${file.name}`,
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Handle image selection
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const filesArray = Array.from(e.target.files);
       
-      // Limit to 20 images
-      const maxImages = 20;
-      const newFiles = filesArray.slice(0, maxImages - imageFiles.length);
+      // Limit to the maximum the server accepts
+      const newFiles = filesArray.slice(0, MAX_MOTORCYCLE_IMAGES - images.length);
       
-      if (imageFiles.length + newFiles.length > maxImages) {
+      if (images.length + filesArray.length > MAX_MOTORCYCLE_IMAGES) {
         toast({
-          title: `Maximum ${maxImages} images allowed`,
-          description: `You can upload a maximum of ${maxImages} images per motorcycle.`,
+          title: `Maximum ${MAX_MOTORCYCLE_IMAGES} images allowed`,
+          description: `You can upload a maximum of ${MAX_MOTORCYCLE_IMAGES} images per motorcycle.`,
           variant: "destructive",
         });
       }
       
-      setImageFiles(prev => [...prev, ...newFiles]);
+      // Create URLs for preview and start uploading straight away
+      const newImages = newFiles.map(file => ({
+        id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        previewUrl: URL.createObjectURL(file),
+        progress: 0
+      }));
+      setImages(prev => [...prev, ...newImages]);
+      newImages.forEach((image, index) => startImageUpload(image, newFiles[index]));
       
-      // Create URLs for preview
-      const newUrls = newFiles.map(file => URL.createObjectURL(file));
-      setImageUrls(prev => [...prev, ...newUrls]);
+      // Allow the same file to be selected again after removing it
+      e.target.value = '';
     }
   };
 
   // Remove an image from the selection
-  const removeImage = (index: number) => {
-    setImageFiles(prev => prev.filter((_, i) => i !== index));
+  const removeImage = (id: string) => {
+    const image = images.find(image => image.id === id);
     
-    // Also remove from preview and revoke the URL to prevent memory leaks
-    URL.revokeObjectURL(imageUrls[index]);
-    setImageUrls(prev => prev.filter((_, i) => i !== index));
+    // Revoke the preview URL to prevent memory leaks
+    if (image) URL.revokeObjectURL(image.previewUrl);
+    setImages(prev => prev.filter(image => image.id !== id));
   };
 
-  // Handle image upload using local URLs for development
-  const uploadImages = async (files: File[]): Promise<string[]> => {
-    // In a production implementation, you would upload each file to cloud storage
-    // For now, we'll use the existing object URLs that we created for the previews
-    // This is just for development, as these URLs will not persist after the page reloads
-    return imageUrls;
-  };
+  const imagesUploading = images.some(image => !image.url && !image.error);
 
   // Convert auction duration to milliseconds
   const getDurationMs = (duration: string): number => {
@@ -220,13 +318,53 @@ export default function BikeUploadForm() {
     }
   };
 
+  // Look the registration up and prefill the details we get back
+  const lookupMutation = useMutation({
+    mutationFn: async (regNumber: string) => {
+      const res = await apiRequest('GET', `/api/vehicle-lookup/${encodeURIComponent(regNumber)}`);
+      return await res.json() as VehicleLookupResult;
+    },
+    onSuccess: (vehicle) => {
+      const options = { shouldValidate: true, shouldDirty: true };
+      form.setValue('regNumber', vehicle.regNumber, options);
+      form.setValue('make', motorcycleMakes.find(make => make.toUpperCase() === vehicle.make.toUpperCase()) || 'Other', options);
+      if (vehicle.model) form.setValue('model', vehicle.model, options);
+      if (vehicle.year) form.setValue('year', vehicle.year, options);
+      if (vehicle.engineCapacity) form.setValue('engineSize', `${vehicle.engineCapacity}cc`, options);
+      if (vehicle.colour) {
+        form.setValue('color', colorOptions.find(color => color.toUpperCase() === vehicle.colour!.toUpperCase()) || 'Custom', options);
+      }
+      
+      toast({
+        title: "Details filled in",
+        description: `Check the details for ${vehicle.regNumber} before listing.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration lookup failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const lookUpReg = () => {
+    const regNumber = form.getValues('regNumber') || '';
+    if (!formatRegNumber(regNumber)) {
+      form.setError('regNumber', { message: "Enter a valid UK registration, e.g. AB12 CDE" });
+      return;
+    }
+    lookupMutation.mutate(regNumber);
+  };
+
   // Create motorcycle and auction mutation
   const createAuctionMutation = useMutation({
     mutationFn: async (data: UploadFormValues) => {
       setIsUploading(true);
       try {
-        // First, mock upload the images
-        const imageUrls = await uploadImages(imageFiles);
+        // Images are uploaded as they are selected; only keep the ones that succeeded
+        const imageUrls = images.filter(image => image.url).map(image => image.url!);
         
         // Ensure dealerId is in the data object
         if (!data.dealerId && user) {
@@ -257,6 +395,12 @@ export default function BikeUploadForm() {
           endTime: endTime.toISOString(),      // Convert to ISO string for proper serialization
           visibilityType: data.visibilityType,
           visibilityRadius: data.visibilityType === 'radius' ? data.visibilityRadius : null,
+          auctionType: data.auctionType,
+          bidIncrement: data.auctionType === 'blind' ? undefined : data.bidIncrement,
+          reservePrice: data.auctionType === 'reserve' ? data.reservePrice : null,
+          buyNowPrice: data.buyNowPrice || null,
+          softCloseMinutes: data.softCloseMinutes,
+          softCloseExtensionMinutes: data.softCloseExtensionMinutes,
         });
         
         return await auctionRes.json();
@@ -270,13 +414,6 @@ export default function BikeUploadForm() {
         description: "Your motorcycle has been listed for underwrite.",
       });
       
-      // Send WebSocket notification about new listing
-      sendMessage({
-        type: "auction_created",
-        data: { auctionId: auction.id },
-        timestamp: Date.now()
-      });
-      
       // Invalidate auctions query to update lists
       queryClient.invalidateQueries({ queryKey: ['/api/auctions'] });
       queryClient.invalidateQueries({ queryKey: ['/api/auctions/dealer'] });
@@ -315,6 +452,15 @@ export default function BikeUploadForm() {
     
     console.log("Form data with dealerId set:", formDataWithId);
     
+    if (imagesUploading) {
+      toast({
+        title: "Images still uploading",
+        description: "Please wait for your images to finish uploading.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     // Images are optional now
     createAuctionMutation.mutate(formDataWithId);
   }
@@ -336,6 +482,50 @@ export default function BikeUploadForm() {
         });
       })} className="space-y-8">
         
+        {/* Registration Number */}
+        <div>
+          <h2 className="text-lg font-semibold text-gray-100 mb-4">Registration Information</h2>
+          <FormField
+            control={form.control}
+            name="regNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Registration Number</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input 
+                      {...field} 
+                      placeholder="e.g. AB12 CDE" 
+                      className="uppercase"
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          lookUpReg();
+                        }
+                      }}
+                    />
+                  </FormControl>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={lookUpReg}
+                    disabled={!field.value || lookupMutation.isPending}
+                  >
+                    {lookupMutation.isPending
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <Search className="mr-2 h-4 w-4" />}
+                    Look up reg
+                  </Button>
+                </div>
+                <FormDescription>Look up the registration to fill in the make, year, engine size and colour</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        
+        <Separator />
+        
         {/* Basic Details Section */}
         <div>
           <h2 className="text-lg font-semibold text-gray-100 mb-4">Basic Details</h2>
@@ -347,7 +537,7 @@ export default function BikeUploadForm() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Make *</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select a make" />
@@ -458,7 +648,7 @@ export default function BikeUploadForm() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Color</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select a color" />
@@ -481,7 +671,7 @@ export default function BikeUploadForm() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Condition</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={!!conditionReport}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select condition" />
@@ -500,28 +690,6 @@ export default function BikeUploadForm() {
           </div>
         </div>
         
-        {/* Registration Number */}
-        <div>
-          <h2 className="text-lg font-semibold text-gray-100 mb-4">Registration Information</h2>
-          <FormField
-            control={form.control}
-            name="regNumber"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Registration Number</FormLabel>
-                <FormControl>
-                  <Input 
-                    {...field} 
-                    placeholder="Enter registration number" 
-                  />
-                </FormControl>
-                <FormDescription>Enter the vehicle registration number</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
-        
         <Separator />
         
         {/* Additional Vehicle Details Section */}
@@ -650,6 +818,35 @@ export default function BikeUploadForm() {
         
         <Separator />
         
+        {/* Condition Report Section */}
+        <FormField
+          control={form.control}
+          name="conditionReport"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-100">Condition Report</h2>
+                  <FormDescription>Grade each part and mark any damage so buyers can bid with confidence</FormDescription>
+                </div>
+                <Switch
+                  checked={!!field.value}
+                  onCheckedChange={(checked) => field.onChange(checked ? emptyConditionReport : null)}
+                  aria-label="Add a condition report"
+                />
+              </div>
+              {field.value && (
+                <ConditionReportEditor value={field.value} onChange={field.onChange} />
+              )}
+              {form.formState.errors.conditionReport && (
+                <p className="text-sm font-medium text-destructive">Describe each marked area of damage</p>
+              )}
+            </FormItem>
+          )}
+        />
+        
+        <Separator />
+        
         {/* Description Section */}
         <div>
           <h2 className="text-lg font-semibold text-gray-100 mb-4">Description</h2>
@@ -678,7 +875,7 @@ export default function BikeUploadForm() {
           <h2 className="text-lg font-semibold text-gray-100 mb-4">Images</h2>
           
           <div className="mb-4">
-            <Label htmlFor="images">Upload Images (max 20)</Label>
+            <Label htmlFor="images">Upload Images (max {MAX_MOTORCYCLE_IMAGES})</Label>
             <div className="mt-2 flex items-center">
               <label className="cursor-pointer inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary">
                 <Upload className="h-4 w-4 mr-2" />
@@ -690,27 +887,35 @@ export default function BikeUploadForm() {
                   multiple
                   onChange={handleImageChange}
                   className="sr-only"
-                  disabled={imageFiles.length >= 5}
+                  disabled={images.length >= MAX_MOTORCYCLE_IMAGES}
                 />
               </label>
               <span className="ml-2 text-sm text-gray-500">
-                {imageFiles.length} of 5 images selected
+                {images.length} of {MAX_MOTORCYCLE_IMAGES} images selected
               </span>
             </div>
           </div>
           
-          {imageUrls.length > 0 && (
+          {images.length > 0 && (
             <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
-              {imageUrls.map((url, index) => (
-                <div key={index} className="relative group">
+              {images.map((image, index) => (
+                <div key={image.id} className="relative group">
                   <img
-                    src={url}
+                    src={image.previewUrl}
                     alt={`Preview ${index + 1}`}
-                    className="h-32 w-full object-cover rounded-md"
+                    className={`h-32 w-full object-cover rounded-md ${image.url ? '' : 'opacity-60'}`}
                   />
+                  {!image.url && !image.error && (
+                    <Progress value={image.progress} className="absolute bottom-2 left-2 right-2 w-auto h-1.5" />
+                  )}
+                  {image.error && (
+                    <span className="absolute bottom-1 left-1 right-1 bg-red-500/90 text-white text-xs rounded px-1 py-0.5 truncate">
+                      {image.error}
+                    </span>
+                  )}
                   <button
                     type="button"
-                    onClick={() => removeImage(index)}
+                    onClick={() => removeImage(image.id)}
                     className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
                   >
                     <X className="h-4 w-4" />
@@ -755,6 +960,177 @@ export default function BikeUploadForm() {
               )}
             />
             
+            {/* Auction Format */}
+            <div>
+              <h3 className="text-md font-semibold text-gray-100 mb-2">Auction Format *</h3>
+              <FormField
+                control={form.control}
+                name="auctionType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                        className="space-y-3"
+                      >
+                        {auctionTypeOptions.map((option) => (
+                          <div key={option.value} className="flex items-start space-x-2 p-2 rounded-md border border-gray-700 hover:border-blue-500 bg-gray-800 hover:bg-gray-700">
+                            <RadioGroupItem value={option.value} id={`auction-type-${option.value}`} className="mt-1" />
+                            <div>
+                              <Label htmlFor={`auction-type-${option.value}`} className="font-medium text-white">{option.label}</Label>
+                              <p className="text-sm text-gray-300">{option.description}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {/* Increment and reserve - only for formats where bidders see the current bid */}
+              {form.watch('auctionType') !== 'blind' && (
+                <div className="mt-4 ml-6 flex flex-wrap gap-6">
+                  <FormField
+                    control={form.control}
+                    name="bidIncrement"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Bid Increment (£)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            min={1}
+                            placeholder="e.g. 50"
+                            className="w-32"
+                            value={field.value ?? ''}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {form.watch('auctionType') === 'reserve' && (
+                    <FormField
+                      control={form.control}
+                      name="reservePrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Reserve Price (£)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              onChange={(e) => field.onChange(e.target.value)}
+                              min={1}
+                              placeholder="e.g. 5000"
+                              className="w-40"
+                              value={field.value ?? ''}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Hidden from bidders - they only see whether it has been met
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              )}
+              
+              {/* Optional price a buyer can pay to end the auction immediately */}
+              <FormField
+                control={form.control}
+                name="buyNowPrice"
+                render={({ field }) => (
+                  <FormItem className="mt-4 ml-6">
+                    <FormLabel>Buy-Now Price (£, optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        onChange={(e) => field.onChange(e.target.value)}
+                        min={1}
+                        placeholder="e.g. 7500"
+                        className="w-40"
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      A buyer can pay this to win the bike straight away and end the auction
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {/* Soft close - late bids push the end time back so dealers can respond */}
+              <div className="mt-4 ml-6 flex flex-wrap gap-6">
+                <FormField
+                  control={form.control}
+                  name="softCloseMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Soft-Close Window (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          min={0}
+                          max={60}
+                          className="w-32"
+                          value={field.value ?? ''}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Bids this close to the end extend the auction (0 to turn off)
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="softCloseExtensionMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Extend By (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          min={1}
+                          max={60}
+                          className="w-32"
+                          value={field.value ?? ''}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            
             {/* Visibility Options */}
             <div>
               <h3 className="text-md font-semibold text-gray-100 mb-2">Listing Visibility *</h3>
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { uploadMotorcycleImage, getThumbnailUrl } from '@/lib/imageUpload';
+import BikeOutline from '@/components/auctions/BikeOutline';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Camera, Loader2, Trash2 } from 'lucide-react';
+import {
+  ConditionReportFields,
+  DamageMarker,
+  CONDITION_REPORT_COMPONENTS,
+  CONDITION_REPORT_COMPONENT_LABELS,
+  CONDITION_GRADE_LABELS,
+  DAMAGE_SEVERITIES,
+  MIN_LEGAL_TREAD_DEPTH_MM,
+  MAX_DAMAGE_MARKERS,
+  MAX_DAMAGE_PHOTOS,
+  computeConditionGrade,
+} from '@shared/schema';
+
+const gradeOptions = [5, 4, 3, 2, 1];
+
+// Starting point for a new report, which the dealer then adjusts
+export const emptyConditionReport: ConditionReportFields = {
+  components: { frame: 4, forks: 4, engine: 4, electrics: 4, brakes: 4 },
+  frontTreadMm: 3,
+  rearTreadMm: 3,
+  damage: [],
+};
+
+interface ConditionReportEditorProps {
+  value: ConditionReportFields;
+  onChange: (report: ConditionReportFields) => void;
+}
+
+// Per-component grading, tyre tread depths and a damage map with photos
+export default function ConditionReportEditor({ value, onChange }: ConditionReportEditorProps) {
+  const { toast } = useToast();
+  const [selectedMarker, setSelectedMarker] = useState<number | null>(null);
+  const [uploadingMarker, setUploadingMarker] = useState<number | null>(null);
+
+  const overallGrade = computeConditionGrade(value);
+
+  const updateMarker = (index: number, changes: Partial<DamageMarker>) => {
+    onChange({
+      ...value,
+      damage: value.damage.map((marker, i) => i === index ? { ...marker, ...changes } : marker),
+    });
+  };
+
+  const addMarker = (x: number, y: number) => {
+    if (value.damage.length >= MAX_DAMAGE_MARKERS) {
+      toast({ title: `You can mark at most ${MAX_DAMAGE_MARKERS} areas of damage`, variant: 'destructive' });
+      return;
+    }
+    onChange({ ...value, damage: [...value.damage, { x, y, severity: 'minor', note: '', photos: [] }] });
+    setSelectedMarker(value.damage.length);
+  };
+
+  const removeMarker = (index: number) => {
+    onChange({ ...value, damage: value.damage.filter((_, i) => i !== index) });
+    setSelectedMarker(null);
+  };
+
+  // Upload photos of a damaged area and link them to its marker
+  const addPhotos = async (index: number, files: FileList) => {
+    const marker = value.damage[index];
+    const selected = Array.from(files).slice(0, MAX_DAMAGE_PHOTOS - marker.photos.length);
+
+    setUploadingMarker(index);
+    try {
+      const uploaded = await Promise.all(selected.map(file => uploadMotorcycleImage(file)));
+      updateMarker(index, { photos: [...marker.photos, ...uploaded.map(image => image.url)] });
+    } catch (error: any) {
+      toast({ title: 'Failed to upload photo', description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setUploadingMarker(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-400">Overall grade</span>
+        <Badge>{overallGrade}/5 - {CONDITION_GRADE_LABELS[overallGrade]}</Badge>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {CONDITION_REPORT_COMPONENTS.map(component => (
+          <div key={component} className="space-y-1">
+            <Label>{CONDITION_REPORT_COMPONENT_LABELS[component]}</Label>
+            <Select
+              value={value.components[component].toString()}
+              onValueChange={(grade) => onChange({
+                ...value,
+                components: { ...value.components, [component]: parseInt(grade, 10) },
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {gradeOptions.map(grade => (
+                  <SelectItem key={grade} value={grade.toString()}>{grade} - {CONDITION_GRADE_LABELS[grade]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        {(['frontTreadMm', 'rearTreadMm'] as const).map(tyre => (
+          <div key={tyre} className="space-y-1">
+            <Label htmlFor={tyre}>{tyre === 'frontTreadMm' ? 'Front' : 'Rear'} tyre tread (mm)</Label>
+            <Input
+              id={tyre}
+              type="number"
+              min={0}
+              max={15}
+              step={0.5}
+              value={value[tyre]}
+              onChange={(e) => onChange({ ...value, [tyre]: parseFloat(e.target.value) || 0 })}
+            />
+            {value[tyre] < MIN_LEGAL_TREAD_DEPTH_MM && (
+              <p className="text-xs text-red-500">Below the legal minimum of {MIN_LEGAL_TREAD_DEPTH_MM}mm</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Damage map</Label>
+        <p className="text-sm text-gray-400">Click the diagram where the bike is damaged, then describe it and add photos.</p>
+        <BikeOutline
+          markers={value.damage}
+          selectedIndex={selectedMarker}
+          onSelectMarker={setSelectedMarker}
+          onAddMarker={addMarker}
+          className="max-w-lg"
+        />
+      </div>
+
+      {value.damage.length > 0 && (
+        <ol className="space-y-3">
+          {value.damage.map((marker, index) => (
+            <li
+              key={index}
+              className={`rounded-md border p-3 space-y-2 ${selectedMarker === index ? 'border-blue-500' : ''}`}
+              onClick={() => setSelectedMarker(index)}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-semibold w-6">{index + 1}.</span>
+                <Select
+                  value={marker.severity}
+                  onValueChange={(severity) => updateMarker(index, { severity: severity as DamageMarker['severity'] })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAMAGE_SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={marker.note}
+                  onChange={(e) => updateMarker(index, { note: e.target.value })}
+                  placeholder="e.g. Scuff on lower fairing"
+                  maxLength={200}
+                  className={marker.note.trim() ? '' : 'border-red-500'}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeMarker(index)} aria-label={`Remove damage ${index + 1}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 pl-8">
+                {marker.photos.map(photo => (
+                  <div key={photo} className="relative">
+                    <img src={getThumbnailUrl(photo)} alt={`Damage ${index + 1}`} className="h-14 w-14 rounded object-cover" />
+                    <button
+                      type="button"
+                      className="absolute -top-1 -right-1 rounded-full bg-black/70 p-0.5 text-white"
+                      onClick={() => updateMarker(index, { photos: marker.photos.filter(p => p !== photo) })}
+                      aria-label="Remove photo"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                {marker.photos.length < MAX_DAMAGE_PHOTOS && (
+                  <Label className="flex h-14 w-14 cursor-pointer items-center justify-center rounded border border-dashed">
+                    {uploadingMarker === index ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      className="hidden"
+                      disabled={uploadingMarker !== null}
+                      onChange={(e) => {
+                        if (e.target.files?.length) addPhotos(index, e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                  </Label>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+
+// Shown while an admin is viewing the app as a dealer, with a way back to their own account
+export default function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/impersonation/stop");
+      return res.json();
+    },
+    onSuccess: (admin) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], admin);
+      navigate("/admin");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't return to your account", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // The server adds impersonatorId to the current user while an admin is viewing as them
+  if (!(user as { impersonatorId?: number | null } | null)?.impersonatorId) {
+    return null;
+  }
+
+  return (
+    <div className="bg-purple-50 border-b border-purple-200">
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 text-purple-800">
+          <Eye className="h-4 w-4" />
+          Viewing as {user!.companyName || user!.username}. This session is read-only.
+        </span>
+        <Button size="sm" variant="outline" onClick={() => stopMutation.mutate()} disabled={stopMutation.isPending}>
+          Return to admin
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Link, useLocation } from "wouter";
+import { ShieldAlert } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+// Reminds unverified dealers that they can browse but not trade until an admin approves them
+export default function VerificationBanner() {
+  const { user } = useAuth();
+  const [location] = useLocation();
+
+  if (!user || user.role === "admin" || user.verificationStatus === "verified" || location === "/verification") {
+    return null;
+  }
+
+  const isRejected = user.verificationStatus === "rejected";
+
+  return (
+    <div className={isRejected ? "bg-red-50 border-b border-red-200" : "bg-amber-50 border-b border-amber-200"}>
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className={`flex items-center gap-2 ${isRejected ? "text-red-700" : "text-amber-800"}`}>
+          <ShieldAlert className="h-4 w-4" />
+          {isRejected
+            ? "Your trade verification was rejected. Update your company details to start bidding and listing."
+            : user.verificationSubmittedAt
+              ? "Your company details are being reviewed. You can browse stock, but bidding and listing open once you're verified."
+              : "Verify your company to start bidding and listing."}
+        </span>
+        <Link href="/verification" className="font-medium text-primary hover:underline">
+          {user.verificationSubmittedAt && !isRejected ? "View status" : "Verify now"}
+        </Link>
+      </div>
+    </div>
+  );
+}
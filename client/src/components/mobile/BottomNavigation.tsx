@@ -2,10 +2,12 @@ import React from 'react';
 import { Link, useLocation } from 'wouter';
 import { Home, Map, PlusCircle, User, Settings } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { useDealership } from '@/hooks/use-dealership';
 
 const BottomNavigation: React.FC = () => {
   const [location] = useLocation();
   const { user } = useAuth();
+  const { can } = useDealership();
 
   // Don't show bottom navigation if user is not logged in
   if (!user) return null;
@@ -26,12 +28,14 @@ const BottomNavigation: React.FC = () => {
         </Link>
       </div>
       
-      <div className={`mobile-bottom-nav-item ${location.includes('/create') ? 'active' : ''}`}>
-        <Link href="/create-auction">
-          <PlusCircle />
-          <span>List</span>
-        </Link>
-      </div>
+      {can('list') && (
+        <div className={`mobile-bottom-nav-item ${location.includes('/create') ? 'active' : ''}`}>
+          <Link href="/create-auction">
+            <PlusCircle />
+            <span>List</span>
+          </Link>
+        </div>
+      )}
       
       <div className={`mobile-bottom-nav-item ${location === '/dashboard' ? 'active' : ''}`}>
         <Link href="/dashboard">
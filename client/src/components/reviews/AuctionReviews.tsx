@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -41,11 +42,26 @@ export default function AuctionReviews({
   const isSeller = user?.id === dealerId;
   const isBuyer = user?.id === bidderId;
   
+  // Reviews already persisted for this auction
+  const { data: savedReviewStatus } = useQuery<{
+    sellerName?: string;
+    buyerName?: string;
+    sellerReviewed: boolean;
+    buyerReviewed: boolean;
+  }>({
+    queryKey: [`/api/auctions/${auctionId}/reviews`],
+    enabled: isCompleted && (isSeller || isBuyer),
+  });
+  
+  // Prefer the real company names from the server over the names passed in
+  const sellerName = savedReviewStatus?.sellerName || dealerName;
+  const buyerName = savedReviewStatus?.buyerName || bidderName;
+  
   // Determine if the user has already submitted a review
   const hasReviewed = isSeller 
-    ? localReviewStatus.sellerReviewed 
+    ? localReviewStatus.sellerReviewed || !!savedReviewStatus?.sellerReviewed
     : isBuyer 
-      ? localReviewStatus.buyerReviewed 
+      ? localReviewStatus.buyerReviewed || !!savedReviewStatus?.buyerReviewed
       : false;
   
   // If the auction is not completed or the user is neither the seller nor buyer, hide reviews section
@@ -94,8 +110,8 @@ export default function AuctionReviews({
             <CardTitle>Share Your Experience</CardTitle>
             <CardDescription>
               {isSeller 
-                ? `Rate your experience with buyer ${bidderName}`
-                : `Rate your experience with seller ${dealerName}`}
+                ? `Rate your experience with buyer ${buyerName}`
+                : `Rate your experience with seller ${sellerName}`}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -119,7 +135,7 @@ export default function AuctionReviews({
                     traderId={bidderId}
                     auctionId={auctionId}
                     motorcycleId={motorcycleId}
-                    traderName={bidderName}
+                    traderName={buyerName}
                     onSuccess={handleReviewSuccess}
                     onCancel={() => setDialogOpen(false)}
                   />
@@ -128,7 +144,7 @@ export default function AuctionReviews({
                     dealerId={dealerId}
                     auctionId={auctionId}
                     motorcycleId={motorcycleId}
-                    dealerName={dealerName}
+                    dealerName={sellerName}
                     onSuccess={handleReviewSuccess}
                     onCancel={() => setDialogOpen(false)}
                   />
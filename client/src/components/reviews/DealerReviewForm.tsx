@@ -8,6 +8,8 @@ import { z } from "zod";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { StarFilledIcon, StarIcon } from "@radix-ui/react-icons";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 // Define the schema for review form
 const reviewSchema = z.object({
@@ -35,6 +37,7 @@ export default function DealerReviewForm({
   onSuccess,
   onCancel,
 }: DealerReviewFormProps) {
+  const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hoverRating, setHoverRating] = useState(0);
   
@@ -51,20 +54,21 @@ export default function DealerReviewForm({
     setIsSubmitting(true);
     
     try {
-      // In a real implementation, this would call an API to save the review
-      console.log("Submitting review:", { 
-        dealerId, 
-        auctionId,
-        motorcycleId,
-        ...values 
-      });
+      await apiRequest("POST", `/api/auctions/${auctionId}/reviews`, values);
       
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Refresh the review status and the reviewed dealer's rating
+      queryClient.invalidateQueries({ queryKey: [`/api/auctions/${auctionId}/reviews`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dealers/${dealerId}/reviews`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
       
       onSuccess();
     } catch (error) {
       console.error("Error submitting review:", error);
+      toast({
+        title: "Review not submitted",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -0,0 +1,59 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { AuctionSearchFilters } from "@shared/schema";
+import { AuctionWithDetails } from "@shared/types";
+import { apiRequest } from "@/lib/queryClient";
+
+export const AUCTION_SEARCH_PAGE_SIZE = 24;
+
+// Search filters as chosen in the UI; pagination is handled by the hook
+export type AuctionSearchInput = Partial<Omit<AuctionSearchFilters, "cursor" | "limit">>;
+
+interface AuctionSearchPage {
+  auctions: AuctionWithDetails[];
+  nextCursor: string | null;
+}
+
+// Query string for GET /api/auctions, leaving out filters that aren't set
+export function toAuctionSearchParams(filters: AuctionSearchInput): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
+
+// The server sends the next page's cursor in a header so the body stays a plain array
+async function fetchAuctionPage(query: string, cursor: string | undefined): Promise<AuctionSearchPage> {
+  const params = new URLSearchParams(query);
+  params.set("limit", String(AUCTION_SEARCH_PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+
+  const res = await apiRequest("GET", `/api/auctions?${params}`);
+  return {
+    auctions: await res.json(),
+    nextCursor: res.headers.get("X-Next-Cursor"),
+  };
+}
+
+// Server-side auction search, loaded a page at a time
+export function useAuctionSearch(filters: AuctionSearchInput) {
+  const query = toAuctionSearchParams(filters).toString();
+
+  const { data, ...rest } = useInfiniteQuery({
+    // Keyed under /api/auctions so auction websocket events refresh the results
+    queryKey: ["/api/auctions", query],
+    queryFn: ({ pageParam }) => fetchAuctionPage(query, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  return {
+    ...rest,
+    auctions: data?.pages.flatMap(page => page.auctions) ?? [],
+  };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { DealershipPermission } from "@shared/schema";
+import { DealershipSummary } from "@shared/types";
+import { useAuth } from "./use-auth";
+
+// The current user's dealership and a check for what their staff role allows
+export function useDealership() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<DealershipSummary>({
+    queryKey: ["/api/dealership"],
+    enabled: !!user,
+  });
+
+  // Controls stay visible until the role has loaded - the server enforces permissions either way
+  const can = (permission: DealershipPermission) =>
+    !data || data.permissions.includes(permission);
+
+  return { dealership: data, isLoading, can };
+}
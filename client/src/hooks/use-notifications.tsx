@@ -1,6 +1,6 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { useToast } from './use-toast';
-import { Bell, AlertCircle, Tag, ShoppingCart, Clock } from 'lucide-react';
+import { Bell, AlertCircle, Tag, ShoppingCart, Clock, Search } from 'lucide-react';
 import { useWebSocket } from './use-websocket';
 import { WSMessage } from '@shared/types';
 import { queryClient } from '@/lib/queryClient';
@@ -148,6 +148,19 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
           queryClient.invalidateQueries({ queryKey: ['/api/auctions/dealer'] });
           break;
 
+        case 'auction_created':
+          // Only the targeted push for a saved search match carries the search name
+          if (message.data.savedSearchName) {
+            addNotification({
+              title: 'New Match for Your Saved Search',
+              message: `${message.data.title} matches "${message.data.savedSearchName}"`,
+              type: 'info',
+              link: `/auctions/${message.data.auctionId}`,
+              icon: <Search className="h-5 w-5" />
+            });
+          }
+          break;
+
         case 'new_message':
           addNotification({
             title: 'New Message',
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { UserPresence } from "@shared/types";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+
+// Online / last seen status for a set of dealers, kept live by presence_changed WebSocket events
+export function usePresence(userIds: number[]) {
+  const { user } = useAuth();
+  const ids = Array.from(new Set(userIds)).sort((a, b) => a - b);
+
+  const { data: presence = [] } = useQuery<UserPresence[]>({
+    queryKey: ["/api/presence", ids.join(",")],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/presence?userIds=${ids.join(",")}`);
+      return res.json();
+    },
+    enabled: !!user && ids.length > 0,
+  });
+
+  const getPresence = (userId: number) => presence.find(entry => entry.userId === userId);
+
+  return { getPresence };
+}
@@ -0,0 +1,40 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AuctionWithDetails } from "@shared/types";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "./use-toast";
+import { useAuth } from "./use-auth";
+
+// The current dealer's watched auctions, with a toggle for adding and removing them
+export function useWatchlist() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: watchlist = [], isLoading } = useQuery<AuctionWithDetails[]>({
+    queryKey: ["/api/watchlist"],
+    enabled: !!user,
+  });
+
+  const isWatching = (auctionId: number) => watchlist.some(auction => auction.id === auctionId);
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ auctionId, watch }: { auctionId: number; watch: boolean }) => {
+      const res = await apiRequest(watch ? "POST" : "DELETE", `/api/watchlist/${auctionId}`);
+      return res.json();
+    },
+    onSuccess: (_data, { watch }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlist"] });
+      toast({
+        title: watch ? "Added to your watchlist" : "Removed from your watchlist",
+        description: watch ? "We'll let you know shortly before it ends." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update your watchlist", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggleWatch = (auctionId: number) =>
+    toggleMutation.mutate({ auctionId, watch: !isWatching(auctionId) });
+
+  return { watchlist, isLoading, isWatching, toggleWatch, isUpdating: toggleMutation.isPending };
+}
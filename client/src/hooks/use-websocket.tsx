@@ -51,15 +51,19 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
   const [userId, setUserId] = useState<number | null>(null);
   const [messageHandler, setMessageHandler] = useState<((message: WSMessage) => void) | null>(null);
 
-  // Setup WebSocket connection - only in browser
+  // Setup WebSocket connection - only in browser, and only once signed in, since the server
+  // authenticates the socket from the session cookie and binds it to that user
   useEffect(() => {
-    if (!isBrowser) return; // Return early if not in browser
+    if (!isBrowser || !userId) return;
     
     let ws: WebSocket | null = null;
     let reconnectAttempts = 0;
+    let disposed = false; // set on logout or unmount so pending reconnects give up
+    let lastSeq: number | null = null; // last logged event received, so a reconnect can replay what was missed
     const maxReconnectAttempts = 5;
     
     function initWebSocket() {
+      if (disposed) return;
       try {
         // Reset previous connection if it exists
         if (ws) {
@@ -125,11 +129,11 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
           setConnected(true);
           reconnectAttempts = 0; // Reset the counter on successful connection
           
-          // If user is already authenticated, register them
-          if (userId && ws && ws.readyState === WebSocket.OPEN) {
+          // The server already knows who we are. On a reconnect, ask it for the events sent while we were away.
+          if (ws && ws.readyState === WebSocket.OPEN) {
             ws.send(JSON.stringify({
               type: 'register',
-              data: { userId },
+              data: lastSeq === null ? {} : { lastSeq },
               timestamp: Date.now()
             }));
           }
@@ -141,6 +145,7 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
           const codeMeaning = getWebSocketCloseCodeMeaning(event.code);
           console.log(`WebSocket connection closed: Code=${event.code} (${codeMeaning}), Reason=${event.reason || 'Unknown'}, Clean=${event.wasClean}`);
           setConnected(false);
+          if (disposed) return;
           
           // Determine reconnection strategy based on close code
           const isAbnormalClosure = event.code === 1006;
@@ -221,6 +226,13 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
               message.timestamp = Date.now();
             }
             
+            // Remember how far through the event log we are; registering reports the latest
+            if (typeof message.seq === 'number') {
+              lastSeq = message.seq;
+            } else if (message.type === 'register_confirmed' && typeof message.data?.seq === 'number') {
+              lastSeq = message.data.seq;
+            }
+            
             // Process the message
             processWebSocketMessage(message);
           } catch (error) {
@@ -253,13 +265,16 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     // Initialize WebSocket connection
     initWebSocket();
 
-    // Cleanup on unmount
+    // Cleanup on logout, user change or unmount
     return () => {
+      disposed = true;
       if (ws) {
         ws.close();
       }
+      setSocket(null);
+      setConnected(false);
     };
-  }, []); // Only run on component mount
+  }, [userId]); // Reconnect whenever the signed-in user changes
   
   // Listen for auth events
   useEffect(() => {
@@ -267,11 +282,8 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     
     const handleAuthEvent = (event: Event) => {
       const customEvent = event as CustomEvent<{userId?: number}>;
-      const newUserId = customEvent.detail.userId;
-      
-      if (newUserId) {
-        setUserId(newUserId);
-      }
+      // Logging out clears the user, which closes the socket
+      setUserId(customEvent.detail.userId ?? null);
     };
     
     window.addEventListener('auth-state-change', handleAuthEvent);
@@ -281,19 +293,6 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
-  // Register user ID when it changes
-  useEffect(() => {
-    if (!isBrowser) return; // Return early if not in browser
-    
-    if (socket && connected && userId) {
-      socket.send(JSON.stringify({
-        type: 'register',
-        data: { userId },
-        timestamp: Date.now()
-      }));
-    }
-  }, [userId, connected, socket]);
-
   // Function to register authenticated user
   const registerAuthenticatedUser = (newUserId: number) => {
     if (!isBrowser) return; // Return early if not in browser
@@ -319,9 +318,35 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
       case 'pong':
         console.log('Received pong response from server');
         break;
+      case 'error':
+        // The server refused a message, e.g. a mutation that has to go through the API
+        console.warn(`WebSocket message rejected (${message.data.code}): ${message.data.message}`);
+        break;
       case 'new_bid':
         queryClient.invalidateQueries({ queryKey: [`/api/auctions/${message.data.auctionId}`] });
         break;
+      case 'auction_updated':
+        // A soft-close extension carries the new end time - patch cached auctions so countdowns move immediately
+        if (message.data.endTime) {
+          const { auctionId, endTime } = message.data;
+          queryClient.setQueriesData(
+            { predicate: (query) => typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/auctions') },
+            (oldData: any) => {
+              if (Array.isArray(oldData)) {
+                return oldData.map((auction: any) => auction?.id === auctionId ? { ...auction, endTime } : auction);
+              }
+              return oldData?.id === auctionId ? { ...oldData, endTime } : oldData;
+            }
+          );
+        }
+        queryClient.invalidateQueries({ queryKey: [`/api/auctions/${message.data.auctionId}`] });
+        break;
+      case 'outbid':
+        // An automatic bid has beaten this user's bid or maximum
+        queryClient.invalidateQueries({ queryKey: [`/api/auctions/${message.data.auctionId}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/bids/auction/${message.data.auctionId}`] });
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        break;
       case 'bid_accepted':
       case 'bid_accepted_confirm':
         // For bid acceptance, handle with high priority and aggressively update
@@ -490,6 +515,7 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         queryClient.invalidateQueries({ queryKey: ['/api/auctions'] });
         queryClient.invalidateQueries({ queryKey: ['/api/auctions/dealer'] });
         queryClient.invalidateQueries({ queryKey: ['/api/auctions/bids'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/watchlist'] });
         
         // If motorcycle data included, update motorcycle status
         if (message.data.motorcycle) {
@@ -517,6 +543,18 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         console.log('New message received');
         queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
         queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/messages/unread/count'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+        break;
+        
+      case 'messages_read':
+        // Read receipt: the other dealer has opened messages we sent
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+        break;
+        
+      case 'typing':
+        // Passed on to the open conversation, which shows the indicator
+        window.dispatchEvent(new CustomEvent('conversation-typing', { detail: message.data }));
         break;
         
       case 'auction_created':
@@ -524,6 +562,9 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         console.log(`New auction/underwrite created: ${message.data.auction?.id}`);
         queryClient.invalidateQueries({ queryKey: ['/api/auctions'] });
         queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+        if (message.data.savedSearchId) {
+          queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        }
         break;
         
       case 'deal_confirmed':
@@ -572,6 +613,26 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         console.log('Refreshing dashboard stats');
         queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
         break;
+        
+      case 'presence_changed':
+        // A dealer came online or went offline
+        queryClient.invalidateQueries({ queryKey: ['/api/presence'] });
+        break;
+        
+      case 'auction_ending':
+        // A watched auction is about to end
+        console.log(`Watched auction ${message.data.auctionId} ends in ${message.data.minutesLeft} minutes`);
+        queryClient.invalidateQueries({ queryKey: ['/api/watchlist'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        break;
+        
+      case 'verification_updated':
+        // An admin approved or rejected this dealer's trade verification
+        console.log('Verification status changed:', message.data.status);
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/verification'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        break;
     }
   };
 
@@ -0,0 +1,57 @@
+export interface UploadedImage {
+  url: string;
+  fullUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Upload a single motorcycle image, reporting progress as it is sent.
+ * Uses XMLHttpRequest because fetch does not expose upload progress.
+ * @param onProgress Called with the percentage (0-100) of the file uploaded
+ * @returns The stored image URLs
+ */
+export function uploadMotorcycleImage(
+  file: File,
+  onProgress?: (percent: number) => void,
+): Promise<UploadedImage> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("images", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/uploads/motorcycle-images");
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Accept", "application/json");
+    xhr.setRequestHeader("X-Requested-With", "XMLHttpRequest");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      let body: any = null;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error page
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300 && body?.images?.[0]) {
+        resolve(body.images[0]);
+      } else {
+        reject(new Error(body?.message || `Upload failed (${xhr.status})`));
+      }
+    };
+
+    xhr.onerror = () => reject(new Error("Network error while uploading image"));
+
+    xhr.send(formData);
+  });
+}
+
+// URL of the thumbnail generated for an uploaded image (other URLs are returned unchanged)
+export function getThumbnailUrl(url: string): string {
+  return url.startsWith("/uploads/") ? url.replace(/\/web\.jpg$/, "/thumb.jpg") : url;
+}
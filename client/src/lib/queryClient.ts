@@ -45,6 +45,18 @@ export async function apiRequest(
   }
 }
 
+// The server's message from an apiRequest error ("400: {\"message\":...}"), for showing to the user
+export function getApiErrorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.replace(/^\d+:\s*/, "");
+  
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Card,
   CardContent,
@@ -14,15 +14,42 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { User } from "@shared/schema";
+import { User, AdminAuditEntry, AdminAuditAction } from "@shared/schema";
 import { Motorcycle } from "@shared/schema"; 
 import { Auction } from "@shared/schema";
-import { Loader2, AlertTriangle, ArrowLeft, Users, Building2, Calendar, TrendingUp } from "lucide-react";
+import { Loader2, AlertTriangle, ArrowLeft, Users, Building2, Calendar, TrendingUp, FileText, ShieldCheck, Ban, Eye, RotateCcw, Trash2, XCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Redirect } from "wouter";
+import { Redirect, useLocation } from "wouter";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { VerificationSummary, AuctionWithDetails } from "@shared/types";
+
+type AuditLogEntry = AdminAuditEntry & { adminUsername?: string };
+
+const AUDIT_ACTION_LABELS: Record<AdminAuditAction, string> = {
+  dealer_suspended: "Suspended dealer",
+  dealer_reinstated: "Reinstated dealer",
+  auction_cancelled: "Cancelled auction",
+  auction_relisted: "Relisted auction",
+  listing_removed: "Removed listing",
+  bid_voided: "Voided bid",
+  impersonation_started: "Started viewing as dealer",
+  impersonation_ended: "Stopped viewing as dealer",
+};
+
+// A moderation action waiting for the admin to give a reason
+interface PendingAction {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  method: "POST" | "DELETE";
+  url: string;
+}
 
 interface DealerStats {
   activeListings: number;
@@ -71,7 +98,22 @@ export default function AdminDashboard() {
       </div>
 
       {!selectedDealer ? (
-        <DealersOverview onSelectDealer={setSelectedDealer} />
+        <Tabs defaultValue="dealers" className="w-full">
+          <TabsList className="mb-6">
+            <TabsTrigger value="dealers">Dealers</TabsTrigger>
+            <TabsTrigger value="verification">Verification Queue</TabsTrigger>
+            <TabsTrigger value="audit">Audit Log</TabsTrigger>
+          </TabsList>
+          <TabsContent value="dealers">
+            <DealersOverview onSelectDealer={setSelectedDealer} />
+          </TabsContent>
+          <TabsContent value="verification">
+            <VerificationQueue />
+          </TabsContent>
+          <TabsContent value="audit">
+            <AuditLog />
+          </TabsContent>
+        </Tabs>
       ) : (
         <DealerDetails dealer={selectedDealer} />
       )}
@@ -232,15 +274,297 @@ function DealersOverview({ onSelectDealer }: { onSelectDealer: (dealer: User) =>
   );
 }
 
-function DealerDetails({ dealer }: { dealer: User }) {
+// Dealers waiting for their company details to be checked
+function VerificationQueue() {
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: queue, isLoading, error } = useQuery<VerificationSummary[]>({
+    queryKey: ["/api/admin/verifications"],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ userId, decision, reason }: { userId: number; decision: "approve" | "reject"; reason?: string }) => {
+      const res = await apiRequest("POST", `/api/admin/verifications/${userId}/${decision}`, { reason });
+      return await res.json();
+    },
+    onSuccess: (dealer: VerificationSummary) => {
+      toast({
+        title: dealer.status === "verified" ? "Dealer verified" : "Verification rejected",
+        description: `${dealer.companyName} has been notified.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/verifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/dealers"] });
+      setRejecting(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <LoadingState message="Loading verification queue..." />;
+  }
+
+  if (error) {
+    return <ErrorState message="Failed to load verification queue" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Verification</CardTitle>
+        <CardDescription>
+          Check each dealer's Companies House and VAT numbers against their documents before approving
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!queue?.length ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No dealers are waiting for verification
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {queue.map((dealer) => (
+              <Card key={dealer.userId}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="font-semibold text-lg">{dealer.companyName}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Username: {dealer.username} | Email: {dealer.email}
+                      </p>
+                      <p className="text-sm">
+                        Companies House: {dealer.companyNumber || <span className="text-muted-foreground">Not submitted</span>}
+                        {" | "}
+                        VAT: {dealer.vatNumber ? `GB${dealer.vatNumber}` : <span className="text-muted-foreground">Not provided</span>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {dealer.submittedAt
+                          ? `Submitted ${format(new Date(dealer.submittedAt), "PPP 'at' p")}`
+                          : "Registered but has not submitted details yet"}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        onClick={() => decisionMutation.mutate({ userId: dealer.userId, decision: "approve" })}
+                        disabled={decisionMutation.isPending || !dealer.submittedAt}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRejecting(rejecting === dealer.userId ? null : dealer.userId)}
+                        disabled={decisionMutation.isPending}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+
+                  {dealer.documents.length > 0 && (
+                    <div className="flex flex-wrap gap-3">
+                      {dealer.documents.map((url, index) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-sm text-primary hover:underline">
+                          <FileText className="h-4 w-4" />
+                          Document {index + 1}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {rejecting === dealer.userId && (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Reason for rejection (shown to the dealer)"
+                        value={reason}
+                        onChange={(event) => setReason(event.target.value)}
+                      />
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => decisionMutation.mutate({ userId: dealer.userId, decision: "reject", reason })}
+                        disabled={decisionMutation.isPending || !reason.trim()}
+                      >
+                        Confirm Rejection
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Run a moderation action, refreshing the admin views and the audit log afterwards
+function useModerationAction(onDone?: () => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ method, url, reason }: { method: "POST" | "DELETE"; url: string; reason?: string }) => {
+      const res = await apiRequest(method, url, reason === undefined ? undefined : { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Done", description: "The action has been recorded in the audit log." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/dealers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/motorcycles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/auctions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-log"] });
+      onDone?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Ask for the reason behind an action; it is shown to the affected dealer and kept in the audit log
+function ReasonDialog({ action, onClose }: { action: PendingAction | null; onClose: () => void }) {
+  const [reason, setReason] = useState("");
+  const moderationMutation = useModerationAction(() => {
+    setReason("");
+    onClose();
+  });
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action?.title}</DialogTitle>
+          <DialogDescription>{action?.description}</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          placeholder="Reason (shown to the dealer and kept in the audit log)"
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => action && moderationMutation.mutate({ method: action.method, url: action.url, reason })}
+            disabled={moderationMutation.isPending || !reason.trim()}
+          >
+            {action?.confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AuditLog() {
+  const { data: entries, isLoading, error } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/admin/audit-log"],
+  });
+
+  if (isLoading) {
+    return <LoadingState message="Loading audit log..." />;
+  }
+
+  if (error) {
+    return <ErrorState message="Failed to load audit log" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>Every moderation action taken by an admin. Entries cannot be edited or deleted.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!entries?.length ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No moderation actions yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {entry.createdAt ? format(new Date(entry.createdAt), "d MMM yyyy, HH:mm") : ""}
+                  </TableCell>
+                  <TableCell>{entry.adminUsername}</TableCell>
+                  <TableCell>{AUDIT_ACTION_LABELS[entry.action as AdminAuditAction] || entry.action}</TableCell>
+                  <TableCell className="capitalize">{entry.targetType} #{entry.targetId}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.reason || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DealerDetails({ dealer: selectedDealer }: { dealer: User }) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const moderationMutation = useModerationAction();
+
+  // Keep the dealer's details current after suspending or reinstating them
+  const { data: dealers } = useQuery<User[]>({
+    queryKey: ["/api/admin/dealers"],
+  });
+  const dealer = dealers?.find(d => d.id === selectedDealer.id) ?? selectedDealer;
+
   const { data: motorcycles, isLoading: motorcyclesLoading } = useQuery<Motorcycle[]>({
     queryKey: ["/api/admin/motorcycles"],
   });
 
-  const { data: auctions, isLoading: auctionsLoading } = useQuery<Auction[]>({
+  const { data: auctions, isLoading: auctionsLoading } = useQuery<AuctionWithDetails[]>({
     queryKey: ["/api/admin/auctions"],
   });
 
+  const impersonateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/impersonate/${dealer.id}`);
+      return await res.json();
+    },
+    onSuccess: (viewedAs) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], viewedAs);
+      navigate("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   const dealerMotorcycles = motorcycles?.filter(m => m.dealerId === dealer.id) || [];
   const dealerAuctions = auctions?.filter(a => 
     dealerMotorcycles.some(m => m.id === a.motorcycleId)
@@ -249,6 +573,7 @@ function DealerDetails({ dealer }: { dealer: User }) {
   const activeAuctions = dealerAuctions.filter(a => a.status === 'active');
   const pendingAuctions = dealerAuctions.filter(a => a.status === 'pending_collection');
   const completedAuctions = dealerAuctions.filter(a => a.status === 'completed');
+  const noSaleAuctions = dealerAuctions.filter(a => a.status === 'no_sale');
 
   if (motorcyclesLoading || auctionsLoading) {
     return <LoadingState message="Loading dealer details..." />;
@@ -278,12 +603,66 @@ function DealerDetails({ dealer }: { dealer: User }) {
               <label className="text-sm font-medium text-muted-foreground">Role</label>
               <Badge variant="secondary">{dealer.role}</Badge>
             </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Verification</label>
+              <div>
+                <Badge variant={dealer.verificationStatus === 'verified' ? 'default' : dealer.verificationStatus === 'rejected' ? 'destructive' : 'secondary'}>
+                  {dealer.verificationStatus.replace('_', ' ')}
+                </Badge>
+              </div>
+            </div>
+            {dealer.suspendedAt && (
+              <div className="md:col-span-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                Suspended on {format(new Date(dealer.suspendedAt), "PPP")}: {dealer.suspensionReason}
+              </div>
+            )}
           </div>
+
+          {dealer.role === 'dealer' && (
+            <div className="flex flex-wrap gap-2 mt-6">
+              {dealer.suspendedAt ? (
+                <Button
+                  variant="outline"
+                  onClick={() => moderationMutation.mutate({ method: "POST", url: `/api/admin/dealers/${dealer.id}/reinstate` })}
+                  disabled={moderationMutation.isPending}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reinstate
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    variant="destructive"
+                    onClick={() => setPendingAction({
+                      title: "Suspend dealer",
+                      description: `${dealer.companyName || dealer.username} will be logged out and unable to log back in until reinstated. Their live listings will be cancelled and their bids on live auctions voided.`,
+                      confirmLabel: "Suspend",
+                      method: "POST",
+                      url: `/api/admin/dealers/${dealer.id}/suspend`,
+                    })}
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Suspend
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => impersonateMutation.mutate()}
+                    disabled={impersonateMutation.isPending}
+                  >
+                    <Eye className="h-4 w-4 mr-1" />
+                    View as Dealer
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <ReasonDialog action={pendingAction} onClose={() => setPendingAction(null)} />
+
       <Tabs defaultValue="active" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="active">
             Active Listings ({activeAuctions.length})
           </TabsTrigger>
@@ -293,6 +672,9 @@ function DealerDetails({ dealer }: { dealer: User }) {
           <TabsTrigger value="completed">
             Completed Deals ({completedAuctions.length})
           </TabsTrigger>
+          <TabsTrigger value="no_sale">
+            No Sale ({noSaleAuctions.length})
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="active" className="space-y-4">
@@ -306,12 +688,19 @@ function DealerDetails({ dealer }: { dealer: User }) {
         <TabsContent value="completed" className="space-y-4">
           <AuctionsList auctions={completedAuctions} motorcycles={dealerMotorcycles} />
         </TabsContent>
+
+        <TabsContent value="no_sale" className="space-y-4">
+          <AuctionsList auctions={noSaleAuctions} motorcycles={dealerMotorcycles} />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
 
-function AuctionsList({ auctions, motorcycles }: { auctions: Auction[], motorcycles: Motorcycle[] }) {
+function AuctionsList({ auctions, motorcycles }: { auctions: AuctionWithDetails[], motorcycles: Motorcycle[] }) {
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const moderationMutation = useModerationAction();
+
   if (auctions.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -322,10 +711,16 @@ function AuctionsList({ auctions, motorcycles }: { auctions: Auction[], motorcyc
 
   return (
     <div className="grid gap-4">
+      <ReasonDialog action={pendingAction} onClose={() => setPendingAction(null)} />
       {auctions.map((auction) => {
         const motorcycle = motorcycles.find(m => m.id === auction.motorcycleId);
         if (!motorcycle) return null;
 
+        const title = `${motorcycle.year} ${motorcycle.make} ${motorcycle.model}`;
+        const canCancel = auction.status === 'active' || auction.status === 'pending_collection';
+        const isUnsold = auction.status === 'no_sale' || (auction.status === 'completed' && !auction.winningBidderId);
+        const canRemove = auction.status === 'active' || isUnsold;
+
         return (
           <Card key={auction.id}>
             <CardContent className="p-4">
@@ -359,6 +754,80 @@ function AuctionsList({ auctions, motorcycles }: { auctions: Auction[], motorcyc
                   </p>
                 </div>
               </div>
+
+              <div className="flex flex-wrap gap-2 mt-3">
+                {canCancel && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPendingAction({
+                      title: "Cancel auction",
+                      description: `${title} will end with no sale${auction.status === 'pending_collection' ? ' and the pending deal will be cancelled' : ''}.`,
+                      confirmLabel: "Cancel Auction",
+                      method: "POST",
+                      url: `/api/admin/auctions/${auction.id}/cancel`,
+                    })}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Force Cancel
+                  </Button>
+                )}
+                {isUnsold && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moderationMutation.mutate({ method: "POST", url: `/api/admin/auctions/${auction.id}/relist` })}
+                    disabled={moderationMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Relist
+                  </Button>
+                )}
+                {canRemove && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => setPendingAction({
+                      title: "Remove listing",
+                      description: `${title} and its bids will be removed. The seller will be told why.`,
+                      confirmLabel: "Remove Listing",
+                      method: "DELETE",
+                      url: `/api/admin/auctions/${auction.id}`,
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+
+              {auction.status === 'active' && auction.bids?.length > 0 && (
+                <div className="mt-3 border-t pt-3 space-y-1">
+                  {auction.bids.map((bid) => (
+                    <div key={bid.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        £{bid.amount.toLocaleString()} by dealer #{bid.dealerId}
+                        {bid.isProxy && <span className="text-muted-foreground"> (automatic)</span>}
+                      </span>
+                      {!bid.isProxy && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setPendingAction({
+                            title: "Void bid",
+                            description: `The £${bid.amount.toLocaleString()} bid on ${title} will stop counting, and automatic bids will be worked out again from the bids left.`,
+                            confirmLabel: "Void Bid",
+                            method: "POST",
+                            url: `/api/admin/bids/${bid.id}/void`,
+                          })}
+                        >
+                          Void
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         );
@@ -2,24 +2,29 @@ import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useRoute, useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
+import { useDealership } from '@/hooks/use-dealership';
+import { useWatchlist } from '@/hooks/use-watchlist';
 import Layout from '@/components/layout/Layout';
 import BidForm from '@/components/forms/BidForm';
 import BidHistory from '@/components/auctions/BidHistory';
+import AuctionTimeline from '@/components/auctions/AuctionTimeline';
 import BidConfirmation from '@/components/auctions/BidConfirmation';
 import BidCollectionConfirmation from '@/components/auctions/BidCollectionConfirmation';
 import AuctionReviews from '@/components/reviews/AuctionReviews';
+import VehicleCheckBadges from '@/components/auctions/VehicleCheckBadges';
+import ConditionReportView from '@/components/auctions/ConditionReportView';
 import { formatTimeDifference, isEndingSoon } from '@/lib/countdownTimer';
 import { AuctionWithDetails } from '@shared/types';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { MessageSquare, Bookmark, Timer, CheckCircle, Calendar } from 'lucide-react';
+import { MessageSquare, Bookmark, Timer, CheckCircle, Calendar, ShieldCheck } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { CalendarIcon } from '@radix-ui/react-icons';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { format, isValid } from 'date-fns';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient, getApiErrorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
 export default function AuctionDetail() { // Component name kept as-is for compatibility
@@ -36,7 +41,10 @@ export default function AuctionDetail() { // Component name kept as-is for compa
   const [selectedBid, setSelectedBid] = useState<number | null>(null);
   const [availabilityDate, setAvailabilityDate] = useState<Date | null>(null);
   const [showAvailabilityDialog, setShowAvailabilityDialog] = useState(false);
+  const [showBuyNowDialog, setShowBuyNowDialog] = useState(false);
   const { user } = useAuth();
+  const { dealership, can } = useDealership();
+  const { isWatching, toggleWatch, isUpdating: isUpdatingWatchlist } = useWatchlist();
   const { toast } = useToast();
   
   // Mutation to end underwrite early
@@ -66,6 +74,29 @@ export default function AuctionDetail() { // Component name kept as-is for compa
     },
   });
   
+  // Mutation to run a vehicle history check on the listed bike (Pro plan)
+  const vehicleCheckMutation = useMutation({
+    mutationFn: async (motorcycleId: number) => {
+      const res = await apiRequest('POST', `/api/motorcycles/${motorcycleId}/vehicle-check`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Vehicle check complete",
+        description: "The results are now shown on your listing.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/auctions/${auctionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auctions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Vehicle check failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Mutation to accept a bid
   const acceptBidMutation = useMutation({
     mutationFn: async ({ auctionId, bidId, availabilityDate }: { auctionId: number; bidId: number; availabilityDate: Date | null }) => {
@@ -106,6 +137,38 @@ export default function AuctionDetail() { // Component name kept as-is for compa
     },
   });
   
+  // Mutation to buy the motorcycle outright at its buy-now price
+  const buyNowMutation = useMutation({
+    mutationFn: async (auctionId: number) => {
+      const res = await apiRequest('POST', `/api/auctions/${auctionId}/buy-now`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Purchase complete",
+        description: "The motorcycle is yours. The seller has been notified to arrange collection.",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/auctions/${auctionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auctions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auctions/bids'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      setShowBuyNowDialog(false);
+      
+      setTimeout(() => {
+        navigate('/dashboard');
+      }, 500);
+    },
+    onError: (error: Error) => {
+      setShowBuyNowDialog(false);
+      toast({
+        title: "Error",
+        description: `Failed to buy now: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Function to handle bid selection
   const handleBidSelection = (bidId: number) => {
     setSelectedBid(bidId);
@@ -201,14 +264,18 @@ export default function AuctionDetail() { // Component name kept as-is for compa
   const { motorcycle } = auction;
   
   // Define role and ownership variables
-  // Since all users are dealers now, we define seller/buyer relationships based on the auction
+  // Listings belong to the dealership, so any of its staff is on the selling side
   const isDealer = true; // All users are dealers in the unified model
-  const isSeller = user?.id === auction.dealerId; // This dealer created the auction (seller)
-  const isBuyer = user?.id !== auction.dealerId; // This dealer is viewing another's auction (potential buyer)
+  const isSeller = user?.id === auction.dealerId || !!dealership?.staff.some(member => member.userId === auction.dealerId);
+  const isBuyer = !isSeller; // Viewing another dealership's auction (potential buyer)
   const dealerOwnsAuction = isSeller; // Simplified for clarity
+  const isBlindAuction = auction.auctionType === 'blind'; // Sealed bids, amounts only visible to the seller
   
   // Check if auction is active
   const isActive = auction.status === 'active' && timeLeft !== 'Ended';
+  
+  // Buy-now is withdrawn once open bidding reaches the price
+  const canBuyNow = !!auction.buyNowPrice && (isBlindAuction || !auction.currentBid || auction.currentBid < auction.buyNowPrice);
 
   // Check if we're on the stock page
   const isStockPage = stockMatch || window.location.pathname.includes('/stock');
@@ -266,12 +333,39 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                 <TabsList className="w-full mb-4">
                   <TabsTrigger value="details">Details</TabsTrigger>
                   <TabsTrigger value="specs">Specifications</TabsTrigger>
+                  {motorcycle.conditionReport && (
+                    <TabsTrigger value="condition">Condition Report</TabsTrigger>
+                  )}
                 </TabsList>
                 <TabsContent value="details">
                   <div className="mb-4">
                     <h4 className="text-sm font-medium text-gray-500">Description</h4>
                     <p className="mt-1 text-sm p-3 rounded-md bg-blue-50 text-blue-900 font-medium">{motorcycle.description}</p>
                   </div>
+                  {(motorcycle.vehicleCheck || (isSeller && can('list'))) && (
+                    <div className="mb-4">
+                      <h4 className="text-sm font-medium text-gray-500 mb-1">Vehicle History</h4>
+                      {motorcycle.vehicleCheck ? (
+                        <VehicleCheckBadges vehicleCheck={motorcycle.vehicleCheck} showDetails />
+                      ) : (
+                        <p className="text-sm text-gray-500">This bike hasn't been checked yet.</p>
+                      )}
+                      {isSeller && can('list') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-2"
+                          disabled={!motorcycle.regNumber || vehicleCheckMutation.isPending}
+                          onClick={() => vehicleCheckMutation.mutate(motorcycle.id)}
+                        >
+                          <ShieldCheck className="mr-2 h-4 w-4" />
+                          {vehicleCheckMutation.isPending
+                            ? 'Checking...'
+                            : motorcycle.vehicleCheck ? 'Re-run history check' : 'Run history check'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </TabsContent>
                 <TabsContent value="specs">
                   <div className="grid grid-cols-2 gap-4 mt-2">
@@ -315,6 +409,11 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                     </div>
                   </div>
                 </TabsContent>
+                {motorcycle.conditionReport && (
+                  <TabsContent value="condition">
+                    <ConditionReportView report={motorcycle.conditionReport} />
+                  </TabsContent>
+                )}
               </Tabs>
               
               <div className="mt-6 bg-blue-700 p-4 rounded-lg shadow-md">
@@ -322,11 +421,18 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                   <div>
                     <h4 className="text-sm font-medium text-blue-100">Current Bid</h4>
                     <p className="text-2xl font-bold text-white">
-                      {dealerOwnsAuction
+                      {dealerOwnsAuction || !isBlindAuction
                         ? (auction.currentBid ? `£${auction.currentBid.toLocaleString()}` : 'No bids yet')
                         : (auction.totalBids > 0 ? 'Blind Underwrite' : 'No bids yet')
                       }
                     </p>
+                    {auction.auctionType === 'reserve' && (
+                      <p className="text-xs text-blue-100 mt-1">
+                        {dealerOwnsAuction && auction.reservePrice
+                          ? `Reserve £${auction.reservePrice.toLocaleString()} - ${auction.reserveMet ? 'met' : 'not yet met'}`
+                          : (auction.reserveMet ? 'Reserve met' : 'Reserve not yet met')}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <h4 className="text-sm font-medium text-blue-100">Time Remaining</h4>
@@ -337,7 +443,7 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                 </div>
                 
                 {/* End underwrite early button - only for seller of active underwrite */}
-                {isSeller && isActive && (
+                {isSeller && isActive && can('accept_bids') && (
                   <div className="mb-4 border-t border-gray-200 pt-4">
                     <Button 
                       variant="outline" 
@@ -354,8 +460,48 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                   </div>
                 )}
                 
+                {/* Buy-now option for traders on active auctions */}
+                {isBuyer && isActive && canBuyNow && can('bid') && (
+                  <div className="border-t border-gray-200 pt-4 mb-4">
+                    <Button
+                      className="w-full bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => setShowBuyNowDialog(true)}
+                      disabled={buyNowMutation.isPending}
+                    >
+                      Buy Now for £{auction.buyNowPrice!.toLocaleString()}
+                    </Button>
+                    <p className="text-xs text-blue-100 mt-1 text-center">
+                      Skip the bidding and win this motorcycle immediately
+                    </p>
+                  </div>
+                )}
+                
+                <Dialog open={showBuyNowDialog} onOpenChange={setShowBuyNowDialog}>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Buy now?</DialogTitle>
+                      <DialogDescription>
+                        You are agreeing to buy the {motorcycle.year} {motorcycle.make} {motorcycle.model} for £{auction.buyNowPrice?.toLocaleString()}.
+                        The auction will end immediately and other bidders will be notified.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setShowBuyNowDialog(false)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                        onClick={() => buyNowMutation.mutate(auction.id)}
+                        disabled={buyNowMutation.isPending}
+                      >
+                        {buyNowMutation.isPending ? 'Buying...' : 'Confirm Purchase'}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+                
                 {/* Show bid form for traders on active auctions */}
-                {isBuyer && isActive && (
+                {isBuyer && isActive && can('bid') && (
                   <div className="border-t border-gray-200 pt-4">
                     <BidForm
                       auctionId={auction.id}
@@ -364,26 +510,47 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                   </div>
                 )}
                 
-                {/* Blind underwrite notice for bidders */}
+                {/* Auction format notice for bidders */}
                 {isBuyer && (
                   <div className="mt-4 bg-blue-50 text-blue-800 p-4 rounded-md">
-                    <h4 className="font-medium">Blind Underwrite Information</h4>
-                    <p className="text-sm mt-1">
-                      This is a blind underwrite. Your bid is only visible to the selling dealer.
-                      Other dealers cannot see any bid information, ensuring a fair and competitive bidding process.
-                    </p>
+                    {isBlindAuction ? (
+                      <>
+                        <h4 className="font-medium">Blind Underwrite Information</h4>
+                        <p className="text-sm mt-1">
+                          This is a blind underwrite. Your bid is only visible to the selling dealer.
+                          Other dealers cannot see any bid information, ensuring a fair and competitive bidding process.
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <h4 className="font-medium">{auction.auctionType === 'reserve' ? 'Reserve Auction' : 'Open Auction'} Information</h4>
+                        <p className="text-sm mt-1">
+                          Bids are visible to all dealers and must beat the current bid by at least £{auction.bidIncrement.toLocaleString()}.
+                          {auction.auctionType === 'reserve' && ' The bike only sells if the highest bid meets the seller\'s hidden reserve price.'}
+                        </p>
+                      </>
+                    )}
+                    {auction.softCloseMinutes > 0 && (
+                      <p className="text-sm mt-2">
+                        Any bid in the final {auction.softCloseMinutes} minute{auction.softCloseMinutes !== 1 ? 's' : ''} extends
+                        the auction by {auction.softCloseExtensionMinutes} minute{auction.softCloseExtensionMinutes !== 1 ? 's' : ''}.
+                      </p>
+                    )}
                   </div>
                 )}
                 
-                {/* Bid history - only visible to the dealer who created the auction */}
-                {dealerOwnsAuction && (
+                {/* Bid history - sellers see every bid; bidders see all bids on open auctions and their own on blind ones */}
+                {(dealerOwnsAuction || isBuyer) && (
                   <div className="mt-4">
                     <BidHistory auctionId={auction.id} currentBid={auction.currentBid} />
                   </div>
                 )}
                 
+                {/* Status changes from listing through to sale */}
+                {user && <AuctionTimeline auctionId={auction.id} />}
+                
                 {/* Bid selection - only visible when underwrite ended early by seller */}
-                {dealerOwnsAuction && showBidSelection && auction.bids && auction.bids.length > 0 && (
+                {dealerOwnsAuction && can('accept_bids') && showBidSelection && auction.bids && auction.bids.length > 0 && (
                   <div className="mt-4 border-t pt-4 border-gray-200">
                     <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-4">
                       <h4 className="font-medium text-yellow-800 flex items-center">
@@ -490,6 +657,9 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                         auctionId: auction.id,
                         dealerId: auction.winningBidderId || 0,
                         amount: auction.currentBid,
+                        maxAmount: null,
+                        isProxy: false,
+                        voidedAt: null,
                         createdAt: new Date()
                       }}
                       isAccepted={auction.bidAccepted || false}
@@ -513,6 +683,9 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                           auctionId: auction.id,
                           dealerId: auction.winningBidderId || 0,
                           amount: auction.currentBid,
+                          maxAmount: null,
+                          isProxy: false,
+                          voidedAt: null,
                           createdAt: new Date()
                         }}
                         dealConfirmed={auction.dealConfirmed || false}
@@ -533,10 +706,17 @@ export default function AuctionDetail() { // Component name kept as-is for compa
                   <MessageSquare className="mr-2 h-4 w-4" />
                   Ask Question
                 </Button>
-                <Button variant="outline" size="sm">
-                  <Bookmark className="mr-2 h-4 w-4" />
-                  Save
-                </Button>
+                {!isSeller && (isActive || isWatching(auction.id)) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isUpdatingWatchlist}
+                    onClick={() => toggleWatch(auction.id)}
+                  >
+                    <Bookmark className={`mr-2 h-4 w-4 ${isWatching(auction.id) ? 'fill-current' : ''}`} />
+                    {isWatching(auction.id) ? 'Saved' : 'Save'}
+                  </Button>
+                )}
               </div>
             </div>
           </div>
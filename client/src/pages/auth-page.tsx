@@ -195,6 +195,9 @@ export default function AuthPage() {
                       <p className="text-center text-sm text-muted-foreground">
                         Test account: <code>johndealer</code> / <code>password123</code>
                       </p>
+                      <p className="text-center text-sm">
+                        <Link href="/forgot-password" className="text-primary hover:underline">Forgot your password?</Link>
+                      </p>
                       <div className="mt-4 text-center">
                         <Button
                           type="button"
@@ -11,9 +11,10 @@ import { isValid, parseISO } from 'date-fns';
 import StatCard from '@/components/dashboard/StatCard';
 import ActivityItem from '@/components/dashboard/ActivityItem';
 import AuctionCard from '@/components/auctions/AuctionCard';
+import { useWatchlist } from '@/hooks/use-watchlist';
 import { 
   Package, AlertCircle, Clock, CheckCircle, BarChart4, Users,
-  Gavel, PlusCircle, Link as LinkIcon, Home, Search, MessageSquare
+  Gavel, PlusCircle, Link as LinkIcon, Home, Search, MessageSquare, Bookmark
 } from 'lucide-react';
 import { Link } from 'wouter';
 import Layout from '@/components/layout/Layout';
@@ -23,6 +24,7 @@ import { DashboardStats, AuctionWithDetails, ActivityItem as ActivityItemType }
 const FavoriteDealers = lazy(() => import('@/components/dashboard/FavoriteDealers'));
 const BidAcceptance = lazy(() => import('@/components/dashboard/BidAcceptance'));
 const MessagesTab = lazy(() => import('@/components/dashboard/MessagesTab'));
+const NotificationSettings = lazy(() => import('@/components/dashboard/NotificationSettings'));
 
 export default function DealerDashboard() {
   const { user } = useAuth();
@@ -160,6 +162,9 @@ export default function DealerDashboard() {
     staleTime: 0 // Always refetch when query key changes
   });
   
+  // Auctions the dealer is watching
+  const { watchlist, isLoading: watchlistLoading } = useWatchlist();
+  
   // Filter to show ALL auctions where the current user has placed a bid
   // The stat card should match the total number of bids placed, not the filtered view
   console.log('Filtering placed bids from these auctions:', biddedAuctions);
@@ -389,6 +394,12 @@ export default function DealerDashboard() {
             >
               Placed Bids
             </button>
+            <button 
+              className={`tab flex-shrink-0 ${activeTab === "watchlist" ? "tab-active bg-primary text-white" : ""}`}
+              onClick={() => setActiveTab("watchlist")}
+            >
+              Watchlist
+            </button>
             <button 
               className={`tab flex-shrink-0 ${activeTab === "pending-completion" ? "tab-active bg-primary text-white" : ""}`}
               onClick={() => setActiveTab("pending-completion")}
@@ -418,6 +429,12 @@ export default function DealerDashboard() {
                 </span>
               )}
             </button>
+            <button 
+              className={`tab flex-shrink-0 ${activeTab === "notification-settings" ? "tab-active bg-primary text-white" : ""}`}
+              onClick={() => setActiveTab("notification-settings")}
+            >
+              Notification Settings
+            </button>
           </div>
           
           {/* Content Container */}
@@ -663,6 +680,51 @@ export default function DealerDashboard() {
                 </div>
               </TabsContent>
               
+              {/* Watchlist Tab */}
+              <TabsContent value="watchlist">
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-2">Watchlist</h2>
+                  <p className="text-muted-foreground">Auctions you've saved. We'll alert you 15 minutes before each one ends.</p>
+                
+                  {watchlistLoading ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                      {[...Array(3)].map((_, i) => (
+                        <div key={i} className="border rounded-lg p-4">
+                          <Skeleton className="h-40 w-full mb-3" />
+                          <Skeleton className="h-5 w-2/3 mb-2" />
+                          <Skeleton className="h-4 w-1/2 mb-4" />
+                          <div className="flex justify-between">
+                            <Skeleton className="h-8 w-20" />
+                            <Skeleton className="h-8 w-20" />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : watchlist.length === 0 ? (
+                    <div className="text-center py-12 border rounded-lg mt-4">
+                      <Bookmark className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                      <h3 className="text-lg font-medium mb-2">You aren't watching any auctions yet</h3>
+                      <Link href="/auctions">
+                        <Button variant="outline">
+                          <LinkIcon className="mr-2 h-4 w-4" />
+                          Browse Available Motorcycles
+                        </Button>
+                      </Link>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                      {watchlist.map(auction => (
+                        <AuctionCard 
+                          key={auction.id}
+                          auction={auction}
+                          showDealerInfo={true}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
+              
               {/* Completed Deals Tab */}
               <TabsContent value="completed-deals">
                 <div className="mb-6">
@@ -797,6 +859,13 @@ export default function DealerDashboard() {
                   </div>
                 </div>
               </TabsContent>
+              
+              {/* Notification Settings Tab */}
+              <TabsContent value="notification-settings">
+                <Suspense fallback={<Skeleton className="h-96 w-full" />}>
+                  <NotificationSettings />
+                </Suspense>
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import Layout from "@/components/layout/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BadgeCheck, FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { verificationSubmissionSchema, MAX_VERIFICATION_DOCUMENTS } from "@shared/schema";
+import { VerificationSummary } from "@shared/types";
+
+type VerificationFormValues = z.input<typeof verificationSubmissionSchema>;
+
+const STATUS_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  pending_verification: { label: "Awaiting review", variant: "secondary" },
+  verified: { label: "Verified", variant: "default" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+// Send the details and documents as multipart form data (apiRequest only sends JSON)
+async function submitVerification(values: VerificationFormValues, files: File[]): Promise<VerificationSummary> {
+  const formData = new FormData();
+  formData.append("companyNumber", values.companyNumber);
+  formData.append("vatNumber", values.vatNumber || "");
+  files.forEach(file => formData.append("documents", file));
+
+  const res = await fetch("/api/verification", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.message || `Submission failed (${res.status})`);
+  }
+  return body;
+}
+
+export default function DealerVerificationPage() {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+
+  const { data: verification, isLoading } = useQuery<VerificationSummary>({
+    queryKey: ["/api/verification"],
+  });
+
+  const form = useForm<VerificationFormValues>({
+    resolver: zodResolver(verificationSubmissionSchema),
+    values: {
+      companyNumber: verification?.companyNumber || "",
+      vatNumber: verification?.vatNumber || "",
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (values: VerificationFormValues) => submitVerification(values, files),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/verification"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setFiles([]);
+      toast({
+        title: "Details submitted",
+        description: "We'll review your company details and let you know once you're verified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't submit your details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !verification) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  const badge = STATUS_BADGES[verification.status] || STATUS_BADGES.pending_verification;
+  const isVerified = verification.status === "verified";
+  const hasSubmitted = !!verification.submittedAt;
+
+  return (
+    <Layout>
+      <div className="container max-w-screen-lg mx-auto py-12">
+        <Card className="mx-auto max-w-2xl">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-2xl font-bold flex items-center gap-2">
+                <BadgeCheck className="h-6 w-6 text-primary" />
+                Trade Verification
+              </CardTitle>
+              <Badge variant={badge.variant}>{badge.label}</Badge>
+            </div>
+            <CardDescription>
+              {isVerified
+                ? "Your company has been verified. You can bid on and list motorcycles."
+                : "TradeBikes is for the motor trade only. Until your company is verified you can browse stock, but not bid or list."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {verification.status === "rejected" && verification.notes && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                <p className="font-medium">Your last submission was rejected</p>
+                <p>{verification.notes}</p>
+              </div>
+            )}
+
+            {verification.status === "pending_verification" && hasSubmitted && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+                Submitted on {format(new Date(verification.submittedAt!), "d MMM yyyy")}. We'll notify you when it has been reviewed.
+              </div>
+            )}
+
+            {verification.documents.length > 0 && (
+              <div>
+                <Label>Documents on file</Label>
+                <ul className="mt-2 space-y-1">
+                  {verification.documents.map((url, index) => (
+                    <li key={url}>
+                      <a href={url} target="_blank" rel="noreferrer" className="flex items-center gap-2 text-sm text-primary hover:underline">
+                        <FileText className="h-4 w-4" />
+                        Document {index + 1}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {!isVerified && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(values => submitMutation.mutate(values))} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="companyNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Companies House number</FormLabel>
+                        <FormControl>
+                          <Input placeholder="01234567" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="vatNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>VAT number (optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="GB123456789" {...field} value={field.value || ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="space-y-2">
+                    <Label htmlFor="verification-documents">Proof documents</Label>
+                    <Input
+                      id="verification-documents"
+                      type="file"
+                      multiple
+                      accept="application/pdf,image/jpeg,image/png"
+                      onChange={(event) => setFiles(Array.from(event.target.files || []).slice(0, MAX_VERIFICATION_DOCUMENTS))}
+                    />
+                    <FormDescription>
+                      e.g. certificate of incorporation, VAT certificate or motor trade insurance. PDF, JPEG or PNG, up to {MAX_VERIFICATION_DOCUMENTS} files.
+                      {verification.documents.length > 0 && " New uploads replace the documents on file."}
+                    </FormDescription>
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={submitMutation.isPending || (files.length === 0 && verification.documents.length === 0)}
+                  >
+                    {submitMutation.isPending ? "Submitting..." : hasSubmitted ? "Resubmit for Review" : "Submit for Review"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import Layout from "@/components/layout/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Loader2, Trash2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDealership } from "@/hooks/use-dealership";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { createStaffMemberSchema, DEALERSHIP_ROLES, DealershipRole } from "@shared/schema";
+
+type StaffFormValues = z.infer<typeof createStaffMemberSchema>;
+
+const ROLE_DESCRIPTIONS: Record<DealershipRole, string> = {
+  owner: "Everything, including financials and managing staff",
+  buyer: "Bid on and buy stock",
+  seller: "List stock and accept bids",
+  viewer: "View the dealership's listings only",
+};
+
+export default function DealershipPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { dealership: summary, isLoading, can } = useDealership();
+  const [name, setName] = useState<string | null>(null);
+
+  const form = useForm<StaffFormValues>({
+    resolver: zodResolver(createStaffMemberSchema),
+    defaultValues: { username: "", email: "", password: "", role: "viewer" },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error), variant: "destructive" });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/dealership"] });
+
+  const renameMutation = useMutation({
+    mutationFn: async (newName: string) => {
+      const res = await apiRequest("PATCH", "/api/dealership", { name: newName });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setName(null);
+      toast({ title: "Dealership renamed" });
+    },
+    onError: onError("Couldn't rename the dealership"),
+  });
+
+  const addStaffMutation = useMutation({
+    mutationFn: async (values: StaffFormValues) => {
+      const res = await apiRequest("POST", "/api/dealership/staff", values);
+      return res.json();
+    },
+    onSuccess: (staff) => {
+      refresh();
+      form.reset();
+      toast({ title: "Staff member added", description: `${staff.username} can now log in.` });
+    },
+    onError: onError("Couldn't add staff member"),
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: DealershipRole }) => {
+      const res = await apiRequest("PATCH", `/api/dealership/staff/${userId}`, { role });
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't change role"),
+  });
+
+  const removeStaffMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("DELETE", `/api/dealership/staff/${userId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Staff member removed", description: "Their listings now belong to you." });
+    },
+    onError: onError("Couldn't remove staff member"),
+  });
+
+  if (isLoading || !summary) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  const canManage = can("manage_staff");
+
+  return (
+    <Layout>
+      <div className="container max-w-screen-lg mx-auto py-12 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-2xl font-bold flex items-center gap-2">
+                <Building2 className="h-6 w-6 text-primary" />
+                {summary.dealership.name}
+              </CardTitle>
+              <Badge variant="secondary" className="capitalize">{summary.role}</Badge>
+            </div>
+            <CardDescription>
+              Your role: {ROLE_DESCRIPTIONS[summary.role as DealershipRole] || summary.role}
+            </CardDescription>
+          </CardHeader>
+          {canManage && (
+            <CardContent>
+              <form
+                className="flex gap-2 max-w-md"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (name?.trim()) renameMutation.mutate(name.trim());
+                }}
+              >
+                <Input
+                  value={name ?? summary.dealership.name}
+                  onChange={(event) => setName(event.target.value)}
+                  aria-label="Dealership name"
+                />
+                <Button type="submit" variant="outline" disabled={name === null || renameMutation.isPending}>
+                  Rename
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Staff</CardTitle>
+            <CardDescription>Everyone here shares the dealership's listings and purchases.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  {canManage && <TableHead className="w-12" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.staff.map((member) => (
+                  <TableRow key={member.userId}>
+                    <TableCell className="font-medium">
+                      {member.username}
+                      {member.userId === user?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      {canManage ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => changeRoleMutation.mutate({ userId: member.userId, role: role as DealershipRole })}
+                        >
+                          <SelectTrigger className="w-32 capitalize">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DEALERSHIP_ROLES.map((role) => (
+                              <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="capitalize">{member.role}</span>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        {member.userId !== user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Remove ${member.username}`}
+                            disabled={removeStaffMutation.isPending}
+                            onClick={() => {
+                              if (window.confirm(`Remove ${member.username}? Their listings will be moved to you.`)) {
+                                removeStaffMutation.mutate(member.userId);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                Add Staff
+              </CardTitle>
+              <CardDescription>Create a login for a member of staff. They trade under your dealership's verification.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(values => addStaffMutation.mutate(values))} className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Temporary password</FormLabel>
+                        <FormControl>
+                          <Input type="password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="capitalize">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {DEALERSHIP_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                <span className="capitalize">{role}</span> - {ROLE_DESCRIPTIONS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="md:col-span-2">
+                    <Button type="submit" disabled={addStaffMutation.isPending}>
+                      {addStaffMutation.isPending ? "Adding..." : "Add Staff Member"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import Layout from "@/components/layout/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormValues) => {
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", data);
+      setSentTo(data.email);
+    } catch (error) {
+      toast({
+        title: "Couldn't send reset link",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container max-w-screen-lg mx-auto py-20">
+        <Card className="mx-auto max-w-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-primary/10 h-16 w-16 rounded-full flex items-center justify-center mb-4">
+              <KeyRound className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Forgot Your Password?</CardTitle>
+            <CardDescription>
+              {sentTo
+                ? <>If an account exists for <span className="font-medium">{sentTo}</span>, we've sent a link to reset your password.</>
+                : "Enter the email address for your account and we'll send you a reset link."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!sentTo && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" autoComplete="email" placeholder="you@dealership.co.uk" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting ? "Sending..." : "Send Reset Link"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            <Button variant="link" className="w-full" onClick={() => navigate("/auth")}>
+              Back to Login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
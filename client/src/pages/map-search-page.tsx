@@ -6,11 +6,12 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Search, MapPin, Filter, Loader2 } from "lucide-react";
+import { MapPin, Filter, Loader2 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useAuth } from "@/hooks/use-auth";
-import { useQuery } from "@tanstack/react-query";
-import { Auction } from "@shared/schema";
+import SavedSearches from "@/components/auctions/SavedSearches";
+import { useAuctionSearch } from "@/hooks/use-auction-search";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { AuctionSearchCriteria, AuctionSearchSort } from "@shared/schema";
 
 // Available motorcycle brands
 const brands = [
@@ -18,74 +19,102 @@ const brands = [
   "BMW", "Triumph", "Harley-Davidson", "KTM", "Aprilia"
 ];
 
-// Available motorcycle types
-const types = [
-  "All Types", "Sport", "Cruiser", "Touring", "Adventure", "Naked", 
-  "Custom", "Dirt", "Scooter", "Electric"
+const conditions = ["Excellent", "Good", "Fair", "Poor"];
+
+const sortOptions: { value: AuctionSearchSort; label: string }[] = [
+  { value: "ending_soon", label: "Ending soon" },
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "mileage_asc", label: "Lowest mileage" },
+  { value: "year_desc", label: "Newest bikes" },
+  { value: "distance", label: "Nearest" },
 ];
 
-// Interface to represent auction with detailed data
-interface AuctionWithDetails extends Auction {
-  motorcycle: {
-    id: number;
-    make: string;
-    model: string;
-    year: number;
-    color: string;
-    mileage: number;
-    engineSize: number;
-    description: string;
-    condition: string;
-    category: string;
-    images: string[];
-    features: string[];
-    dealerId: number;
-    registrationNumber: string;
-    createdAt: Date;
-  };
-  currentBid?: number;
-  totalBids: number;
-}
+const ratingOptions = ["Any", "3", "4", "4.5", "5"];
+
+// Blank number inputs mean "no limit"
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+const toText = (value: number | undefined) => (value === undefined ? "" : String(value));
 
 export default function MapSearchPage() {
-  const { user } = useAuth();
   const [searchRadius, setSearchRadius] = useState<number>(50);
   const [postCode, setPostCode] = useState<string>("");
   const [selectedMake, setSelectedMake] = useState<string>("All Brands");
-  const [selectedType, setSelectedType] = useState<string>("All Types");
+  const [model, setModel] = useState<string>("");
+  const [yearMin, setYearMin] = useState<string>("");
+  const [yearMax, setYearMax] = useState<string>("");
+  const [mileageMax, setMileageMax] = useState<string>("");
+  const [engineSizeMin, setEngineSizeMin] = useState<string>("");
+  const [engineSizeMax, setEngineSizeMax] = useState<string>("");
+  const [priceMin, setPriceMin] = useState<string>("");
+  const [priceMax, setPriceMax] = useState<string>("");
+  const [minRating, setMinRating] = useState<string>("Any");
+  const [selectedConditions, setSelectedConditions] = useState<string[]>([]);
+  const [sort, setSort] = useState<AuctionSearchSort>("ending_soon");
   const [filterVisible, setFilterVisible] = useState<boolean>(false);
-  
-  // Fetch active auctions from the API
-  const { data: auctions, isLoading, error } = useQuery<AuctionWithDetails[]>({
-    queryKey: ["/api/auctions"],
-    refetchInterval: 30000, // Refresh every 30 seconds
-  });
 
-  // Filter auctions based on selected criteria
-  const filteredAuctions = auctions?.filter(auction => {
-    // Filter by make
-    if (selectedMake !== "All Brands" && auction.motorcycle.make !== selectedMake) {
-      return false;
-    }
-    
-    // Filter by type/category
-    if (selectedType !== "All Types" && auction.motorcycle.category !== selectedType) {
-      return false;
-    }
-    
-    // Additional filtering could be implemented here
-    return true;
-  });
-  
+  // Filters are sent to the server when applied, not on every keystroke
+  const [appliedFilters, setAppliedFilters] = useState<AuctionSearchCriteria>({});
+
+  const {
+    auctions,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useAuctionSearch({ ...appliedFilters, sort });
+
+  const toggleCondition = (condition: string, checked: boolean) => {
+    setSelectedConditions(current =>
+      checked ? [...current, condition] : current.filter(item => item !== condition)
+    );
+  };
+
   // Handle applying search filters
   const handleSearch = () => {
-    console.log("Applying filters:", { 
-      searchRadius, 
-      postCode,
-      make: selectedMake, 
-      type: selectedType 
+    const postcode = postCode.trim() || undefined;
+    setAppliedFilters({
+      make: selectedMake === "All Brands" ? undefined : selectedMake,
+      model: model.trim() || undefined,
+      yearMin: toNumber(yearMin),
+      yearMax: toNumber(yearMax),
+      mileageMax: toNumber(mileageMax),
+      engineSizeMin: toNumber(engineSizeMin),
+      engineSizeMax: toNumber(engineSizeMax),
+      condition: selectedConditions.length > 0 ? selectedConditions : undefined,
+      priceMin: toNumber(priceMin),
+      priceMax: toNumber(priceMax),
+      minRating: minRating === "Any" ? undefined : Number(minRating),
+      postcode,
+      radiusMiles: postcode ? searchRadius : undefined,
     });
-    // This would trigger a refetch or apply client-side filtering
+    // Nearest-first needs a postcode to measure from
+    if (!postcode && sort === "distance") {
+      setSort("ending_soon");
+    }
+  };
+
+  // Load a saved search into the filter form and run it
+  const applySavedSearch = (criteria: AuctionSearchCriteria) => {
+    setSelectedMake(criteria.make || "All Brands");
+    setModel(criteria.model || "");
+    setYearMin(toText(criteria.yearMin));
+    setYearMax(toText(criteria.yearMax));
+    setMileageMax(toText(criteria.mileageMax));
+    setEngineSizeMin(toText(criteria.engineSizeMin));
+    setEngineSizeMax(toText(criteria.engineSizeMax));
+    setSelectedConditions(criteria.condition || []);
+    setPriceMin(toText(criteria.priceMin));
+    setPriceMax(toText(criteria.priceMax));
+    setMinRating(criteria.minRating === undefined ? "Any" : String(criteria.minRating));
+    setPostCode(criteria.postcode || "");
+    if (criteria.radiusMiles !== undefined) setSearchRadius(criteria.radiusMiles);
+    setAppliedFilters(criteria);
+    if (!criteria.postcode && sort === "distance") {
+      setSort("ending_soon");
+    }
   };
 
   return (
@@ -93,7 +122,7 @@ export default function MapSearchPage() {
       <div className="container mx-auto px-4 py-8">
         <div className="flex flex-col md:flex-row gap-6">
           {/* Left sidebar with filters */}
-          <div className={`w-full md:w-1/3 lg:w-1/4 ${filterVisible ? 'block' : 'hidden md:block'}`}>
+          <div className={`w-full md:w-1/3 lg:w-1/4 space-y-6 ${filterVisible ? 'block' : 'hidden md:block'}`}>
             <Card>
               <CardHeader>
                 <CardTitle className="text-xl">Filter Options</CardTitle>
@@ -131,6 +160,7 @@ export default function MapSearchPage() {
                       <div className="flex justify-between">
                         <Label>Search Radius: {searchRadius} miles</Label>
                       </div>
+                      <p className="text-xs text-muted-foreground">Applies when a postcode is entered</p>
                       <Slider
                         value={[searchRadius]}
                         min={5}
@@ -163,62 +193,91 @@ export default function MapSearchPage() {
                   </Select>
                 </div>
 
-                {/* Type selection */}
                 <div className="space-y-2">
-                  <Label htmlFor="type">Type</Label>
-                  <Select value={selectedType} onValueChange={setSelectedType}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {types.map((type) => (
-                        <SelectItem key={type} value={type}>
-                          {type}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="model">Model</Label>
+                  <Input
+                    id="model"
+                    placeholder="e.g. Africa Twin"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Year</Label>
+                  <div className="flex gap-2">
+                    <Input type="number" placeholder="From" value={yearMin} onChange={(e) => setYearMin(e.target.value)} aria-label="Year from" />
+                    <Input type="number" placeholder="To" value={yearMax} onChange={(e) => setYearMax(e.target.value)} aria-label="Year to" />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="mileage-max">Maximum mileage</Label>
+                  <Input id="mileage-max" type="number" min={0} placeholder="Any" value={mileageMax} onChange={(e) => setMileageMax(e.target.value)} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Engine size (cc)</Label>
+                  <div className="flex gap-2">
+                    <Input type="number" min={0} placeholder="Min" value={engineSizeMin} onChange={(e) => setEngineSizeMin(e.target.value)} aria-label="Minimum engine size" />
+                    <Input type="number" min={0} placeholder="Max" value={engineSizeMax} onChange={(e) => setEngineSizeMax(e.target.value)} aria-label="Maximum engine size" />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Current bid (£)</Label>
+                  <div className="flex gap-2">
+                    <Input type="number" min={0} placeholder="Min" value={priceMin} onChange={(e) => setPriceMin(e.target.value)} aria-label="Minimum current bid" />
+                    <Input type="number" min={0} placeholder="Max" value={priceMax} onChange={(e) => setPriceMax(e.target.value)} aria-label="Maximum current bid" />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Blind auctions have no public bid, so they're left out of bid filters.</p>
                 </div>
 
-                {/* Advanced filters with checkboxes */}
+                {/* Condition checkboxes */}
                 <div className="space-y-3">
                   <h3 className="text-md font-medium">Condition</h3>
                   <div className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox id="condition-excellent" />
-                      <label
-                        htmlFor="condition-excellent"
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        Excellent
-                      </label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox id="condition-good" />
-                      <label
-                        htmlFor="condition-good"
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        Good
-                      </label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox id="condition-fair" />
-                      <label
-                        htmlFor="condition-fair"
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        Fair
-                      </label>
-                    </div>
+                    {conditions.map((condition) => (
+                      <div key={condition} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`condition-${condition.toLowerCase()}`}
+                          checked={selectedConditions.includes(condition)}
+                          onCheckedChange={(checked) => toggleCondition(condition, checked === true)}
+                        />
+                        <label
+                          htmlFor={`condition-${condition.toLowerCase()}`}
+                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {condition}
+                        </label>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="min-rating">Seller rating</Label>
+                  <Select value={minRating} onValueChange={setMinRating}>
+                    <SelectTrigger id="min-rating">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ratingOptions.map((rating) => (
+                        <SelectItem key={rating} value={rating}>
+                          {rating === "Any" ? "Any rating" : `${rating}+ stars`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <Button className="w-full" onClick={handleSearch}>
                   Apply Filters
                 </Button>
               </CardContent>
             </Card>
+
+            <SavedSearches criteria={appliedFilters} onApply={applySavedSearch} />
           </div>
 
           {/* Main content area with map and listings */}
@@ -255,8 +314,26 @@ export default function MapSearchPage() {
 
             {/* Search results */}
             <div>
-              <h2 className="text-2xl font-bold mb-4">Available Motorcycles</h2>
-              
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+                <h2 className="text-2xl font-bold">Available Motorcycles</h2>
+                <Select value={sort} onValueChange={(value) => setSort(value as AuctionSearchSort)}>
+                  <SelectTrigger className="w-full sm:w-[200px]" aria-label="Sort by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortOptions.map((option) => (
+                      <SelectItem
+                        key={option.value}
+                        value={option.value}
+                        disabled={option.value === "distance" && !appliedFilters.postcode}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {isLoading ? (
                 <div className="flex justify-center items-center h-40">
                   <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -264,50 +341,61 @@ export default function MapSearchPage() {
                 </div>
               ) : error ? (
                 <div className="p-4 border border-red-300 bg-red-50 text-red-700 rounded">
-                  <p>Error loading listings. Please try again later.</p>
+                  <p>{getApiErrorMessage(error) || "Error loading listings. Please try again later."}</p>
                 </div>
-              ) : !filteredAuctions || filteredAuctions.length === 0 ? (
+              ) : auctions.length === 0 ? (
                 <div className="p-4 border border-amber-300 bg-amber-50 text-amber-700 rounded">
                   <p>No active listings found matching your criteria.</p>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {filteredAuctions.map((auction) => (
-                    <Card key={auction.id} className="overflow-hidden">
-                      <div className="relative h-48 bg-gray-100">
-                        <img
-                          src={auction.motorcycle.images[0] || "https://via.placeholder.com/400x300?text=No+Image+Available"}
-                          alt={`${auction.motorcycle.make} ${auction.motorcycle.model}`}
-                          className="w-full h-full object-cover"
-                        />
-                        {auction.endTime && (
-                          <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-sm">
-                            Ends: {new Date(auction.endTime).toLocaleDateString()}
-                          </div>
-                        )}
-                      </div>
-                      <CardContent className="p-4">
-                        <div className="space-y-1">
-                          <h3 className="font-semibold text-lg truncate">
-                            {auction.motorcycle.make} {auction.motorcycle.model}
-                          </h3>
-                          <p className="text-muted-foreground text-sm">
-                            {auction.motorcycle.year} • {auction.motorcycle.mileage.toLocaleString()} miles
-                          </p>
-                          <p className="font-bold text-lg">
-                            {auction.currentBid 
-                              ? `Current Bid: £${auction.currentBid.toLocaleString()}` 
-                              : `Open for Bids`
-                            }
-                          </p>
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {auctions.map((auction) => (
+                      <Card key={auction.id} className="overflow-hidden">
+                        <div className="relative h-48 bg-gray-100">
+                          <img
+                            src={auction.motorcycle.images?.[0] || "https://via.placeholder.com/400x300?text=No+Image+Available"}
+                            alt={`${auction.motorcycle.make} ${auction.motorcycle.model}`}
+                            className="w-full h-full object-cover"
+                          />
+                          {auction.endTime && (
+                            <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-sm">
+                              Ends: {new Date(auction.endTime).toLocaleDateString()}
+                            </div>
+                          )}
                         </div>
-                        <Button className="w-full mt-3" variant="outline" asChild>
-                          <a href={`/underwrites/${auction.id}`}>View Details</a>
-                        </Button>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
+                        <CardContent className="p-4">
+                          <div className="space-y-1">
+                            <h3 className="font-semibold text-lg truncate">
+                              {auction.motorcycle.make} {auction.motorcycle.model}
+                            </h3>
+                            <p className="text-muted-foreground text-sm">
+                              {auction.motorcycle.year} • {auction.motorcycle.mileage.toLocaleString()} miles
+                              {auction.distanceMiles !== undefined && ` • ${auction.distanceMiles} mi away`}
+                            </p>
+                            <p className="font-bold text-lg">
+                              {auction.currentBid 
+                                ? `Current Bid: £${auction.currentBid.toLocaleString()}` 
+                                : `Open for Bids`
+                              }
+                            </p>
+                          </div>
+                          <Button className="w-full mt-3" variant="outline" asChild>
+                            <a href={`/underwrites/${auction.id}`}>View Details</a>
+                          </Button>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                  {hasNextPage && (
+                    <div className="flex justify-center mt-6">
+                      <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Load more
+                      </Button>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </div>
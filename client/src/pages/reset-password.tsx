@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import Layout from "@/components/layout/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Check, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine(values => values.password === values.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const [isReset, setIsReset] = useState(false);
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormValues) => {
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      setIsReset(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't reset password",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container max-w-screen-lg mx-auto py-20">
+        <Card className="mx-auto max-w-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto bg-primary/10 h-16 w-16 rounded-full flex items-center justify-center mb-4">
+              {isReset ? <Check className="h-8 w-8 text-primary" /> : <KeyRound className="h-8 w-8 text-primary" />}
+            </div>
+            <CardTitle className="text-2xl font-bold">{isReset ? "Password Updated" : "Choose a New Password"}</CardTitle>
+            <CardDescription>
+              {!token
+                ? "This reset link is incomplete. Please request a new one."
+                : isReset
+                  ? "You can now sign in with your new password."
+                  : "Enter a new password for your account."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {token && !isReset && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting ? "Saving..." : "Update Password"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            {isReset ? (
+              <Button className="w-full" onClick={() => navigate("/auth")}>
+                Sign In
+              </Button>
+            ) : !token && (
+              <Button variant="outline" className="w-full" onClick={() => navigate("/forgot-password")}>
+                Request a New Link
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
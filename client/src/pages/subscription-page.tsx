@@ -1,11 +1,14 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import Layout from "@/components/layout/Layout";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Check, CreditCard, ShieldCheck } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 
 interface SubscriptionPlan {
   id: string;
@@ -15,10 +18,73 @@ interface SubscriptionPlan {
   features: string[];
 }
 
+interface SubscriptionStatus {
+  plan: 'free' | 'basic' | 'pro';
+  status: string | null;
+  currentPeriodEnd: string | null;
+  isPro: boolean;
+  billingEnabled: boolean;
+}
+
 export default function SubscriptionPage() {
   const [_, navigate] = useLocation();
   const { user } = useAuth();
   const [billingInterval, setBillingInterval] = useState<'month' | 'year'>('month');
+  const { toast } = useToast();
+
+  const { data: subscription } = useQuery<SubscriptionStatus>({
+    queryKey: ['/api/billing/subscription'],
+    enabled: !!user,
+  });
+
+  // Stripe Checkout sends the user back here with the outcome
+  useEffect(() => {
+    const checkout = new URLSearchParams(window.location.search).get('checkout');
+    if (checkout === 'success') {
+      toast({
+        title: "Subscription started",
+        description: "Thanks for subscribing. Your plan will update in a moment.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    } else if (checkout === 'cancelled') {
+      toast({
+        title: "Checkout cancelled",
+        description: "You haven't been charged.",
+      });
+    }
+  }, [toast]);
+
+  // Send the browser to a Stripe-hosted page (Checkout or the billing portal)
+  const redirectToStripe = async (res: Response) => {
+    const { url } = await res.json();
+    window.location.href = url;
+  };
+
+  const checkoutMutation = useMutation({
+    mutationFn: (planId: string) =>
+      apiRequest("POST", "/api/billing/checkout", { plan: planId, interval: billingInterval }),
+    onSuccess: redirectToStripe,
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't start checkout",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const portalMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/billing/portal"),
+    onSuccess: redirectToStripe,
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't open billing portal",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
 
   // Redirect if not logged in
   if (!user) {
@@ -54,16 +120,21 @@ export default function SubscriptionPage() {
         'API data exports',
         'Advanced analytics',
         'Priority support',
-        'Custom branding options',
-        'Coming soon'
+        'Custom branding options'
       ]
     }
   ];
 
+  const currentPlan = subscription?.plan ?? 'free';
+  const hasSubscription = currentPlan !== 'free';
+
   const handleSubscribe = (planId: string) => {
-    // Mock subscription processing
-    console.log(`Subscribing to ${planId} plan with ${billingInterval} billing`);
-    navigate("/account");
+    // Existing subscribers change plan through the Stripe billing portal
+    if (hasSubscription) {
+      portalMutation.mutate();
+    } else {
+      checkoutMutation.mutate(planId);
+    }
   };
 
   return (
@@ -72,6 +143,18 @@ export default function SubscriptionPage() {
         <div className="text-center mb-10">
           <h1 className="text-3xl font-bold">Choose Your Subscription Plan</h1>
           <p className="text-muted-foreground mt-2">Select the right plan for your business needs</p>
+          {hasSubscription && (
+            <div className="mt-4 flex flex-col items-center gap-2">
+              <p className="text-sm">
+                You're on the <span className="font-semibold capitalize">{currentPlan}</span> plan
+                {subscription?.currentPeriodEnd && ` - renews ${new Date(subscription.currentPeriodEnd).toLocaleDateString()}`}
+                {subscription?.status === 'past_due' && ' (payment overdue)'}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => portalMutation.mutate()} disabled={portalMutation.isPending}>
+                {portalMutation.isPending ? 'Opening...' : 'Manage Billing'}
+              </Button>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-center mb-8">
@@ -97,11 +180,6 @@ export default function SubscriptionPage() {
                   POPULAR
                 </div>
               )}
-              {plan.id === 'pro' && (
-                <div className="absolute top-0 right-0 bg-amber-500 text-white px-3 py-1 text-sm font-medium rounded-bl-lg rounded-tr-lg">
-                  COMING SOON
-                </div>
-              )}
               <CardHeader>
                 <CardTitle className="text-2xl">{plan.name}</CardTitle>
                 <CardDescription>
@@ -126,9 +204,13 @@ export default function SubscriptionPage() {
                   className="w-full" 
                   variant={plan.id === 'basic' ? 'default' : 'outline'} 
                   onClick={() => handleSubscribe(plan.id)}
-                  disabled={plan.id === 'pro'}
+                  disabled={plan.id === currentPlan || subscription?.billingEnabled === false || checkoutMutation.isPending}
                 >
-                  {plan.id === 'pro' ? 'Coming Soon' : `Select ${plan.name}`}
+                  {plan.id === currentPlan
+                    ? 'Current Plan'
+                    : checkoutMutation.isPending && checkoutMutation.variables === plan.id
+                      ? 'Redirecting...'
+                      : hasSubscription ? `Switch to ${plan.name}` : `Select ${plan.name}`}
                 </Button>
               </CardFooter>
             </Card>
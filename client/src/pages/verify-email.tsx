@@ -3,8 +3,10 @@ import { useLocation } from "wouter";
 import Layout from "@/components/layout/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Check, Mail } from "lucide-react";
+import { Check, Mail, XCircle } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 
 export default function VerifyEmailPage() {
   const [location, navigate] = useLocation();
@@ -12,6 +14,27 @@ export default function VerifyEmailPage() {
   const [email, setEmail] = useState("");
   const [isResending, setIsResending] = useState(false);
   const [isResent, setIsResent] = useState(false);
+  const { toast } = useToast();
+  
+  // Token from the emailed link, if the user arrived by following it
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const [verifyStatus, setVerifyStatus] = useState<"pending" | "verified" | "failed">("pending");
+  const [verifyError, setVerifyError] = useState("");
+
+  // Redeem the token once on arrival
+  useEffect(() => {
+    if (!token) return;
+    
+    apiRequest("POST", "/api/auth/verify", { token })
+      .then(() => {
+        setVerifyStatus("verified");
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      })
+      .catch((error: Error) => {
+        setVerifyStatus("failed");
+        setVerifyError(getApiErrorMessage(error));
+      });
+  }, [token]);
 
   // If email is in URL params, use it
   useEffect(() => {
@@ -27,25 +50,82 @@ export default function VerifyEmailPage() {
 
   // Redirect if no email is available
   useEffect(() => {
-    if (!email && !user) {
+    if (!token && !email && !user) {
       navigate("/register");
     }
-  }, [email, user, navigate]);
+  }, [token, email, user, navigate]);
 
-  const handleResendEmail = () => {
+  const handleResendEmail = async () => {
     setIsResending(true);
     
-    // Mock API call to resend verification email
-    setTimeout(() => {
-      setIsResending(false);
+    try {
+      await apiRequest("POST", "/api/auth/resend-verification", { email });
       setIsResent(true);
       
       // Reset the "Resent" state after 5 seconds
       setTimeout(() => {
         setIsResent(false);
       }, 5000);
-    }, 1500);
+    } catch (error) {
+      toast({
+        title: "Couldn't resend email",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsResending(false);
+    }
   };
+  
+  if (token) {
+    return (
+      <Layout>
+        <div className="container max-w-screen-lg mx-auto py-20">
+          <Card className="mx-auto max-w-lg">
+            <CardHeader className="text-center">
+              <div className="mx-auto bg-primary/10 h-16 w-16 rounded-full flex items-center justify-center mb-4">
+                {verifyStatus === "failed"
+                  ? <XCircle className="h-8 w-8 text-destructive" />
+                  : verifyStatus === "verified"
+                    ? <Check className="h-8 w-8 text-primary" />
+                    : <Mail className="h-8 w-8 text-primary" />}
+              </div>
+              <CardTitle className="text-2xl font-bold">
+                {verifyStatus === "pending" ? "Verifying..." : verifyStatus === "verified" ? "Email Verified" : "Verification Failed"}
+              </CardTitle>
+              <CardDescription>
+                {verifyStatus === "pending" && "Confirming your email address"}
+                {verifyStatus === "verified" && "Thanks for confirming your email address."}
+                {verifyStatus === "failed" && `${verifyError}. You can request a new link below.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              {verifyStatus === "verified" && (
+                <Button className="w-full" onClick={() => navigate(user ? "/dashboard" : "/auth")}>
+                  {user ? "Go to Dashboard" : "Sign In"}
+                </Button>
+              )}
+              {verifyStatus === "failed" && (user || email) && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleResendEmail}
+                  disabled={isResending || isResent}
+                >
+                  {isResending ? "Sending..." : isResent ? "Email Resent" : "Send a New Link"}
+                </Button>
+              )}
+              {verifyStatus === "failed" && (
+                <Button variant="link" className="w-full" onClick={() => navigate("/auth")}>
+                  Back to Login
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
 
   return (
     <Layout>
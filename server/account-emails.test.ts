@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { redeemAuthToken, sendPasswordResetEmail, sendVerificationEmail } from "./account-emails";
+import { mailTransport, FakeMailTransport } from "./mail";
+import { useMemoryStorage, createTestUser } from "./test-support";
+
+const memory = useMemoryStorage();
+
+// `npm test` sets MAIL_TRANSPORT=fake, so sent mail can be read back
+const outbox = mailTransport as FakeMailTransport;
+
+// The token from the link in the latest email
+function lastEmailedToken(): string {
+  assert.ok(outbox instanceof FakeMailTransport, "run with MAIL_TRANSPORT=fake");
+  const token = outbox.sent[outbox.sent.length - 1]?.text.match(/token=([0-9a-f]+)/)?.[1];
+  assert.ok(token, "no link in the last email");
+  return token;
+}
+
+test("a reset link works once", async () => {
+  const dealer = await createTestUser();
+  await sendPasswordResetEmail(dealer, "https://tradebikes.test");
+  const token = lastEmailedToken();
+
+  assert.deepEqual(await redeemAuthToken(token, "password_reset"), { userId: dealer.id });
+  assert.deepEqual(await redeemAuthToken(token, "password_reset"), { error: "This link has already been used" });
+});
+
+test("two requests racing with the same link can't both redeem it", async () => {
+  const dealer = await createTestUser();
+  await sendPasswordResetEmail(dealer, "https://tradebikes.test");
+  const token = lastEmailedToken();
+
+  const results = await Promise.all([redeemAuthToken(token, "password_reset"), redeemAuthToken(token, "password_reset")]);
+
+  assert.equal(results.filter(result => "userId" in result).length, 1);
+});
+
+test("sending a new link cancels the earlier ones", async () => {
+  const dealer = await createTestUser();
+  await sendPasswordResetEmail(dealer, "https://tradebikes.test");
+  const first = lastEmailedToken();
+  await sendPasswordResetEmail(dealer, "https://tradebikes.test");
+  const second = lastEmailedToken();
+
+  assert.deepEqual(await redeemAuthToken(first, "password_reset"), { error: "This link has already been used" });
+  assert.deepEqual(await redeemAuthToken(second, "password_reset"), { userId: dealer.id });
+});
+
+test("expired links are refused", async () => {
+  const dealer = await createTestUser();
+  await sendPasswordResetEmail(dealer, "https://tradebikes.test");
+  const token = lastEmailedToken();
+  for (const [id, authToken] of Array.from(memory.authTokens.entries())) {
+    if (authToken.userId === dealer.id) memory.authTokens.set(id, { ...authToken, expiresAt: new Date(Date.now() - 1000) });
+  }
+
+  assert.deepEqual(await redeemAuthToken(token, "password_reset"), { error: "This link has expired" });
+});
+
+test("a verification link can't be used to reset a password", async () => {
+  const dealer = await createTestUser();
+  await sendVerificationEmail(dealer, "https://tradebikes.test");
+  const token = lastEmailedToken();
+
+  assert.deepEqual(await redeemAuthToken(token, "password_reset"), { error: "This link is invalid" });
+  assert.deepEqual(await redeemAuthToken(token, "email_verification"), { userId: dealer.id });
+});
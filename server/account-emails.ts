@@ -0,0 +1,92 @@
+import { createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import { mailTransport } from './mail';
+import { AuthTokenPurpose, User } from '@shared/schema';
+
+// How long emailed links stay valid
+const TOKEN_LIFETIMES: Record<AuthTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+  password_reset: 60 * 60 * 1000 // 1 hour
+};
+
+// Only a hash is stored, so a leaked database cannot be used to redeem outstanding links
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Issue a new single-use token for a user, expiring any earlier ones for the same purpose
+ * @returns The raw token to put in the emailed link
+ */
+async function issueAuthToken(userId: number, purpose: AuthTokenPurpose): Promise<string> {
+  await storage.invalidateAuthTokens(userId, purpose);
+
+  const token = randomBytes(32).toString('hex');
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TOKEN_LIFETIMES[purpose])
+  });
+
+  return token;
+}
+
+export type RedeemTokenResult = { userId: number } | { error: string };
+
+/**
+ * Redeem a token from an emailed link. Each token works once and only before it expires.
+ */
+export async function redeemAuthToken(token: string, purpose: AuthTokenPurpose): Promise<RedeemTokenResult> {
+  const authToken = await storage.getAuthTokenByHash(hashToken(token), purpose);
+
+  if (!authToken) {
+    return { error: 'This link is invalid' };
+  }
+
+  if (authToken.usedAt) {
+    return { error: 'This link has already been used' };
+  }
+
+  if (new Date(authToken.expiresAt) < new Date()) {
+    return { error: 'This link has expired' };
+  }
+
+  // Another request may have redeemed it since we looked
+  const redeemed = await storage.markAuthTokenUsed(authToken.id);
+  if (!redeemed) {
+    return { error: 'This link has already been used' };
+  }
+
+  return { userId: authToken.userId };
+}
+
+// Send a link to confirm the user owns their email address
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'companyName'>, baseUrl: string) {
+  const token = await issueAuthToken(user.id, 'email_verification');
+  const link = `${baseUrl}/verify-email?token=${token}`;
+
+  await mailTransport.send({
+    to: user.email,
+    subject: 'Verify your TradeBikes email address',
+    text: `Hi ${user.companyName},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThis link expires in 24 hours.`,
+    html: `<p>Hi ${escapeHtml(user.companyName)},</p><p>Please confirm your email address by clicking the link below:</p><p><a href="${link}">Verify my email</a></p><p>This link expires in 24 hours.</p>`
+  });
+}
+
+// Send a link to choose a new password
+export async function sendPasswordResetEmail(user: Pick<User, 'id' | 'email' | 'companyName'>, baseUrl: string) {
+  const token = await issueAuthToken(user.id, 'password_reset');
+  const link = `${baseUrl}/reset-password?token=${token}`;
+
+  await mailTransport.send({
+    to: user.email,
+    subject: 'Reset your TradeBikes password',
+    text: `Hi ${user.companyName},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${link}\n\nThis link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.companyName)},</p><p>We received a request to reset your password. Click the link below to choose a new one:</p><p><a href="${link}">Reset my password</a></p><p>This link expires in 1 hour. If you didn't ask for this, you can ignore this email.</p>`
+  });
+}
@@ -1,5 +1,15 @@
 import { Express, Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { broadcast, disconnectUser } from "./websocket";
+import { scheduleAuctionExpiry, cancelAuctionExpiry } from "./auction-scheduler";
+import { transitionAuction, relistAuction, isUnsold } from "./auction-lifecycle";
+import { recomputeProxyBids } from "./bidding";
+import { notify } from "./notifications";
+import { AdminAuditAction, NotificationType, User, moderationReasonSchema } from "@shared/schema";
+
+const DEFAULT_AUDIT_LOG_LIMIT = 100;
+const MAX_AUDIT_LOG_LIMIT = 500;
 
 // Middleware to verify if user is an admin
 export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
@@ -14,14 +24,124 @@ export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+/**
+ * Admins viewing the app as a dealer can look but not act, so support sessions
+ * never place bids or change listings on the dealer's behalf
+ */
+export const blockWritesWhileImpersonating = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session?.impersonatorId || req.method === "GET" || req.path === "/admin/impersonation/stop") {
+    return next();
+  }
+  
+  res.status(403).json({
+    message: "You are viewing as another dealer. Return to your admin account to make changes.",
+    code: "impersonation_read_only"
+  });
+};
+
+// Record a moderation action in the admin audit log
+function recordAdminAction(
+  adminId: number,
+  action: AdminAuditAction,
+  target: { type: "user" | "auction" | "bid"; id: number },
+  reason: string | null = null,
+  details: Record<string, unknown> | null = null
+) {
+  return storage.createAdminAuditEntry({
+    adminId,
+    action,
+    targetType: target.type,
+    targetId: target.id,
+    reason,
+    details
+  });
+}
+
+// Tell a dealer about a moderation action affecting them
+async function notifyDealer(userId: number, type: NotificationType, content: string, relatedId: number | null = null) {
+  await notify({ userId, type, content, relatedId });
+}
+
+// Validate the reason given for an action, responding with 400 if it is missing
+function parseReason(req: Request, res: Response): string | null {
+  const validationResult = moderationReasonSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({ message: validationResult.error.errors[0]?.message || "A reason is required" });
+    return null;
+  }
+  return validationResult.data.reason;
+}
+
+// Log a user into this session, keeping the rest of the request flow callback-free
+function logIn(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, error => error ? reject(error) : resolve());
+  });
+}
+
+function saveSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.save(error => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Take a suspended dealer out of live trading: cancel their live listings, and void their bids on live auctions
+ * so they can't win them, rebuilding each auction's automatic bids without them
+ */
+async function withdrawFromLiveAuctions(dealerId: number, adminId: number) {
+  const cancelledAuctionIds: number[] = [];
+  for (const auction of await storage.getAuctionsByDealerId(dealerId)) {
+    if (auction.status !== "active") continue;
+    
+    await transitionAuction(auction, "no_sale", {
+      event: "cancelled_by_admin",
+      actorId: adminId,
+      adminOverride: true,
+      changes: { completedAt: new Date().toISOString() }
+    });
+    cancelAuctionExpiry(auction.id);
+    cancelledAuctionIds.push(auction.id);
+    
+    broadcast({
+      type: "auction_status_changed",
+      data: { auctionId: auction.id, newStatus: "no_sale" },
+      timestamp: Date.now()
+    });
+  }
+  
+  const voidedBidAuctionIds: number[] = [];
+  const bidAuctionIds = Array.from(new Set((await storage.getBidsByDealerId(dealerId)).map(bid => bid.auctionId)));
+  for (const auctionId of bidAuctionIds) {
+    const auction = await storage.getAuction(auctionId);
+    if (!auction || auction.status !== "active") continue;
+    
+    const bids = await storage.getBidsByAuctionId(auctionId);
+    for (const bid of bids.filter(bid => bid.dealerId === dealerId)) {
+      await storage.voidBid(bid.id);
+    }
+    await recomputeProxyBids(auction);
+    voidedBidAuctionIds.push(auctionId);
+    
+    broadcast({
+      type: "auction_updated",
+      data: { auctionId },
+      timestamp: Date.now()
+    });
+  }
+  
+  return { cancelledAuctionIds, voidedBidAuctionIds };
+}
+
 // Register admin routes
 export function setupAdminRoutes(app: Express) {
+  app.use("/api", blockWritesWhileImpersonating);
+  
   // Get all dealers
   app.get("/api/admin/dealers", isAdmin, async (req: Request, res: Response) => {
     try {
       // Get all users from storage
-      const usersMap = storage.getAllUsers();
-      const users = Array.from(usersMap.values());
+      const users = await storage.getUsers();
       
       // Remove sensitive information
       const safeUsers = users.map(user => {
@@ -39,12 +159,12 @@ export function setupAdminRoutes(app: Express) {
   // Get all motorcycles
   app.get("/api/admin/motorcycles", isAdmin, async (req: Request, res: Response) => {
     try {
-      const users = storage.getAllUsers();
+      const users = await storage.getUsers();
       const allMotorcycles = [];
       
       // Collect motorcycles from all dealers
-      for (const [userId, user] of users) {
-        const motorcycles = await storage.getMotorcyclesByDealerId(userId);
+      for (const user of users) {
+        const motorcycles = await storage.getMotorcyclesByDealerId(user.id);
         allMotorcycles.push(...motorcycles);
       }
       
@@ -58,12 +178,12 @@ export function setupAdminRoutes(app: Express) {
   // Get all auctions
   app.get("/api/admin/auctions", isAdmin, async (req: Request, res: Response) => {
     try {
-      const users = storage.getAllUsers();
+      const users = await storage.getUsers();
       const allAuctions = [];
       
       // Collect auctions from all dealers
-      for (const [userId, user] of users) {
-        const auctions = await storage.getAuctionsByDealerId(userId);
+      for (const user of users) {
+        const auctions = await storage.getAuctionsByDealerId(user.id);
         allAuctions.push(...auctions);
       }
       
@@ -105,4 +225,324 @@ export function setupAdminRoutes(app: Express) {
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
-}
\ No newline at end of file
+  // Moderation actions, newest first, with the admin who took them
+  app.get("/api/admin/audit-log", isAdmin, async (req, res, next) => {
+    try {
+      const requested = parseInt(String(req.query.limit ?? DEFAULT_AUDIT_LOG_LIMIT), 10);
+      const limit = Math.min(Math.max(requested || DEFAULT_AUDIT_LOG_LIMIT, 1), MAX_AUDIT_LOG_LIMIT);
+      
+      const entries = await storage.getAdminAuditLog(limit);
+      const adminNames = new Map<number, string>();
+      for (const adminId of Array.from(new Set(entries.map(entry => entry.adminId)))) {
+        const admin = await storage.getUser(adminId);
+        adminNames.set(adminId, admin?.username ?? `Admin #${adminId}`);
+      }
+      
+      res.json(entries.map(entry => ({ ...entry, adminUsername: adminNames.get(entry.adminId) })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Suspend a dealer: they are logged out and cannot log back in, their live listings are cancelled
+  // and their bids on live auctions are voided
+  app.post("/api/admin/dealers/:id/suspend", isAdmin, async (req, res, next) => {
+    try {
+      const reason = parseReason(req, res);
+      if (reason === null) return;
+      
+      const dealer = await storage.getUser(parseInt(req.params.id, 10));
+      if (!dealer || dealer.role !== "dealer") {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      
+      if (dealer.suspendedAt) {
+        return res.status(409).json({ message: "This dealer is already suspended" });
+      }
+      
+      const updatedDealer = await storage.updateUser(dealer.id, {
+        suspendedAt: new Date(),
+        suspensionReason: reason
+      });
+      
+      disconnectUser(dealer.id, "Account suspended");
+      const { cancelledAuctionIds, voidedBidAuctionIds } = await withdrawFromLiveAuctions(dealer.id, req.user!.id);
+      
+      await recordAdminAction(req.user!.id, "dealer_suspended", { type: "user", id: dealer.id }, reason, {
+        cancelledAuctionIds,
+        voidedBidAuctionIds
+      });
+      
+      const { password, ...dealerWithoutPassword } = updatedDealer!;
+      res.json(dealerWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/dealers/:id/reinstate", isAdmin, async (req, res, next) => {
+    try {
+      const dealer = await storage.getUser(parseInt(req.params.id, 10));
+      if (!dealer || dealer.role !== "dealer") {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      
+      if (!dealer.suspendedAt) {
+        return res.status(409).json({ message: "This dealer is not suspended" });
+      }
+      
+      const updatedDealer = await storage.updateUser(dealer.id, {
+        suspendedAt: null,
+        suspensionReason: null
+      });
+      
+      await recordAdminAction(req.user!.id, "dealer_reinstated", { type: "user", id: dealer.id }, null, {
+        suspendedAt: dealer.suspendedAt,
+        suspensionReason: dealer.suspensionReason
+      });
+      await notifyDealer(dealer.id, "account_reinstated", "Your TradeBikes account has been reinstated.");
+      
+      const { password, ...dealerWithoutPassword } = updatedDealer!;
+      res.json(dealerWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Force-cancel a live auction or a deal awaiting collection. The motorcycle goes back on sale.
+  app.post("/api/admin/auctions/:id/cancel", isAdmin, async (req, res, next) => {
+    try {
+      const reason = parseReason(req, res);
+      if (reason === null) return;
+      
+      const auction = await storage.getAuction(parseInt(req.params.id, 10));
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      // The lifecycle rejects anything but a live auction or pending deal with a 409
+      const updatedAuction = await transitionAuction(auction, "no_sale", {
+        event: "cancelled_by_admin",
+        actorId: req.user!.id,
+        adminOverride: true,
+        changes: {
+          completedAt: new Date().toISOString(),
+          bidAccepted: false,
+          dealConfirmed: false,
+          winningBidId: null,
+          winningBidderId: null
+        }
+      });
+      
+      cancelAuctionExpiry(auction.id);
+      
+      await recordAdminAction(req.user!.id, "auction_cancelled", { type: "auction", id: auction.id }, reason, {
+        fromStatus: auction.status,
+        dealerId: auction.dealerId,
+        winningBidderId: auction.winningBidderId
+      });
+      
+      await notifyDealer(auction.dealerId, "auction_cancelled", `Your auction #${auction.id} was cancelled by TradeBikes: ${reason}`, auction.id);
+      if (auction.winningBidderId) {
+        await notifyDealer(auction.winningBidderId, "auction_cancelled", `The deal for auction #${auction.id} was cancelled by TradeBikes: ${reason}`, auction.id);
+      }
+      
+      broadcast({
+        type: "auction_status_changed",
+        data: { auctionId: auction.id, newStatus: "no_sale" },
+        timestamp: Date.now()
+      });
+      
+      res.json(updatedAuction);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Relist an auction that ended without a sale, for its original duration from now
+  app.post("/api/admin/auctions/:id/relist", isAdmin, async (req, res, next) => {
+    try {
+      const auction = await storage.getAuction(parseInt(req.params.id, 10));
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      if (!isUnsold(auction)) {
+        return res.status(409).json({ message: "Only auctions that ended without a sale can be relisted" });
+      }
+      
+      const relisted = await relistAuction(auction, req.user!.id);
+      scheduleAuctionExpiry(relisted);
+      
+      await recordAdminAction(req.user!.id, "auction_relisted", { type: "auction", id: auction.id }, null, {
+        fromStatus: auction.status,
+        endTime: relisted.endTime
+      });
+      await notifyDealer(auction.dealerId, "auction_relisted", `Your auction #${auction.id} has been relisted by TradeBikes.`, auction.id);
+      
+      broadcast({
+        type: "auction_status_changed",
+        data: { auctionId: auction.id, newStatus: "active" },
+        timestamp: Date.now()
+      });
+      
+      res.json(relisted);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Take a listing down entirely, telling the seller why
+  app.delete("/api/admin/auctions/:id", isAdmin, async (req, res, next) => {
+    try {
+      const reason = parseReason(req, res);
+      if (reason === null) return;
+      
+      const auction = await storage.getAuctionWithDetails(parseInt(req.params.id, 10));
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      // Keep the record of anything that has sold or is mid-deal
+      if (auction.status === "pending_collection") {
+        return res.status(409).json({ message: "Cancel the deal before removing this listing" });
+      }
+      if (auction.status === "completed" && auction.winningBidderId) {
+        return res.status(409).json({ message: "Sold listings cannot be removed" });
+      }
+      
+      cancelAuctionExpiry(auction.id);
+      await storage.removeAuction(auction.id);
+      
+      await recordAdminAction(req.user!.id, "listing_removed", { type: "auction", id: auction.id }, reason, {
+        dealerId: auction.dealerId,
+        status: auction.status,
+        motorcycle: {
+          id: auction.motorcycle.id,
+          make: auction.motorcycle.make,
+          model: auction.motorcycle.model,
+          year: auction.motorcycle.year,
+          regNumber: auction.motorcycle.regNumber
+        },
+        bids: auction.bids.map(bid => ({ id: bid.id, dealerId: bid.dealerId, amount: bid.amount }))
+      });
+      await notifyDealer(
+        auction.dealerId,
+        "listing_removed",
+        `Your listing for the ${auction.motorcycle.year} ${auction.motorcycle.make} ${auction.motorcycle.model} was removed by TradeBikes: ${reason}`
+      );
+      
+      broadcast({
+        type: "auction_status_changed",
+        data: { auctionId: auction.id, newStatus: "removed" },
+        timestamp: Date.now()
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Void a fraudulent bid on a live auction
+  app.post("/api/admin/bids/:id/void", isAdmin, async (req, res, next) => {
+    try {
+      const reason = parseReason(req, res);
+      if (reason === null) return;
+      
+      const bid = await storage.getBid(parseInt(req.params.id, 10));
+      if (!bid) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+      
+      const auction = await storage.getAuction(bid.auctionId);
+      if (!auction || auction.status !== "active") {
+        return res.status(409).json({ message: "Bids can only be voided on live auctions. Cancel the deal instead." });
+      }
+      
+      // Automatic bids are rebuilt from dealers' maximums, so voiding one on its own would not last
+      if (bid.isProxy) {
+        return res.status(400).json({ message: "This was an automatic bid. Void the bid that set the dealer's maximum instead." });
+      }
+      
+      if (!await storage.voidBid(bid.id)) {
+        return res.status(409).json({ message: "This bid has already been voided" });
+      }
+      
+      // Automatic bids placed against the voided bid no longer stand, so the price may drop
+      const highestBid = await recomputeProxyBids(auction);
+      
+      await recordAdminAction(req.user!.id, "bid_voided", { type: "bid", id: bid.id }, reason, {
+        auctionId: bid.auctionId,
+        dealerId: bid.dealerId,
+        amount: bid.amount,
+        maxAmount: bid.maxAmount,
+        isProxy: bid.isProxy,
+        placedAt: bid.createdAt,
+        currentBidAfter: highestBid?.amount ?? null
+      });
+      await notifyDealer(bid.dealerId, "bid_voided", `Your bid of £${bid.amount.toLocaleString()} on auction #${bid.auctionId} was voided by TradeBikes: ${reason}`, bid.auctionId);
+      
+      broadcast({
+        type: "auction_updated",
+        data: { auctionId: bid.auctionId },
+        timestamp: Date.now()
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // View the app as a dealer for support. The session is read-only until the admin returns.
+  app.post("/api/admin/impersonate/:userId", isAdmin, async (req, res, next) => {
+    try {
+      const admin = req.user as User;
+      const dealer = await storage.getUser(parseInt(req.params.userId, 10));
+      if (!dealer || dealer.role !== "dealer") {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      
+      if (dealer.suspendedAt) {
+        return res.status(409).json({ message: "Reinstate this dealer before viewing as them" });
+      }
+      
+      await logIn(req, dealer);
+      req.session.impersonatorId = admin.id;
+      await saveSession(req);
+      
+      await recordAdminAction(admin.id, "impersonation_started", { type: "user", id: dealer.id });
+      
+      const { password, ...dealerWithoutPassword } = dealer;
+      res.json({ ...dealerWithoutPassword, impersonatorId: admin.id });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/impersonation/stop", isAuthenticated, async (req, res, next) => {
+    try {
+      const adminId = req.session.impersonatorId;
+      if (!adminId) {
+        return res.status(400).json({ message: "You are not viewing as another dealer" });
+      }
+      
+      const admin = await storage.getUser(adminId);
+      if (!admin || admin.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized. Admin access required." });
+      }
+      
+      const dealerId = req.user!.id;
+      
+      // Logging back in starts a fresh session, which drops the impersonation marker
+      await logIn(req, admin);
+      await recordAdminAction(admin.id, "impersonation_ended", { type: "user", id: dealerId });
+      
+      const { password, ...adminWithoutPassword } = admin;
+      res.json(adminWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
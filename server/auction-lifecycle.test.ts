@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { transitionAuction, relistAuction, IllegalTransitionError } from "./auction-lifecycle";
+import { useMemoryStorage, createTestUser, createTestAuction } from "./test-support";
+
+const memory = useMemoryStorage();
+
+const isIllegal = (message?: RegExp) => (error: unknown) =>
+  error instanceof IllegalTransitionError && (!message || message.test(error.message));
+
+test("accepting a bid moves the auction and its motorcycle to collection and records who did it", async () => {
+  const [seller, buyer] = [await createTestUser(), await createTestUser()];
+  const auction = await createTestAuction(seller.id);
+
+  const updated = await transitionAuction(auction, "pending_collection", {
+    event: "bid_accepted",
+    actorId: seller.id,
+    changes: { winningBidderId: buyer.id, bidAccepted: true },
+  });
+
+  assert.equal(updated.status, "pending_collection");
+  assert.equal((await memory.getMotorcycle(auction.motorcycleId))?.status, "pending_collection");
+  assert.deepEqual(
+    (await memory.getAuctionHistory(auction.id)).map(entry => [entry.event, entry.fromStatus, entry.toStatus, entry.actorId]),
+    [["bid_accepted", "active", "pending_collection", seller.id]]
+  );
+});
+
+test("an auction can't move to collection without a winning bidder", async () => {
+  const seller = await createTestUser();
+  const auction = await createTestAuction(seller.id);
+
+  await assert.rejects(
+    transitionAuction(auction, "pending_collection", { event: "bid_accepted", actorId: seller.id }),
+    isIllegal(/without a winning bidder/)
+  );
+  assert.equal((await memory.getAuction(auction.id))?.status, "active");
+});
+
+test("a change based on a stale read is rejected", async () => {
+  const [seller, buyer] = [await createTestUser(), await createTestUser()];
+  const auction = await createTestAuction(seller.id);
+
+  await transitionAuction(auction, "no_sale", { event: "ended_early", actorId: seller.id });
+
+  await assert.rejects(
+    transitionAuction(auction, "pending_collection", {
+      event: "bid_accepted",
+      actorId: seller.id,
+      changes: { winningBidderId: buyer.id },
+    }),
+    isIllegal(/changed by someone else/)
+  );
+  assert.equal((await memory.getAuction(auction.id))?.status, "no_sale");
+});
+
+test("only an admin can cancel a deal awaiting collection, which puts the motorcycle back on sale", async () => {
+  const [seller, buyer, admin] = [await createTestUser(), await createTestUser(), await createTestUser({ role: "admin" })];
+  const auction = await transitionAuction(await createTestAuction(seller.id), "pending_collection", {
+    event: "bid_accepted",
+    actorId: seller.id,
+    changes: { winningBidderId: buyer.id },
+  });
+
+  await assert.rejects(transitionAuction(auction, "no_sale", { event: "cancelled_by_admin", actorId: seller.id }), isIllegal());
+
+  const cancelled = await transitionAuction(auction, "no_sale", {
+    event: "cancelled_by_admin",
+    actorId: admin.id,
+    changes: { winningBidderId: null },
+    adminOverride: true,
+  });
+  assert.equal(cancelled.status, "no_sale");
+  assert.equal((await memory.getMotorcycle(auction.motorcycleId))?.status, "available");
+});
+
+test("a sold auction can't be relisted", async () => {
+  const [seller, buyer] = [await createTestUser(), await createTestUser()];
+  const auction = await createTestAuction(seller.id, { status: "completed", winningBidderId: buyer.id });
+
+  await assert.rejects(relistAuction(auction, seller.id), isIllegal(/already been sold/));
+});
+
+test("relisting an unsold auction voids the bids from its earlier run", async () => {
+  const [seller, bidder] = [await createTestUser(), await createTestUser()];
+  const auction = await createTestAuction(seller.id, { status: "no_sale" });
+  await memory.createBid({ auctionId: auction.id, dealerId: bidder.id, amount: 500 });
+
+  const relisted = await relistAuction(auction, seller.id);
+
+  assert.equal(relisted.status, "active");
+  assert.ok(new Date(relisted.endTime).getTime() > Date.now());
+  assert.deepEqual(await memory.getBidsByAuctionId(auction.id), []);
+});
+
+test("a winning bid given with the change is created and recorded on the auction", async () => {
+  const [seller, buyer] = [await createTestUser(), await createTestUser()];
+  const auction = await createTestAuction(seller.id);
+
+  const sold = await transitionAuction(auction, "pending_collection", {
+    event: "bought_now",
+    actorId: buyer.id,
+    changes: { winningBidderId: buyer.id },
+    winningBid: { auctionId: auction.id, dealerId: buyer.id, amount: 4000 },
+  });
+
+  const [bid] = await memory.getBidsByAuctionId(auction.id);
+  assert.equal(bid.amount, 4000);
+  assert.equal(sold.winningBidId, bid.id);
+});
@@ -0,0 +1,223 @@
+import { storage } from './storage';
+import {
+  Auction,
+  InsertBid,
+  Motorcycle,
+  AuctionStatus,
+  MotorcycleStatus,
+  AuctionHistoryEvent,
+  AuctionHistoryEntry,
+  AUCTION_STATUSES
+} from '@shared/schema';
+
+// Legal auction status changes. Staying in the same status is only allowed where listed
+// (e.g. accepting a different bid, or the buyer confirming, while pending collection).
+const AUCTION_TRANSITIONS: Record<AuctionStatus, readonly AuctionStatus[]> = {
+  active: ['pending_collection', 'completed', 'no_sale'],
+  pending_collection: ['pending_collection', 'completed'],
+  // Only an auction that ended without a sale leaves completed: the seller can still accept
+  // a bid (e.g. one below the reserve) or relist it
+  completed: ['pending_collection', 'active'],
+  no_sale: ['active']
+};
+
+// Extra changes only an admin can make: cancelling a deal awaiting collection (e.g. a fraudulent buyer)
+const ADMIN_AUCTION_TRANSITIONS: Partial<Record<AuctionStatus, readonly AuctionStatus[]>> = {
+  pending_collection: ['no_sale']
+};
+
+// Legal motorcycle status changes - a sold motorcycle never goes back on sale
+const MOTORCYCLE_TRANSITIONS: Record<MotorcycleStatus, readonly MotorcycleStatus[]> = {
+  available: ['pending_collection'],
+  pending_collection: ['sold'],
+  sold: []
+};
+
+/**
+ * Thrown when a status change is not allowed from the current status.
+ * Carries a 409 status so the Express error handler responds with Conflict.
+ */
+export class IllegalTransitionError extends Error {
+  readonly status = 409;
+  readonly code = 'illegal_transition';
+
+  constructor(
+    readonly entity: 'auction' | 'motorcycle',
+    readonly from: string | null,
+    readonly to: string,
+    message?: string
+  ) {
+    super(message ?? `Cannot change ${entity} status from ${from ?? 'none'} to ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+const isAuctionStatus = (status: string | null): status is AuctionStatus =>
+  AUCTION_STATUSES.includes(status as AuctionStatus);
+
+// The motorcycle status that goes with an auction status
+export function motorcycleStatusFor(auction: Pick<Auction, 'status' | 'winningBidderId'>): MotorcycleStatus {
+  switch (auction.status) {
+    case 'pending_collection':
+      return 'pending_collection';
+    case 'completed':
+      return auction.winningBidderId ? 'sold' : 'available';
+    default:
+      return 'available';
+  }
+}
+
+/**
+ * Check an auction status change is legal, throwing IllegalTransitionError if not
+ * @param next The auction as it would be after the change
+ * @param adminOverride Also allow the changes reserved for admin moderation
+ */
+export function assertAuctionTransition(
+  current: Auction,
+  next: Pick<Auction, 'status' | 'winningBidderId'>,
+  adminOverride = false
+) {
+  const from = current.status;
+  const to = next.status;
+
+  const allowed = isAuctionStatus(from) && isAuctionStatus(to) && (
+    AUCTION_TRANSITIONS[from].includes(to) ||
+    (adminOverride && !!ADMIN_AUCTION_TRANSITIONS[from]?.includes(to))
+  );
+  if (!allowed) {
+    throw new IllegalTransitionError('auction', from, to);
+  }
+
+  if (from === 'completed' && current.winningBidderId) {
+    throw new IllegalTransitionError('auction', from, to, 'This auction has already been sold');
+  }
+
+  if (to === 'pending_collection' && !next.winningBidderId) {
+    throw new IllegalTransitionError('auction', from, to, 'An auction cannot move to collection without a winning bidder');
+  }
+}
+
+// Check a motorcycle status change is legal (legacy or missing statuses count as available)
+export function assertMotorcycleTransition(current: Motorcycle, to: MotorcycleStatus, adminOverride = false) {
+  const from = (current.status || 'available') as MotorcycleStatus;
+  if (from === to) return;
+
+  // An admin cancelling a deal puts the motorcycle back on sale
+  if (adminOverride && from === 'pending_collection' && to === 'available') return;
+
+  const allowed = MOTORCYCLE_TRANSITIONS[from] ?? MOTORCYCLE_TRANSITIONS.available;
+  if (!allowed.includes(to)) {
+    throw new IllegalTransitionError('motorcycle', current.status, to);
+  }
+}
+
+export interface TransitionOptions {
+  event: AuctionHistoryEvent;
+  actorId?: number | null; // null or omitted for system changes
+  changes?: Partial<Auction>; // other auction fields to update along with the status
+  motorcycleChanges?: Partial<Motorcycle>; // other motorcycle fields to update (e.g. dateAvailable)
+  winningBid?: InsertBid; // a bid to create with the status change and make the winning bid (e.g. a buy-now purchase)
+  adminOverride?: boolean; // allow changes reserved for admin moderation
+}
+
+/**
+ * Move an auction to a new status, keeping its motorcycle in step and recording the change.
+ * The update only applies if the auction is still in the status it was read with,
+ * so concurrent requests cannot both act on the same state.
+ * @throws IllegalTransitionError if the change is not allowed or the auction changed underneath us
+ */
+export async function transitionAuction(
+  auction: Auction,
+  to: AuctionStatus,
+  { event, actorId = null, changes = {}, motorcycleChanges = {}, winningBid, adminOverride = false }: TransitionOptions
+): Promise<Auction> {
+  const next = { ...auction, ...changes, status: to };
+  assertAuctionTransition(auction, next, adminOverride);
+
+  // Validate the motorcycle before touching anything so the two never drift apart
+  const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+  const motorcycleStatus = motorcycleStatusFor(next);
+  if (motorcycle) {
+    assertMotorcycleTransition(motorcycle, motorcycleStatus, adminOverride);
+  }
+
+  const updated = await storage.updateAuctionIfStatus(auction.id, auction.status, { ...changes, status: to }, winningBid);
+  if (!updated) {
+    const latest = await storage.getAuction(auction.id);
+    throw new IllegalTransitionError(
+      'auction',
+      latest?.status ?? auction.status,
+      to,
+      'This auction was changed by someone else - please refresh and try again'
+    );
+  }
+
+  if (motorcycle && (motorcycle.status !== motorcycleStatus || Object.keys(motorcycleChanges).length > 0)) {
+    await storage.updateMotorcycle(motorcycle.id, { ...motorcycleChanges, status: motorcycleStatus });
+  }
+
+  await storage.createAuctionHistoryEntry({
+    auctionId: auction.id,
+    event,
+    fromStatus: auction.status,
+    toStatus: to,
+    motorcycleStatus: motorcycle ? motorcycleStatus : null,
+    actorId
+  });
+
+  console.log(`Auction ${auction.id}: ${auction.status} -> ${to} (${event})`);
+  return updated;
+}
+
+// Whether an auction ended without selling, so it can be relisted
+export function isUnsold(auction: Pick<Auction, 'status' | 'winningBidderId'>): boolean {
+  return auction.status === 'no_sale' || (auction.status === 'completed' && !auction.winningBidderId);
+}
+
+/**
+ * Put an unsold auction back on sale for its original duration (at least an hour) from now.
+ * Bids from the earlier run are voided, so the new run starts from no bids and can't be won by them.
+ * The caller schedules the new expiry.
+ */
+export async function relistAuction(auction: Auction, actorId: number): Promise<Auction> {
+  const now = new Date();
+  const duration = new Date(auction.endTime).getTime() - new Date(auction.startTime).getTime();
+
+  const relisted = await transitionAuction(auction, 'active', {
+    event: 'relisted',
+    actorId,
+    changes: {
+      startTime: now,
+      endTime: new Date(now.getTime() + Math.max(duration, 60 * 60 * 1000)),
+      bidAccepted: false,
+      dealConfirmed: false,
+      collectionConfirmed: false,
+      winningBidId: null,
+      winningBidderId: null,
+      highestBidderId: null,
+      completedAt: null
+    }
+  });
+
+  const voided = await storage.voidBidsForAuction(auction.id);
+  if (voided > 0) {
+    console.log(`Auction ${auction.id}: voided ${voided} bids from before it was relisted`);
+  }
+  return relisted;
+}
+
+// Record a newly created auction as the first entry in its history
+export async function recordAuctionCreated(auction: Auction, actorId: number) {
+  await storage.createAuctionHistoryEntry({
+    auctionId: auction.id,
+    event: 'created',
+    fromStatus: null,
+    toStatus: auction.status,
+    motorcycleStatus: 'available',
+    actorId
+  });
+}
+
+export function getAuctionHistory(auctionId: number): Promise<AuctionHistoryEntry[]> {
+  return storage.getAuctionHistory(auctionId);
+}
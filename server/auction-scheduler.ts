@@ -0,0 +1,282 @@
+import { storage } from './storage';
+import { notify } from './notifications';
+import { isReserveMet } from './bidding';
+import { transitionAuction, IllegalTransitionError } from './auction-lifecycle';
+import { notifyWatchersEndingSoon, ENDING_SOON_WINDOW } from './watchlist';
+import { Auction } from '@shared/schema';
+
+// setTimeout cannot wait longer than ~24.8 days, so longer timers are re-armed
+const MAX_TIMER_DELAY = 2147483647;
+
+// Safety net in case a timer is lost (e.g. an endTime changed without rescheduling)
+const SWEEP_INTERVAL = 60 * 1000;
+
+// Map to store pending expiry timers by auction ID
+const timers = new Map<number, NodeJS.Timeout>();
+
+// "Ending soon" alerts for watchers, by auction ID
+const endingSoonTimers = new Map<number, NodeJS.Timeout>();
+
+// Auctions currently being closed, so a timer and the sweep never close the same one twice
+const closing = new Set<number>();
+
+let sweepInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the server-owned auction expiry scheduler.
+ * Rescans storage on boot so auctions that ended while the server was down are closed,
+ * and schedules a timer for every auction that is still running.
+ */
+export async function startAuctionScheduler() {
+  try {
+    const activeAuctions = await storage.getAuctionsByStatus('active');
+    console.log(`Auction scheduler: found ${activeAuctions.length} active auctions on boot`);
+
+    for (const auction of activeAuctions) {
+      scheduleAuctionExpiry(auction);
+    }
+  } catch (error) {
+    console.error('Auction scheduler: failed to load active auctions:', error);
+  }
+
+  if (!sweepInterval) {
+    sweepInterval = setInterval(sweepExpiredAuctions, SWEEP_INTERVAL);
+  }
+}
+
+// Stop all timers (used when the HTTP server shuts down)
+export function stopAuctionScheduler() {
+  timers.forEach(timer => clearTimeout(timer));
+  timers.clear();
+  endingSoonTimers.forEach(timer => clearTimeout(timer));
+  endingSoonTimers.clear();
+
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+}
+
+/**
+ * Schedule (or reschedule) the expiry of an auction at its endTime, and the alert to its watchers shortly before.
+ * Call this whenever an auction is created or its endTime changes.
+ */
+export function scheduleAuctionExpiry(auction: Pick<Auction, 'id' | 'endTime' | 'status'>) {
+  cancelAuctionExpiry(auction.id);
+
+  if (auction.status !== 'active') return;
+
+  const delay = new Date(auction.endTime).getTime() - Date.now();
+
+  if (delay <= 0) {
+    closeExpiredAuction(auction.id);
+    return;
+  }
+
+  scheduleEndingSoonAlert(auction.id, delay);
+
+  const timer = setTimeout(() => {
+    timers.delete(auction.id);
+
+    if (delay > MAX_TIMER_DELAY) {
+      // Woke up early because of the timer limit - re-arm from fresh data
+      storage.getAuction(auction.id)
+        .then(latest => {
+          if (latest) scheduleAuctionExpiry(latest);
+        })
+        .catch(error => {
+          console.error(`Auction scheduler: failed to re-arm expiry of auction ${auction.id}:`, error);
+        });
+      return;
+    }
+
+    closeExpiredAuction(auction.id);
+  }, Math.min(delay, MAX_TIMER_DELAY));
+
+  timers.set(auction.id, timer);
+}
+
+// Alert watchers ENDING_SOON_WINDOW before the end, or straight away if the auction is already inside it
+function scheduleEndingSoonAlert(auctionId: number, delayUntilEnd: number) {
+  const alertDelay = delayUntilEnd - ENDING_SOON_WINDOW;
+
+  // Alerts far in the future are picked up when the expiry timer is re-armed
+  if (alertDelay > MAX_TIMER_DELAY) return;
+
+  const alert = () => {
+    endingSoonTimers.delete(auctionId);
+    notifyWatchersEndingSoon(auctionId).catch(error => {
+      console.error(`Auction scheduler: failed to alert watchers of auction ${auctionId}:`, error);
+    });
+  };
+
+  if (alertDelay <= 0) {
+    alert();
+    return;
+  }
+
+  endingSoonTimers.set(auctionId, setTimeout(alert, alertDelay));
+}
+
+// Cancel a pending expiry timer, e.g. when an auction is deleted or ended early
+export function cancelAuctionExpiry(auctionId: number) {
+  const timer = timers.get(auctionId);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(auctionId);
+  }
+
+  const endingSoonTimer = endingSoonTimers.get(auctionId);
+  if (endingSoonTimer) {
+    clearTimeout(endingSoonTimer);
+    endingSoonTimers.delete(auctionId);
+  }
+}
+
+// Close any active auctions whose endTime has passed without a timer firing
+async function sweepExpiredAuctions() {
+  try {
+    const activeAuctions = await storage.getAuctionsByStatus('active');
+    const now = Date.now();
+
+    for (const auction of activeAuctions) {
+      if (new Date(auction.endTime).getTime() <= now) {
+        await closeExpiredAuction(auction.id);
+      } else if (!timers.has(auction.id)) {
+        scheduleAuctionExpiry(auction);
+      }
+    }
+  } catch (error) {
+    console.error('Auction scheduler: sweep failed:', error);
+  }
+}
+
+/**
+ * Close an auction whose endTime has passed, select the outcome and notify both parties.
+ * Re-reads the auction first so a concurrent close or an extended endTime is respected.
+ */
+export async function closeExpiredAuction(auctionId: number) {
+  if (closing.has(auctionId)) return;
+  closing.add(auctionId);
+
+  try {
+    const auction = await storage.getAuction(auctionId);
+    if (!auction || auction.status !== 'active') return;
+
+    // The endTime may have moved since this timer was scheduled
+    if (new Date(auction.endTime).getTime() > Date.now()) {
+      scheduleAuctionExpiry(auction);
+      return;
+    }
+
+    const highestBid = await storage.getHighestBidForAuction(auctionId);
+    const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+    const completedAt = new Date().toISOString();
+
+    // Reserve auctions only sell if the highest bid reached the reserve price
+    const reserveMet = isReserveMet(auction, highestBid?.amount);
+
+    if (highestBid && reserveMet) {
+      // Move to pending collection with the highest bid as the winner
+      await transitionAuction(auction, 'pending_collection', {
+        event: 'expired',
+        changes: {
+          winningBidId: highestBid.id,
+          winningBidderId: highestBid.dealerId,
+          completedAt
+        }
+      });
+
+      // Notify seller
+      await notify({
+        userId: auction.dealerId,
+        type: 'auction_completed',
+        content: `Your auction for ${motorcycle?.make} ${motorcycle?.model} has ended with a winning bid of £${highestBid.amount}`,
+        relatedId: auctionId,
+        event: {
+          type: 'auction_completed',
+          data: {
+            auctionId,
+            winningBid: highestBid.amount,
+            winningBidderId: highestBid.dealerId,
+            hasWinningBid: true
+          },
+          timestamp: Date.now()
+        }
+      });
+
+      // Notify winning bidder
+      await notify({
+        userId: highestBid.dealerId,
+        type: 'auction_completed',
+        content: `Congratulations! You won the auction for ${motorcycle?.make} ${motorcycle?.model} with a bid of £${highestBid.amount}`,
+        relatedId: auctionId,
+        event: {
+          type: 'auction_completed',
+          data: {
+            auctionId,
+            winningBid: highestBid.amount,
+            motorcycle,
+            hasWinningBid: true
+          },
+          timestamp: Date.now()
+        }
+      });
+    } else {
+      // No bids (or reserve not met), auction ended without sale
+      await transitionAuction(auction, 'completed', {
+        event: 'expired',
+        changes: { completedAt }
+      });
+
+      await notify({
+        userId: auction.dealerId,
+        type: 'auction_completed',
+        content: highestBid
+          ? `Your auction for ${motorcycle?.make} ${motorcycle?.model} has ended without meeting your reserve (highest bid £${highestBid.amount})`
+          : `Your auction for ${motorcycle?.make} ${motorcycle?.model} has ended with no bids`,
+        relatedId: auctionId,
+        event: {
+          type: 'auction_completed',
+          data: {
+            auctionId,
+            noBids: !highestBid,
+            reserveNotMet: !!highestBid,
+            hasWinningBid: false
+          },
+          timestamp: Date.now()
+        }
+      });
+
+      if (highestBid) {
+        await notify({
+          userId: highestBid.dealerId,
+          type: 'auction_completed',
+          content: `The auction for ${motorcycle?.make} ${motorcycle?.model} ended without reaching the seller's reserve, so it did not sell`,
+          relatedId: auctionId,
+          event: {
+            type: 'auction_completed',
+            data: {
+              auctionId,
+              reserveNotMet: true,
+              hasWinningBid: false
+            },
+            timestamp: Date.now()
+          }
+        });
+      }
+    }
+
+    const outcome = !highestBid ? 'no bids' : reserveMet ? 'winning bid ' + highestBid.id : 'reserve not met';
+    console.log(`Auction scheduler: closed auction ${auctionId} (${outcome})`);
+  } catch (error) {
+    if (error instanceof IllegalTransitionError) {
+      // Someone else (e.g. the seller ending it early or a buy-now) closed it first
+      console.log(`Auction scheduler: auction ${auctionId} was already closed: ${error.message}`);
+      return;
+    }
+    console.error(`Auction scheduler: failed to close auction ${auctionId}:`, error);
+  } finally {
+    closing.delete(auctionId);
+  }
+}
@@ -0,0 +1,79 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { Auction, AUCTION_SEARCH_SORTS, auctionSearchSchema } from "@shared/schema";
+import { InvalidSearchCursorError, encodeCursor } from "./auction-search";
+import { useMemoryStorage, createTestUser, createTestAuction } from "./test-support";
+
+const memory = useMemoryStorage();
+
+// Every fixture has this make, so the development sample data never appears in results
+const MAKE = "Searchtest";
+const search = (criteria: Record<string, unknown>) => memory.searchActiveAuctions(auctionSearchSchema.parse({ make: MAKE, ...criteria }));
+
+let open1000: Auction, unbid: Auction, blind: Auction, reserve1000: Auction, open2000: Auction;
+
+before(async () => {
+  const [seller, bidder] = [await createTestUser(), await createTestUser()];
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const listing = async (changes: Partial<Auction>, mileage: number, year: number, bid?: number) => {
+    const auction = await createTestAuction(seller.id, { endTime: tomorrow, ...changes }, { make: MAKE, mileage, year });
+    if (bid !== undefined) await memory.createBid({ auctionId: auction.id, dealerId: bidder.id, amount: bid });
+    return auction;
+  };
+
+  // Equal end times, prices, mileages and years, so every ordering has ties to break by ID
+  open1000 = await listing({}, 5000, 2020, 1000);
+  unbid = await listing({}, 5000, 2018);
+  blind = await listing({ auctionType: "blind" }, 2000, 2020, 3000);
+  reserve1000 = await listing({ auctionType: "reserve", reservePrice: 1500 }, 8000, 2022, 1000);
+  open2000 = await listing({ endTime: new Date(tomorrow.getTime() + 60 * 60 * 1000) }, 5000, 2021, 2000);
+});
+
+// Search one page at a time, following the cursors to the end
+async function allPages(sort: string, limit: number): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await search({ sort, limit, cursor });
+    ids.push(...page.auctions.map(auction => auction.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+}
+
+for (const sort of AUCTION_SEARCH_SORTS.filter(sort => sort !== "distance")) {
+  test(`paging through ${sort} returns every auction once, in the unpaged order`, async () => {
+    const unpaged = (await search({ sort })).auctions.map(auction => auction.id);
+
+    assert.equal(unpaged.length, 5);
+    assert.deepEqual(await allPages(sort, 2), unpaged);
+    assert.deepEqual(await allPages(sort, 1), unpaged);
+  });
+}
+
+test("ties are broken by auction ID", async () => {
+  const { auctions } = await search({ sort: "ending_soon" });
+  assert.deepEqual(auctions.map(auction => auction.id), [open1000.id, unbid.id, blind.id, reserve1000.id, open2000.id]);
+});
+
+test("blind auctions have no public price, so sort after priced ones either way and are left out of price filters", async () => {
+  const ascending = await search({ sort: "price_asc" });
+  const descending = await search({ sort: "price_desc" });
+  const filtered = await search({ sort: "price_asc", priceMin: 500 });
+
+  assert.deepEqual(ascending.auctions.map(auction => auction.id), [unbid.id, open1000.id, reserve1000.id, open2000.id, blind.id]);
+  assert.deepEqual(descending.auctions.map(auction => auction.id), [open2000.id, open1000.id, reserve1000.id, unbid.id, blind.id]);
+  assert.deepEqual(filtered.auctions.map(auction => auction.id), [open1000.id, reserve1000.id, open2000.id]);
+});
+
+test("a cursor only works with the sort it came from", async () => {
+  const { nextCursor } = await search({ sort: "newest", limit: 2 });
+
+  await assert.rejects(search({ sort: "price_asc", cursor: nextCursor }), InvalidSearchCursorError);
+  await assert.rejects(search({ sort: "newest", cursor: "not-a-cursor" }), InvalidSearchCursorError);
+});
+
+test("a cursor past the last auction gives an empty last page", async () => {
+  const cursor = encodeCursor("mileage_asc", { key: Number.MAX_SAFE_INTEGER, id: 0 });
+  assert.deepEqual(await search({ sort: "mileage_asc", cursor }), { auctions: [], nextCursor: null });
+});
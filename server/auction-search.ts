@@ -0,0 +1,219 @@
+import { User, Motorcycle, AuctionSearchFilters, AuctionSearchSort } from '@shared/schema';
+import type { AuctionWithDetails } from './storage';
+import { Coordinates, geocodePostcode, geocodeUser, haversineMiles } from './geo';
+import { isBlindAuction } from './bidding';
+
+export interface AuctionSearchPage {
+  auctions: AuctionWithDetails[];
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export class InvalidSearchCursorError extends Error {
+  readonly status = 400;
+  readonly code = 'invalid_cursor';
+
+  constructor(message = 'This page of results has expired - please search again') {
+    super(message);
+    this.name = 'InvalidSearchCursorError';
+  }
+}
+
+// Direction of each ordering; ties are always broken by ascending auction ID so pages are stable
+export const SORT_DIRECTIONS: Record<AuctionSearchSort, 1 | -1> = {
+  ending_soon: 1,
+  newest: -1,
+  price_asc: 1,
+  price_desc: -1,
+  mileage_asc: 1,
+  year_desc: -1,
+  distance: 1
+};
+
+// Auctions whose seller cannot be located sort after everything else
+const UNKNOWN_DISTANCE = Number.MAX_SAFE_INTEGER;
+
+export interface CursorPosition {
+  key: number;
+  id: number;
+}
+
+/**
+ * Read an engine size in cc from free text such as "650cc", "1200" or "1.2L"
+ * @returns The size in cc, or null if no number was found
+ */
+export function parseEngineSize(text: string | null | undefined): number | null {
+  const match = text?.match(/(\d+(?:\.\d+)?)\s*(cc|l|litre|liter)?/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const isLitres = match[2] ? match[2].toLowerCase() !== 'cc' : value < 10;
+  return Math.round(isLitres ? value * 1000 : value);
+}
+
+// Auctions without a public price sort after every priced auction, whichever way prices are ordered
+export const UNPRICED_KEYS: Record<'price_asc' | 'price_desc', number> = {
+  price_asc: Number.MAX_SAFE_INTEGER,
+  price_desc: -1
+};
+
+/**
+ * The price used for price filters and ordering. Blind auctions' bids are sealed, so they have no public
+ * price and are left out of price filters - otherwise narrowing the range would reveal the highest bid.
+ */
+function auctionPrice(auction: AuctionWithDetails): number | null {
+  return isBlindAuction(auction) ? null : auction.currentBid ?? 0;
+}
+
+/**
+ * Check a motorcycle against the make, model, year, mileage, engine size and condition filters.
+ * DatabaseStorage applies these in SQL instead, so this must agree with its where-clause.
+ */
+export function matchesMotorcycleFilters(motorcycle: Motorcycle, filters: AuctionSearchFilters): boolean {
+  if (filters.make && motorcycle.make.toLowerCase() !== filters.make.toLowerCase()) return false;
+  if (filters.model && !motorcycle.model.toLowerCase().includes(filters.model.toLowerCase())) return false;
+  if (filters.yearMin !== undefined && motorcycle.year < filters.yearMin) return false;
+  if (filters.yearMax !== undefined && motorcycle.year > filters.yearMax) return false;
+  if (filters.mileageMin !== undefined && motorcycle.mileage < filters.mileageMin) return false;
+  if (filters.mileageMax !== undefined && motorcycle.mileage > filters.mileageMax) return false;
+
+  if (filters.condition) {
+    const conditions = filters.condition.map(condition => condition.toLowerCase());
+    if (!conditions.includes(motorcycle.condition.toLowerCase())) return false;
+  }
+
+  if (filters.engineSizeMin !== undefined || filters.engineSizeMax !== undefined) {
+    const engineSize = parseEngineSize(motorcycle.engineSize);
+    if (engineSize === null) return false;
+    if (filters.engineSizeMin !== undefined && engineSize < filters.engineSizeMin) return false;
+    if (filters.engineSizeMax !== undefined && engineSize > filters.engineSizeMax) return false;
+  }
+
+  return true;
+}
+
+// DatabaseStorage computes these in SQL, so they must agree with searchSortKey there
+function sortKey(auction: AuctionWithDetails, sort: AuctionSearchSort): number {
+  switch (sort) {
+    case 'ending_soon':
+      return new Date(auction.endTime).getTime();
+    case 'newest':
+      return auction.createdAt ? new Date(auction.createdAt).getTime() : 0;
+    case 'price_asc':
+    case 'price_desc':
+      return auctionPrice(auction) ?? UNPRICED_KEYS[sort];
+    case 'mileage_asc':
+      return auction.motorcycle.mileage;
+    case 'year_desc':
+      return auction.motorcycle.year;
+    case 'distance':
+      return auction.distanceMiles ?? UNKNOWN_DISTANCE;
+  }
+}
+
+function comparePositions(a: CursorPosition, b: CursorPosition, sort: AuctionSearchSort): number {
+  const byKey = SORT_DIRECTIONS[sort] * (a.key - b.key);
+  return byKey !== 0 ? byKey : a.id - b.id;
+}
+
+// Cursors are opaque to clients: the ordering plus the sort key and ID of the last auction on the page
+export function encodeCursor(sort: AuctionSearchSort, position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([sort, position.key, position.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: AuctionSearchSort): CursorPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidSearchCursorError();
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 3 ||
+      typeof decoded[1] !== 'number' || typeof decoded[2] !== 'number') {
+    throw new InvalidSearchCursorError();
+  }
+
+  if (decoded[0] !== sort) {
+    throw new InvalidSearchCursorError('The sort order changed - please search again');
+  }
+
+  return { key: decoded[1], id: decoded[2] };
+}
+
+/**
+ * How far a seller is from the search's postcode, to a tenth of a mile
+ * @returns The distance, or undefined if the seller cannot be located
+ */
+export async function distanceToSeller(
+  origin: Coordinates,
+  seller: Pick<User, 'postcode' | 'address'> | null | undefined
+): Promise<number | undefined> {
+  const sellerLocation = seller ? await geocodeUser(seller) : null;
+  return sellerLocation ? Math.round(haversineMiles(origin, sellerLocation) * 10) / 10 : undefined;
+}
+
+/**
+ * Filter, order and paginate active auctions. MemStorage hands every visible candidate
+ * here; DatabaseStorage does the same work in SQL and only uses this to order by distance,
+ * which needs geocoding. The two must agree so results and cursors are the same whichever
+ * storage is in use.
+ * @param getUser Loads a seller, for the rating and distance filters
+ */
+export async function applyAuctionSearch(
+  candidates: AuctionWithDetails[],
+  filters: AuctionSearchFilters,
+  getUser: (id: number) => Promise<User | undefined>
+): Promise<AuctionSearchPage> {
+  const after = filters.cursor ? decodeCursor(filters.cursor, filters.sort) : null;
+  const origin: Coordinates | null = filters.postcode ? await geocodePostcode(filters.postcode) : null;
+  const needsSeller = origin !== null || filters.minRating !== undefined;
+  const sellers = new Map<number, User | undefined>();
+
+  const matches: AuctionWithDetails[] = [];
+  for (const auction of candidates) {
+    if (!matchesMotorcycleFilters(auction.motorcycle, filters)) continue;
+
+    const price = auctionPrice(auction);
+    if (filters.priceMin !== undefined && (price === null || price < filters.priceMin)) continue;
+    if (filters.priceMax !== undefined && (price === null || price > filters.priceMax)) continue;
+
+    if (!needsSeller) {
+      matches.push(auction);
+      continue;
+    }
+
+    if (!sellers.has(auction.dealerId)) {
+      sellers.set(auction.dealerId, await getUser(auction.dealerId));
+    }
+    const seller = sellers.get(auction.dealerId);
+
+    if (filters.minRating !== undefined && (seller?.rating ?? 0) < filters.minRating) continue;
+
+    let distanceMiles: number | undefined;
+    if (origin) {
+      distanceMiles = await distanceToSeller(origin, seller);
+
+      // Sellers we cannot locate are left out of radius searches
+      if (filters.radiusMiles !== undefined && (distanceMiles === undefined || distanceMiles > filters.radiusMiles)) continue;
+    }
+
+    matches.push(distanceMiles === undefined ? auction : { ...auction, distanceMiles });
+  }
+
+  const positioned = matches
+    .map(auction => ({ auction, position: { key: sortKey(auction, filters.sort), id: auction.id } }))
+    .sort((a, b) => comparePositions(a.position, b.position, filters.sort));
+
+  const remaining = after
+    ? positioned.filter(item => comparePositions(item.position, after, filters.sort) > 0)
+    : positioned;
+
+  const page = filters.limit !== undefined ? remaining.slice(0, filters.limit) : remaining;
+  const hasMore = page.length < remaining.length;
+
+  return {
+    auctions: page.map(item => item.auction),
+    nextCursor: hasMore ? encodeCursor(filters.sort, page[page.length - 1].position) : null
+  };
+}
@@ -1,12 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { IncomingMessage } from "http";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { storage } from "./storage";
 import { User } from "@shared/schema";
 import crypto from "crypto";
-import { isProduction, cookieConfig } from "./deployment-config";
+import { isProduction, cookieConfig, getAppBaseUrl } from "./deployment-config";
+import { redeemAuthToken, sendVerificationEmail, sendPasswordResetEmail } from "./account-emails";
+import { disconnectUser } from "./websocket";
 
 // Create memory store for sessions
 const MemoryStore = createMemoryStore(session);
@@ -24,6 +27,16 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    impersonatorId?: number; // admin viewing the app as this session's user, for support
+    passport?: { user?: number }; // written by passport.serializeUser
+  }
+}
+
+// Session middleware, kept so requests outside the Express stack (WebSocket upgrades) can read the session too
+let sessionMiddleware: RequestHandler | null = null;
+
 // Function to help debug session issues
 const debugSession = (req: any) => {
   try {
@@ -38,6 +51,70 @@ const debugSession = (req: any) => {
   }
 };
 
+// Minimum length for new passwords, matching the registration form
+const MIN_PASSWORD_LENGTH = 6;
+
+// Authentication middleware
+export const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated() && req.user) {
+    return next();
+  }
+  res.status(401).json({ message: "Not authenticated" });
+};
+
+/**
+ * Resolves the signed-in user from a raw HTTP request's session cookie, the same way passport does for
+ * Express requests. Used to authenticate WebSocket upgrades, which never pass through the middleware stack.
+ */
+export function getSessionUser(req: IncomingMessage): Promise<User | null> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) return resolve(null);
+
+    sessionMiddleware(req as Request, {} as Response, async (error?: unknown) => {
+      if (error) return reject(error);
+
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        if (!userId) return resolve(null);
+
+        // Match deserializeUser: missing or suspended users have no session
+        const user = await storage.getUser(userId);
+        resolve(user && !user.suspendedAt ? user : null);
+      } catch (lookupError) {
+        reject(lookupError);
+      }
+    });
+  });
+}
+
+/**
+ * Sign a user out everywhere, e.g. once their password has been reset, keeping only `keepSessionId` (the
+ * request's own session) if given. Open sockets are closed too, as they were authenticated by a session.
+ */
+function endUserSessions(store: session.Store, userId: number, keepSessionId?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!store.all) return reject(new Error("Session store can't list sessions"));
+
+    store.all((error, sessions) => {
+      if (error) return reject(error);
+
+      const entries = Array.isArray(sessions) ? [] : Object.entries(sessions ?? {});
+      const ending = entries
+        .filter(([sessionId, data]) => data.passport?.user === userId && sessionId !== keepSessionId)
+        .map(([sessionId]) => new Promise<void>((done, fail) => store.destroy(sessionId, (destroyError) => {
+          if (destroyError) fail(destroyError); else done();
+        })));
+
+      Promise.all(ending)
+        .then(() => {
+          disconnectUser(userId, "Signed out");
+          resolve();
+        })
+        .catch(reject);
+    });
+  });
+}
+
 export function setupAuth(app: Express) {
   const sessionStore = new MemoryStore({
     checkPeriod: 86400000 // prune expired entries every 24h
@@ -83,7 +160,8 @@ export function setupAuth(app: Express) {
   });
   
   // Set up session handling
-  app.use(session(sessionSettings));
+  sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -98,6 +176,11 @@ export function setupAuth(app: Express) {
           return done(null, false, { message: "Incorrect username" });
         }
         
+        if (user.suspendedAt) {
+          console.log(`Login refused for suspended user: ${username}`);
+          return done(null, false, { message: "This account has been suspended. Please contact TradeBikes support." });
+        }
+        
         console.log(`User found, validating password for: ${username}`);
         const isPasswordValid = await storage.comparePasswords(password, user.password);
         
@@ -130,6 +213,12 @@ export function setupAuth(app: Express) {
         return done(null, false);
       }
       
+      // Suspending a user ends their existing sessions too
+      if (user.suspendedAt) {
+        console.log(`Suspended user's session ignored. ID: ${id}`);
+        return done(null, false);
+      }
+      
       console.log(`User deserialized successfully: ${user.username}`);
       done(null, user);
     } catch (error) {
@@ -168,7 +257,7 @@ export function setupAuth(app: Express) {
         // Create users with dealer role by default (admin role is created manually in database)
         const user = await storage.createUser({
           username,
-          password,
+          password: await storage.hashPassword(password),
           email,
           role: 'dealer', // Default role is dealer
           companyName,
@@ -183,6 +272,11 @@ export function setupAuth(app: Express) {
         
         console.log(`User created successfully: ${username} (ID: ${user.id})`);
         
+        // A mail failure shouldn't block sign-up - the user can ask for another link
+        sendVerificationEmail(user, getAppBaseUrl()).catch(error => {
+          console.error(`Failed to send verification email to user ${user.id}:`, error);
+        });
+        
         // Remove password from response
         const { password: _, ...userWithoutPassword } = user;
         
@@ -277,6 +371,97 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Confirm an email address from the link sent on registration
+  app.post("/api/auth/verify", async (req, res, next) => {
+    try {
+      const { token } = req.body;
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Verification token is required" });
+      }
+      
+      const result = await redeemAuthToken(token, "email_verification");
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      await storage.updateUser(result.userId, { emailVerified: true });
+      console.log(`Email verified for user ID: ${result.userId}`);
+      
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Send a fresh verification link (to the signed-in user, or to the given email address)
+  app.post("/api/auth/resend-verification", async (req, res, next) => {
+    try {
+      const user = req.isAuthenticated() && req.user
+        ? await storage.getUser(req.user.id)
+        : typeof req.body.email === "string" ? await storage.getUserByEmail(req.body.email) : undefined;
+      
+      if (user && !user.emailVerified) {
+        await sendVerificationEmail(user, getAppBaseUrl());
+      }
+      
+      // Same response either way so this can't be used to discover registered emails
+      res.json({ message: "If that account needs verifying, a new link has been sent" });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Email a password reset link
+  app.post("/api/auth/forgot-password", async (req, res, next) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email is required" });
+      }
+      
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        await sendPasswordResetEmail(user, getAppBaseUrl());
+      }
+      
+      // Same response either way so this can't be used to discover registered emails
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Set a new password using the emailed reset token
+  app.post("/api/auth/reset-password", async (req, res, next) => {
+    try {
+      const { token, password } = req.body;
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Reset token is required" });
+      }
+      
+      if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      
+      const result = await redeemAuthToken(token, "password_reset");
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      // Following the emailed link also proves the address is theirs
+      await storage.updateUserPassword(result.userId, password);
+      await storage.updateUser(result.userId, { emailVerified: true });
+      
+      // Whoever knew the old password is signed out, wherever they are
+      await endUserSessions(sessionStore, result.userId, req.user?.id === result.userId ? req.sessionID : undefined);
+      console.log(`Password reset for user ID: ${result.userId}`);
+      
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     console.log("GET /api/user - Auth status:", req.isAuthenticated());
     debugSession(req);
@@ -294,6 +479,7 @@ export function setupAuth(app: Express) {
     // Add timestamp for cache busting
     const userData = {
       ...userWithoutPassword,
+      impersonatorId: req.session.impersonatorId ?? null, // set while an admin is viewing as this user
       _ts: new Date().getTime() // Add timestamp to force client cache invalidation
     };
     
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { placeBidWithProxies, recomputeProxyBids, BidRejectedError } from "./bidding";
+import { useMemoryStorage, createTestUser, createTestAuction } from "./test-support";
+
+const memory = useMemoryStorage();
+
+async function dealers(count: number) {
+  return Promise.all(Array.from({ length: count }, () => createTestUser()));
+}
+
+test("a higher maximum holds the lead one increment above the challenger", async () => {
+  const [seller, first, second] = await dealers(3);
+  const auction = await createTestAuction(seller.id);
+
+  await placeBidWithProxies(auction, first.id, 500, 1000);
+  const result = await placeBidWithProxies(auction, second.id, 600, null);
+
+  assert.equal(result.bid.amount, 600);
+  assert.deepEqual(result.proxyBids.map(bid => [bid.dealerId, bid.amount, bid.isProxy]), [[first.id, 650, true]]);
+  assert.equal(result.highestBid.dealerId, first.id);
+  assert.equal(result.outbidDealerId, second.id);
+});
+
+test("a new bid with the higher maximum wins one increment above the old maximum", async () => {
+  const [seller, first, second] = await dealers(3);
+  const auction = await createTestAuction(seller.id);
+
+  await placeBidWithProxies(auction, first.id, 500, 800);
+  const result = await placeBidWithProxies(auction, second.id, 550, 1200);
+
+  assert.equal(result.highestBid.dealerId, second.id);
+  assert.equal(result.highestBid.amount, 850);
+  assert.equal(result.outbidDealerId, first.id);
+});
+
+test("bids below one increment over the current price are rejected", async () => {
+  const [seller, first, second] = await dealers(3);
+  const auction = await createTestAuction(seller.id);
+
+  await placeBidWithProxies(auction, first.id, 500, null);
+
+  await assert.rejects(
+    placeBidWithProxies(auction, second.id, 520, null),
+    (error: unknown) => error instanceof BidRejectedError && error.message === "Your bid must be at least £550"
+  );
+});
+
+test("matching an earlier maximum is rejected and the earlier bidder keeps the lead", async () => {
+  const [seller, first, second] = await dealers(3);
+  const auction = await createTestAuction(seller.id);
+
+  await placeBidWithProxies(auction, first.id, 500, 900);
+
+  await assert.rejects(
+    placeBidWithProxies(auction, second.id, 900, null),
+    (error: unknown) => error instanceof BidRejectedError && /must be at least £950/.test(error.message)
+  );
+  assert.equal((await memory.getHighestBidForAuction(auction.id))?.dealerId, first.id);
+});
+
+test("concurrent bids at the same amount can't both be accepted", async () => {
+  const [seller, first, second] = await dealers(3);
+  const auction = await createTestAuction(seller.id);
+
+  const results = await Promise.allSettled([
+    placeBidWithProxies(auction, first.id, 800, null),
+    placeBidWithProxies(auction, second.id, 800, null),
+  ]);
+
+  assert.deepEqual(results.map(result => result.status), ["fulfilled", "rejected"]);
+  assert.equal((await memory.getBidsByAuctionId(auction.id)).length, 1);
+});
+
+test("bids on an auction that has closed are rejected", async () => {
+  const [seller, bidder] = await dealers(2);
+  const auction = await createTestAuction(seller.id, { status: "completed" });
+
+  await assert.rejects(
+    placeBidWithProxies(auction, bidder.id, 500, null),
+    (error: unknown) => error instanceof BidRejectedError && error.message === "Auction is not active"
+  );
+});
+
+test("voiding the leader's bids settles the price back on the remaining maximums", async () => {
+  const [seller, first, second, third] = await dealers(4);
+  const auction = await createTestAuction(seller.id);
+
+  await placeBidWithProxies(auction, first.id, 500, null);
+  await placeBidWithProxies(auction, second.id, 600, 900);
+  const leading = await placeBidWithProxies(auction, third.id, 700, 1000);
+  assert.equal(leading.highestBid.amount, 950);
+
+  for (const bid of await memory.getBidsByAuctionId(auction.id)) {
+    if (bid.dealerId === third.id) await memory.voidBid(bid.id);
+  }
+  const highestBid = await recomputeProxyBids(auction);
+
+  assert.equal(highestBid?.dealerId, second.id);
+  assert.equal(highestBid?.amount, 600);
+  assert.equal((await memory.getAuction(auction.id))?.highestBidderId, second.id);
+});
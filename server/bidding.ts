@@ -0,0 +1,211 @@
+import { storage } from './storage';
+import { Auction, Bid } from '@shared/schema';
+
+// Auctions where bidders cannot see each other's bids, so automatic bidding has nothing to respond to
+export function isBlindAuction(auction: Pick<Auction, 'auctionType'>): boolean {
+  return auction.auctionType === 'blind';
+}
+
+// The most each dealer has committed to on an auction: their maximum bid, or their highest bid without one
+function getDealerCeilings(bids: Bid[]): Map<number, number> {
+  const ceilings = new Map<number, number>();
+  bids.forEach(bid => {
+    const ceiling = Math.max(bid.amount, bid.maxAmount ?? 0);
+    ceilings.set(bid.dealerId, Math.max(ceilings.get(bid.dealerId) ?? 0, ceiling));
+  });
+  return ceilings;
+}
+
+/**
+ * Thrown when a bid can't be placed at the auction's current price, e.g. because another bid landed first.
+ * Carries a 400 status so the Express error handler responds with Bad Request.
+ */
+export class BidRejectedError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BidRejectedError';
+  }
+}
+
+export interface ProxyBidResult {
+  bid: Bid; // The bid the dealer placed themselves
+  proxyBids: Bid[]; // Automatic bids placed in response, in order
+  highestBid: Bid;
+  outbidDealerId: number | null; // Dealer whose maximum was exceeded by an automatic bid
+}
+
+/**
+ * Place a bid on an open auction and resolve automatic bidding against the strongest competing maximum.
+ * The higher maximum wins at one increment above the lower one, capped at that maximum.
+ * Runs under the auction's lock, so concurrent bids are checked against the price each other left.
+ * @throws BidRejectedError if the auction has closed or the bid doesn't beat the current price
+ */
+export function placeBidWithProxies(
+  auction: Auction,
+  dealerId: number,
+  amount: number,
+  maxAmount: number | null
+): Promise<ProxyBidResult> {
+  return storage.withAuctionLock(auction.id, async () => {
+    const current = await storage.getAuction(auction.id);
+    if (!current || current.status !== 'active') {
+      throw new BidRejectedError('Auction is not active');
+    }
+
+    const existingBids = await storage.getBidsByAuctionId(auction.id);
+    const highestBid = await storage.getHighestBidForAuction(auction.id);
+    if (highestBid && amount < highestBid.amount + auction.bidIncrement) {
+      throw new BidRejectedError(`Your bid must be at least £${(highestBid.amount + auction.bidIncrement).toLocaleString()}`);
+    }
+
+    // Strongest competing maximum, earliest bidder first when equal
+    const competingBids = existingBids
+      .filter(bid => bid.dealerId !== dealerId)
+      .sort((a, b) => a.id - b.id);
+    const [competitorId, competitorCeiling] = Array.from(getDealerCeilings(competingBids).entries())
+      .sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+    const bidderCeiling = maxAmount ?? amount;
+
+    // A bid matching an earlier maximum can't beat it, and the earlier bidder keeps the lead
+    if (competitorId !== null && bidderCeiling === competitorCeiling && amount === competitorCeiling) {
+      throw new BidRejectedError(
+        `Another dealer has already bid £${amount.toLocaleString()} - your bid must be at least £${(amount + auction.bidIncrement).toLocaleString()}`
+      );
+    }
+
+    const bid = await storage.createBid({ auctionId: auction.id, dealerId, amount, maxAmount, isProxy: false });
+    const proxyBids: Bid[] = [];
+    let outbidDealerId: number | null = null;
+
+    if (competitorId !== null && competitorCeiling >= bidderCeiling) {
+      // The competitor's maximum holds - bid for them just above this dealer
+      const proxyAmount = Math.min(competitorCeiling, bidderCeiling + auction.bidIncrement);
+      if (proxyAmount > amount) {
+        proxyBids.push(await storage.createBid({
+          auctionId: auction.id,
+          dealerId: competitorId,
+          amount: proxyAmount,
+          isProxy: true
+        }));
+        outbidDealerId = dealerId;
+      }
+    } else if (competitorId !== null && maxAmount !== null) {
+      // This dealer's maximum beats the competitor - bid for them just above it
+      const proxyAmount = Math.min(bidderCeiling, competitorCeiling + auction.bidIncrement);
+      if (proxyAmount > amount) {
+        proxyBids.push(await storage.createBid({
+          auctionId: auction.id,
+          dealerId,
+          amount: proxyAmount,
+          maxAmount,
+          isProxy: true
+        }));
+        outbidDealerId = competitorId;
+      }
+    }
+
+    return {
+      bid,
+      proxyBids,
+      highestBid: proxyBids.length > 0 ? proxyBids[proxyBids.length - 1] : bid,
+      outbidDealerId
+    };
+  });
+}
+
+/**
+ * Rebuild an auction's automatic bids from the bids dealers placed themselves, e.g. after one has been voided.
+ * The old automatic bids are voided and the leader gets one automatic bid at the price bidding would now settle on:
+ * one increment above the runner-up's maximum, capped at the leader's own. Runs under the auction's lock.
+ * @returns The auction's highest bid afterwards, if it has any
+ */
+export function recomputeProxyBids(auction: Auction): Promise<Bid | undefined> {
+  return storage.withAuctionLock(auction.id, async () => {
+    if (!isBlindAuction(auction)) {
+      const existingBids = await storage.getBidsByAuctionId(auction.id);
+      for (const proxyBid of existingBids.filter(bid => bid.isProxy)) {
+        await storage.voidBid(proxyBid.id);
+      }
+
+      // Earliest bidder first when maximums are equal, as when the bids were placed
+      const placedBids = existingBids.filter(bid => !bid.isProxy).sort((a, b) => a.id - b.id);
+      const [leader, runnerUp] = Array.from(getDealerCeilings(placedBids).entries()).sort((a, b) => b[1] - a[1]);
+
+      if (leader && runnerUp) {
+        const [leaderId, leaderCeiling] = leader;
+        const leaderBids = placedBids.filter(bid => bid.dealerId === leaderId);
+        const price = Math.min(leaderCeiling, runnerUp[1] + auction.bidIncrement);
+
+        if (price > Math.max(...leaderBids.map(bid => bid.amount))) {
+          await storage.createBid({
+            auctionId: auction.id,
+            dealerId: leaderId,
+            amount: price,
+            maxAmount: Math.max(...leaderBids.map(bid => bid.maxAmount ?? 0)) || null,
+            isProxy: true
+          });
+        }
+      }
+    }
+
+    const highestBid = await storage.getHighestBidForAuction(auction.id);
+    await storage.updateAuction(auction.id, { highestBidderId: highestBid?.dealerId ?? null });
+    return highestBid;
+  });
+}
+
+// Maximum bids are private to the dealer who set them
+export function hideMaxAmounts<T extends Pick<Bid, 'dealerId' | 'maxAmount'>>(bids: T[], viewerId?: number): T[] {
+  return bids.map(bid => bid.dealerId === viewerId ? bid : { ...bid, maxAmount: null });
+}
+
+// Whether an auction's highest bid has reached its reserve (always true for auctions without one)
+export function isReserveMet(auction: Pick<Auction, 'auctionType' | 'reservePrice'>, highestAmount?: number | null): boolean {
+  if (auction.auctionType !== 'reserve' || auction.reservePrice === null) return true;
+  return (highestAmount ?? 0) >= auction.reservePrice;
+}
+
+/**
+ * Anti-sniping: a bid placed within the auction's final softCloseMinutes extends it by softCloseExtensionMinutes
+ * @returns The new end time, or null if the bid was outside the soft-close window
+ */
+export function getSoftCloseEndTime(
+  auction: Pick<Auction, 'endTime' | 'softCloseMinutes' | 'softCloseExtensionMinutes'>,
+  bidTime: Date
+): Date | null {
+  if (auction.softCloseMinutes <= 0) return null;
+
+  const endTime = new Date(auction.endTime);
+  const windowStart = endTime.getTime() - auction.softCloseMinutes * 60 * 1000;
+  if (bidTime.getTime() < windowStart || bidTime > endTime) return null;
+
+  return new Date(endTime.getTime() + auction.softCloseExtensionMinutes * 60 * 1000);
+}
+
+/**
+ * Prepare an auction with its bids for a viewer: other dealers' maximum bids are removed,
+ * and the reserve price is replaced by whether it has been met unless the viewer is the seller.
+ * On blind auctions anyone but the seller only sees their own bids, without the current price or leader.
+ * @param isSeller Pass true for the seller's colleagues, who see the auction as the seller does
+ */
+export function redactAuctionForViewer<T extends Auction & { bids: Bid[]; currentBid?: number }>(
+  auction: T,
+  viewerId?: number,
+  isSeller = viewerId === auction.dealerId
+): T & { reserveMet?: boolean } {
+  const isSealed = isBlindAuction(auction) && !isSeller;
+  const bids = isSealed ? auction.bids.filter(bid => bid.dealerId === viewerId) : auction.bids;
+  // A dealer who won a blind auction still needs the price they won at
+  const ownWinningBid = isSealed ? bids.find(bid => bid.id === auction.winningBidId) : undefined;
+
+  return {
+    ...auction,
+    bids: hideMaxAmounts(bids, viewerId),
+    currentBid: isSealed ? ownWinningBid?.amount : auction.currentBid,
+    highestBidderId: isSealed ? null : auction.highestBidderId,
+    reservePrice: isSeller ? auction.reservePrice : null,
+    reserveMet: auction.auctionType === 'reserve' ? isReserveMet(auction, auction.currentBid) : undefined
+  };
+}
@@ -0,0 +1,147 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import Stripe from "stripe";
+import { IncomingMessage, ServerResponse } from "http";
+import { User } from "@shared/schema";
+import { useMemoryStorage, createTestUser, createTestApp, listen } from "./test-support";
+
+// Billing reads its Stripe settings when first used, so they are set before it is imported
+process.env.STRIPE_SECRET_KEY = "sk_test_billing";
+process.env.STRIPE_WEBHOOK_SECRET = "whsec_test_billing";
+process.env.STRIPE_PRICE_PRO_MONTHLY = "price_pro_monthly";
+
+const memory = useMemoryStorage();
+const stripe = new Stripe("sk_test_billing");
+const periodEnd = Math.floor(Date.UTC(2030, 0, 1) / 1000);
+
+// Subscriptions the Stripe stand-in knows about, and the form bodies of the checkout sessions it was asked for
+const subscriptions = new Map<string, object>();
+const checkoutRequests: URLSearchParams[] = [];
+
+function subscription(id: string, customer: string, status: string) {
+  return {
+    id,
+    object: "subscription",
+    customer,
+    status,
+    items: { object: "list", data: [{ id: `si_${id}`, price: { id: "price_pro_monthly" }, current_period_end: periodEnd }] },
+  };
+}
+
+// Enough of the Stripe API for checkout: customers, checkout sessions and subscription lookups
+async function fakeStripe(req: IncomingMessage, res: ServerResponse) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  const reply = (status: number, json: object) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(json));
+  };
+
+  if (req.method === "POST" && req.url === "/v1/customers") {
+    return reply(200, { id: "cus_test", object: "customer" });
+  }
+  if (req.method === "POST" && req.url === "/v1/checkout/sessions") {
+    checkoutRequests.push(new URLSearchParams(body));
+    return reply(200, { id: "cs_test", object: "checkout.session", url: "https://checkout.stripe.test/cs_test" });
+  }
+  const subscriptionId = req.url?.match(/^\/v1\/subscriptions\/(\w+)$/)?.[1];
+  if (req.method === "GET" && subscriptionId && subscriptions.has(subscriptionId)) {
+    return reply(200, subscriptions.get(subscriptionId)!);
+  }
+  reply(404, { error: { type: "invalid_request_error", message: `No such route ${req.method} ${req.url}` } });
+}
+
+let dealer: User;
+let app: { url: string; close: () => Promise<void> };
+let stripeApi: { url: string; close: () => Promise<void> };
+
+before(async () => {
+  stripeApi = await listen((req, res) => void fakeStripe(req, res));
+  process.env.STRIPE_API_BASE = stripeApi.url;
+  const { setupBillingRoutes, captureRawBody } = await import("./billing");
+
+  dealer = await createTestUser();
+  const server = createTestApp(() => dealer, express.json({ verify: captureRawBody }));
+  setupBillingRoutes(server);
+  app = await listen(server);
+});
+
+after(async () => {
+  await app.close();
+  await stripeApi.close();
+});
+
+async function sendWebhook(type: string, object: object, secret = "whsec_test_billing") {
+  const payload = JSON.stringify({ id: `evt_${type}`, object: "event", type, data: { object } });
+  return fetch(`${app.url}/api/billing/webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+}
+
+async function currentDealer(): Promise<User> {
+  return (await memory.getUser(dealer.id))!;
+}
+
+test("checkout creates the Stripe customer and a session for the plan's price", async () => {
+  const res = await fetch(`${app.url}/api/billing/checkout`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ plan: "pro", interval: "month" }),
+  });
+
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { url: "https://checkout.stripe.test/cs_test" });
+  assert.equal((await currentDealer()).stripeCustomerId, "cus_test");
+
+  const [request] = checkoutRequests;
+  assert.equal(request.get("customer"), "cus_test");
+  assert.equal(request.get("line_items[0][price]"), "price_pro_monthly");
+  assert.equal(request.get("client_reference_id"), String(dealer.id));
+});
+
+test("a completed checkout moves the dealer onto the plan", async () => {
+  subscriptions.set("sub_first", subscription("sub_first", "cus_test", "active"));
+
+  const res = await sendWebhook("checkout.session.completed", {
+    id: "cs_test", object: "checkout.session", mode: "subscription", subscription: "sub_first",
+  });
+
+  assert.equal(res.status, 200);
+  const updated = await currentDealer();
+  assert.equal(updated.subscriptionPlan, "pro");
+  assert.equal(updated.subscriptionStatus, "active");
+  assert.equal(updated.stripeSubscriptionId, "sub_first");
+  assert.equal(updated.subscriptionCurrentPeriodEnd?.getTime(), periodEnd * 1000);
+});
+
+test("events for another of the customer's subscriptions don't change the plan", async () => {
+  const res = await sendWebhook("customer.subscription.deleted", subscription("sub_other", "cus_test", "canceled"));
+
+  assert.equal(res.status, 200);
+  const updated = await currentDealer();
+  assert.equal(updated.subscriptionPlan, "pro");
+  assert.equal(updated.stripeSubscriptionId, "sub_first");
+});
+
+test("cancelling the dealer's subscription returns them to the free plan", async () => {
+  const res = await sendWebhook("customer.subscription.deleted", subscription("sub_first", "cus_test", "canceled"));
+
+  assert.equal(res.status, 200);
+  const updated = await currentDealer();
+  assert.equal(updated.subscriptionPlan, "free");
+  assert.equal(updated.subscriptionStatus, "canceled");
+  assert.equal(updated.stripeSubscriptionId, null);
+});
+
+test("webhooks with a bad signature are rejected", async () => {
+  const res = await sendWebhook("customer.subscription.updated", subscription("sub_first", "cus_test", "active"), "whsec_wrong");
+
+  assert.equal(res.status, 400);
+  assert.equal((await currentDealer()).subscriptionPlan, "free");
+});
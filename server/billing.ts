@@ -0,0 +1,270 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { IncomingMessage } from "http";
+import Stripe from "stripe";
+import { isAuthenticated } from "./auth";
+import { storage } from "./storage";
+import { getAppBaseUrl } from "./deployment-config";
+import {
+  User,
+  SubscriptionPlan,
+  BillingInterval,
+  SUBSCRIPTION_PLANS,
+  checkoutRequestSchema
+} from "@shared/schema";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Unparsed request body, needed to verify Stripe webhook signatures
+  }
+}
+
+// Body parser hook that keeps the raw body: express.json({ verify: captureRawBody })
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+// Stripe price IDs for each plan and billing interval
+const PRICE_IDS: Record<SubscriptionPlan, Record<BillingInterval, string | undefined>> = {
+  basic: {
+    month: process.env.STRIPE_PRICE_BASIC_MONTHLY,
+    year: process.env.STRIPE_PRICE_BASIC_YEARLY,
+  },
+  pro: {
+    month: process.env.STRIPE_PRICE_PRO_MONTHLY,
+    year: process.env.STRIPE_PRICE_PRO_YEARLY,
+  },
+};
+
+// Stripe statuses in which the subscriber keeps access to their plan
+const ACCESS_STATUSES = ["active", "trialing", "past_due"];
+
+let stripeClient: Stripe | null = null;
+
+/**
+ * Stripe client, or null when billing isn't configured.
+ * Set STRIPE_API_BASE (e.g. http://localhost:12111) to send requests to a local stripe-mock server instead of Stripe.
+ */
+function getStripe(): Stripe | null {
+  if (!process.env.STRIPE_SECRET_KEY) return null;
+
+  if (!stripeClient) {
+    const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null;
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY, apiBase ? {
+      host: apiBase.hostname,
+      port: apiBase.port,
+      protocol: apiBase.protocol.replace(":", "") as "http" | "https",
+    } : {});
+  }
+
+  return stripeClient;
+}
+
+// Which plan a Stripe price belongs to
+function getPlanForPrice(priceId: string | undefined): SubscriptionPlan | null {
+  if (!priceId) return null;
+  return SUBSCRIPTION_PLANS.find(plan => Object.values(PRICE_IDS[plan]).includes(priceId)) ?? null;
+}
+
+// Whether a user currently has access to a plan (Pro includes everything in Basic)
+export function hasPlan(user: Pick<User, "subscriptionPlan" | "subscriptionStatus" | "role">, plan: SubscriptionPlan): boolean {
+  if (user.role === "admin") return true;
+  if (!user.subscriptionStatus || !ACCESS_STATUSES.includes(user.subscriptionStatus)) return false;
+
+  const userPlanRank = SUBSCRIPTION_PLANS.indexOf(user.subscriptionPlan as SubscriptionPlan);
+  return userPlanRank >= SUBSCRIPTION_PLANS.indexOf(plan);
+}
+
+// Middleware restricting a route to subscribers on the given plan or above
+export const requirePlan = (plan: SubscriptionPlan) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  if (!hasPlan(req.user as User, plan)) {
+    return res.status(402).json({
+      message: `This feature requires a ${plan === "pro" ? "Pro" : "Basic"} subscription`,
+      requiredPlan: plan
+    });
+  }
+
+  next();
+};
+
+// Copy a Stripe subscription's plan and status onto its user
+async function syncSubscription(subscription: Stripe.Subscription) {
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  if (!user) {
+    console.warn(`Stripe webhook: no user for customer ${customerId}`);
+    return;
+  }
+
+  // A customer can have more than one subscription (e.g. a stale incomplete checkout). Only the one on record
+  // decides the plan, unless it no longer gives access and this is its replacement.
+  if (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id
+      && user.subscriptionStatus && ACCESS_STATUSES.includes(user.subscriptionStatus)) {
+    console.warn(`Stripe webhook: ignoring subscription ${subscription.id} for user ${user.id}, who is on ${user.stripeSubscriptionId}`);
+    return;
+  }
+
+  const item = subscription.items.data[0];
+  const plan = getPlanForPrice(item?.price.id);
+  const isEnded = subscription.status === "canceled" || subscription.status === "incomplete_expired";
+
+  await storage.updateUser(user.id, {
+    subscriptionPlan: isEnded || !plan ? "free" : plan,
+    subscriptionStatus: subscription.status,
+    subscriptionCurrentPeriodEnd: item ? new Date(item.current_period_end * 1000) : null,
+    stripeSubscriptionId: isEnded ? null : subscription.id,
+  });
+
+  console.log(`Stripe webhook: user ${user.id} is now on ${isEnded || !plan ? "free" : plan} (${subscription.status})`);
+}
+
+// The user's Stripe customer, created on first checkout
+async function getOrCreateCustomerId(stripe: Stripe, user: User): Promise<string> {
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await stripe.customers.create({
+    email: user.email,
+    name: user.companyName,
+    metadata: { userId: String(user.id) },
+  });
+
+  await storage.updateUser(user.id, { stripeCustomerId: customer.id });
+  return customer.id;
+}
+
+// Register subscription billing routes
+export function setupBillingRoutes(app: Express) {
+  // Current user's subscription
+  app.get("/api/billing/subscription", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({
+        plan: user.subscriptionPlan,
+        status: user.subscriptionStatus,
+        currentPeriodEnd: user.subscriptionCurrentPeriodEnd,
+        isPro: hasPlan(user, "pro"),
+        billingEnabled: !!getStripe(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Start a Stripe Checkout session for a plan
+  app.post("/api/billing/checkout", isAuthenticated, async (req, res, next) => {
+    try {
+      const stripe = getStripe();
+      if (!stripe) {
+        return res.status(503).json({ message: "Billing is not available" });
+      }
+
+      const parsed = checkoutRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid plan", errors: parsed.error.format() });
+      }
+
+      const { plan, interval } = parsed.data;
+      const priceId = PRICE_IDS[plan][interval];
+      if (!priceId) {
+        return res.status(400).json({ message: "That plan is not available yet" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.stripeSubscriptionId && hasPlan(user, "basic")) {
+        return res.status(409).json({ message: "You already have a subscription - manage it from the billing portal" });
+      }
+
+      const baseUrl = getAppBaseUrl();
+      const session = await stripe.checkout.sessions.create({
+        mode: "subscription",
+        customer: await getOrCreateCustomerId(stripe, user),
+        client_reference_id: String(user.id),
+        line_items: [{ price: priceId, quantity: 1 }],
+        success_url: `${baseUrl}/subscription?checkout=success`,
+        cancel_url: `${baseUrl}/subscription?checkout=cancelled`,
+      });
+
+      res.json({ url: session.url });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Stripe billing portal for changing or cancelling a subscription
+  app.post("/api/billing/portal", isAuthenticated, async (req, res, next) => {
+    try {
+      const stripe = getStripe();
+      if (!stripe) {
+        return res.status(503).json({ message: "Billing is not available" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.stripeCustomerId) {
+        return res.status(400).json({ message: "You don't have a subscription yet" });
+      }
+
+      const session = await stripe.billingPortal.sessions.create({
+        customer: user.stripeCustomerId,
+        return_url: `${getAppBaseUrl()}/subscription`,
+      });
+
+      res.json({ url: session.url });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Stripe webhook - the only place plan status changes
+  app.post("/api/billing/webhook", async (req, res, next) => {
+    const stripe = getStripe();
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!stripe || !webhookSecret) {
+      return res.status(503).json({ message: "Billing is not available" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(
+        req.rawBody ?? "",
+        req.headers["stripe-signature"] as string,
+        webhookSecret
+      );
+    } catch (error) {
+      console.error("Stripe webhook signature verification failed:", error);
+      return res.status(400).json({ message: "Invalid signature" });
+    }
+
+    try {
+      switch (event.type) {
+        case "checkout.session.completed": {
+          const session = event.data.object;
+          if (session.mode === "subscription" && session.subscription) {
+            const subscriptionId = typeof session.subscription === "string" ? session.subscription : session.subscription.id;
+            await syncSubscription(await stripe.subscriptions.retrieve(subscriptionId));
+          }
+          break;
+        }
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+        case "customer.subscription.deleted":
+          await syncSubscription(event.data.object);
+          break;
+      }
+
+      res.json({ received: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
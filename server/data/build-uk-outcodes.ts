@@ -0,0 +1,83 @@
+// Builds server/data/uk-outcodes.ts from the ONS Postcode Directory (ONSPD), the free national
+// postcode list from https://geoportal.statistics.gov.uk. Download the full CSV, then run:
+//
+//   npx tsx server/data/build-uk-outcodes.ts path/to/ONSPD_MAY_2025_UK.csv
+//
+// Each outward code's centroid is the mean position of its live (not terminated) postcodes.
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+// ONSPD marks postcodes without a grid reference with this latitude
+const NO_LOCATION_LAT = 99.999999;
+
+async function buildOutcodeCentroids(csvPath: string): Promise<Map<string, { lat: number; lng: number; count: number }>> {
+  const lines = readline.createInterface({ input: fs.createReadStream(csvPath), crlfDelay: Infinity });
+  const totals = new Map<string, { lat: number; lng: number; count: number }>();
+  let columns: Record<string, number> | null = null;
+
+  for await (const line of lines) {
+    // ONSPD quotes some fields but none of them contain commas
+    const fields = line.split(',').map(field => field.replace(/^"|"$/g, ''));
+
+    if (!columns) {
+      columns = Object.fromEntries(fields.map((name, index) => [name.toLowerCase(), index]));
+      for (const required of ['pcds', 'lat', 'long', 'doterm']) {
+        if (columns[required] === undefined) {
+          throw new Error(`${csvPath} has no '${required}' column - is it the ONSPD CSV?`);
+        }
+      }
+      continue;
+    }
+
+    if (fields[columns.doterm]) continue;
+
+    const lat = Number(fields[columns.lat]);
+    const lng = Number(fields[columns.long]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || lat === NO_LOCATION_LAT) continue;
+
+    const outcode = fields[columns.pcds].split(' ')[0]?.toUpperCase();
+    if (!outcode) continue;
+
+    const total = totals.get(outcode) ?? { lat: 0, lng: 0, count: 0 };
+    total.lat += lat;
+    total.lng += lng;
+    total.count++;
+    totals.set(outcode, total);
+  }
+
+  return totals;
+}
+
+async function main() {
+  const csvPath = process.argv[2];
+  if (!csvPath) {
+    console.error('Usage: npx tsx server/data/build-uk-outcodes.ts path/to/ONSPD.csv');
+    process.exit(1);
+  }
+
+  const totals = await buildOutcodeCentroids(csvPath);
+  const entries = Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([outcode, total]) =>
+      `  ${outcode}: { lat: ${(total.lat / total.count).toFixed(4)}, lng: ${(total.lng / total.count).toFixed(4)} },`);
+
+  const output = [
+    `// Outward-code centroids generated by build-uk-outcodes.ts from ${path.basename(csvPath)}. Don't edit by hand.`,
+    '// Contains OS data © Crown copyright and database right, and ONS data, licensed under the Open Government Licence v3.0.',
+    '',
+    'export const UK_OUTCODE_CENTROIDS: Record<string, { lat: number; lng: number }> = {',
+    ...entries,
+    '};',
+    ''
+  ].join('\n');
+
+  fs.writeFileSync(path.resolve(process.cwd(), 'server/data/uk-outcodes.ts'), output);
+  console.log(`Wrote ${entries.length} outward codes to server/data/uk-outcodes.ts`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
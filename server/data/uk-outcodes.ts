@@ -0,0 +1,6 @@
+// Outward-code centroids (e.g. "LS1", "LS27"), accurate to a mile or two, so radius checks work without a
+// network geocoder. Generate them from the ONS Postcode Directory with build-uk-outcodes.ts before deploying;
+// until then this is empty and lookups fall back to the postcode areas in uk-postcodes.ts.
+
+export const UK_OUTCODE_CENTROIDS: Record<string, { lat: number; lng: number }> = {
+};
@@ -0,0 +1,132 @@
+// Offline UK postcode dataset: approximate centroid of every postcode area. Only used for outward
+// codes missing from uk-outcodes.ts (see server/geo.ts).
+// Keys are postcode areas (the leading letters of the outward code, e.g. "LS" for LS1 1AA).
+// Outward codes (e.g. "LS1") can be added alongside for finer resolution - lookups try
+// the full outward code first and fall back to the area.
+
+export const UK_POSTCODE_CENTROIDS: Record<string, { lat: number; lng: number; name: string }> = {
+  AB: { lat: 57.15, lng: -2.11, name: 'Aberdeen' },
+  AL: { lat: 51.75, lng: -0.34, name: 'St Albans' },
+  B: { lat: 52.48, lng: -1.90, name: 'Birmingham' },
+  BA: { lat: 51.38, lng: -2.36, name: 'Bath' },
+  BB: { lat: 53.75, lng: -2.48, name: 'Blackburn' },
+  BD: { lat: 53.79, lng: -1.75, name: 'Bradford' },
+  BH: { lat: 50.72, lng: -1.88, name: 'Bournemouth' },
+  BL: { lat: 53.58, lng: -2.43, name: 'Bolton' },
+  BN: { lat: 50.83, lng: -0.14, name: 'Brighton' },
+  BR: { lat: 51.40, lng: 0.02, name: 'Bromley' },
+  BS: { lat: 51.45, lng: -2.59, name: 'Bristol' },
+  BT: { lat: 54.60, lng: -5.93, name: 'Belfast' },
+  CA: { lat: 54.89, lng: -2.93, name: 'Carlisle' },
+  CB: { lat: 52.21, lng: 0.12, name: 'Cambridge' },
+  CF: { lat: 51.48, lng: -3.18, name: 'Cardiff' },
+  CH: { lat: 53.19, lng: -2.89, name: 'Chester' },
+  CM: { lat: 51.74, lng: 0.47, name: 'Chelmsford' },
+  CO: { lat: 51.89, lng: 0.90, name: 'Colchester' },
+  CR: { lat: 51.37, lng: -0.10, name: 'Croydon' },
+  CT: { lat: 51.28, lng: 1.08, name: 'Canterbury' },
+  CV: { lat: 52.41, lng: -1.51, name: 'Coventry' },
+  CW: { lat: 53.10, lng: -2.44, name: 'Crewe' },
+  DA: { lat: 51.45, lng: 0.22, name: 'Dartford' },
+  DD: { lat: 56.46, lng: -2.97, name: 'Dundee' },
+  DE: { lat: 52.92, lng: -1.48, name: 'Derby' },
+  DG: { lat: 55.07, lng: -3.61, name: 'Dumfries' },
+  DH: { lat: 54.78, lng: -1.57, name: 'Durham' },
+  DL: { lat: 54.52, lng: -1.55, name: 'Darlington' },
+  DN: { lat: 53.52, lng: -1.13, name: 'Doncaster' },
+  DT: { lat: 50.71, lng: -2.44, name: 'Dorchester' },
+  DY: { lat: 52.51, lng: -2.08, name: 'Dudley' },
+  E: { lat: 51.53, lng: -0.05, name: 'London East' },
+  EC: { lat: 51.52, lng: -0.09, name: 'London EC' },
+  EH: { lat: 55.95, lng: -3.19, name: 'Edinburgh' },
+  EN: { lat: 51.65, lng: -0.08, name: 'Enfield' },
+  EX: { lat: 50.72, lng: -3.53, name: 'Exeter' },
+  FK: { lat: 56.00, lng: -3.78, name: 'Falkirk' },
+  FY: { lat: 53.82, lng: -3.05, name: 'Blackpool' },
+  G: { lat: 55.86, lng: -4.25, name: 'Glasgow' },
+  GL: { lat: 51.86, lng: -2.24, name: 'Gloucester' },
+  GU: { lat: 51.24, lng: -0.57, name: 'Guildford' },
+  GY: { lat: 49.45, lng: -2.54, name: 'Guernsey' },
+  HA: { lat: 51.58, lng: -0.34, name: 'Harrow' },
+  HD: { lat: 53.65, lng: -1.78, name: 'Huddersfield' },
+  HG: { lat: 53.99, lng: -1.54, name: 'Harrogate' },
+  HP: { lat: 51.75, lng: -0.47, name: 'Hemel Hempstead' },
+  HR: { lat: 52.06, lng: -2.72, name: 'Hereford' },
+  HS: { lat: 58.21, lng: -6.39, name: 'Outer Hebrides' },
+  HU: { lat: 53.74, lng: -0.33, name: 'Hull' },
+  HX: { lat: 53.72, lng: -1.86, name: 'Halifax' },
+  IG: { lat: 51.56, lng: 0.07, name: 'Ilford' },
+  IM: { lat: 54.15, lng: -4.48, name: 'Isle of Man' },
+  IP: { lat: 52.06, lng: 1.16, name: 'Ipswich' },
+  IV: { lat: 57.48, lng: -4.22, name: 'Inverness' },
+  JE: { lat: 49.19, lng: -2.11, name: 'Jersey' },
+  KA: { lat: 55.61, lng: -4.50, name: 'Kilmarnock' },
+  KT: { lat: 51.41, lng: -0.30, name: 'Kingston upon Thames' },
+  KW: { lat: 58.98, lng: -2.96, name: 'Kirkwall' },
+  KY: { lat: 56.11, lng: -3.16, name: 'Kirkcaldy' },
+  L: { lat: 53.41, lng: -2.98, name: 'Liverpool' },
+  LA: { lat: 54.05, lng: -2.80, name: 'Lancaster' },
+  LD: { lat: 52.24, lng: -3.38, name: 'Llandrindod Wells' },
+  LE: { lat: 52.64, lng: -1.13, name: 'Leicester' },
+  LL: { lat: 53.32, lng: -3.83, name: 'Llandudno' },
+  LN: { lat: 53.23, lng: -0.54, name: 'Lincoln' },
+  LS: { lat: 53.80, lng: -1.55, name: 'Leeds' },
+  LU: { lat: 51.88, lng: -0.42, name: 'Luton' },
+  M: { lat: 53.48, lng: -2.24, name: 'Manchester' },
+  ME: { lat: 51.39, lng: 0.50, name: 'Rochester' },
+  MK: { lat: 52.04, lng: -0.76, name: 'Milton Keynes' },
+  ML: { lat: 55.79, lng: -3.99, name: 'Motherwell' },
+  N: { lat: 51.57, lng: -0.11, name: 'London North' },
+  NE: { lat: 54.98, lng: -1.61, name: 'Newcastle upon Tyne' },
+  NG: { lat: 52.95, lng: -1.15, name: 'Nottingham' },
+  NN: { lat: 52.24, lng: -0.90, name: 'Northampton' },
+  NP: { lat: 51.59, lng: -3.00, name: 'Newport' },
+  NR: { lat: 52.63, lng: 1.30, name: 'Norwich' },
+  NW: { lat: 51.55, lng: -0.20, name: 'London North West' },
+  OL: { lat: 53.54, lng: -2.12, name: 'Oldham' },
+  OX: { lat: 51.75, lng: -1.26, name: 'Oxford' },
+  PA: { lat: 55.85, lng: -4.42, name: 'Paisley' },
+  PE: { lat: 52.57, lng: -0.24, name: 'Peterborough' },
+  PH: { lat: 56.40, lng: -3.43, name: 'Perth' },
+  PL: { lat: 50.38, lng: -4.14, name: 'Plymouth' },
+  PO: { lat: 50.82, lng: -1.09, name: 'Portsmouth' },
+  PR: { lat: 53.76, lng: -2.70, name: 'Preston' },
+  RG: { lat: 51.45, lng: -0.97, name: 'Reading' },
+  RH: { lat: 51.24, lng: -0.17, name: 'Redhill' },
+  RM: { lat: 51.58, lng: 0.18, name: 'Romford' },
+  S: { lat: 53.38, lng: -1.47, name: 'Sheffield' },
+  SA: { lat: 51.62, lng: -3.94, name: 'Swansea' },
+  SE: { lat: 51.47, lng: -0.06, name: 'London South East' },
+  SG: { lat: 51.90, lng: -0.20, name: 'Stevenage' },
+  SK: { lat: 53.41, lng: -2.16, name: 'Stockport' },
+  SL: { lat: 51.51, lng: -0.59, name: 'Slough' },
+  SM: { lat: 51.36, lng: -0.19, name: 'Sutton' },
+  SN: { lat: 51.56, lng: -1.78, name: 'Swindon' },
+  SO: { lat: 50.91, lng: -1.40, name: 'Southampton' },
+  SP: { lat: 51.07, lng: -1.79, name: 'Salisbury' },
+  SR: { lat: 54.91, lng: -1.38, name: 'Sunderland' },
+  SS: { lat: 51.54, lng: 0.71, name: 'Southend-on-Sea' },
+  ST: { lat: 53.00, lng: -2.18, name: 'Stoke-on-Trent' },
+  SW: { lat: 51.46, lng: -0.17, name: 'London South West' },
+  SY: { lat: 52.71, lng: -2.75, name: 'Shrewsbury' },
+  TA: { lat: 51.02, lng: -3.10, name: 'Taunton' },
+  TD: { lat: 55.61, lng: -2.81, name: 'Galashiels' },
+  TF: { lat: 52.68, lng: -2.45, name: 'Telford' },
+  TN: { lat: 51.20, lng: 0.27, name: 'Tonbridge' },
+  TQ: { lat: 50.46, lng: -3.53, name: 'Torquay' },
+  TR: { lat: 50.26, lng: -5.05, name: 'Truro' },
+  TS: { lat: 54.57, lng: -1.23, name: 'Middlesbrough' },
+  TW: { lat: 51.45, lng: -0.34, name: 'Twickenham' },
+  UB: { lat: 51.53, lng: -0.42, name: 'Southall' },
+  W: { lat: 51.51, lng: -0.20, name: 'London West' },
+  WA: { lat: 53.39, lng: -2.59, name: 'Warrington' },
+  WC: { lat: 51.52, lng: -0.12, name: 'London WC' },
+  WD: { lat: 51.66, lng: -0.40, name: 'Watford' },
+  WF: { lat: 53.68, lng: -1.50, name: 'Wakefield' },
+  WN: { lat: 53.55, lng: -2.63, name: 'Wigan' },
+  WR: { lat: 52.19, lng: -2.22, name: 'Worcester' },
+  WS: { lat: 52.59, lng: -1.98, name: 'Walsall' },
+  WV: { lat: 52.59, lng: -2.13, name: 'Wolverhampton' },
+  YO: { lat: 53.96, lng: -1.08, name: 'York' },
+  ZE: { lat: 60.15, lng: -1.15, name: 'Shetland' }
+};
@@ -0,0 +1,26 @@
+// Offline vehicle history used by the fake vehicle check provider in development and tests.
+// Keys are registrations without spaces; any registration not listed here comes back clean
+// with no recorded mileage.
+
+import { WriteOffCategory } from '@shared/schema';
+
+export interface VehicleHistoryFixture {
+  outstandingFinance?: boolean;
+  stolen?: boolean;
+  writeOffCategory?: WriteOffCategory;
+  mileageReadings?: number[]; // odometer readings from MOTs and services
+}
+
+export const VEHICLE_HISTORY_FIXTURES: Record<string, VehicleHistoryFixture> = {
+  LP21KFG: { mileageReadings: [1200, 4100, 8245] },
+  LD70VXR: { outstandingFinance: true, mileageReadings: [2300] },
+  MA22BMW: { writeOffCategory: 'N', mileageReadings: [1500, 6780] },
+  LB22TRP: { mileageReadings: [1900, 5400] }, // clocked: more than the listed 3,450 miles
+  MA71KWS: { writeOffCategory: 'S', outstandingFinance: true },
+  HD21FAT: { stolen: true },
+  // Registrations reserved for tests
+  FN00FIN: { outstandingFinance: true },
+  ST00LEN: { stolen: true },
+  WR00CAT: { writeOffCategory: 'B' },
+  MI00CLK: { mileageReadings: [5000, 25000] },
+};
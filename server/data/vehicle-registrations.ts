@@ -0,0 +1,23 @@
+// Offline registration data used by the fixture vehicle data provider in development and tests.
+// Keys are registrations without spaces; registrations not listed here are treated as unknown.
+
+export interface VehicleRegistrationFixture {
+  make: string;
+  model?: string;
+  yearOfManufacture: number;
+  engineCapacity?: number; // cc
+  colour: string;
+}
+
+export const VEHICLE_REGISTRATION_FIXTURES: Record<string, VehicleRegistrationFixture> = {
+  LP21KFG: { make: 'HONDA', model: 'CBR650R', yearOfManufacture: 2021, engineCapacity: 649, colour: 'BLACK' },
+  LD70VXR: { make: 'DUCATI', model: 'PANIGALE V4', yearOfManufacture: 2020, engineCapacity: 1103, colour: 'RED' },
+  MA22BMW: { make: 'BMW', model: 'R 1250 GS', yearOfManufacture: 2022, engineCapacity: 1254, colour: 'WHITE' },
+  LB22TRP: { make: 'TRIUMPH', model: 'STREET TRIPLE RS', yearOfManufacture: 2022, engineCapacity: 765, colour: 'GREY' },
+  MA71KWS: { make: 'KAWASAKI', model: 'Z900', yearOfManufacture: 2021, engineCapacity: 948, colour: 'GREEN' },
+  HD21FAT: { make: 'HARLEY-DAVIDSON', model: 'FAT BOY', yearOfManufacture: 2021, engineCapacity: 1868, colour: 'BLACK' },
+  AB21YMH: { make: 'YAMAHA', model: 'MT-09', yearOfManufacture: 2021, engineCapacity: 889, colour: 'BLUE' },
+  // DVLA records don't include the model, so some fixtures leave it out too
+  KT19ADV: { make: 'KTM', yearOfManufacture: 2019, engineCapacity: 790, colour: 'ORANGE' },
+  R123ABC: { make: 'SUZUKI', yearOfManufacture: 1998, engineCapacity: 600, colour: 'SILVER' },
+};
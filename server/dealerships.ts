@@ -0,0 +1,276 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { storage, AuctionWithDetails } from "./storage";
+import { isAuthenticated } from "./auth";
+import {
+  User,
+  DealershipMember,
+  DealershipPermission,
+  DealershipRole,
+  DEALERSHIP_ROLE_PERMISSIONS,
+  createStaffMemberSchema,
+  updateStaffMemberSchema
+} from "@shared/schema";
+import { DealershipStaffMember, DealershipSummary } from "@shared/types";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireDealershipPermission
+      membership?: DealershipMember;
+    }
+  }
+}
+
+/**
+ * Get a user's dealership membership. Users from before dealerships existed
+ * are given their own dealership (named after their company) as its owner.
+ * Removed staff get their old, removed membership back rather than a new dealership.
+ */
+export async function ensureDealershipMembership(user: Pick<User, "id" | "companyName">): Promise<DealershipMember> {
+  const existing = await storage.getDealershipMemberByUserId(user.id);
+  if (existing) return existing;
+
+  const dealership = await storage.createDealership({ name: user.companyName });
+  return storage.createDealershipMember({ dealershipId: dealership.id, userId: user.id, role: "owner" });
+}
+
+export function hasDealershipPermission(member: Pick<DealershipMember, "role">, permission: DealershipPermission): boolean {
+  return DEALERSHIP_ROLE_PERMISSIONS[member.role as DealershipRole]?.includes(permission) ?? false;
+}
+
+export function getDealershipPermissions(member: Pick<DealershipMember, "role">): readonly DealershipPermission[] {
+  return DEALERSHIP_ROLE_PERMISSIONS[member.role as DealershipRole] ?? [];
+}
+
+/**
+ * Middleware that loads the user's dealership membership into req.membership and,
+ * when a permission is given, rejects staff whose role does not grant it.
+ * Use after isAuthenticated.
+ */
+export const requireDealershipPermission = (permission?: DealershipPermission) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const membership = await ensureDealershipMembership(req.user as User);
+
+      if (membership.removedAt) {
+        return res.status(403).json({
+          message: "You've been removed from your dealership, so this account can no longer trade",
+          code: "removed_from_dealership"
+        });
+      }
+
+      if (permission && !hasDealershipPermission(membership, permission)) {
+        return res.status(403).json({
+          message: `Your role in this dealership (${membership.role}) does not allow this`,
+          code: "permission_denied",
+          requiredPermission: permission
+        });
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Whether a user (e.g. an auction's seller or winning bidder) currently belongs to the given dealership
+export async function isDealershipMember(dealershipId: number, userId: number | null | undefined): Promise<boolean> {
+  if (!userId) return false;
+  const member = await storage.getDealershipMemberByUserId(userId);
+  return member?.dealershipId === dealershipId && !member.removedAt;
+}
+
+// Whether two users trade for the same dealership; a user always counts as trading with themselves
+export async function isSameDealership(userId: number, otherUserId: number | null | undefined): Promise<boolean> {
+  if (userId === otherUserId) return true;
+  const member = await storage.getDealershipMemberByUserId(userId);
+  return !!member && !member.removedAt && isDealershipMember(member.dealershipId, otherUserId);
+}
+
+// IDs of every staff user in a dealership
+export async function getDealershipUserIds(dealershipId: number): Promise<number[]> {
+  const members = await storage.getDealershipMembers(dealershipId);
+  return members.map(member => member.userId);
+}
+
+// Listings created by any of the dealership's staff, newest first
+export async function getDealershipAuctions(dealershipId: number): Promise<AuctionWithDetails[]> {
+  const userIds = await getDealershipUserIds(dealershipId);
+  const auctions = await Promise.all(userIds.map(userId => storage.getAuctionsByDealerId(userId)));
+  return auctions.flat().sort((a, b) => b.id - a.id);
+}
+
+// Move a departing staff member's stock and listings to the dealership owner, so they stay with the business
+async function reassignListings(fromUserId: number, toUserId: number) {
+  const motorcycles = await storage.getMotorcyclesByDealerId(fromUserId);
+  for (const motorcycle of motorcycles) {
+    await storage.updateMotorcycle(motorcycle.id, { dealerId: toUserId });
+  }
+
+  const auctions = await storage.getAuctionsByDealerId(fromUserId);
+  for (const auction of auctions) {
+    await storage.updateAuction(auction.id, { dealerId: toUserId });
+  }
+}
+
+// Staff details shown on the dealership page
+async function getStaffList(dealershipId: number): Promise<DealershipStaffMember[]> {
+  const members = await storage.getDealershipMembers(dealershipId);
+  const staff = await Promise.all(members.map(async member => {
+    const user = await storage.getUser(member.userId);
+    return user && {
+      userId: user.id,
+      username: user.username,
+      email: user.email,
+      role: member.role,
+      joinedAt: member.createdAt
+    };
+  }));
+  return staff.filter((member): member is DealershipStaffMember => !!member);
+}
+
+// Register dealership and staff management routes
+export function setupDealershipRoutes(app: Express) {
+  // The current user's dealership, their role and what it allows
+  app.get("/api/dealership", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
+    try {
+      const membership = req.membership!;
+      const dealership = await storage.getDealership(membership.dealershipId);
+      if (!dealership) {
+        return res.status(404).json({ message: "Dealership not found" });
+      }
+
+      const summary: DealershipSummary = {
+        dealership,
+        role: membership.role,
+        permissions: [...getDealershipPermissions(membership)],
+        staff: await getStaffList(membership.dealershipId)
+      };
+      res.json(summary);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/dealership", isAuthenticated, requireDealershipPermission("manage_staff"), async (req, res, next) => {
+    try {
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ message: "Dealership name is required" });
+      }
+
+      res.json(await storage.updateDealership(req.membership!.dealershipId, { name }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a staff login under the dealership
+  app.post("/api/dealership/staff", isAuthenticated, requireDealershipPermission("manage_staff"), async (req, res, next) => {
+    try {
+      const validationResult = createStaffMemberSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid staff details",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const { username, email, password, role } = validationResult.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      // Password resets find the account by email, so it has to be unique
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "Email already in use" });
+      }
+
+      const owner = req.user as User;
+      const dealership = await storage.getDealership(req.membership!.dealershipId);
+
+      const staffUser = await storage.createUser({
+        username,
+        email,
+        password: await storage.hashPassword(password),
+        role: "dealer",
+        companyName: dealership?.name || owner.companyName,
+        phone: owner.phone,
+        address: owner.address,
+        city: owner.city,
+        postcode: owner.postcode,
+        favoriteDealers: []
+      });
+
+      // Staff trade under the dealership's verification, and the owner has set up their email
+      await storage.updateUser(staffUser.id, {
+        verificationStatus: owner.verificationStatus,
+        emailVerified: true
+      });
+
+      await storage.createDealershipMember({ dealershipId: req.membership!.dealershipId, userId: staffUser.id, role });
+
+      res.status(201).json({ userId: staffUser.id, username, email, role });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/dealership/staff/:userId", isAuthenticated, requireDealershipPermission("manage_staff"), async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+      const validationResult = updateStaffMemberSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid role" });
+      }
+
+      const members = await storage.getDealershipMembers(req.membership!.dealershipId);
+      const member = members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      // Someone must always be able to manage the dealership
+      const owners = members.filter(m => m.role === "owner");
+      if (member.role === "owner" && validationResult.data.role !== "owner" && owners.length === 1) {
+        return res.status(400).json({ message: "A dealership must have at least one owner" });
+      }
+
+      const updated = await storage.updateDealershipMember(userId, { role: validationResult.data.role });
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Remove a staff member; their listings stay with the dealership
+  app.delete("/api/dealership/staff/:userId", isAuthenticated, requireDealershipPermission("manage_staff"), async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot remove yourself from the dealership" });
+      }
+
+      if (!await isDealershipMember(req.membership!.dealershipId, userId)) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      await reassignListings(userId, req.user!.id);
+      // Kept as a removed membership, so they can't trade or start a dealership of their own
+      await storage.removeDealershipMember(userId);
+
+      // They no longer trade under this dealership's verification
+      await storage.updateUser(userId, { verificationStatus: "pending_verification" });
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import express from "express";
 import { registerRoutes } from "./routes";
+import { captureRawBody } from "./billing";
 import path from "path";
 import fs from "fs";
 import cors from "cors";
@@ -53,7 +54,7 @@ app.use(cors({
 }));
 
 // Parse JSON and URL-encoded bodies
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // raw body kept for Stripe webhook signatures
 app.use(express.urlencoded({ extended: false }));
 
 // Logging middleware
@@ -81,7 +82,9 @@ app.use((req, res, next) => {
       console.error(`Server Error: [${status}] ${message}`);
       console.error(err.stack || err);
       
-      res.status(status).json({ message: "Server Error" });
+      res.status(status).json(status < 500
+        ? { message, ...(err.code && { code: err.code }) }
+        : { message: "Server Error" });
     });
     
     // Serve static files
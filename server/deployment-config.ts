@@ -78,12 +78,15 @@ export const publicPaths = [
   '/images'
 ];
 
+// Emailed links and Stripe redirects are built from APP_URL alone. Falling back to the request's Host header
+// would let anyone who forges it have a password reset link point at their own site.
+if (isProduction && !process.env.APP_URL) {
+  throw new Error('APP_URL must be set in production - it is the origin used in emailed links and Stripe redirects');
+}
+
 // Get the application's base URL based on environment
 export const getAppBaseUrl = (): string => {
-  if (isProduction) {
-    return process.env.APP_URL || 'https://trade-bikes-jameslacon1.replit.app';
-  }
-  return 'http://localhost:5000';
+  return (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
 };
 
 // Print deployment information at startup
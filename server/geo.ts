@@ -0,0 +1,179 @@
+import { User } from '@shared/schema';
+import { UK_POSTCODE_CENTROIDS } from './data/uk-postcodes';
+import { UK_OUTCODE_CENTROIDS } from './data/uk-outcodes';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Matches a full UK postcode (e.g. "E1 6AN", "LS15TY") anywhere in a string
+const POSTCODE_PATTERN = /\b([A-Z]{1,2}[0-9][A-Z0-9]?)\s*([0-9][A-Z]{2})\b/i;
+
+// Matches just the outward code (e.g. "LS1") when only a district is given
+const OUTCODE_PATTERN = /^([A-Z]{1,2}[0-9][A-Z0-9]?)$/i;
+
+/**
+ * Extract the outward code (e.g. "LS1" from "LS1 5TY") from a postcode or free-text address
+ * @returns The upper-cased outward code, or null if nothing postcode-like was found
+ */
+export function extractOutcode(text: string | null | undefined): string | null {
+  if (!text) return null;
+
+  const trimmed = text.trim();
+  const fullMatch = trimmed.match(POSTCODE_PATTERN);
+  if (fullMatch) {
+    return fullMatch[1].toUpperCase();
+  }
+
+  const outcodeMatch = trimmed.match(OUTCODE_PATTERN);
+  return outcodeMatch ? outcodeMatch[1].toUpperCase() : null;
+}
+
+// Full postcodes and outward codes, normalised to upper case with the inward code after a single space
+function normalisePostcode(text: string | null | undefined): string | null {
+  if (!text) return null;
+
+  const trimmed = text.trim();
+  const fullMatch = trimmed.match(POSTCODE_PATTERN);
+  if (fullMatch) {
+    return `${fullMatch[1]} ${fullMatch[2]}`.toUpperCase();
+  }
+  return extractOutcode(trimmed);
+}
+
+// Looks up where a postcode is. Swap implementations without touching the code that measures distances.
+export interface PostcodeGeocoder {
+  // Takes a normalised full postcode ("LS1 5TY") or outward code ("LS1"); null when the code doesn't exist
+  lookup(postcode: string): Promise<Coordinates | null>;
+}
+
+/**
+ * Geocodes through a postcodes.io-compatible API, to the full postcode or the outward code's centroid.
+ * Sends dealers' postcodes to that service, so it is only used when configured.
+ */
+export class PostcodesIoGeocoder implements PostcodeGeocoder {
+  constructor(private baseUrl: string) {}
+
+  async lookup(postcode: string): Promise<Coordinates | null> {
+    const path = postcode.includes(' ') ? 'postcodes' : 'outcodes';
+    const response = await fetch(`${this.baseUrl}/${path}/${encodeURIComponent(postcode)}`, {
+      signal: AbortSignal.timeout(5000)
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Postcode lookup responded ${response.status}: ${await response.text()}`);
+    }
+
+    const { result } = await response.json() as { result: { latitude: number | null; longitude: number | null } | null };
+    return result && result.latitude !== null && result.longitude !== null
+      ? { lat: result.latitude, lng: result.longitude }
+      : null;
+  }
+}
+
+/**
+ * Geocodes from the bundled datasets: to the outward code's centroid, else to the postcode area's
+ */
+export class OfflinePostcodeGeocoder implements PostcodeGeocoder {
+  async lookup(postcode: string): Promise<Coordinates | null> {
+    const outcode = extractOutcode(postcode);
+    if (!outcode) return null;
+
+    const exact = UK_OUTCODE_CENTROIDS[outcode] ?? UK_POSTCODE_CENTROIDS[outcode];
+    if (exact) {
+      return { lat: exact.lat, lng: exact.lng };
+    }
+
+    const area = outcode.match(/^[A-Z]+/)?.[0];
+    const areaCentroid = area ? UK_POSTCODE_CENTROIDS[area] : undefined;
+    return areaCentroid ? { lat: areaCentroid.lat, lng: areaCentroid.lng } : null;
+  }
+}
+
+const offlineGeocoder = new OfflinePostcodeGeocoder();
+
+// Use the bundled dataset unless a postcodes.io-compatible API is configured (e.g. https://api.postcodes.io)
+export const postcodeGeocoder: PostcodeGeocoder = process.env.POSTCODES_API_URL
+  ? new PostcodesIoGeocoder(process.env.POSTCODES_API_URL)
+  : offlineGeocoder;
+
+if (postcodeGeocoder === offlineGeocoder && Object.keys(UK_OUTCODE_CENTROIDS).length === 0) {
+  console.warn('Geocoding: server/data/uk-outcodes.ts is empty, so distances are measured between postcode areas. ' +
+    'Generate it with server/data/build-uk-outcodes.ts.');
+}
+
+// Postcodes don't move, so lookups are kept for the life of the process
+const MAX_CACHED_POSTCODES = 10000;
+const geocodeCache = new Map<string, Coordinates | null>();
+
+/**
+ * Geocode a UK postcode (or address containing one). If the geocoder can't be reached, falls back to the
+ * bundled dataset for this lookup without caching it.
+ * @returns Coordinates of the postcode, or of its outward code when only that was given
+ */
+export async function geocodePostcode(text: string | null | undefined): Promise<Coordinates | null> {
+  const postcode = normalisePostcode(text);
+  if (!postcode) return null;
+
+  if (geocodeCache.has(postcode)) {
+    return geocodeCache.get(postcode)!;
+  }
+
+  let coordinates: Coordinates | null;
+  try {
+    coordinates = await postcodeGeocoder.lookup(postcode);
+  } catch (error) {
+    console.error(`Geocoding: lookup of ${postcode} failed, using the bundled dataset:`, error);
+    return offlineGeocoder.lookup(postcode);
+  }
+
+  if (geocodeCache.size >= MAX_CACHED_POSTCODES) {
+    geocodeCache.delete(geocodeCache.keys().next().value!);
+  }
+  geocodeCache.set(postcode, coordinates);
+  return coordinates;
+}
+
+/**
+ * Geocode a dealer from their postcode, falling back to a postcode in their address
+ */
+export async function geocodeUser(user: Pick<User, 'postcode' | 'address'>): Promise<Coordinates | null> {
+  return (await geocodePostcode(user.postcode)) || geocodePostcode(user.address);
+}
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ * @returns Distance in miles
+ */
+export function haversineMiles(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Check whether two dealers are within a radius of each other.
+ * Dealers whose location cannot be geocoded are treated as out of range.
+ */
+export async function isWithinRadius(
+  seller: Pick<User, 'postcode' | 'address'>,
+  viewer: Pick<User, 'postcode' | 'address'>,
+  radiusMiles: number
+): Promise<boolean> {
+  const [sellerLocation, viewerLocation] = await Promise.all([geocodeUser(seller), geocodeUser(viewer)]);
+
+  if (!sellerLocation || !viewerLocation) {
+    return false;
+  }
+
+  return haversineMiles(sellerLocation, viewerLocation) <= radiusMiles;
+}
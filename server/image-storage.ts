@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Storage backend for uploaded images. Implement this to move uploads off local disk (e.g. S3).
+export interface ImageStorageDriver {
+  // Store an image under a key such as "motorcycles/<id>/web.jpg" and return its public URL
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+// Local directory where uploads are written and the URL path they are served from
+export const UPLOADS_DIR = process.env.UPLOADS_DIR || path.resolve(process.cwd(), 'uploads');
+export const UPLOADS_PUBLIC_PATH = '/uploads';
+
+/**
+ * Stores images on the local filesystem; Express serves them from UPLOADS_PUBLIC_PATH
+ */
+export class LocalDiskImageStorage implements ImageStorageDriver {
+  constructor(private rootDir: string, private publicPath: string) {}
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  // Keep keys inside the upload directory
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export const imageStorage: ImageStorageDriver = new LocalDiskImageStorage(UPLOADS_DIR, UPLOADS_PUBLIC_PATH);
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { captureRawBody } from "./billing";
 import { setupVite, serveStatic, log } from "./vite";
 import cors from "cors";
 import { corsConfig } from "./deployment-config";
@@ -61,7 +62,7 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'X-XSRF-TOKEN']
 }));
 
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // raw body kept for Stripe webhook signatures
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -104,13 +105,13 @@ app.use((req, res, next) => {
     console.error(`Server Error: [${status}] ${message}`);
     console.error(err.stack || err);
     
-    // Don't expose detailed error info in production
-    const responseMessage = process.env.NODE_ENV === 'production' 
+    // Don't expose detailed error info in production (client errors such as a 409 are safe to show)
+    const responseMessage = process.env.NODE_ENV === 'production' && status >= 500
       ? "Server Error" 
       : message;
     
     // Send response but don't throw the error after
-    res.status(status).json({ message: responseMessage });
+    res.status(status).json({ message: responseMessage, ...(err.code && status < 500 && { code: err.code }) });
   });
 
   // importantly only setup vite in development and after
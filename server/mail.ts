@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import { isProduction } from './deployment-config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Delivery backend for outgoing email. Swap implementations without touching the code that sends mail.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'TradeBikes <no-reply@tradebikes.co.uk>';
+
+// Directory the local transport writes messages to, so links can be followed in development
+export const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'mail-outbox');
+
+/**
+ * Sends mail through the SendGrid API
+ */
+export class SendGridMailTransport implements MailTransport {
+  constructor(apiKey: string, private from: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await sgMail.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
+
+/**
+ * Development transport: logs each message and writes it to the outbox directory instead of sending it.
+ * Messages carry live sign-in links, so it is never used in production unless MAIL_TRANSPORT=local opts in.
+ */
+export class LocalMailTransport implements MailTransport {
+  constructor(private outboxDir: string | null, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+
+    if (!this.outboxDir) return;
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.txt`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      `From: ${this.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+/**
+ * Test transport: keeps messages in memory so tests can read the links they contain
+ */
+export class FakeMailTransport implements MailTransport {
+  // Messages sent through this transport, newest last
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+function createMailTransport(): MailTransport {
+  // Set by `npm test`
+  if (process.env.MAIL_TRANSPORT === 'fake') {
+    return new FakeMailTransport();
+  }
+
+  if (process.env.SENDGRID_API_KEY) {
+    return new SendGridMailTransport(process.env.SENDGRID_API_KEY, MAIL_FROM);
+  }
+
+  // Falling back quietly would log reset links and never deliver them
+  if (isProduction && process.env.MAIL_TRANSPORT !== 'local') {
+    throw new Error('SENDGRID_API_KEY must be set in production (or MAIL_TRANSPORT=local to keep mail on this server)');
+  }
+
+  return new LocalMailTransport(MAIL_OUTBOX_DIR, MAIL_FROM);
+}
+
+// Use SendGrid when it is configured, otherwise keep mail local outside production
+export const mailTransport: MailTransport = createMailTransport();
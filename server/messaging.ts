@@ -0,0 +1,387 @@
+import { Express, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { sendToUser } from "./websocket";
+import { notify } from "./notifications";
+import { LocalDiskImageStorage } from "./image-storage";
+import {
+  Message,
+  MessageAttachment,
+  MESSAGE_ATTACHMENT_TYPES,
+  MAX_MESSAGE_ATTACHMENTS,
+  sendMessageSchema,
+  User
+} from "@shared/schema";
+import { ConversationSummary } from "@shared/types";
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB per file
+const MESSAGE_PREVIEW_LENGTH = 100; // characters of a message quoted in its notification
+
+// Attachments are private, so like verification documents they live outside the public
+// uploads directory and are only served to the people in the conversation
+export const MESSAGE_ATTACHMENTS_DIR = process.env.MESSAGE_ATTACHMENTS_DIR || path.resolve(process.cwd(), "message-attachments");
+const ATTACHMENTS_PUBLIC_PATH = "/api/messages/attachments";
+const attachmentStorage = new LocalDiskImageStorage(MESSAGE_ATTACHMENTS_DIR, ATTACHMENTS_PUBLIC_PATH);
+
+const ATTACHMENT_EXTENSIONS: Record<MessageAttachment["contentType"], string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+const ATTACHMENT_FILENAME = /^[0-9a-f-]{36}\.(jpg|png|webp|pdf)$/;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: MAX_MESSAGE_ATTACHMENTS,
+  },
+  fileFilter: (req, file, callback) => {
+    callback(null, (MESSAGE_ATTACHMENT_TYPES as readonly string[]).includes(file.mimetype));
+  },
+});
+
+// Turn multer limit errors into 400 responses
+const receiveAttachments = (req: Request, res: Response, next: NextFunction) => {
+  upload.array("attachments", MAX_MESSAGE_ATTACHMENTS)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Attachments must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`
+        : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+          ? `You can attach a maximum of ${MAX_MESSAGE_ATTACHMENTS} files per message`
+          : error.message;
+      return res.status(400).json({ message });
+    }
+    next(error);
+  });
+};
+
+// Threads are per counterpart and per auction; messages without an auction form a general thread
+const parseThreadAuctionId = (value: unknown): number | null => {
+  const auctionId = parseInt(String(value ?? ""), 10);
+  return Number.isInteger(auctionId) && auctionId > 0 ? auctionId : null;
+};
+
+const isInThread = (message: Message, counterpartId: number, auctionId: number | null) =>
+  (message.senderId === counterpartId || message.receiverId === counterpartId) &&
+  (message.auctionId ?? null) === auctionId;
+
+// Attachments can only be sent by the dealer who uploaded them
+const isOwnAttachment = (attachment: MessageAttachment, userId: number) => {
+  const prefix = `${ATTACHMENTS_PUBLIC_PATH}/${userId}/`;
+  return attachment.url.startsWith(prefix) && ATTACHMENT_FILENAME.test(attachment.url.slice(prefix.length));
+};
+
+// Summaries of every thread a user is in, most recently active first
+async function getConversationSummaries(userId: number): Promise<ConversationSummary[]> {
+  const messages = await storage.getAllMessagesForUser(userId);
+
+  const threads = new Map<string, { counterpartId: number; auctionId: number | null; lastMessage: Message; unreadCount: number }>();
+  for (const message of messages) {
+    const counterpartId = message.senderId === userId ? message.receiverId : message.senderId;
+    const auctionId = message.auctionId ?? null;
+    const key = `${counterpartId}:${auctionId ?? ""}`;
+
+    const thread = threads.get(key) ?? { counterpartId, auctionId, lastMessage: message, unreadCount: 0 };
+    if (new Date(message.createdAt!).getTime() > new Date(thread.lastMessage.createdAt!).getTime()) {
+      thread.lastMessage = message;
+    }
+    if (message.receiverId === userId && !message.read) {
+      thread.unreadCount += 1;
+    }
+    threads.set(key, thread);
+  }
+
+  const summaries = await Promise.all(Array.from(threads.values()).map(async (thread): Promise<ConversationSummary | null> => {
+    const counterpart = await storage.getUser(thread.counterpartId);
+    if (!counterpart) return null;
+
+    let auction: ConversationSummary["auction"] = null;
+    if (thread.auctionId !== null) {
+      const details = await storage.getAuctionWithDetails(thread.auctionId);
+      auction = {
+        id: thread.auctionId,
+        title: details ? `${details.motorcycle.year} ${details.motorcycle.make} ${details.motorcycle.model}` : `Auction #${thread.auctionId}`
+      };
+    }
+
+    return {
+      counterpart: { id: counterpart.id, username: counterpart.username, companyName: counterpart.companyName },
+      auction,
+      lastMessage: thread.lastMessage,
+      unreadCount: thread.unreadCount
+    };
+  }));
+
+  return summaries
+    .filter((summary): summary is ConversationSummary => !!summary)
+    .sort((a, b) => new Date(b.lastMessage.createdAt!).getTime() - new Date(a.lastMessage.createdAt!).getTime());
+}
+
+// Short version of a message for notifications, which may go out by text
+function messagePreview(content: string, attachmentCount: number): string {
+  const text = content.trim();
+  if (!text) {
+    return attachmentCount === 1 ? "1 attachment" : `${attachmentCount} attachments`;
+  }
+  return text.length > MESSAGE_PREVIEW_LENGTH ? `"${text.slice(0, MESSAGE_PREVIEW_LENGTH - 3)}..."` : `"${text}"`;
+}
+
+// Tell the sender which of their messages have been read, on every device they have open
+function sendReadReceipt(senderId: number, readerId: number, readMessages: Message[]) {
+  if (readMessages.length === 0) return;
+
+  sendToUser(senderId, {
+    type: "messages_read",
+    data: {
+      readerId,
+      auctionId: readMessages[0].auctionId ?? null,
+      messageIds: readMessages.map(message => message.id),
+      readAt: readMessages[0].readAt
+    },
+    timestamp: Date.now()
+  });
+}
+
+// Register messaging routes: messages, conversation threads and attachments
+export function setupMessagingRoutes(app: Express) {
+  // Upload files to attach to a message (multipart field "attachments"); send them with POST /api/messages
+  app.post(ATTACHMENTS_PUBLIC_PATH, isAuthenticated, receiveAttachments, async (req, res, next) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Attach an image (JPEG, PNG or WebP) or a PDF" });
+      }
+
+      const attachments: MessageAttachment[] = await Promise.all(files.map(async file => {
+        const contentType = file.mimetype as MessageAttachment["contentType"];
+        return {
+          url: await attachmentStorage.save(`${req.user!.id}/${randomUUID()}${ATTACHMENT_EXTENSIONS[contentType]}`, file.buffer, contentType),
+          name: file.originalname,
+          contentType,
+          size: file.size
+        };
+      }));
+
+      res.status(201).json({ attachments });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Serve an attachment to the dealer who uploaded it, anyone they sent it to, or an admin
+  app.get(`${ATTACHMENTS_PUBLIC_PATH}/:userId/:filename`, isAuthenticated, async (req, res, next) => {
+    try {
+      const uploaderId = parseInt(req.params.userId, 10);
+      const { filename } = req.params;
+
+      if (!ATTACHMENT_FILENAME.test(filename)) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      if (req.user!.id !== uploaderId && req.user!.role !== "admin") {
+        const url = `${ATTACHMENTS_PUBLIC_PATH}/${uploaderId}/${filename}`;
+        const messages = await storage.getMessagesBetweenUsers(uploaderId, req.user!.id);
+        const wasSentToViewer = messages.some(message =>
+          message.senderId === uploaderId && message.attachments.some(attachment => attachment.url === url));
+
+        if (!wasSentToViewer) {
+          return res.status(403).json({ message: "Not authorized to view this attachment" });
+        }
+      }
+
+      res.sendFile(path.join(MESSAGE_ATTACHMENTS_DIR, String(uploaderId), filename), error => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Attachment not found" });
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send a message, optionally about an auction and with uploaded attachments
+  app.post("/api/messages", isAuthenticated, async (req, res, next) => {
+    try {
+      const validationResult = sendMessageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid message data",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const { receiverId, content, attachments } = validationResult.data;
+      const auctionId = validationResult.data.auctionId ?? null;
+
+      if (receiverId === req.user!.id) {
+        return res.status(400).json({ message: "You can't send a message to yourself" });
+      }
+
+      const receiver = await storage.getUser(receiverId);
+      if (!receiver) {
+        return res.status(404).json({ message: "Recipient not found" });
+      }
+
+      // Messages about an auction are only between dealers who can both see it, so a thread can't reveal a
+      // restricted listing to someone outside its audience
+      if (auctionId !== null) {
+        const auction = await storage.getAuction(auctionId);
+        if (!auction || !(await storage.isAuctionVisibleToUser(auction, req.user as User))) {
+          return res.status(404).json({ message: "Auction not found" });
+        }
+        if (!(await storage.isAuctionVisibleToUser(auction, receiver))) {
+          return res.status(400).json({ message: "The recipient can't see this auction", code: "auction_not_visible" });
+        }
+      }
+
+      if (!attachments.every(attachment => isOwnAttachment(attachment, req.user!.id))) {
+        return res.status(400).json({ message: "Attachments must be uploaded before sending", code: "invalid_attachment" });
+      }
+
+      const message = await storage.createMessage({
+        senderId: req.user!.id,
+        receiverId,
+        content,
+        auctionId,
+        attachments
+      });
+
+      // Tell the receiver the way they've asked to hear about messages; the live event updates their inbox
+      await notify({
+        userId: receiverId,
+        type: "message",
+        content: `${req.user!.companyName} sent you a message: ${messagePreview(content, attachments.length)}`,
+        relatedId: message.id,
+        event: {
+          type: "new_message",
+          data: {
+            messageId: message.id,
+            senderId: req.user!.id,
+            senderName: req.user!.companyName,
+            receiverId,
+            content,
+            auctionId,
+            attachments
+          },
+          timestamp: Date.now()
+        }
+      });
+
+      res.status(201).json(message);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get all messages for the current user
+  app.get("/api/messages", isAuthenticated, async (req, res, next) => {
+    try {
+      const messages = await storage.getAllMessagesForUser(req.user!.id);
+
+      // Fetch user details for the other participants
+      const messageWithUsers = await Promise.all(
+        messages.map(async (message) => {
+          const otherUserId = message.senderId === req.user!.id ? message.receiverId : message.senderId;
+          const otherUser = await storage.getUser(otherUserId);
+
+          return {
+            ...message,
+            otherUser: otherUser ? {
+              id: otherUser.id,
+              username: otherUser.username,
+              companyName: otherUser.companyName
+            } : undefined
+          };
+        })
+      );
+
+      res.json(messageWithUsers);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get messages between current user and specific user
+  app.get("/api/messages/:userId", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.userId, 10);
+      const messages = await storage.getMessagesBetweenUsers(req.user!.id, userId);
+      res.json(messages);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mark a message as read, sending the sender a read receipt
+  app.patch("/api/messages/:messageId/read", isAuthenticated, async (req, res, next) => {
+    try {
+      const messageId = parseInt(req.params.messageId, 10);
+      const message = await storage.markMessageAsRead(messageId, req.user!.id);
+
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      // Receipts are idempotent, so re-reading a message just repeats its original read time
+      sendReadReceipt(message.senderId, req.user!.id, [message]);
+
+      res.json(message);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get unread message count
+  app.get("/api/messages/unread/count", isAuthenticated, async (req, res, next) => {
+    try {
+      const count = await storage.getUnreadMessageCount(req.user!.id);
+      res.json({ count });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The current dealer's conversation threads with their latest message and unread count
+  app.get("/api/conversations", isAuthenticated, async (req, res, next) => {
+    try {
+      res.json(await getConversationSummaries(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Messages in one thread, oldest first, e.g. /api/conversations/12/messages?auctionId=3
+  app.get("/api/conversations/:userId/messages", isAuthenticated, async (req, res, next) => {
+    try {
+      const counterpartId = parseInt(req.params.userId, 10);
+      const auctionId = parseThreadAuctionId(req.query.auctionId);
+
+      const messages = await storage.getMessagesBetweenUsers(req.user!.id, counterpartId);
+      res.json(messages.filter(message => isInThread(message, counterpartId, auctionId)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mark a whole thread as read, sending the counterpart a read receipt
+  app.post("/api/conversations/:userId/read", isAuthenticated, async (req, res, next) => {
+    try {
+      const counterpartId = parseInt(req.params.userId, 10);
+      const auctionId = parseThreadAuctionId(req.body?.auctionId);
+
+      const readMessages = await storage.markThreadAsRead(req.user!.id, counterpartId, auctionId);
+      sendReadReceipt(counterpartId, req.user!.id, readMessages);
+
+      res.json({ read: readMessages.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NotificationChannel, NotificationPreferencesInput, User } from "@shared/schema";
+import {
+  NotificationChannelAdapter,
+  NotificationDispatcher,
+  OutgoingNotification,
+  isInQuietHours,
+  resolveNotificationSettings
+} from "./notifications";
+import { useMemoryStorage, createTestUser } from "./test-support";
+
+const memory = useMemoryStorage();
+
+// Records what it was asked to deliver instead of sending anything
+class RecordingChannel implements NotificationChannelAdapter {
+  readonly delivered: { userId: number; content: string }[] = [];
+
+  constructor(readonly channel: NotificationChannel, private failing = false) {}
+
+  async deliver(user: User, notification: OutgoingNotification): Promise<void> {
+    if (this.failing) throw new Error(`${this.channel} is down`);
+    this.delivered.push({ userId: user.id, content: notification.content });
+  }
+}
+
+function recordingDispatcher(now: Date, failingChannel?: NotificationChannel) {
+  const channels = Object.fromEntries((["in_app", "email", "sms", "push"] as const)
+    .map(channel => [channel, new RecordingChannel(channel, channel === failingChannel)])) as Record<NotificationChannel, RecordingChannel>;
+  return { channels, dispatcher: new NotificationDispatcher(Object.values(channels), () => now) };
+}
+
+const deliveredTo = (channels: Record<NotificationChannel, RecordingChannel>) =>
+  Object.values(channels).filter(channel => channel.delivered.length > 0).map(channel => channel.channel);
+
+// Outbid alerts by email, text and push, with quiet hours from 22:00 to 07:00 UK time
+async function dealerWithQuietHours(): Promise<User> {
+  const dealer = await createTestUser({ phone: "07000000001" });
+  const preferences: NotificationPreferencesInput = {
+    channels: { outbid: ["email", "sms", "push"] },
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:00",
+    timezone: "Europe/London"
+  };
+  await memory.saveNotificationPreferences(dealer.id, preferences);
+  return dealer;
+}
+
+test("notifications go over each channel the dealer chose for the type", async () => {
+  const dealer = await dealerWithQuietHours();
+  const { channels, dispatcher } = recordingDispatcher(new Date("2025-01-15T12:00:00Z"));
+
+  await dispatcher.notify({ userId: dealer.id, type: "outbid", content: "You've been outbid" });
+
+  assert.deepEqual(deliveredTo(channels), ["email", "sms", "push"]);
+});
+
+test("during quiet hours texts and pushes are held back and the notification lands in-app instead", async () => {
+  const dealer = await dealerWithQuietHours();
+  const { channels, dispatcher } = recordingDispatcher(new Date("2025-01-15T23:30:00Z"));
+
+  await dispatcher.notify({ userId: dealer.id, type: "outbid", content: "You've been outbid" });
+
+  assert.deepEqual(deliveredTo(channels), ["in_app", "email"]);
+});
+
+test("quiet hours follow the dealer's time zone, including summer time", async () => {
+  const settings = resolveNotificationSettings({
+    id: 1,
+    userId: 1,
+    channels: {},
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:00",
+    timezone: "Europe/London",
+    updatedAt: null
+  });
+
+  assert.equal(isInQuietHours(settings, new Date("2025-07-15T21:30:00Z")), true); // 22:30 BST
+  assert.equal(isInQuietHours(settings, new Date("2025-01-15T21:30:00Z")), false); // 21:30 GMT
+  assert.equal(isInQuietHours(settings, new Date("2025-01-16T06:59:00Z")), true);
+  assert.equal(isInQuietHours(settings, new Date("2025-01-16T07:00:00Z")), false);
+});
+
+test("dealers who haven't chosen are notified in-app only", async () => {
+  const dealer = await createTestUser();
+  const { channels, dispatcher } = recordingDispatcher(new Date("2025-01-15T12:00:00Z"));
+
+  await dispatcher.notify({ userId: dealer.id, type: "outbid", content: "You've been outbid" });
+
+  assert.deepEqual(deliveredTo(channels), ["in_app"]);
+});
+
+test("a failing channel doesn't stop the others or reject", async () => {
+  const dealer = await dealerWithQuietHours();
+  const { channels, dispatcher } = recordingDispatcher(new Date("2025-01-15T12:00:00Z"), "email");
+
+  await dispatcher.notify({ userId: dealer.id, type: "outbid", content: "You've been outbid" });
+
+  assert.deepEqual(deliveredTo(channels), ["sms", "push"]);
+});
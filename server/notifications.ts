@@ -0,0 +1,222 @@
+import { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { sendToUser } from "./websocket";
+import { mailTransport, MailTransport } from "./mail";
+import { smsTransport, SmsTransport } from "./sms";
+import { pushTransport, PushTransport } from "./push";
+import { WSMessage } from "@shared/types";
+import {
+  User,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationSettings,
+  NotificationType,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  DEFAULT_NOTIFICATION_CHANNELS,
+  REQUIRED_IN_APP_NOTIFICATION_TYPES,
+  INTERRUPTING_NOTIFICATION_CHANNELS,
+  notificationPreferencesSchema
+} from "@shared/schema";
+
+// Something to tell a dealer about
+export interface OutgoingNotification {
+  userId: number;
+  type: NotificationType;
+  content: string;
+  relatedId?: number | null; // related entity ID (auction, bid, etc.)
+  // Live update sent over the WebSocket whatever the dealer's preferences, so their open dashboards refresh
+  event?: WSMessage;
+}
+
+// One way of reaching a dealer. Swap implementations (or their transports) without touching the code that notifies.
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  deliver(user: User, notification: OutgoingNotification): Promise<void>;
+}
+
+/**
+ * Adds the notification to the dealer's notification list in the app
+ */
+export class InAppChannel implements NotificationChannelAdapter {
+  readonly channel = "in_app";
+
+  async deliver(user: User, notification: OutgoingNotification): Promise<void> {
+    await storage.createNotification({
+      userId: user.id,
+      type: notification.type,
+      content: notification.content,
+      relatedId: notification.relatedId ?? null
+    });
+  }
+}
+
+/**
+ * Emails the notification to the dealer's account address
+ */
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = "email";
+
+  constructor(private transport: MailTransport) {}
+
+  async deliver(user: User, notification: OutgoingNotification): Promise<void> {
+    await this.transport.send({
+      to: user.email,
+      subject: NOTIFICATION_TYPE_LABELS[notification.type],
+      text: `Hi ${user.companyName},\n\n${notification.content}\n\nYou can choose how you hear about this from your notification settings.`
+    });
+  }
+}
+
+/**
+ * Texts the notification to the dealer's phone number, if they have one
+ */
+export class SmsChannel implements NotificationChannelAdapter {
+  readonly channel = "sms";
+
+  constructor(private transport: SmsTransport) {}
+
+  async deliver(user: User, notification: OutgoingNotification): Promise<void> {
+    if (!user.phone) return;
+    await this.transport.send({ to: user.phone, body: `TradeBikes: ${notification.content}` });
+  }
+}
+
+/**
+ * Sends the notification as a web push to the dealer's subscribed browsers
+ */
+export class PushChannel implements NotificationChannelAdapter {
+  readonly channel = "push";
+
+  constructor(private transport: PushTransport) {}
+
+  async deliver(user: User, notification: OutgoingNotification): Promise<void> {
+    await this.transport.send({
+      userId: user.id,
+      title: NOTIFICATION_TYPE_LABELS[notification.type],
+      body: notification.content
+    });
+  }
+}
+
+// A dealer's saved preferences with the defaults filled in
+export function resolveNotificationSettings(preferences?: NotificationPreferences): NotificationSettings {
+  const channels = Object.fromEntries(NOTIFICATION_TYPES.map(type => {
+    const chosen = preferences?.channels[type] ?? DEFAULT_NOTIFICATION_CHANNELS;
+    const required = REQUIRED_IN_APP_NOTIFICATION_TYPES.includes(type) && !chosen.includes("in_app");
+    return [type, required ? ["in_app", ...chosen] : chosen];
+  })) as NotificationSettings["channels"];
+
+  return {
+    channels,
+    quietHoursStart: preferences?.quietHoursStart ?? null,
+    quietHoursEnd: preferences?.quietHoursEnd ?? null,
+    timezone: preferences?.timezone ?? "Europe/London"
+  };
+}
+
+// Whether it's currently within the dealer's quiet hours, in their time zone. Quiet hours may run past midnight.
+export function isInQuietHours(settings: NotificationSettings, date: Date): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: settings.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(date);
+  const now = Number(parts.find(part => part.type === "hour")?.value) * 60
+    + Number(parts.find(part => part.type === "minute")?.value);
+
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Delivers notifications over the channels each dealer has chosen for that type. A failing channel is logged
+ * and doesn't stop the others, and notify() never rejects: callers have already done what they're notifying about.
+ */
+export class NotificationDispatcher {
+  private adapters = new Map<NotificationChannel, NotificationChannelAdapter>();
+
+  constructor(adapters: NotificationChannelAdapter[], private now: () => Date = () => new Date()) {
+    adapters.forEach(adapter => this.adapters.set(adapter.channel, adapter));
+  }
+
+  async notify(notification: OutgoingNotification): Promise<void> {
+    try {
+      const user = await storage.getUser(notification.userId);
+      if (!user) return;
+
+      const settings = resolveNotificationSettings(await storage.getNotificationPreferences(user.id));
+      const channels = new Set(settings.channels[notification.type]);
+
+      // No texts or pushes during quiet hours; the notification still lands in-app so nothing is lost
+      if (isInQuietHours(settings, this.now())) {
+        const held = INTERRUPTING_NOTIFICATION_CHANNELS.filter(channel => channels.delete(channel));
+        if (held.length > 0) channels.add("in_app");
+      }
+
+      await Promise.all(Array.from(channels).map(async (channel) => {
+        try {
+          await this.adapters.get(channel)?.deliver(user, notification);
+        } catch (error) {
+          console.error(`Notifications: ${channel} delivery of '${notification.type}' to user ${user.id} failed:`, error);
+        }
+      }));
+    } catch (error) {
+      console.error(`Notifications: couldn't send '${notification.type}' to user ${notification.userId}:`, error);
+    } finally {
+      // Sent last, so a dashboard that refetches on the event sees the new in-app notification
+      if (notification.event) {
+        sendToUser(notification.userId, notification.event);
+      }
+    }
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher([
+  new InAppChannel(),
+  new EmailChannel(mailTransport),
+  new SmsChannel(smsTransport),
+  new PushChannel(pushTransport)
+]);
+
+// Tell a dealer about something, the way they've asked to hear about it
+export function notify(notification: OutgoingNotification): Promise<void> {
+  return notificationDispatcher.notify(notification);
+}
+
+// Register notification preference routes
+export function setupNotificationRoutes(app: Express) {
+  app.get("/api/notification-preferences", isAuthenticated, async (req, res, next) => {
+    try {
+      res.json(resolveNotificationSettings(await storage.getNotificationPreferences(req.user!.id)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/notification-preferences", isAuthenticated, async (req, res, next) => {
+    try {
+      const validationResult = notificationPreferencesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid notification preferences",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const preferences = await storage.saveNotificationPreferences(req.user!.id, validationResult.data);
+      res.json(resolveNotificationSettings(preferences));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
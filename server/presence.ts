@@ -0,0 +1,46 @@
+import { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { isUserOnline } from "./websocket";
+import { UserPresence } from "@shared/types";
+import { User } from "@shared/schema";
+
+// Most users one presence request can ask about
+const MAX_PRESENCE_USERS = 100;
+
+// Register presence routes
+export function setupPresenceRoutes(app: Express) {
+  // Online status and last seen time for a list of users, e.g. /api/presence?userIds=1,2,3
+  app.get("/api/presence", isAuthenticated, async (req, res, next) => {
+    try {
+      const userIds = Array.from(new Set(
+        String(req.query.userIds ?? "")
+          .split(",")
+          .map(id => parseInt(id, 10))
+          .filter(id => Number.isInteger(id) && id > 0)
+      ));
+
+      if (userIds.length > MAX_PRESENCE_USERS) {
+        return res.status(400).json({ message: `Ask about at most ${MAX_PRESENCE_USERS} users at a time`, code: "too_many_users" });
+      }
+
+      const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+
+      // Unknown users are left out
+      const presence: UserPresence[] = users
+        .filter((user): user is User => !!user)
+        .map(user => {
+          const online = isUserOnline(user.id);
+          return {
+            userId: user.id,
+            online,
+            lastSeenAt: online || !user.lastSeenAt ? null : new Date(user.lastSeenAt).toISOString()
+          };
+        });
+
+      res.json(presence);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -3,6 +3,7 @@ import cors from "cors";
 import path from "path";
 import fs from "fs";
 import { registerRoutes } from "./routes";
+import { captureRawBody } from "./billing";
 
 console.log("Starting TradeBikes Production Server");
 
@@ -11,7 +12,7 @@ const app = express();
 
 // Basic middleware
 app.use(cors({ origin: true, credentials: true }));
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // raw body kept for Stripe webhook signatures
 app.use(express.urlencoded({ extended: false }));
 
 // Simple request logger
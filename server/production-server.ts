@@ -1,5 +1,6 @@
 import express from "express";
 import { registerRoutes } from "./routes";
+import { captureRawBody } from "./billing";
 import path from "path";
 import fs from "fs";
 import cors from "cors";
@@ -17,7 +18,7 @@ app.use(cors({
 }));
 
 // Parse JSON and URL-encoded bodies
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // raw body kept for Stripe webhook signatures
 app.use(express.urlencoded({ extended: false }));
 
 // Simple request logging
@@ -0,0 +1,56 @@
+export interface PushMessage {
+  userId: number; // devices are registered with the push service under the dealer's user ID
+  title: string;
+  body: string;
+}
+
+// Delivery backend for web push notifications. Swap implementations without touching the code that sends them.
+export interface PushTransport {
+  send(message: PushMessage): Promise<void>;
+}
+
+/**
+ * Sends web push notifications through the OneSignal REST API, to every browser the dealer has subscribed
+ */
+export class OneSignalPushTransport implements PushTransport {
+  constructor(private appId: string, private apiKey: string) {}
+
+  async send(message: PushMessage): Promise<void> {
+    const response = await fetch('https://onesignal.com/api/v1/notifications', {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${this.apiKey}`,
+        'content-type': 'application/json'
+      },
+      body: JSON.stringify({
+        app_id: this.appId,
+        include_external_user_ids: [String(message.userId)],
+        headings: { en: message.title },
+        contents: { en: message.body },
+        url: process.env.APP_URL || undefined
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OneSignal responded ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Development and test transport: logs each notification instead of sending it
+ */
+export class LocalPushTransport implements PushTransport {
+  // Notifications sent since startup, newest last (handy for tests)
+  readonly sent: PushMessage[] = [];
+
+  async send(message: PushMessage): Promise<void> {
+    this.sent.push(message);
+    console.log(`[push] User: ${message.userId} | ${message.title}\n${message.body}`);
+  }
+}
+
+// Use OneSignal when it is configured, otherwise keep push notifications local
+export const pushTransport: PushTransport = process.env.ONESIGNAL_APP_ID && process.env.ONESIGNAL_API_KEY
+  ? new OneSignalPushTransport(process.env.ONESIGNAL_APP_ID, process.env.ONESIGNAL_API_KEY)
+  : new LocalPushTransport();
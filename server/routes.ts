@@ -1,44 +1,144 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, isAuthenticated } from "./auth";
 import { setupWebSocket, sendToUser, broadcast } from "./websocket";
 import { WSMessage } from "@shared/types";
 import { setupAdminRoutes } from "./admin-routes";
+import { setupUploadRoutes } from "./uploads";
+import { setupBillingRoutes, requirePlan } from "./billing";
+import { setupVerificationRoutes, requireVerifiedDealer } from "./verification";
+import {
+  isBlindAuction, isReserveMet, getSoftCloseEndTime, placeBidWithProxies, hideMaxAmounts, redactAuctionForViewer,
+  BidRejectedError, ProxyBidResult
+} from "./bidding";
+import { startAuctionScheduler, stopAuctionScheduler, scheduleAuctionExpiry, cancelAuctionExpiry } from "./auction-scheduler";
+import { geocodePostcode } from "./geo";
+import { setupWatchlistRoutes } from "./watchlist";
+import { setupVehicleCheckRoutes } from "./vehicle-checks";
+import { setupVehicleLookupRoutes } from "./vehicle-lookup";
+import { setupPresenceRoutes } from "./presence";
+import { setupMessagingRoutes } from "./messaging";
+import { setupNotificationRoutes, notify } from "./notifications";
+import { setupSavedSearchRoutes, notifySavedSearchMatches, startSavedSearchDigests, stopSavedSearchDigests } from "./saved-searches";
+import { transitionAuction, recordAuctionCreated, getAuctionHistory, IllegalTransitionError } from "./auction-lifecycle";
+import {
+  setupDealershipRoutes,
+  requireDealershipPermission,
+  hasDealershipPermission,
+  isDealershipMember,
+  isSameDealership,
+  getDealershipUserIds,
+  getDealershipAuctions
+} from "./dealerships";
 import { z } from "zod";
 import { 
   insertMotorcycleSchema, 
   insertAuctionSchema, 
   insertBidSchema, 
-  insertMessageSchema 
+  insertReviewSchema,
+  auctionFormatSchema,
+  auctionSearchSchema,
+  CONDITION_GRADE_LABELS,
+  Auction,
+  Bid,
+  Review,
+  User
 } from "@shared/schema";
 
 import { Request, Response, NextFunction } from "express";
 
-// Authentication middleware
-const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
-  if (req.isAuthenticated() && req.user) {
-    return next();
-  }
-  res.status(401).json({ message: "Not authenticated" });
+// Map review sub-scores onto the same 1-5 scale as the overall rating
+const PAYMENT_PROMPTNESS_SCORES: Record<string, number> = { prompt: 5, acceptable: 3, delayed: 1 };
+const COMMUNICATION_QUALITY_SCORES: Record<string, number> = { excellent: 5, good: 3, poor: 1 };
+
+// Average of the given scores rounded to a whole rating, or null if there are none
+const averageScore = (scores: number[]) => {
+  if (scores.length === 0) return null;
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
 };
 
-// Role-based authorization middleware
-// Since all users are dealers now, this simply passes through, but is kept for future role differentiation
-const hasRole = (role: string) => (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({ message: "Not authenticated" });
-  }
+// Recompute a dealer's aggregate rating and sub-scores from their persisted reviews
+async function recalculateDealerRating(dealerId: number) {
+  const dealerReviews: Review[] = await storage.getReviewsByRevieweeId(dealerId);
   
-  // All users are dealers in the current implementation
-  return next();
+  return storage.updateUser(dealerId, {
+    rating: averageScore(dealerReviews.map(review => review.rating)) ?? 0,
+    totalRatings: dealerReviews.length,
+    paymentRating: averageScore(dealerReviews
+      .filter(review => review.paymentPromptness)
+      .map(review => PAYMENT_PROMPTNESS_SCORES[review.paymentPromptness!])),
+    communicationRating: averageScore(dealerReviews
+      .filter(review => review.communicationQuality)
+      .map(review => COMMUNICATION_QUALITY_SCORES[review.communicationQuality!]))
+  });
+}
+
+/**
+ * Extend an auction if a bid landed in its soft-close window, rescheduling its expiry
+ * and telling everyone watching about the new end time
+ * @returns The auction's end time after any extension
+ */
+async function applySoftClose(auction: Auction, bidTime: Date): Promise<Date> {
+  // Re-read so bids arriving together extend from the latest end time
+  const latest = await storage.getAuction(auction.id) ?? auction;
+  const extendedEndTime = getSoftCloseEndTime(latest, bidTime);
+  if (!extendedEndTime) return new Date(latest.endTime);
   
-  // Original implementation kept for reference:
-  // if (req.user && req.user.role === role) {
-  //   return next();
-  // }
-  // res.status(403).json({ message: "Not authorized" });
-};
+  // The scheduler may have closed the auction in the meantime
+  const updated = await storage.updateAuctionIfStatus(auction.id, "active", { endTime: extendedEndTime });
+  if (!updated) return new Date(latest.endTime);
+  
+  scheduleAuctionExpiry(updated);
+  
+  broadcast({
+    type: "auction_updated",
+    data: {
+      auctionId: auction.id,
+      endTime: extendedEndTime.toISOString(),
+      extendedByMinutes: latest.softCloseExtensionMinutes
+    },
+    timestamp: Date.now()
+  });
+  
+  return extendedEndTime;
+}
+
+/**
+ * Tell the seller about a new bid and confirm it to the bidder, refreshing both dashboards.
+ * The bid amount is only sent to the seller, so blind auctions stay sealed.
+ */
+async function notifyBidPlaced(auction: Auction, bid: Bid) {
+  const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+  
+  await notify({
+    userId: auction.dealerId,
+    type: "bid",
+    content: `New bid received on your ${motorcycle?.make} ${motorcycle?.model}`,
+    relatedId: auction.id,
+    event: {
+      type: "new_bid",
+      data: { auctionId: auction.id, dealerId: bid.dealerId, bidId: bid.id, amount: bid.amount, motorcycle },
+      timestamp: Date.now()
+    }
+  });
+  
+  await notify({
+    userId: bid.dealerId,
+    type: "bid_placed",
+    content: `Your bid on ${motorcycle?.make} ${motorcycle?.model} has been placed`,
+    relatedId: auction.id,
+    event: {
+      type: "bid_placed",
+      data: { auctionId: auction.id, bidId: bid.id, amount: bid.amount, motorcycle },
+      timestamp: Date.now()
+    }
+  });
+  
+  [auction.dealerId, bid.dealerId].forEach(userId => {
+    sendToUser(userId, { type: "refresh_stats", data: {}, timestamp: Date.now() });
+  });
+}
 
 // Import the admin setup function
 import { setupAdmin } from "./add-admin";
@@ -50,6 +150,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up admin routes
   setupAdminRoutes(app);
   
+  // Set up image upload routes
+  setupUploadRoutes(app);
+  
+  // Set up subscription billing routes
+  setupBillingRoutes(app);
+  
+  // Set up dealer trade verification and the admin review queue
+  setupVerificationRoutes(app);
+  setupDealershipRoutes(app);
+  
+  // Set up saved search alerts and the watchlist
+  setupSavedSearchRoutes(app);
+  setupWatchlistRoutes(app);
+  
+  // Set up registration lookups and vehicle history checks (Pro plan)
+  setupVehicleLookupRoutes(app);
+  setupVehicleCheckRoutes(app);
+  
+  // Set up dealer presence (online / last seen) and messaging
+  setupPresenceRoutes(app);
+  setupMessagingRoutes(app);
+  
+  // Set up notification preferences
+  setupNotificationRoutes(app);
+  
   // Ensure admin account exists
   setupAdmin();
 
@@ -59,6 +184,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up WebSocket server
   const wss = setupWebSocket(httpServer);
   
+  // Close auctions at their endTime even when no client is online
+  startAuctionScheduler();
+  httpServer.on('close', stopAuctionScheduler);
+
+  // Email new saved search matches to dealers who asked for a digest
+  startSavedSearchDigests();
+  httpServer.on('close', stopSavedSearchDigests);
+  
   // Basic health check endpoint
   app.get('/api/health', (req, res) => {
     res.status(200).json({ status: 'ok', timestamp: new Date() });
@@ -66,15 +199,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // API routes
   // Motorcycles
-  app.post("/api/motorcycles", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/motorcycles", isAuthenticated, requireDealershipPermission("list"), async (req, res, next) => {
     try {
       const validationResult = insertMotorcycleSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({ message: "Invalid motorcycle data", errors: validationResult.error.format() });
       }
 
+      // With an inspection report, the headline condition is its computed grade
+      const { conditionReport } = validationResult.data;
       const motorcycle = await storage.createMotorcycle({
         ...validationResult.data,
+        ...(conditionReport && { condition: CONDITION_GRADE_LABELS[conditionReport.overallGrade] }),
         dealerId: req.user.id
       });
 
@@ -84,11 +220,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/motorcycles", isAuthenticated, async (req, res, next) => {
+  app.get("/api/motorcycles", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
     try {
-      // All users are dealers now, so we can get their motorcycles directly
-      const motorcycles = await storage.getMotorcyclesByDealerId(req.user.id);
-      res.json(motorcycles);
+      // Stock belongs to the dealership, whichever staff member added it
+      const userIds = await getDealershipUserIds(req.membership!.dealershipId);
+      const motorcycles = await Promise.all(userIds.map(userId => storage.getMotorcyclesByDealerId(userId)));
+      res.json(motorcycles.flat());
     } catch (error) {
       next(error);
     }
@@ -108,10 +245,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Auctions
-  app.post("/api/auctions", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions", isAuthenticated, requireDealershipPermission("list"), requireVerifiedDealer, async (req, res, next) => {
     try {
       console.log("Creating auction with data:", JSON.stringify(req.body));
       
+      // Validate the bidding format chosen by the seller
+      const formatResult = auctionFormatSchema.safeParse({
+        auctionType: req.body.auctionType,
+        bidIncrement: req.body.bidIncrement,
+        reservePrice: req.body.reservePrice,
+        buyNowPrice: req.body.buyNowPrice,
+        softCloseMinutes: req.body.softCloseMinutes,
+        softCloseExtensionMinutes: req.body.softCloseExtensionMinutes
+      });
+      
+      if (!formatResult.success) {
+        return res.status(400).json({ 
+          message: formatResult.error.errors[0]?.message || "Invalid auction format", 
+          errors: formatResult.error.format() 
+        });
+      }
+      
+      const { auctionType, bidIncrement, reservePrice, buyNowPrice, softCloseMinutes, softCloseExtensionMinutes } = formatResult.data;
+      
       // Skip validation and directly create the auction with the required fields
       // This bypasses the Zod schema validation that's causing issues with date types
       const auction = await storage.createAuction({
@@ -120,11 +276,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime: new Date(req.body.startTime),
         endTime: new Date(req.body.endTime),
         visibilityType: req.body.visibilityType || "all",
-        visibilityRadius: req.body.visibilityType === 'radius' ? parseInt(req.body.visibilityRadius, 10) : null
+        visibilityRadius: req.body.visibilityType === 'radius' ? parseInt(req.body.visibilityRadius, 10) : null,
+        auctionType,
+        bidIncrement,
+        reservePrice: auctionType === 'reserve' ? reservePrice : null,
+        buyNowPrice,
+        softCloseMinutes,
+        softCloseExtensionMinutes
         // Status is handled by the storage system automatically
       });
       
       console.log("Auction created successfully:", auction);
+      await recordAuctionCreated(auction, req.user!.id);
+      
+      // Schedule the server-side close at endTime
+      scheduleAuctionExpiry(auction);
 
       // Notify potential buyers via WebSocket
       broadcast({
@@ -136,37 +302,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: Date.now()
       });
 
+      // Alert dealers whose saved searches match, without holding up the response
+      notifySavedSearchMatches(auction.id).catch(error => {
+        console.error(`Failed to alert saved searches about auction ${auction.id}:`, error);
+      });
+
       res.status(201).json(auction);
     } catch (error) {
       next(error);
     }
   });
 
+  // Search active auctions. The body stays a plain array; when a limit is given and more
+  // results remain, the cursor for the next page is sent in the X-Next-Cursor header.
   app.get("/api/auctions", async (req, res, next) => {
     try {
+      const validationResult = auctionSearchSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid search",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const filters = validationResult.data;
+      if (filters.postcode && !(await geocodePostcode(filters.postcode))) {
+        return res.status(400).json({ message: "We couldn't find that postcode", code: "unknown_postcode" });
+      }
+
       // If user is logged in, pass their ID to get personalized results
       const currentUserId = req.isAuthenticated() ? req.user.id : null;
-      const activeAuctions = await storage.getActiveAuctions(currentUserId);
-      res.json(activeAuctions);
+      const page = await storage.searchActiveAuctions(filters, currentUserId);
+
+      if (page.nextCursor) {
+        res.setHeader("X-Next-Cursor", page.nextCursor);
+      }
+      res.json(page.auctions.map(auction => redactAuctionForViewer(auction, currentUserId ?? undefined)));
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/auctions/dealer", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  // Listings from everyone in the dealer's dealership
+  app.get("/api/auctions/dealer", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
+    try {
+      const dealerAuctions = await getDealershipAuctions(req.membership!.dealershipId);
+      // Staff see their dealership's listings as the seller does, reserve prices included
+      res.json(dealerAuctions.map(auction => redactAuctionForViewer(auction, auction.dealerId)));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Export the dealership's listings as CSV (Pro plan)
+  app.get("/api/exports/auctions", isAuthenticated, requirePlan("pro"), requireDealershipPermission("view_financials"), async (req, res, next) => {
     try {
-      const dealerAuctions = await storage.getAuctionsByDealerId(req.user.id);
-      res.json(dealerAuctions);
+      const dealerAuctions = await getDealershipAuctions(req.membership!.dealershipId);
+      
+      const csvValue = (value: unknown) => {
+        const text = value === null || value === undefined ? "" : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      
+      const rows = [
+        ["Auction ID", "Make", "Model", "Year", "Mileage", "Format", "Status", "Bids", "Highest Bid", "Start Time", "End Time"],
+        ...dealerAuctions.map(auction => [
+          auction.id,
+          auction.motorcycle.make,
+          auction.motorcycle.model,
+          auction.motorcycle.year,
+          auction.motorcycle.mileage,
+          auction.auctionType,
+          auction.status,
+          auction.totalBids,
+          auction.currentBid,
+          new Date(auction.startTime).toISOString(),
+          new Date(auction.endTime).toISOString()
+        ])
+      ];
+      
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", 'attachment; filename="auctions.csv"');
+      res.send(rows.map(row => row.map(csvValue).join(",")).join("\n"));
     } catch (error) {
       next(error);
     }
   });
   
   // Delete listing (auction + motorcycle)
-  app.delete("/api/auctions/:id", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.delete("/api/auctions/:id", isAuthenticated, requireDealershipPermission("list"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id, 10);
-      const dealerId = req.user.id;
+      
+      const auction = await storage.getAuction(auctionId);
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
+        return res.status(403).json({ message: "Not authorized to delete this listing" });
+      }
+      
+      const dealerId = auction.dealerId;
       
       // Attempt to delete the auction
       const deleted = await storage.deleteAuction(auctionId, dealerId);
@@ -177,6 +414,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      cancelAuctionExpiry(auctionId);
+      
       // Notify via WebSocket
       const wsMessage: WSMessage = {
         type: "auction_deleted",
@@ -195,20 +434,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Archive listing as "no sale"
-  app.post("/api/auctions/:id/archive-no-sale", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions/:id/archive-no-sale", isAuthenticated, requireDealershipPermission("list"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id, 10);
-      const dealerId = req.user.id;
+      const dealerId = req.user!.id;
       
-      // Attempt to archive the auction as "no sale"
-      const updatedAuction = await storage.archiveAuctionAsNoSale(auctionId, dealerId);
+      const auction = await storage.getAuction(auctionId);
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
       
-      if (!updatedAuction) {
-        return res.status(400).json({ 
-          message: "Unable to archive this listing as 'no sale'. It may already be completed or you don't have permission."
-        });
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
+        return res.status(403).json({ message: "Not authorized to archive this listing" });
       }
       
+      // Only a live auction can be archived - the lifecycle rejects anything else with a 409
+      const updatedAuction = await transitionAuction(auction, "no_sale", {
+        event: "archived_no_sale",
+        actorId: dealerId,
+        changes: { completedAt: new Date().toISOString() }
+      });
+      
+      cancelAuctionExpiry(auctionId);
+      
       // Notify via WebSocket
       const wsMessage: WSMessage = {
         type: "auction_archived",
@@ -228,7 +476,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get auctions where the current user has placed bids
-  app.get("/api/auctions/bids", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.get("/api/auctions/bids", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
     try {
       const dealerId = req.user.id;
       console.log(`DEBUG: Getting auctions with bids for dealer ${dealerId} (username: ${req.user.username})`);
@@ -259,7 +507,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`DEBUG: Auction ${auction.id} - WinningBidderId: ${auction.winningBidderId}, BidAccepted: ${auction.bidAccepted}`);
       });
       
-      res.json(auctions);
+      res.json(auctions.map(auction => redactAuctionForViewer(auction, dealerId)));
     } catch (error) {
       console.error('Error in /api/auctions/bids:', error);
       next(error);
@@ -273,14 +521,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!auction) {
         return res.status(404).json({ message: "Auction not found" });
       }
-      res.json(auction);
+      const viewerId = req.isAuthenticated() ? req.user.id : undefined;
+      const viewerIsSeller = viewerId !== undefined && await isSameDealership(viewerId, auction.dealerId);
+      res.json(redactAuctionForViewer(auction, viewerId, viewerIsSeller));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Status changes of an auction, oldest first, for the auction timeline. Only the seller's dealership and admins
+  // see who made each change; other dealers see their own changes and the seller's.
+  app.get("/api/auctions/:id/history", isAuthenticated, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const auction = await storage.getAuction(id);
+      
+      // Auctions the dealer is not allowed to see are treated as missing
+      if (!auction || !await storage.isAuctionVisibleToUser(auction, req.user as User)) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      const history = await getAuctionHistory(id);
+      if (req.user!.role === "admin" || await isSameDealership(req.user!.id, auction.dealerId)) {
+        return res.json(history);
+      }
+      
+      res.json(history.map(entry => entry.actorId === req.user!.id || entry.actorId === auction.dealerId
+        ? entry
+        : { ...entry, actorId: null }));
     } catch (error) {
       next(error);
     }
   });
   
   // Motorcycles
-  app.post("/api/motorcycles", isAuthenticated, hasRole("dealer"), async (req: Request, res: Response, next: NextFunction) => {
+  app.post("/api/motorcycles", isAuthenticated, requireDealershipPermission("list"), async (req: Request, res: Response, next: NextFunction) => {
     try {
       const validationResult = insertMotorcycleSchema.safeParse(req.body);
       if (!validationResult.success) {
@@ -304,14 +579,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create a new auction
-  app.post("/api/bids", isAuthenticated, async (req, res, next) => {
+  app.post("/api/bids", isAuthenticated, requireDealershipPermission("bid"), requireVerifiedDealer, async (req, res, next) => {
     try {
       console.log("Received bid request:", req.body);
       
       const validationResult = insertBidSchema.safeParse({
         auctionId: req.body.auctionId,
         dealerId: req.user.id,
-        amount: req.body.amount
+        amount: req.body.amount,
+        maxAmount: req.body.maxAmount ?? null
       });
       
       if (!validationResult.success) {
@@ -320,6 +596,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { auctionId, amount } = validationResult.data;
+      const maxAmount = validationResult.data.maxAmount ?? null;
       
       // Check if auction exists and is active
       const auction = await storage.getAuction(auctionId);
@@ -331,42 +608,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Auction is not active" });
       }
       
+      if (await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
+        return res.status(400).json({ message: "You cannot bid on your own dealership's listing" });
+      }
+      
       const now = new Date();
       if (now > new Date(auction.endTime)) {
         return res.status(400).json({ message: "Auction has ended" });
       }
       
-      // No need to check if bid is higher than current highest bid
-      // Blind bidding system allows any bid amount
-      // The seller will decide which bid to accept
+      if (isBlindAuction(auction)) {
+        if (maxAmount !== null) {
+          return res.status(400).json({ message: "Automatic bidding is not available on blind auctions" });
+        }
+        
+        // No need to check if bid is higher than current highest bid
+        // Blind bidding system allows any bid amount
+        // The seller will decide which bid to accept
+        
+        // Create bid
+        const bid = await storage.createBid({
+          auctionId,
+          dealerId: req.user.id,
+          amount
+        });
+        
+        // Notify via WebSocket, without the amount so the auction stays sealed
+        const wsMessage: WSMessage = {
+          type: "new_bid",
+          data: { 
+            auctionId, 
+            dealerId: req.user.id
+          },
+          timestamp: Date.now()
+        };
+        
+        broadcast(wsMessage);
+        await notifyBidPlaced(auction, bid);
+        
+        const blindEndTime = await applySoftClose(auction, now);
+        
+        return res.status(201).json({ ...bid, endTime: blindEndTime });
+      }
       
-      // Create bid
-      const bid = await storage.createBid({
-        auctionId,
-        dealerId: req.user.id,
-        amount
+      if (maxAmount !== null && maxAmount < amount) {
+        return res.status(400).json({ message: "Your maximum bid cannot be lower than your bid" });
+      }
+      
+      // Open and reserve auctions: bids must beat the current highest bid by at least the increment
+      let result: ProxyBidResult;
+      try {
+        result = await placeBidWithProxies(auction, req.user!.id, amount, maxAmount);
+      } catch (error) {
+        if (error instanceof BidRejectedError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      // Notify everyone of each bid, including automatic ones
+      [result.bid, ...result.proxyBids].forEach(placedBid => {
+        broadcast({
+          type: "new_bid",
+          data: {
+            auctionId,
+            dealerId: placedBid.dealerId,
+            amount: placedBid.amount,
+            isProxy: placedBid.isProxy
+          },
+          timestamp: Date.now()
+        });
       });
       
-      // Notify via WebSocket
-      const wsMessage: WSMessage = {
-        type: "new_bid",
-        data: { 
-          auctionId, 
-          dealerId: req.user.id,
-          amount 
-        },
-        timestamp: Date.now()
-      };
+      await notifyBidPlaced(auction, result.bid);
       
-      broadcast(wsMessage);
+      // Let the dealer whose maximum was beaten know they have been outbid
+      if (result.outbidDealerId !== null) {
+        const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+        const outbidByProxy = result.outbidDealerId === req.user!.id;
+        
+        await notify({
+          userId: result.outbidDealerId,
+          type: "outbid",
+          content: outbidByProxy
+            ? `You were immediately outbid on the ${motorcycle?.make} ${motorcycle?.model} by another dealer's maximum bid. The current bid is £${result.highestBid.amount.toLocaleString()}`
+            : `Your maximum bid on the ${motorcycle?.make} ${motorcycle?.model} has been exceeded. The current bid is £${result.highestBid.amount.toLocaleString()}`,
+          relatedId: auctionId,
+          event: {
+            type: "outbid",
+            data: { auctionId, currentBid: result.highestBid.amount },
+            timestamp: Date.now()
+          }
+        });
+      }
+      
+      const endTime = await applySoftClose(auction, now);
       
-      res.status(201).json(bid);
+      res.status(201).json({
+        ...result.bid,
+        endTime,
+        currentBid: result.highestBid.amount,
+        isLeading: result.highestBid.dealerId === req.user!.id,
+        reserveMet: auction.auctionType === 'reserve' ? isReserveMet(auction, result.highestBid.amount) : undefined
+      });
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/bids/auction/:auctionId", isAuthenticated, async (req, res, next) => {
+  app.get("/api/bids/auction/:auctionId", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.auctionId, 10);
       
@@ -376,125 +726,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      // Only the dealer who created the auction can see the bids (blind auction)
-      if (req.user.id !== auction.dealerId && req.user.role !== 'admin') {
-        return res.status(403).json({ 
-          message: "Access denied - This is a blind auction. Only the selling dealer can view bids."
-        });
-      }
+      const user = req.user!;
+      const canSeeAllBids = user.role === 'admin' || await isDealershipMember(req.membership!.dealershipId, auction.dealerId);
       
-      const bids = await storage.getBidsByAuctionId(auctionId);
-      res.json(bids);
-    } catch (error) {
-      next(error);
-    }
-  });
-
-  // Messages
-  app.post("/api/messages", isAuthenticated, async (req, res, next) => {
-    try {
-      // Create a merged object with the sender ID from the authenticated user
-      const messageData = {
-        ...req.body,
-        senderId: req.user!.id // Use the non-null assertion operator
-      };
+      let bids = await storage.getBidsByAuctionId(auctionId);
       
-      const validationResult = insertMessageSchema.safeParse(messageData);
-      if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid message data", errors: validationResult.error.format() });
+      // Blind auctions are sealed - other dealers only see their own bids
+      if (!canSeeAllBids && isBlindAuction(auction)) {
+        bids = bids.filter(bid => bid.dealerId === user.id);
       }
-
-      const { receiverId, content, auctionId } = validationResult.data;
-      
-      // Create message
-      const message = await storage.createMessage({
-        senderId: req.user!.id,
-        receiverId: receiverId,
-        content: content,
-        auctionId: auctionId || null
-      });
-      
-      // Notify receiver via WebSocket
-      const wsMessage: WSMessage = {
-        type: "new_message",
-        data: { 
-          senderId: req.user!.id, 
-          receiverId,
-          content,
-          auctionId,
-          messageId: message.id
-        },
-        timestamp: Date.now()
-      };
       
-      sendToUser(receiverId, wsMessage);
-      
-      res.status(201).json(message);
-    } catch (error) {
-      next(error);
-    }
-  });
-
-  // Get all messages for the current user
-  app.get("/api/messages", isAuthenticated, async (req, res, next) => {
-    try {
-      const messages = await storage.getAllMessagesForUser(req.user.id);
-      
-      // Fetch user details for the other participants
-      const messageWithUsers = await Promise.all(
-        messages.map(async (message) => {
-          const otherUserId = message.senderId === req.user.id ? message.receiverId : message.senderId;
-          const otherUser = await storage.getUser(otherUserId);
-          
-          return {
-            ...message,
-            otherUser: otherUser ? {
-              id: otherUser.id,
-              username: otherUser.username,
-              companyName: otherUser.companyName
-            } : undefined
-          };
-        })
-      );
-      
-      res.json(messageWithUsers);
-    } catch (error) {
-      next(error);
-    }
-  });
-
-  // Get messages between current user and specific user
-  app.get("/api/messages/:userId", isAuthenticated, async (req, res, next) => {
-    try {
-      const userId = parseInt(req.params.userId, 10);
-      const messages = await storage.getMessagesBetweenUsers(req.user.id, userId);
-      res.json(messages);
-    } catch (error) {
-      next(error);
-    }
-  });
-  
-  // Mark a message as read
-  app.patch("/api/messages/:messageId/read", isAuthenticated, async (req, res, next) => {
-    try {
-      const messageId = parseInt(req.params.messageId, 10);
-      const message = await storage.markMessageAsRead(messageId, req.user.id);
-      
-      if (!message) {
-        return res.status(404).json({ message: "Message not found" });
-      }
-      
-      res.json(message);
-    } catch (error) {
-      next(error);
-    }
-  });
-  
-  // Get unread message count
-  app.get("/api/messages/unread/count", isAuthenticated, async (req, res, next) => {
-    try {
-      const count = await storage.getUnreadMessageCount(req.user.id);
-      res.json({ count });
+      res.json(hideMaxAmounts(bids, user.id));
     } catch (error) {
       next(error);
     }
@@ -525,7 +767,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // API for bid acceptance (dealer only)
   // Endpoint to end an auction early
-  app.patch("/api/auctions/:id/end", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.patch("/api/auctions/:id/end", isAuthenticated, requireDealershipPermission("accept_bids"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       
@@ -535,14 +777,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      if (auction.dealerId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
         return res.status(403).json({ message: "Not authorized to end this auction" });
       }
       
-      if (auction.status !== "active") {
-        return res.status(400).json({ message: "Auction is not active" });
-      }
-      
       // Update the auction end time to now
       const now = new Date();
       
@@ -552,15 +790,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // If there are bids, set to pending_collection, otherwise completed
       const status = highestBid ? "pending_collection" : "completed";
       
-      const updatedAuction = await storage.updateAuction(auctionId, {
-        endTime: now,
-        status: status,
-        ...(highestBid && {
-          winningBidId: highestBid.id,
-          winningBidderId: highestBid.dealerId
-        })
+      const updatedAuction = await transitionAuction(auction, status, {
+        event: "ended_early",
+        actorId: req.user!.id,
+        changes: {
+          endTime: now,
+          ...(highestBid && {
+            winningBidId: highestBid.id,
+            winningBidderId: highestBid.dealerId
+          })
+        }
       });
       
+      // Ended early, so the scheduled close is no longer needed
+      cancelAuctionExpiry(auctionId);
+      
       // Send WebSocket notification
       const wsMessage: WSMessage = {
         type: "underwrite_completed",
@@ -581,7 +825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auctions/:id/accept-bid", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions/:id/accept-bid", isAuthenticated, requireDealershipPermission("accept_bids"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       const { bidId, availabilityDate } = req.body;
@@ -592,86 +836,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      if (auction.dealerId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
         return res.status(403).json({ message: "Not authorized to accept bids for this auction" });
       }
       
       // Fetch the bid to get bidder ID
       const bid = await storage.getBid(bidId);
-      if (!bid) {
+      if (!bid || bid.auctionId !== auctionId) {
         return res.status(404).json({ message: "Bid not found" });
       }
-      
-      // Update the motorcycle availability date if provided
-      if (availabilityDate) {
-        const dateObj = new Date(availabilityDate);
-        await storage.updateMotorcycle(auction.motorcycleId, {
-          dateAvailable: dateObj.toISOString()
-        });
+
+      if (bid.voidedAt) {
+        return res.status(409).json({ message: "This bid has been voided and can't be accepted", code: "bid_voided" });
       }
-      
-      // Update auction status to pending_collection
-      console.log(`Accepting bid ${bidId} for auction ${auctionId} - Updating auction and motorcycle status to pending_collection`);
-      
-      // First update motorcycle status to "pending_collection" for stronger consistency
-      const updatedMotorcycle = await storage.updateMotorcycle(auction.motorcycleId, {
-        status: "pending_collection"
-      });
-      
-      console.log(`Motorcycle ${auction.motorcycleId} status updated to: ${updatedMotorcycle?.status}`);
-      
-      // Verify motorcycle status was updated successfully before updating auction
-      if (!updatedMotorcycle || updatedMotorcycle.status !== 'pending_collection') {
-        console.error(`Failed to update motorcycle ${auction.motorcycleId} status! Current status: ${updatedMotorcycle?.status}`);
-        // Retry updating the motorcycle status
-        await storage.updateMotorcycle(auction.motorcycleId, {
-          status: "pending_collection"
-        });
+
+      // Only the leading bid can win; an older bid may have been outbid since the seller's page loaded
+      const highestBid = await storage.getHighestBidForAuction(auctionId);
+      if (highestBid?.id !== bid.id) {
+        return res.status(409).json({ message: "Only the current highest bid can be accepted", code: "bid_not_highest" });
       }
       
-      // Now update the auction
-      const updatedAuction = await storage.updateAuction(auctionId, {
-        bidAccepted: true,
-        winningBidId: bidId,
-        winningBidderId: bid.dealerId,
-        status: "pending_collection"
+      console.log(`Accepting bid ${bidId} for auction ${auctionId}`);
+      const updatedAuction = await transitionAuction(auction, "pending_collection", {
+        event: "bid_accepted",
+        actorId: req.user!.id,
+        changes: {
+          bidAccepted: true,
+          winningBidId: bid.id,
+          winningBidderId: bid.dealerId
+        },
+        motorcycleChanges: availabilityDate ? { dateAvailable: new Date(availabilityDate).toISOString() } : undefined
       });
-      
-      // Verify the entire state after updates
-      console.log(`Verifying updated state after bid acceptance:`);
-      const verifiedMotorcycle = await storage.getMotorcycle(auction.motorcycleId);
-      const verifiedAuction = await storage.getAuction(auctionId);
-      
-      console.log(`Verified motorcycle status: ${verifiedMotorcycle?.status}`);
-      console.log(`Verified auction status: ${verifiedAuction?.status}, bidAccepted: ${verifiedAuction?.bidAccepted}`);
-      
-      // Final auto-correction if status is inconsistent
-      if (verifiedMotorcycle && verifiedMotorcycle.status !== 'pending_collection') {
-        console.log(`CRITICAL: Final auto-correction of motorcycle ${auction.motorcycleId} status to pending_collection`);
-        await storage.updateMotorcycle(auction.motorcycleId, {
-          status: "pending_collection"
-        });
-      }
-      
-      // Force synchronous DB update to ensure motorcycle status is saved immediately
-      // and not lost on session change
-      const verifyMotorcycle = await storage.getMotorcycle(auction.motorcycleId);
-      console.log(`Final motorcycle ${auction.motorcycleId} status verification: ${verifyMotorcycle?.status}`);
-      
-      // Ensure this update is really persisted in storage
-      if (verifyMotorcycle?.status !== 'pending_collection') {
-        console.error(`*** CRITICAL PERSISTENCE ERROR: Motorcycle status still not correct after multiple update attempts! ***`);
-        console.error(`Will attempt emergency direct update of motorcycle status`);
-        
-        // Force direct update of motorcycle in storage
-        const motorcycle = storage.motorcycles.get(auction.motorcycleId);
-        if (motorcycle) {
-          motorcycle.status = 'pending_collection';
-          storage.motorcycles.set(auction.motorcycleId, motorcycle);
-          console.log(`Emergency direct status update completed for motorcycle ${auction.motorcycleId}`);
-        }
-      }
-      console.log(`Verified motorcycle ${auction.motorcycleId} status: ${verifyMotorcycle?.status}`);
 
       // Fetch updated motorcycle with potential availability date
       const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
@@ -742,24 +937,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('- To bidder:', JSON.stringify(wsMessage.data));
       console.log('- To seller:', JSON.stringify(bidAcceptedConfirmMessage.data));
       
-      // Send WebSocket notification to both seller and winning bidder
-      sendToUser(bid.dealerId, wsMessage);
-      sendToUser(auction.dealerId, bidAcceptedConfirmMessage);
-      
-      // Also send the notification to other bidders to refresh their data
-      broadcast(wsMessage, bid.dealerId);
-      
-      // Create a notification record with availability info
+      // Tell the winning bidder, with availability info, and confirm to the seller
       const availabilityInfo = motorcycle?.dateAvailable 
         ? ` It will be available for collection on ${new Date(motorcycle.dateAvailable).toLocaleDateString()}.`
         : '';
         
-      await storage.createNotification({
+      await notify({
         userId: bid.dealerId,
         type: "bid_accepted",
         content: `Your bid on ${motorcycle?.make} ${motorcycle?.model} has been accepted.${availabilityInfo}`,
-        relatedId: auctionId
+        relatedId: auctionId,
+        event: wsMessage
       });
+      sendToUser(auction.dealerId, bidAcceptedConfirmMessage);
+      
+      // Also send the notification to other bidders to refresh their data
+      broadcast(wsMessage, bid.dealerId);
+      
+      res.json(updatedAuction);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Buy a listing outright at its buy-now price, ending the auction immediately
+  app.post("/api/auctions/:id/buy-now", isAuthenticated, requireDealershipPermission("bid"), requireVerifiedDealer, async (req, res, next) => {
+    try {
+      const auctionId = parseInt(req.params.id);
+      const buyer = req.user!;
+      
+      const auction = await storage.getAuction(auctionId);
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      if (!auction.buyNowPrice) {
+        return res.status(400).json({ message: "This listing does not have a buy-now price" });
+      }
+      
+      if (await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
+        return res.status(400).json({ message: "You cannot buy your own dealership's listing" });
+      }
+      
+      if (auction.status !== "active" || new Date() > new Date(auction.endTime)) {
+        return res.status(409).json({ message: "This auction has already ended" });
+      }
+      
+      // Under the auction's lock, so no bid can land between checking the price and ending the auction
+      const buyNowPrice = auction.buyNowPrice;
+      const endedAt = new Date();
+      const outcome = await storage.withAuctionLock(auctionId, async (): Promise<{ auction: Auction } | { error: string }> => {
+        // On open auctions the buy-now option goes once bidding reaches it
+        const highestBid = await storage.getHighestBidForAuction(auctionId);
+        if (!isBlindAuction(auction) && highestBid && highestBid.amount >= buyNowPrice) {
+          return { error: "Bidding has already passed the buy-now price" };
+        }
+
+        // End the auction and record the purchase as its winning bid together - only one buyer can win the race
+        try {
+          return {
+            auction: await transitionAuction(auction, "pending_collection", {
+              event: "bought_now",
+              actorId: buyer.id,
+              changes: {
+                endTime: endedAt,
+                bidAccepted: true,
+                winningBidderId: buyer.id,
+                highestBidderId: buyer.id,
+                completedAt: endedAt.toISOString()
+              },
+              winningBid: { auctionId, dealerId: buyer.id, amount: buyNowPrice }
+            })
+          };
+        } catch (error) {
+          if (error instanceof IllegalTransitionError) {
+            return { error: "This auction has already ended" };
+          }
+          throw error;
+        }
+      });
+      
+      if ("error" in outcome) {
+        return res.status(409).json({ message: outcome.error });
+      }
+      const updatedAuction = outcome.auction;
+      
+      cancelAuctionExpiry(auctionId);
+      
+      // The lifecycle has already moved the motorcycle to pending collection
+      const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+      
+      const wsMessage: WSMessage = {
+        type: "bid_accepted",
+        data: {
+          auctionId,
+          motorcycleId: auction.motorcycleId,
+          sellerId: auction.dealerId,
+          bidderId: buyer.id,
+          buyNow: true,
+          make: motorcycle?.make || '',
+          model: motorcycle?.model || '',
+          year: motorcycle?.year || 0,
+          auction: {
+            id: auctionId,
+            status: "pending_collection",
+            bidAccepted: true,
+            winningBidId: updatedAuction.winningBidId
+          },
+          motorcycle: {
+            id: auction.motorcycleId,
+            status: "pending_collection"
+          },
+          statusChange: {
+            entity: "motorcycle",
+            id: auction.motorcycleId,
+            newStatus: "pending_collection",
+            entityName: `${motorcycle?.make} ${motorcycle?.model}`
+          }
+        },
+        timestamp: Date.now()
+      };
+      
+      await notify({
+        userId: buyer.id,
+        type: "bid_accepted",
+        content: `You bought the ${motorcycle?.make} ${motorcycle?.model} for £${auction.buyNowPrice.toLocaleString()}. Arrange collection with the seller.`,
+        relatedId: auctionId,
+        event: wsMessage
+      });
+      
+      await notify({
+        userId: auction.dealerId,
+        type: "bid_accepted",
+        content: `${buyer.companyName} bought your ${motorcycle?.make} ${motorcycle?.model} at your buy-now price of £${auction.buyNowPrice.toLocaleString()}`,
+        relatedId: auctionId,
+        event: {
+          type: "bid_accepted_confirm",
+          data: {
+            auctionId,
+            motorcycleId: auction.motorcycleId,
+            sellerId: auction.dealerId,
+            bidderId: buyer.id,
+            buyNow: true,
+            auction: { id: auctionId, status: "pending_collection" },
+            motorcycle: { id: auction.motorcycleId, status: "pending_collection" }
+          },
+          timestamp: Date.now()
+        }
+      });
+      
+      // Everyone else watching should see the listing has gone
+      broadcast({
+        type: "auction_status_changed",
+        data: { auctionId, status: "pending_collection" },
+        timestamp: Date.now()
+      }, buyer.id);
+      
+      // Let the other bidders know the auction is over
+      const otherBidderIds = new Set(
+        (await storage.getBidsByAuctionId(auctionId))
+          .map(otherBid => otherBid.dealerId)
+          .filter(dealerId => dealerId !== buyer.id)
+      );
+      
+      for (const bidderId of Array.from(otherBidderIds)) {
+        await notify({
+          userId: bidderId,
+          type: "auction_completed",
+          content: `The ${motorcycle?.make} ${motorcycle?.model} you bid on has been sold at its buy-now price`,
+          relatedId: auctionId,
+          event: {
+            type: "auction_completed",
+            data: { auctionId, buyNow: true, hasWinningBid: false },
+            timestamp: Date.now()
+          }
+        });
+      }
       
       res.json(updatedAuction);
     } catch (error) {
@@ -768,7 +1121,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API for deal confirmation (winning bidder only)
-  app.post("/api/auctions/:id/confirm-deal", isAuthenticated, async (req, res, next) => {
+  app.post("/api/auctions/:id/confirm-deal", isAuthenticated, requireDealershipPermission("bid"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       
@@ -778,24 +1131,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      if (auction.winningBidderId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.winningBidderId)) {
         return res.status(403).json({ message: "Not authorized to confirm this deal" });
       }
       
-      // Update auction status to confirmed
-      const updatedAuction = await storage.updateAuction(auctionId, {
-        dealConfirmed: true,
-        status: 'pending_collection'
+      // The buyer can only confirm a deal that is awaiting collection
+      const updatedAuction = await transitionAuction(auction, 'pending_collection', {
+        event: "deal_confirmed",
+        actorId: req.user!.id,
+        changes: { dealConfirmed: true }
       });
       
-      // Also update the motorcycle status if it isn't already set
       const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
-      if (motorcycle && motorcycle.status !== 'pending_collection') {
-        console.log(`Updating motorcycle ${motorcycle.id} status to pending_collection during deal confirmation`);
-        await storage.updateMotorcycle(motorcycle.id, {
-          status: 'pending_collection'
-        });
-      }
 
       // Send notification via WebSocket to the seller
       const wsMessage: WSMessage = {
@@ -817,14 +1164,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: Date.now()
       };
       
-      sendToUser(auction.dealerId, wsMessage);
-      
-      // Create a notification record
-      await storage.createNotification({
+      await notify({
         userId: auction.dealerId,
         type: "deal_confirmed",
         content: `The buyer has confirmed the deal for auction #${auctionId}.`,
-        relatedId: auctionId
+        relatedId: auctionId,
+        event: wsMessage
       });
       
       res.json(updatedAuction);
@@ -834,7 +1179,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API for scheduling collection (dealer only)
-  app.post("/api/auctions/:id/schedule-collection", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions/:id/schedule-collection", isAuthenticated, requireDealershipPermission("accept_bids"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       const { collectionDate } = req.body;
@@ -845,7 +1190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      if (auction.dealerId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
         return res.status(403).json({ message: "Not authorized to schedule collection for this auction" });
       }
       
@@ -875,14 +1220,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       if (auction.winningBidderId) {
-        sendToUser(auction.winningBidderId, wsMessage);
-        
-        // Create a notification record
-        await storage.createNotification({
+        await notify({
           userId: auction.winningBidderId,
           type: "collection_scheduled",
           content: `The seller has scheduled collection for auction #${auctionId} on ${new Date(collectionDate).toLocaleDateString()}.`,
-          relatedId: auctionId
+          relatedId: auctionId,
+          event: wsMessage
         });
       }
       
@@ -893,7 +1236,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API for confirming collection (winning bidder only)
-  app.post("/api/auctions/:id/confirm-collection", isAuthenticated, async (req, res, next) => {
+  app.post("/api/auctions/:id/confirm-collection", isAuthenticated, requireDealershipPermission("bid"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       
@@ -903,25 +1246,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Auction not found" });
       }
       
-      if (auction.winningBidderId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.winningBidderId)) {
         return res.status(403).json({ message: "Not authorized to confirm collection for this auction" });
       }
       
-      // Update auction status to completed
-      const updatedAuction = await storage.updateAuction(auctionId, {
-        collectionConfirmed: true,
-        status: 'completed'
+      // Complete the sale - the lifecycle marks the motorcycle as sold
+      const updatedAuction = await transitionAuction(auction, 'completed', {
+        event: "collection_confirmed",
+        actorId: req.user!.id,
+        changes: { collectionConfirmed: true },
+        motorcycleChanges: { soldDate: new Date().toISOString() }
       });
       
-      // Update the motorcycle status to sold
       const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
-      if (motorcycle) {
-        console.log(`Updating motorcycle ${motorcycle.id} status to sold during collection confirmation`);
-        await storage.updateMotorcycle(motorcycle.id, {
-          status: 'sold',
-          soldDate: new Date().toISOString()
-        });
-      }
 
       // Send notification via WebSocket to the seller
       const wsMessage: WSMessage = {
@@ -945,8 +1282,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       // Send to both seller and winning bidder to ensure both UIs are updated
-      sendToUser(auction.dealerId, wsMessage);
-      sendToUser(auction.winningBidderId, wsMessage);
+      await notify({
+        userId: auction.dealerId,
+        type: "collection_confirmed",
+        content: `The buyer has confirmed collection for auction #${auctionId}.`,
+        relatedId: auctionId,
+        event: wsMessage
+      });
+      sendToUser(auction.winningBidderId!, wsMessage);
       
       // Also broadcast to other dealers to refresh their data
       broadcast({
@@ -962,14 +1305,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: Date.now()
       });
       
-      // Create a notification record
-      await storage.createNotification({
-        userId: auction.dealerId,
-        type: "collection_confirmed",
-        content: `The buyer has confirmed collection for auction #${auctionId}.`,
-        relatedId: auctionId
-      });
-      
       res.json(updatedAuction);
     } catch (error) {
       next(error);
@@ -977,10 +1312,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard data - support both endpoints for backward compatibility
-  app.get(["/api/dashboard", "/api/dashboard/stats"], isAuthenticated, async (req, res, next) => {
+  app.get(["/api/dashboard", "/api/dashboard/stats"], isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
     try {
-      // Get auctions created by this dealer
-      const dealerAuctions = await storage.getAuctionsByDealerId(req.user.id);
+      // Get auctions created by anyone in this dealer's dealership
+      const dealerAuctions = await getDealershipAuctions(req.membership!.dealershipId);
+      const staffIds = await getDealershipUserIds(req.membership!.dealershipId);
+      const canViewFinancials = hasDealershipPermission(req.membership!, "view_financials");
       
       // Calculate selling statistics
       const activeListings = dealerAuctions.filter(a => a.status === "active").length;
@@ -1010,7 +1347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Calculate buying statistics
       allAuctions.forEach(auction => {
-        const myBids = auction.bids.filter(bid => bid.dealerId === req.user.id);
+        const myBids = auction.bids.filter(bid => staffIds.includes(bid.dealerId));
         
         // Count each individual bid placed by this user on any active auction
         if (auction.status === "active") {
@@ -1024,7 +1361,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Check for won auctions
         if (auction.status === "completed" && auction.winningBidId) {
           const winningBid = auction.bids.find(bid => bid.id === auction.winningBidId);
-          if (winningBid && winningBid.dealerId === req.user.id) {
+          if (winningBid && staffIds.includes(winningBid.dealerId)) {
             wonAuctions++;
             
             // Check if pending collection
@@ -1041,7 +1378,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activeListings,
         totalBids,
         pendingCompletion,
-        revenue,
+        revenue: canViewFinancials ? revenue : null,
         trendUp: true,
         trendValue: 2,
         
@@ -1049,7 +1386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activeBids,
         wonAuctions,
         pendingCollection,
-        amountSpent
+        amountSpent: canViewFinancials ? amountSpent : null
       });
     } catch (error) {
       next(error);
@@ -1233,49 +1570,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reset auctions for testing (for development only)
-  app.post("/api/reset-auctions", isAuthenticated, async (req, res, next) => {
-    try {
-      const userId = req.user?.id;
-      if (!userId) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
-      
-      // Get all auctions for this user
-      const userAuctions = await storage.getAuctionsByDealerId(userId);
-      console.log(`Found ${userAuctions.length} auctions for user ${userId}`);
-      
-      // Reset each auction to active status
-      for (const auction of userAuctions) {
-        console.log(`Resetting auction ${auction.id} for motorcycle ${auction.motorcycleId}`);
-        
-        await storage.updateAuction(auction.id, {
-          status: 'active',
-          bidAccepted: false,
-          dealConfirmed: false,
-          collectionConfirmed: false,
-          winningBidId: null,
-          winningBidderId: null,
-          completedAt: null
-        });
-        
-        // Reset the motorcycle status as well
-        await storage.updateMotorcycle(auction.motorcycleId, {
-          status: 'available'
-        });
-      }
-      
-      return res.status(200).json({ 
-        message: `Reset ${userAuctions.length} auctions successfully`,
-        count: userAuctions.length
-      });
-    } catch (error) {
-      next(error);
-    }
-  });
-  
   // API for completing a deal (only the seller can mark as complete)
-  app.post("/api/auctions/:id/complete-deal", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions/:id/complete-deal", isAuthenticated, requireDealershipPermission("accept_bids"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       
@@ -1285,30 +1581,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Only the seller can complete the deal
-      if (auction.dealerId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
         return res.status(403).json({ message: "Only the seller can mark this deal as complete" });
       }
       
       const completionDate = new Date();
       
-      // Update auction status to completed, so it will appear in Past Listings
-      const updatedAuction = await storage.updateAuction(auctionId, {
-        status: "completed",
-        collectionConfirmed: true,
-        completedAt: completionDate.toISOString()
+      // Update auction status to completed, so it will appear in Past Listings.
+      // The lifecycle marks the motorcycle as sold.
+      const updatedAuction = await transitionAuction(auction, "completed", {
+        event: "deal_completed",
+        actorId: req.user!.id,
+        changes: {
+          collectionConfirmed: true,
+          completedAt: completionDate.toISOString()
+        },
+        motorcycleChanges: { soldDate: completionDate.toISOString() }
       });
       
       // Get motorcycle details for the notification
       const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
       
-      // Update motorcycle status to mark it as sold
-      if (motorcycle) {
-        await storage.updateMotorcycle(motorcycle.id, {
-          status: "sold",
-          soldDate: completionDate.toISOString()
-        });
-      }
-      
       // Send WebSocket notification to buyer with enhanced data
       const wsMessage: WSMessage = {
         type: "collection_confirmed",
@@ -1345,18 +1638,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (auction.winningBidderId) {
         console.log(`Sending completion WebSocket message to winning bidder ${auction.winningBidderId}`);
-        sendToUser(auction.winningBidderId, wsMessage);
-        
-        // Create notification for buyer
-        await storage.createNotification({
+        await notify({
           userId: auction.winningBidderId,
           type: "collection_confirmed",
           content: `The seller has confirmed completion of your ${motorcycle?.make} ${motorcycle?.model} purchase.`,
-          relatedId: auctionId
+          relatedId: auctionId,
+          event: wsMessage
         });
         
-        // Create additional notification for buyer about transaction being completed
-        await storage.createNotification({
+        // Additional notification for buyer about transaction being completed
+        await notify({
           userId: auction.winningBidderId,
           type: "transaction_completed",
           content: `Transaction for ${motorcycle?.make} ${motorcycle?.model} has been completed and moved to Past Listings.`,
@@ -1364,8 +1655,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Also send the same notification to seller to ensure their UI is updated
-      sendToUser(auction.dealerId, wsMessage);
+      // Notify the seller as well, with the same message so their UI is updated
+      await notify({
+        userId: auction.dealerId,
+        type: "transaction_completed",
+        content: `You have marked the transaction for ${motorcycle?.make} ${motorcycle?.model} as complete. It has been moved to Past Listings.`,
+        relatedId: auctionId,
+        event: wsMessage
+      });
       
       // Broadcast a status update to all connected clients
       broadcast({
@@ -1377,22 +1674,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: Date.now()
       });
       
-      // Create a notification for the seller as well
-      await storage.createNotification({
-        userId: auction.dealerId,
-        type: "transaction_completed",
-        content: `You have marked the transaction for ${motorcycle?.make} ${motorcycle?.model} as complete. It has been moved to Past Listings.`,
+      res.json(updatedAuction);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Leave a review for the other party of a completed auction
+  app.post("/api/auctions/:id/reviews", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
+    try {
+      const auctionId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const auction = await storage.getAuction(auctionId);
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      if (auction.status !== "completed" || !auction.winningBidderId) {
+        return res.status(400).json({ message: "Reviews can only be left once a sale has been completed" });
+      }
+      
+      // Only the selling and buying dealerships can review each other, once each
+      const isSeller = await isDealershipMember(req.membership!.dealershipId, auction.dealerId);
+      const isBuyer = await isDealershipMember(req.membership!.dealershipId, auction.winningBidderId);
+      if (!isSeller && !isBuyer) {
+        return res.status(403).json({ message: "Only the buyer and seller can review this transaction" });
+      }
+      
+      const existingReviews = await storage.getReviewsByAuctionId(auctionId);
+      if (existingReviews.some(review => review.reviewerRole === (isSeller ? "seller" : "buyer"))) {
+        return res.status(409).json({ message: "Your dealership has already reviewed this transaction" });
+      }
+      
+      const validationResult = insertReviewSchema.safeParse({
+        auctionId,
+        reviewerId: user.id,
+        revieweeId: isSeller ? auction.winningBidderId : auction.dealerId,
+        reviewerRole: isSeller ? "seller" : "buyer",
+        rating: req.body.rating,
+        title: req.body.title,
+        comment: req.body.comment,
+        // Payment promptness only applies when the seller is reviewing the buyer
+        paymentPromptness: isSeller ? req.body.paymentPromptness : null,
+        communicationQuality: req.body.communicationQuality
+      });
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid review data", errors: validationResult.error.format() });
+      }
+      
+      const review = await storage.createReview(validationResult.data);
+      await recalculateDealerRating(review.revieweeId);
+      
+      const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
+      await notify({
+        userId: review.revieweeId,
+        type: "review_received",
+        content: `${user.companyName} left you a ${review.rating}-star review for the ${motorcycle?.make} ${motorcycle?.model} sale`,
         relatedId: auctionId
       });
       
-      res.json(updatedAuction);
+      res.status(201).json(review);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Review status of an auction for its buyer and seller
+  app.get("/api/auctions/:id/reviews", isAuthenticated, requireDealershipPermission(), async (req, res, next) => {
+    try {
+      const auctionId = parseInt(req.params.id);
+      
+      const auction = await storage.getAuction(auctionId);
+      if (!auction) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+      
+      const dealershipId = req.membership!.dealershipId;
+      if (!await isDealershipMember(dealershipId, auction.dealerId) && !await isDealershipMember(dealershipId, auction.winningBidderId)) {
+        return res.status(403).json({ message: "Not authorized to view reviews for this auction" });
+      }
+      
+      const auctionReviews = await storage.getReviewsByAuctionId(auctionId);
+      const seller = await storage.getUser(auction.dealerId);
+      const buyer = auction.winningBidderId ? await storage.getUser(auction.winningBidderId) : undefined;
+      
+      res.json({
+        sellerName: seller?.companyName,
+        buyerName: buyer?.companyName,
+        sellerReviewed: auctionReviews.some(review => review.reviewerRole === "seller"),
+        buyerReviewed: auctionReviews.some(review => review.reviewerRole === "buyer"),
+        reviews: auctionReviews
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Reviews received by a dealer
+  app.get("/api/dealers/:id/reviews", isAuthenticated, async (req, res, next) => {
+    try {
+      const dealerId = parseInt(req.params.id);
+      
+      const dealer = await storage.getUser(dealerId);
+      if (!dealer) {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      
+      const dealerReviews = await storage.getReviewsByRevieweeId(dealerId);
+      
+      // Attach the reviewer's company name to each review
+      const reviewsWithReviewer = await Promise.all(dealerReviews.map(async review => {
+        const reviewer = await storage.getUser(review.reviewerId);
+        return {
+          ...review,
+          reviewerName: reviewer?.companyName || reviewer?.username || "Unknown dealer"
+        };
+      }));
+      
+      res.json({
+        dealerId,
+        rating: dealer.rating,
+        totalRatings: dealer.totalRatings,
+        paymentRating: dealer.paymentRating,
+        communicationRating: dealer.communicationRating,
+        reviews: reviewsWithReviewer
+      });
     } catch (error) {
       next(error);
     }
   });
   
   // API for extending availability date (only the seller can extend the date)
-  app.post("/api/auctions/:id/extend-date", isAuthenticated, hasRole("dealer"), async (req, res, next) => {
+  app.post("/api/auctions/:id/extend-date", isAuthenticated, requireDealershipPermission("accept_bids"), async (req, res, next) => {
     try {
       const auctionId = parseInt(req.params.id);
       const { newAvailabilityDate } = req.body;
@@ -1407,7 +1822,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Only the seller can extend the date
-      if (auction.dealerId !== req.user.id) {
+      if (!await isDealershipMember(req.membership!.dealershipId, auction.dealerId)) {
         return res.status(403).json({ message: "Only the seller can extend the availability date" });
       }
       
@@ -1436,15 +1851,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       if (auction.winningBidderId) {
-        sendToUser(auction.winningBidderId, wsMessage);
-        
-        // Create notification for buyer
         const formattedDate = new Date(newAvailabilityDate).toLocaleDateString();
-        await storage.createNotification({
+        await notify({
           userId: auction.winningBidderId,
           type: "date_extended",
           content: `The seller has updated the availability date for ${motorcycle?.make} ${motorcycle?.model} to ${formattedDate}.`,
-          relatedId: auctionId
+          relatedId: auctionId,
+          event: wsMessage
         });
       }
       
@@ -0,0 +1,216 @@
+import { Express } from "express";
+import { storage, AuctionWithDetails } from "./storage";
+import { isAuthenticated } from "./auth";
+import { notify } from "./notifications";
+import { mailTransport } from "./mail";
+import { getAppBaseUrl } from "./deployment-config";
+import { applyAuctionSearch } from "./auction-search";
+import { geocodePostcode } from "./geo";
+import { isDealershipMember } from "./dealerships";
+import {
+  SavedSearch,
+  SavedSearchMatch,
+  MAX_SAVED_SEARCHES,
+  savedSearchSchema,
+  updateSavedSearchSchema
+} from "@shared/schema";
+
+// How often matches waiting for an email digest are sent
+const DIGEST_INTERVAL = 60 * 60 * 1000;
+
+let digestInterval: NodeJS.Timeout | null = null;
+
+const describeMotorcycle = (auction: AuctionWithDetails) =>
+  `${auction.motorcycle.year} ${auction.motorcycle.make} ${auction.motorcycle.model}`;
+
+// Whether a listing meets a saved search's criteria, using the same rules as the auctions listing
+async function matchesSavedSearch(auction: AuctionWithDetails, search: SavedSearch): Promise<boolean> {
+  const result = await applyAuctionSearch([auction], { ...search.criteria, sort: "ending_soon" }, id => storage.getUser(id));
+  return result.auctions.length > 0;
+}
+
+/**
+ * Alert everyone with a saved search that a newly created auction matches: an in-app
+ * notification, an `auction_created` push naming the search, and (for searches with
+ * email digests on) a place in the next digest. Safe to call more than once for the
+ * same auction - each search is alerted about a listing only once.
+ */
+export async function notifySavedSearchMatches(auctionId: number): Promise<void> {
+  const auction = await storage.getAuctionWithDetails(auctionId);
+  if (!auction || auction.status !== "active") return;
+
+  const searches = await storage.getAllSavedSearches();
+  const sellerMembership = await storage.getDealershipMemberByUserId(auction.dealerId);
+
+  for (const search of searches) {
+    try {
+      // Dealers don't need alerts about their own dealership's stock
+      if (search.userId === auction.dealerId) continue;
+      if (sellerMembership && await isDealershipMember(sellerMembership.dealershipId, search.userId)) continue;
+
+      const user = await storage.getUser(search.userId);
+      if (!user || user.suspendedAt) continue;
+      if (!await storage.isAuctionVisibleToUser(auction, user)) continue;
+      if (!await matchesSavedSearch(auction, search)) continue;
+
+      const match = await storage.recordSavedSearchMatch(search.id, auction.id, search.emailDigest);
+      if (!match) continue;
+
+      await notify({
+        userId: user.id,
+        type: "saved_search_match",
+        content: `New listing matching "${search.name}": ${describeMotorcycle(auction)}`,
+        relatedId: auction.id,
+        event: {
+          type: "auction_created",
+          data: {
+            auctionId: auction.id,
+            dealerId: auction.dealerId,
+            savedSearchId: search.id,
+            savedSearchName: search.name,
+            title: describeMotorcycle(auction)
+          },
+          timestamp: Date.now()
+        }
+      });
+    } catch (error) {
+      console.error(`Saved searches: failed to alert search ${search.id} about auction ${auction.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Email each dealer one digest of the listings that matched their saved searches since the last one.
+ * Listings that have since ended are left out.
+ */
+export async function sendSavedSearchDigests(): Promise<void> {
+  const pending = await storage.getPendingEmailMatches();
+  if (pending.length === 0) return;
+
+  // Group by the dealer who owns the search
+  const byUser = new Map<number, { search: SavedSearch; match: SavedSearchMatch }[]>();
+  for (const match of pending) {
+    const search = await storage.getSavedSearch(match.savedSearchId);
+    if (!search) continue;
+
+    const entries = byUser.get(search.userId) || [];
+    entries.push({ search, match });
+    byUser.set(search.userId, entries);
+  }
+
+  for (const [userId, entries] of Array.from(byUser.entries())) {
+    try {
+      const user = await storage.getUser(userId);
+      const lines: string[] = [];
+
+      for (const { search, match } of entries) {
+        // Digests may have been turned off since the match was recorded
+        if (!search.emailDigest) continue;
+
+        const auction = await storage.getAuctionWithDetails(match.auctionId);
+        if (!auction || auction.status !== "active") continue;
+        lines.push(`- ${describeMotorcycle(auction)} (${search.name}): ${getAppBaseUrl()}/auctions/${auction.id}`);
+      }
+
+      if (user && !user.suspendedAt && lines.length > 0) {
+        await mailTransport.send({
+          to: user.email,
+          subject: `${lines.length} new listing${lines.length === 1 ? "" : "s"} matching your saved searches`,
+          text: `Hi ${user.companyName},\n\nThese listings have been added on TradeBikes since your last digest:\n\n${lines.join("\n")}\n\nYou can turn these emails off from your saved searches.`
+        });
+      }
+
+      await storage.markMatchesEmailed(entries.map(entry => entry.match.id));
+    } catch (error) {
+      console.error(`Saved searches: failed to send digest to user ${userId}:`, error);
+    }
+  }
+}
+
+export function startSavedSearchDigests() {
+  if (!digestInterval) {
+    digestInterval = setInterval(() => {
+      sendSavedSearchDigests().catch(error => console.error("Saved searches: digest run failed:", error));
+    }, DIGEST_INTERVAL);
+  }
+}
+
+export function stopSavedSearchDigests() {
+  if (digestInterval) {
+    clearInterval(digestInterval);
+    digestInterval = null;
+  }
+}
+
+// Register saved search routes
+export function setupSavedSearchRoutes(app: Express) {
+  app.get("/api/saved-searches", isAuthenticated, async (req, res, next) => {
+    try {
+      res.json(await storage.getSavedSearchesByUserId(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/saved-searches", isAuthenticated, async (req, res, next) => {
+    try {
+      const validationResult = savedSearchSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid saved search",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const { postcode } = validationResult.data.criteria;
+      if (postcode && !(await geocodePostcode(postcode))) {
+        return res.status(400).json({ message: "We couldn't find that postcode", code: "unknown_postcode" });
+      }
+
+      const existing = await storage.getSavedSearchesByUserId(req.user!.id);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({
+          message: `You can save up to ${MAX_SAVED_SEARCHES} searches - delete one to add another`,
+          code: "saved_search_limit"
+        });
+      }
+
+      const search = await storage.createSavedSearch({ userId: req.user!.id, ...validationResult.data });
+      res.status(201).json(search);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/saved-searches/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const search = await storage.getSavedSearch(parseInt(req.params.id, 10));
+      if (!search || search.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      const validationResult = updateSavedSearchSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid saved search" });
+      }
+
+      res.json(await storage.updateSavedSearch(search.id, validationResult.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const search = await storage.getSavedSearch(parseInt(req.params.id, 10));
+      if (!search || search.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,59 @@
+export interface SmsMessage {
+  to: string; // phone number as the dealer entered it
+  body: string;
+}
+
+// Delivery backend for text messages. Swap implementations without touching the code that sends them.
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+export const SMS_FROM = process.env.TWILIO_FROM_NUMBER || 'TradeBikes';
+
+/**
+ * Sends text messages through the Twilio REST API
+ */
+export class TwilioSmsTransport implements SmsTransport {
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'content-type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ From: this.from, To: toE164(message.to), Body: message.body }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Development and test transport: logs each message instead of sending it
+ */
+export class LocalSmsTransport implements SmsTransport {
+  // Messages sent since startup, newest last (handy for tests)
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+    console.log(`[sms] To: ${message.to}\n${message.body}`);
+  }
+}
+
+// UK numbers are usually entered as 07..., which Twilio needs as +447...
+function toE164(phone: string): string {
+  const digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith('0')) return `+44${digits.slice(1)}`;
+  return `+${digits}`;
+}
+
+// Use Twilio when it is configured, otherwise keep texts local
+export const smsTransport: SmsTransport = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN
+  ? new TwilioSmsTransport(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN, SMS_FROM)
+  : new LocalSmsTransport();
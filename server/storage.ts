@@ -1,15 +1,32 @@
 import { 
-  User, InsertUser, users,
+  User, InsertUser, VerificationStatus, users,
   Motorcycle, InsertMotorcycle, motorcycles,
   Auction, InsertAuction, auctions,
   Bid, InsertBid, bids,
   Message, InsertMessage, messages,
-  Notification, InsertNotification, notifications
+  Notification, InsertNotification, notifications,
+  Review, InsertReview, reviews,
+  AuthToken, InsertAuthToken, AuthTokenPurpose, authTokens,
+  AuctionHistoryEntry, InsertAuctionHistoryEntry, auctionHistory,
+  Dealership, InsertDealership, dealerships,
+  DealershipMember, InsertDealershipMember, dealershipMembers,
+  AdminAuditEntry, InsertAdminAuditEntry, adminAuditLog,
+  SavedSearch, InsertSavedSearch, savedSearches,
+  SavedSearchMatch, savedSearchMatches,
+  WatchlistEntry, watchlistEntries,
+  UserEvent, userEvents,
+  NotificationPreferences, NotificationPreferencesInput, notificationPreferences,
+  AuctionSearchFilters, AuctionSearchSort
 } from '@shared/schema';
 import MemoryStore from 'memorystore';
 import session from 'express-session';
 import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
+import { geocodePostcode, isWithinRadius } from './geo';
+import {
+  AuctionSearchPage, CursorPosition, SORT_DIRECTIONS, UNPRICED_KEYS,
+  applyAuctionSearch, decodeCursor, encodeCursor, distanceToSeller
+} from './auction-search';
 
 // Helpers for password hashing
 const scryptAsync = promisify(scrypt);
@@ -50,9 +67,16 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
+  // Hash and store a new password
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
   getAllUsers(): Map<number, User>;
+  getUsers(): Promise<User[]>;
+  // Dealers awaiting (or refused) trade verification, oldest submission first
+  getUsersByVerificationStatus(status: VerificationStatus): Promise<User[]>;
   
   // Motorcycle methods
   createMotorcycle(motorcycle: InsertMotorcycle): Promise<Motorcycle>;
@@ -66,18 +90,34 @@ export interface IStorage {
   getAuction(id: number): Promise<Auction | undefined>;
   getAuctionWithDetails(id: number): Promise<AuctionWithDetails | undefined>;
   getActiveAuctions(currentUserId?: number | null): Promise<AuctionWithDetails[]>;
+  // Active auctions visible to the user that match the filters, one page at a time
+  searchActiveAuctions(filters: AuctionSearchFilters, currentUserId?: number | null): Promise<AuctionSearchPage>;
+  // Whether the auction's visibility settings (all, favourites, radius) let this user see it
+  isAuctionVisibleToUser(auction: Auction, user: User | null | undefined): Promise<boolean>;
   getAuctionsByDealerId(dealerId: number): Promise<AuctionWithDetails[]>;
+  getAuctionsByStatus(status: string): Promise<Auction[]>;
   updateAuction(id: number, auction: Partial<Auction>): Promise<Auction | undefined>;
+  // Update only if the auction is still in the expected status; undefined if another request got there first.
+  // A winning bid given here is created along with the update, all or nothing, and set as the auction's winningBidId.
+  updateAuctionIfStatus(id: number, expectedStatus: string, auction: Partial<Auction>, winningBid?: InsertBid): Promise<Auction | undefined>;
   deleteAuction(id: number, dealerId: number): Promise<boolean>;
-  archiveAuctionAsNoSale(id: number, dealerId: number): Promise<Auction | undefined>;
+  // Admin removal: delete an auction with its bids, motorcycle, history, watchers and saved-search matches, whoever
+  // owns it. Messages about it are kept but no longer linked to it; reviews stay as they count towards ratings.
+  removeAuction(id: number): Promise<boolean>;
   
-  // Bid methods
+  // Bid methods - apart from getBid, voided bids are left out
   createBid(bid: InsertBid): Promise<Bid>;
   getBid(id: number): Promise<Bid | undefined>;
   getBidsByAuctionId(auctionId: number): Promise<Bid[]>;
   getBidsByDealerId(dealerId: number): Promise<Bid[]>;
   getHighestBidForAuction(auctionId: number): Promise<Bid | undefined>;
   getAuctionsWithBidsByDealer(dealerId: number): Promise<AuctionWithDetails[]>;
+  // Void one bid, keeping it for the record; undefined if it doesn't exist or was already voided
+  voidBid(id: number): Promise<Bid | undefined>;
+  // Void every bid still counting on an auction (e.g. when it is relisted), returning how many were voided
+  voidBidsForAuction(auctionId: number): Promise<number>;
+  // Run fn with no other locked work on the same auction running alongside it, e.g. to read the price and bid on it
+  withAuctionLock<T>(auctionId: number, fn: () => Promise<T>): Promise<T>;
   
   // Message methods
   createMessage(message: InsertMessage): Promise<Message>;
@@ -85,17 +125,80 @@ export interface IStorage {
   getAllMessagesForUser(userId: number): Promise<Message[]>;
   getAllMessages(): Promise<Message[]>; // New method for admin dashboard
   markMessageAsRead(messageId: number, userId: number): Promise<Message | undefined>;
+  // Mark everything a user has received in one thread as read, returning the messages that changed
+  markThreadAsRead(receiverId: number, senderId: number, auctionId: number | null): Promise<Message[]>;
   getUnreadMessageCount(userId: number): Promise<number>;
   
   // Notification methods
   createNotification(notification: InsertNotification): Promise<Notification>;
   getNotificationsByUserId(userId: number): Promise<Notification[]>;
   markNotificationAsRead(id: number): Promise<Notification | undefined>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>; // undefined until first saved
+  saveNotificationPreferences(userId: number, preferences: NotificationPreferencesInput): Promise<NotificationPreferences>;
+  
+  // Review methods
+  createReview(review: InsertReview): Promise<Review>;
+  getReviewsByRevieweeId(revieweeId: number): Promise<Review[]>;
+  getReviewsByAuctionId(auctionId: number): Promise<Review[]>;
+  
+  // Auction lifecycle history methods
+  createAuctionHistoryEntry(entry: InsertAuctionHistoryEntry): Promise<AuctionHistoryEntry>;
+  getAuctionHistory(auctionId: number): Promise<AuctionHistoryEntry[]>; // oldest first
+  
+  // Dealership methods
+  createDealership(dealership: InsertDealership): Promise<Dealership>;
+  getDealership(id: number): Promise<Dealership | undefined>;
+  updateDealership(id: number, dealership: Partial<Dealership>): Promise<Dealership | undefined>;
+  createDealershipMember(member: InsertDealershipMember): Promise<DealershipMember>;
+  getDealershipMemberByUserId(userId: number): Promise<DealershipMember | undefined>; // including removed staff
+  getDealershipMembers(dealershipId: number): Promise<DealershipMember[]>; // current staff, oldest first
+  updateDealershipMember(userId: number, member: Partial<DealershipMember>): Promise<DealershipMember | undefined>;
+  // Mark a staff member as removed; false if they weren't a current member
+  removeDealershipMember(userId: number): Promise<boolean>;
+  
+  // Admin audit log methods - append-only, so there is no update or delete
+  createAdminAuditEntry(entry: InsertAdminAuditEntry): Promise<AdminAuditEntry>;
+  getAdminAuditLog(limit: number): Promise<AdminAuditEntry[]>; // newest first
+  
+  // Saved search methods
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]>; // oldest first
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  updateSavedSearch(id: number, search: Partial<SavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: number): Promise<boolean>; // also deletes its matches
+  // Record that an auction matched a search; undefined if it already had, so each listing alerts once
+  recordSavedSearchMatch(savedSearchId: number, auctionId: number, emailPending: boolean): Promise<SavedSearchMatch | undefined>;
+  getPendingEmailMatches(): Promise<SavedSearchMatch[]>; // oldest first
+  markMatchesEmailed(ids: number[]): Promise<void>;
+  
+  // Watchlist methods
+  // Add an auction to a dealer's watchlist; returns the existing entry if it is already there
+  addToWatchlist(userId: number, auctionId: number): Promise<WatchlistEntry>;
+  removeFromWatchlist(userId: number, auctionId: number): Promise<boolean>;
+  getWatchlist(userId: number): Promise<WatchlistEntry[]>; // newest first
+  // Mark the auction's watchers as sent the "ending soon" alert, returning only those not already marked
+  claimEndingSoonNotifications(auctionId: number): Promise<WatchlistEntry[]>;
+  
+  // Live event log methods
+  // Store a live event under the user's next sequence number
+  recordUserEvent(userId: number, type: string, data: unknown): Promise<UserEvent>;
+  getUserEventsAfter(userId: number, afterSeq: number, limit: number): Promise<UserEvent[]>; // oldest first
+  deleteUserEventsBefore(cutoff: Date): Promise<number>; // returns how many were deleted
+  
+  // Email verification and password reset token methods
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  // Mark a token used; undefined if it was already used, so each token can only be redeemed once
+  markAuthTokenUsed(id: number): Promise<AuthToken | undefined>;
+  // Expire all of a user's outstanding tokens for a purpose (e.g. when a new one is issued)
+  invalidateAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void>;
   
   // Data management methods
   resetIds(): void;
   
   // Helper methods
+  hashPassword(password: string): Promise<string>;
   comparePasswords(supplied: string, stored: string): Promise<boolean>;
   
   // Session store
@@ -108,6 +211,7 @@ export interface AuctionWithDetails extends Auction {
   bids: Bid[];
   currentBid?: number;
   totalBids: number;
+  distanceMiles?: number; // Set by searchActiveAuctions when searching from a postcode
 }
 
 // Memory storage implementation
@@ -119,8 +223,21 @@ export class MemStorage implements IStorage {
   public bids: Map<number, Bid>;
   public messages: Map<number, Message>;
   public notifications: Map<number, Notification>;
+  public reviews: Map<number, Review>;
+  public authTokens: Map<number, AuthToken>;
+  public auctionHistory: Map<number, AuctionHistoryEntry>;
+  public dealerships: Map<number, Dealership>;
+  public dealershipMembers: Map<number, DealershipMember>;
+  public adminAuditLog: Map<number, AdminAuditEntry>;
+  public savedSearches: Map<number, SavedSearch>;
+  public savedSearchMatches: Map<number, SavedSearchMatch>;
+  public watchlistEntries: Map<number, WatchlistEntry>;
+  public userEvents: Map<number, UserEvent>;
+  public notificationPreferences: Map<number, NotificationPreferences>;
   
   readonly sessionStore: session.Store;
+  // Tail of each auction's queue of locked work
+  private auctionLocks = new Map<number, Promise<void>>();
   
   private userId: number;
   private motorcycleId: number;
@@ -128,6 +245,17 @@ export class MemStorage implements IStorage {
   private bidId: number;
   private messageId: number;
   private notificationId: number;
+  private reviewId: number;
+  private authTokenId: number;
+  private auctionHistoryId: number;
+  private dealershipId: number;
+  private dealershipMemberId: number;
+  private adminAuditId: number;
+  private savedSearchId: number;
+  private savedSearchMatchId: number;
+  private watchlistEntryId: number;
+  private userEventId: number;
+  private notificationPreferencesId: number;
   
   constructor() {
     this.users = new Map();
@@ -136,6 +264,17 @@ export class MemStorage implements IStorage {
     this.bids = new Map();
     this.messages = new Map();
     this.notifications = new Map();
+    this.reviews = new Map();
+    this.authTokens = new Map();
+    this.auctionHistory = new Map();
+    this.dealerships = new Map();
+    this.dealershipMembers = new Map();
+    this.adminAuditLog = new Map();
+    this.savedSearches = new Map();
+    this.savedSearchMatches = new Map();
+    this.watchlistEntries = new Map();
+    this.userEvents = new Map();
+    this.notificationPreferences = new Map();
     
     this.userId = 1;
     this.motorcycleId = 1;
@@ -143,6 +282,17 @@ export class MemStorage implements IStorage {
     this.bidId = 1;
     this.messageId = 1;
     this.notificationId = 1;
+    this.reviewId = 1;
+    this.authTokenId = 1;
+    this.auctionHistoryId = 1;
+    this.dealershipId = 1;
+    this.dealershipMemberId = 1;
+    this.adminAuditId = 1;
+    this.savedSearchId = 1;
+    this.savedSearchMatchId = 1;
+    this.watchlistEntryId = 1;
+    this.userEventId = 1;
+    this.notificationPreferencesId = 1;
     
     // Create memory store for session management
     const MemoryStoreFactory = MemoryStore(session);
@@ -175,6 +325,26 @@ export class MemStorage implements IStorage {
       postcode: 'E1 6AN',
       rating: 4,
       totalRatings: 15,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [],
       createdAt: new Date()
     };
@@ -193,6 +363,26 @@ export class MemStorage implements IStorage {
       postcode: 'B1 1AA',
       rating: 4.5,
       totalRatings: 22,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [1], // Favorite dealer1
       createdAt: new Date()
     };
@@ -211,6 +401,26 @@ export class MemStorage implements IStorage {
       postcode: 'EH1 1AA',
       rating: 5,
       totalRatings: 30,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [1, 2], // Favorite dealer1 and dealer2
       createdAt: new Date()
     };
@@ -234,6 +444,26 @@ export class MemStorage implements IStorage {
       postcode: 'M1 2WD',
       rating: 5,
       totalRatings: 8,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [1, 3], // Favorite dealer1 and dealer3
       createdAt: new Date()
     };
@@ -256,6 +486,26 @@ export class MemStorage implements IStorage {
       postcode: 'LS1 1AA',
       rating: 4,
       totalRatings: 15,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [2], // Favorite dealer2
       createdAt: new Date()
     };
@@ -274,6 +524,26 @@ export class MemStorage implements IStorage {
       postcode: 'G1 2AA',
       rating: 4.5,
       totalRatings: 12,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [1, 2, 3], // Favorite all dealers
       createdAt: new Date()
     };
@@ -293,6 +563,26 @@ export class MemStorage implements IStorage {
       postcode: 'LS1 5TY',
       rating: 5,
       totalRatings: 22,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [1, 2],
       createdAt: new Date()
     };
@@ -311,6 +601,26 @@ export class MemStorage implements IStorage {
       postcode: 'BS8 4RQ',
       rating: 4.5,
       totalRatings: 18,
+      paymentRating: null,
+      communicationRating: null,
+      emailVerified: true,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'verified',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       favoriteDealers: [3, 5],
       createdAt: new Date()
     };
@@ -335,6 +645,8 @@ export class MemStorage implements IStorage {
       auctionDuration: '1day',
       status: 'pending_collection', // Change status to pending_collection for MikeTrader to see
       soldDate: new Date().toISOString(), // Add sold date
+      vehicleCheck: null,
+      conditionReport: null,
       images: [
         'https://images.unsplash.com/photo-1568772585407-9361f9bf3a87'
       ],
@@ -535,6 +847,12 @@ export class MemStorage implements IStorage {
       highestBidderId: 4, // MikeTrader is ID 4
       visibilityType: 'all',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 12),
       completedAt: new Date(now.getTime() - oneHour * 3).toISOString()
     };
@@ -556,6 +874,12 @@ export class MemStorage implements IStorage {
       highestBidderId: null,
       visibilityType: 'favorites',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 10)
     };
     this.auctions.set(auction2.id, auction2);
@@ -574,6 +898,12 @@ export class MemStorage implements IStorage {
       collectionConfirmed: false,
       collectionDate: null,
       highestBidderId: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 24)
     };
     this.auctions.set(auction3.id, auction3);
@@ -593,6 +923,12 @@ export class MemStorage implements IStorage {
       collectionConfirmed: false,
       collectionDate: null,
       highestBidderId: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 12)
     };
     this.auctions.set(auction4.id, auction4);
@@ -611,6 +947,12 @@ export class MemStorage implements IStorage {
       collectionConfirmed: false,
       collectionDate: null,
       highestBidderId: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 36)
     };
     this.auctions.set(auction5.id, auction5);
@@ -632,6 +974,12 @@ export class MemStorage implements IStorage {
       highestBidderId: null,
       visibilityType: 'all',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 8)
     };
     this.auctions.set(auction6.id, auction6);
@@ -652,6 +1000,12 @@ export class MemStorage implements IStorage {
       highestBidderId: null,
       visibilityType: 'radius',
       visibilityRadius: 100, // 100 miles radius
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 6)
     };
     this.auctions.set(auction7.id, auction7);
@@ -672,6 +1026,12 @@ export class MemStorage implements IStorage {
       highestBidderId: null,
       visibilityType: 'favorites',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneHour * 10)
     };
     this.auctions.set(auction8.id, auction8);
@@ -682,6 +1042,9 @@ export class MemStorage implements IStorage {
       auctionId: auction1.id,
       dealerId: 4, // miketrader ID hardcoded
       amount: 6500,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 4) // 4 hours ago
     };
     this.bids.set(bid1.id, bid1);
@@ -691,6 +1054,9 @@ export class MemStorage implements IStorage {
       auctionId: auction1.id,
       dealerId: trader2.id,
       amount: 6800,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 3) // 3 hours ago
     };
     this.bids.set(bid2.id, bid2);
@@ -700,6 +1066,9 @@ export class MemStorage implements IStorage {
       auctionId: auction1.id,
       dealerId: 4, // miketrader ID hardcoded
       amount: 7200, // winning bid - increased amount
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 2) // 2 hours ago
     };
     this.bids.set(bid3.id, bid3);
@@ -709,6 +1078,9 @@ export class MemStorage implements IStorage {
       auctionId: auction1.id,
       dealerId: trader3.id,
       amount: 7200,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 1) // 1 hour ago
     };
     this.bids.set(bid4.id, bid4);
@@ -719,6 +1091,9 @@ export class MemStorage implements IStorage {
       auctionId: auction2.id,
       dealerId: trader1.id,
       amount: 15500,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 9) // 9 hours ago
     };
     this.bids.set(bid5.id, bid5);
@@ -728,6 +1103,9 @@ export class MemStorage implements IStorage {
       auctionId: auction2.id,
       dealerId: trader2.id,
       amount: 16000,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 7) // 7 hours ago
     };
     this.bids.set(bid6.id, bid6);
@@ -738,6 +1116,9 @@ export class MemStorage implements IStorage {
       auctionId: auction4.id,
       dealerId: trader1.id,
       amount: 8200,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 10) // 10 hours ago
     };
     this.bids.set(bid7.id, bid7);
@@ -747,6 +1128,9 @@ export class MemStorage implements IStorage {
       auctionId: auction4.id,
       dealerId: trader3.id,
       amount: 8500,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneHour * 8) // 8 hours ago
     };
     this.bids.set(bid8.id, bid8);
@@ -838,6 +1222,8 @@ export class MemStorage implements IStorage {
       auctionDuration: '1week',
       status: 'completed', // Add status for consistency
       soldDate: new Date(now.getTime() - oneDay * 5).toISOString(), // Add sold date 5 days ago
+      vehicleCheck: null,
+      conditionReport: null,
       images: [
         'https://images.unsplash.com/photo-1635073910167-20261559f0b3'
       ],
@@ -860,6 +1246,12 @@ export class MemStorage implements IStorage {
       collectionConfirmed: false,
       collectionDate: new Date(now.getTime() + oneDay * 2), // 2 days from now
       highestBidderId: trader1.id,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneDay * 10)
     };
     this.auctions.set(auctionCompleted.id, auctionCompleted);
@@ -869,6 +1261,9 @@ export class MemStorage implements IStorage {
       auctionId: auctionCompleted.id,
       traderId: trader1.id,
       amount: 8900,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneDay * 4) // 4 days ago
     };
     this.bids.set(completedBid.id, completedBid);
@@ -952,6 +1347,12 @@ export class MemStorage implements IStorage {
       highestBidderId: trader1.id,
       visibilityType: 'all',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneDay * 5),
       completedAt: new Date(now.getTime() - oneDay * 1).toISOString()
     };
@@ -963,6 +1364,9 @@ export class MemStorage implements IStorage {
       auctionId: mikeAuction1.id,
       dealerId: trader1.id, // Mike's ID
       amount: 8500,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneDay * 2) // 2 days ago
     };
     this.bids.set(mikeBid1.id, mikeBid1);
@@ -1011,6 +1415,12 @@ export class MemStorage implements IStorage {
       highestBidderId: trader1.id,
       visibilityType: 'all',
       visibilityRadius: null,
+      auctionType: 'blind',
+      bidIncrement: 50,
+      reservePrice: null,
+      buyNowPrice: null,
+      softCloseMinutes: 5,
+      softCloseExtensionMinutes: 5,
       createdAt: new Date(now.getTime() - oneDay * 7),
       completedAt: new Date(now.getTime() - oneDay * 2).toISOString()
     };
@@ -1022,6 +1432,9 @@ export class MemStorage implements IStorage {
       auctionId: mikeAuction2.id,
       dealerId: trader1.id, // Mike's ID
       amount: 9200,
+      maxAmount: null,
+      isProxy: false,
+      voidedAt: null,
       createdAt: new Date(now.getTime() - oneDay * 3) // 3 days ago
     };
     this.bids.set(mikeBid2.id, mikeBid2);
@@ -1060,6 +1473,16 @@ export class MemStorage implements IStorage {
   getAllUsers(): Map<number, User> {
     return this.users;
   }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
+  async getUsersByVerificationStatus(status: VerificationStatus): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role === 'dealer' && user.verificationStatus === status)
+      .sort((a, b) => (a.verificationSubmittedAt?.getTime() ?? 0) - (b.verificationSubmittedAt?.getTime() ?? 0));
+  }
   
   async getUserByUsername(username: string): Promise<User | undefined> {
     // Case-insensitive username matching
@@ -1082,6 +1505,24 @@ export class MemStorage implements IStorage {
     const user: User = { 
       id,
       ...insertUser,
+      emailVerified: false,
+      subscriptionPlan: 'free',
+      subscriptionStatus: null,
+      subscriptionCurrentPeriodEnd: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      verificationStatus: 'pending_verification',
+      vatNumber: null,
+      companyNumber: null,
+      verificationDocuments: null,
+      verificationSubmittedAt: null,
+      verificationReviewedAt: null,
+      verificationReviewedBy: null,
+      verificationNotes: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      lastEventSeq: 0,
       createdAt: new Date()
     };
     
@@ -1097,6 +1538,19 @@ export class MemStorage implements IStorage {
     this.users.set(id, updatedUser);
     return updatedUser;
   }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalizedEmail = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find(user => user.email.toLowerCase() === normalizedEmail);
+  }
+  
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    return this.updateUser(id, { password: await hashPassword(password) });
+  }
+  
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.stripeCustomerId === customerId);
+  }
 
   // Motorcycle methods
   async createMotorcycle(insertMotorcycle: InsertMotorcycle): Promise<Motorcycle> {
@@ -1116,7 +1570,9 @@ export class MemStorage implements IStorage {
       dateAvailable: insertMotorcycle.dateAvailable || '',
       regNumber: insertMotorcycle.regNumber || '',
       auctionDuration: insertMotorcycle.auctionDuration || '1week',
-      images: insertMotorcycle.images || []
+      images: insertMotorcycle.images || [],
+      vehicleCheck: null,
+      conditionReport: insertMotorcycle.conditionReport ?? null
     };
     
     const motorcycle: Motorcycle = { 
@@ -1223,6 +1679,12 @@ export class MemStorage implements IStorage {
       collectionConfirmed: false,
       collectionDate: null,
       highestBidderId: null,
+      auctionType: insertAuction.auctionType ?? 'blind',
+      bidIncrement: insertAuction.bidIncrement ?? 50,
+      reservePrice: insertAuction.reservePrice ?? null,
+      buyNowPrice: insertAuction.buyNowPrice ?? null,
+      softCloseMinutes: insertAuction.softCloseMinutes ?? 5,
+      softCloseExtensionMinutes: insertAuction.softCloseExtensionMinutes ?? 5,
       createdAt: new Date()
     };
     
@@ -1302,8 +1764,13 @@ export class MemStorage implements IStorage {
     });
   }
   
+  async searchActiveAuctions(filters: AuctionSearchFilters, currentUserId: number | null = null): Promise<AuctionSearchPage> {
+    const candidates = await this.getActiveAuctions(currentUserId);
+    return applyAuctionSearch(candidates, filters, id => this.getUser(id));
+  }
+  
   // Helper method to check if an auction is visible to a specific user
-  private async isAuctionVisibleToUser(auction: Auction, user: User | null | undefined): Promise<boolean> {
+  async isAuctionVisibleToUser(auction: Auction, user: User | null | undefined): Promise<boolean> {
     // If user is not logged in, only show 'all' visibility auctions
     if (!user) {
       return auction.visibilityType === 'all';
@@ -1329,16 +1796,16 @@ export class MemStorage implements IStorage {
         return sellerUser.favoriteDealers.includes(user.id);
         
       case 'radius':
-        // For simplicity in this demo, we'll implement a mock distance calculation
-        // In a real app, you would use geocoding and calculate actual distances
-        // TODO: Implement proper distance calculation using dealer addresses
+        // Only dealers within the radius (in miles) of the seller can see the auction
         if (!auction.visibilityRadius) {
           return false;
         }
         
-        // Mock implementation: if radius is > 100, show to all
-        // If radius is <= 100, randomly determine visibility
-        return auction.visibilityRadius > 100 || (user.id % 2 === 0);
+        const radiusSeller = await this.getUser(auction.dealerId);
+        if (!radiusSeller) {
+          return false;
+        }
+        return isWithinRadius(radiusSeller, user, auction.visibilityRadius);
         
       default:
         return false;
@@ -1364,6 +1831,10 @@ export class MemStorage implements IStorage {
     });
   }
   
+  async getAuctionsByStatus(status: string): Promise<Auction[]> {
+    return Array.from(this.auctions.values()).filter(auction => auction.status === status);
+  }
+  
   async updateAuction(id: number, auctionData: Partial<Auction>): Promise<Auction | undefined> {
     const auction = this.auctions.get(id);
     if (!auction) return undefined;
@@ -1373,6 +1844,23 @@ export class MemStorage implements IStorage {
     return updatedAuction;
   }
   
+  async updateAuctionIfStatus(
+    id: number,
+    expectedStatus: string,
+    auctionData: Partial<Auction>,
+    winningBid?: InsertBid
+  ): Promise<Auction | undefined> {
+    const auction = this.auctions.get(id);
+    if (!auction || auction.status !== expectedStatus) return undefined;
+    
+    this.auctions.set(id, { ...auction, ...auctionData });
+    if (winningBid) {
+      const bid = await this.createBid(winningBid);
+      return this.updateAuction(id, { winningBidId: bid.id });
+    }
+    return this.auctions.get(id);
+  }
+  
   async deleteAuction(id: number, dealerId: number): Promise<boolean> {
     const auction = this.auctions.get(id);
     
@@ -1398,37 +1886,25 @@ export class MemStorage implements IStorage {
     return true;
   }
   
-  async archiveAuctionAsNoSale(id: number, dealerId: number): Promise<Auction | undefined> {
+  async removeAuction(id: number): Promise<boolean> {
     const auction = this.auctions.get(id);
-    
-    // Check if auction exists and belongs to the dealer
-    if (!auction || auction.dealerId !== dealerId) {
-      return undefined;
-    }
-    
-    // Can only archive active or pending auctions
-    if (auction.status !== 'active' && auction.status !== 'pending') {
-      return undefined;
+    if (!auction) {
+      return false;
     }
     
-    // Update auction status to 'no_sale'
-    const updatedAuction = { 
-      ...auction, 
-      status: 'no_sale',
-      completedAt: new Date().toISOString()
-    };
-    this.auctions.set(id, updatedAuction);
+    const linked = <T extends { id: number; auctionId: number | null }>(entries: Map<number, T>) =>
+      Array.from(entries.values()).filter(entry => entry.auctionId === id);
     
-    // Update motorcycle status to 'available' again
-    const motorcycle = this.motorcycles.get(auction.motorcycleId);
-    if (motorcycle) {
-      const updatedMotorcycle = { ...motorcycle, status: 'available' };
-      this.motorcycles.set(motorcycle.id, updatedMotorcycle);
-    }
-    
-    return updatedAuction;
+    linked(this.bids).forEach(bid => this.bids.delete(bid.id));
+    linked(this.auctionHistory).forEach(entry => this.auctionHistory.delete(entry.id));
+    linked(this.watchlistEntries).forEach(entry => this.watchlistEntries.delete(entry.id));
+    linked(this.savedSearchMatches).forEach(match => this.savedSearchMatches.delete(match.id));
+    linked(this.messages).forEach(message => this.messages.set(message.id, { ...message, auctionId: null }));
+    this.motorcycles.delete(auction.motorcycleId);
+    this.auctions.delete(id);
+    return true;
   }
-
+  
   // Bid methods
   async createBid(insertBid: InsertBid): Promise<Bid> {
     const id = this.bidId++;
@@ -1436,6 +1912,9 @@ export class MemStorage implements IStorage {
     const bid: Bid = { 
       id,
       ...insertBid,
+      maxAmount: insertBid.maxAmount ?? null,
+      isProxy: insertBid.isProxy ?? false,
+      voidedAt: null,
       createdAt: new Date()
     };
     
@@ -1457,10 +1936,26 @@ export class MemStorage implements IStorage {
     return this.bids.get(id);
   }
   
+  async voidBid(id: number): Promise<Bid | undefined> {
+    const bid = this.bids.get(id);
+    if (!bid || bid.voidedAt) return undefined;
+    
+    const voided = { ...bid, voidedAt: new Date() };
+    this.bids.set(id, voided);
+    return voided;
+  }
+  
+  async voidBidsForAuction(auctionId: number): Promise<number> {
+    const voidedAt = new Date();
+    const live = Array.from(this.bids.values()).filter(bid => bid.auctionId === auctionId && !bid.voidedAt);
+    live.forEach(bid => this.bids.set(bid.id, { ...bid, voidedAt }));
+    return live.length;
+  }
+  
   async getBidsByAuctionId(auctionId: number): Promise<Bid[]> {
     const result: Bid[] = [];
     for (const bid of this.bids.values()) {
-      if (bid.auctionId === auctionId) {
+      if (bid.auctionId === auctionId && !bid.voidedAt) {
         result.push(bid);
       }
     }
@@ -1472,23 +1967,41 @@ export class MemStorage implements IStorage {
     const bids = await this.getBidsByAuctionId(auctionId);
     if (bids.length === 0) return undefined;
     
+    // The earliest bid wins a tie
     return bids.reduce((highest, current) => {
-      return current.amount > highest.amount ? current : highest;
+      return current.amount > highest.amount || (current.amount === highest.amount && current.id < highest.id)
+        ? current
+        : highest;
     }, bids[0]);
   }
   
+  async withAuctionLock<T>(auctionId: number, fn: () => Promise<T>): Promise<T> {
+    const previous = this.auctionLocks.get(auctionId) ?? Promise.resolve();
+    const result = previous.then(fn);
+    const tail = result.then(() => undefined, () => undefined);
+    this.auctionLocks.set(auctionId, tail);
+    
+    try {
+      return await result;
+    } finally {
+      if (this.auctionLocks.get(auctionId) === tail) {
+        this.auctionLocks.delete(auctionId);
+      }
+    }
+  }
+  
   async getBidsByDealerId(dealerId: number): Promise<Bid[]> {
     const result: Bid[] = [];
     for (const bid of this.bids.values()) {
-      if (bid.dealerId === dealerId) {
+      if (bid.dealerId === dealerId && !bid.voidedAt) {
         result.push(bid);
       }
     }
     
     // Sort by creation date (newest first)
     return result.sort((a, b) => {
-      const dateA = new Date(a.createdAt).getTime();
-      const dateB = new Date(b.createdAt).getTime();
+      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
       return dateB - dateA;
     });
   }
@@ -1514,7 +2027,7 @@ export class MemStorage implements IStorage {
     const regularBidAuctions: AuctionWithDetails[] = [];
     
     // Process auctions where dealer placed bids (but NOT pending collection ones)
-    for (const auctionId of bidAuctionIds) {
+    for (const auctionId of Array.from(bidAuctionIds)) {
       const auctionDetails = await this.getAuctionWithDetails(auctionId);
       if (auctionDetails) {
         console.log(`Checking bid auction ${auctionDetails.id} - status: ${auctionDetails.status}, bidAccepted: ${auctionDetails.bidAccepted}, winningBidderId: ${auctionDetails.winningBidderId}`);
@@ -1623,6 +2136,10 @@ export class MemStorage implements IStorage {
     const message: Message = { 
       id,
       ...insertMessage,
+      auctionId: insertMessage.auctionId ?? null,
+      attachments: insertMessage.attachments ?? [],
+      read: false,
+      readAt: null,
       createdAt: new Date()
     };
     
@@ -1668,10 +2185,28 @@ export class MemStorage implements IStorage {
     // Only the receiver can mark a message as read
     if (message.receiverId !== userId) return undefined;
     
-    message.read = true;
+    if (!message.read) {
+      message.read = true;
+      message.readAt = new Date();
+    }
     return message;
   }
   
+  async markThreadAsRead(receiverId: number, senderId: number, auctionId: number | null): Promise<Message[]> {
+    const now = new Date();
+    const updated = Array.from(this.messages.values()).filter(message =>
+      message.receiverId === receiverId &&
+      message.senderId === senderId &&
+      (message.auctionId ?? null) === auctionId &&
+      !message.read
+    );
+    updated.forEach(message => {
+      message.read = true;
+      message.readAt = now;
+    });
+    return updated;
+  }
+  
   async getUnreadMessageCount(userId: number): Promise<number> {
     let count = 0;
     for (const message of this.messages.values()) {
@@ -1729,6 +2264,340 @@ export class MemStorage implements IStorage {
     notification.read = true;
     return notification;
   }
+  
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return Array.from(this.notificationPreferences.values()).find(preferences => preferences.userId === userId);
+  }
+  
+  async saveNotificationPreferences(userId: number, input: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const existing = await this.getNotificationPreferences(userId);
+    const id = existing?.id ?? this.notificationPreferencesId++;
+    
+    const preferences: NotificationPreferences = { id, userId, ...input, updatedAt: new Date() };
+    this.notificationPreferences.set(id, preferences);
+    return preferences;
+  }
+
+  // Review methods
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    const id = this.reviewId++;
+    
+    const review: Review = {
+      id,
+      ...insertReview,
+      paymentPromptness: insertReview.paymentPromptness ?? null,
+      communicationQuality: insertReview.communicationQuality ?? null,
+      createdAt: new Date()
+    };
+    
+    this.reviews.set(id, review);
+    return review;
+  }
+  
+  async getReviewsByRevieweeId(revieweeId: number): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => review.revieweeId === revieweeId)
+      .sort((a, b) => {
+        if (!a.createdAt || !b.createdAt) return 0;
+        return b.createdAt.getTime() - a.createdAt.getTime();
+      });
+  }
+  
+  async getReviewsByAuctionId(auctionId: number): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter(review => review.auctionId === auctionId);
+  }
+  
+  // Auction history methods
+  async createAuctionHistoryEntry(insertEntry: InsertAuctionHistoryEntry): Promise<AuctionHistoryEntry> {
+    const id = this.auctionHistoryId++;
+    
+    const entry: AuctionHistoryEntry = {
+      id,
+      ...insertEntry,
+      fromStatus: insertEntry.fromStatus ?? null,
+      motorcycleStatus: insertEntry.motorcycleStatus ?? null,
+      actorId: insertEntry.actorId ?? null,
+      createdAt: new Date()
+    };
+    
+    this.auctionHistory.set(id, entry);
+    return entry;
+  }
+  
+  async getAuctionHistory(auctionId: number): Promise<AuctionHistoryEntry[]> {
+    return Array.from(this.auctionHistory.values())
+      .filter(entry => entry.auctionId === auctionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Admin audit log methods
+  async createAdminAuditEntry(insertEntry: InsertAdminAuditEntry): Promise<AdminAuditEntry> {
+    const id = this.adminAuditId++;
+    
+    const entry: AdminAuditEntry = {
+      id,
+      ...insertEntry,
+      reason: insertEntry.reason ?? null,
+      details: insertEntry.details ?? null,
+      createdAt: new Date()
+    };
+    
+    this.adminAuditLog.set(id, entry);
+    return entry;
+  }
+  
+  async getAdminAuditLog(limit: number): Promise<AdminAuditEntry[]> {
+    return Array.from(this.adminAuditLog.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Dealership methods
+  async createDealership(insertDealership: InsertDealership): Promise<Dealership> {
+    const id = this.dealershipId++;
+    
+    const dealership: Dealership = {
+      id,
+      ...insertDealership,
+      createdAt: new Date()
+    };
+    
+    this.dealerships.set(id, dealership);
+    return dealership;
+  }
+  
+  async getDealership(id: number): Promise<Dealership | undefined> {
+    return this.dealerships.get(id);
+  }
+  
+  async updateDealership(id: number, dealershipData: Partial<Dealership>): Promise<Dealership | undefined> {
+    const dealership = this.dealerships.get(id);
+    if (!dealership) return undefined;
+    
+    const updatedDealership = { ...dealership, ...dealershipData };
+    this.dealerships.set(id, updatedDealership);
+    return updatedDealership;
+  }
+  
+  async createDealershipMember(insertMember: InsertDealershipMember): Promise<DealershipMember> {
+    const id = this.dealershipMemberId++;
+    
+    const member: DealershipMember = {
+      id,
+      ...insertMember,
+      removedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.dealershipMembers.set(id, member);
+    return member;
+  }
+  
+  async getDealershipMemberByUserId(userId: number): Promise<DealershipMember | undefined> {
+    return Array.from(this.dealershipMembers.values()).find(member => member.userId === userId);
+  }
+  
+  async getDealershipMembers(dealershipId: number): Promise<DealershipMember[]> {
+    return Array.from(this.dealershipMembers.values())
+      .filter(member => member.dealershipId === dealershipId && !member.removedAt)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateDealershipMember(userId: number, memberData: Partial<DealershipMember>): Promise<DealershipMember | undefined> {
+    const member = await this.getDealershipMemberByUserId(userId);
+    if (!member) return undefined;
+    
+    const updatedMember = { ...member, ...memberData };
+    this.dealershipMembers.set(member.id, updatedMember);
+    return updatedMember;
+  }
+  
+  async removeDealershipMember(userId: number): Promise<boolean> {
+    const member = await this.getDealershipMemberByUserId(userId);
+    if (!member || member.removedAt) return false;
+    
+    this.dealershipMembers.set(member.id, { ...member, removedAt: new Date() });
+    return true;
+  }
+  
+  // Saved search methods
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const id = this.savedSearchId++;
+    
+    const search: SavedSearch = {
+      id,
+      ...insertSearch,
+      emailDigest: insertSearch.emailDigest ?? false,
+      createdAt: new Date()
+    };
+    
+    this.savedSearches.set(id, search);
+    return search;
+  }
+  
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+  
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values());
+  }
+  
+  async updateSavedSearch(id: number, searchData: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    if (!search) return undefined;
+    
+    const updated = { ...search, ...searchData, id };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+  
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    for (const match of Array.from(this.savedSearchMatches.values())) {
+      if (match.savedSearchId === id) {
+        this.savedSearchMatches.delete(match.id);
+      }
+    }
+    return this.savedSearches.delete(id);
+  }
+  
+  async recordSavedSearchMatch(savedSearchId: number, auctionId: number, emailPending: boolean): Promise<SavedSearchMatch | undefined> {
+    const existing = Array.from(this.savedSearchMatches.values())
+      .find(match => match.savedSearchId === savedSearchId && match.auctionId === auctionId);
+    if (existing) return undefined;
+    
+    const id = this.savedSearchMatchId++;
+    const match: SavedSearchMatch = { id, savedSearchId, auctionId, emailPending, createdAt: new Date() };
+    this.savedSearchMatches.set(id, match);
+    return match;
+  }
+  
+  async getPendingEmailMatches(): Promise<SavedSearchMatch[]> {
+    return Array.from(this.savedSearchMatches.values())
+      .filter(match => match.emailPending)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async markMatchesEmailed(ids: number[]): Promise<void> {
+    for (const id of ids) {
+      const match = this.savedSearchMatches.get(id);
+      if (match) {
+        this.savedSearchMatches.set(id, { ...match, emailPending: false });
+      }
+    }
+  }
+  
+  // Watchlist methods
+  async addToWatchlist(userId: number, auctionId: number): Promise<WatchlistEntry> {
+    const existing = Array.from(this.watchlistEntries.values())
+      .find(entry => entry.userId === userId && entry.auctionId === auctionId);
+    if (existing) return existing;
+    
+    const id = this.watchlistEntryId++;
+    const entry: WatchlistEntry = { id, userId, auctionId, endingSoonNotifiedAt: null, createdAt: new Date() };
+    this.watchlistEntries.set(id, entry);
+    return entry;
+  }
+  
+  async removeFromWatchlist(userId: number, auctionId: number): Promise<boolean> {
+    const entry = Array.from(this.watchlistEntries.values())
+      .find(entry => entry.userId === userId && entry.auctionId === auctionId);
+    return entry ? this.watchlistEntries.delete(entry.id) : false;
+  }
+  
+  async getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+    return Array.from(this.watchlistEntries.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async claimEndingSoonNotifications(auctionId: number): Promise<WatchlistEntry[]> {
+    const endingSoonNotifiedAt = new Date();
+    const claimed: WatchlistEntry[] = [];
+    
+    for (const entry of Array.from(this.watchlistEntries.values())) {
+      if (entry.auctionId === auctionId && !entry.endingSoonNotifiedAt) {
+        const updated = { ...entry, endingSoonNotifiedAt };
+        this.watchlistEntries.set(entry.id, updated);
+        claimed.push(updated);
+      }
+    }
+    return claimed;
+  }
+  
+  // Live event log methods
+  async recordUserEvent(userId: number, type: string, data: unknown): Promise<UserEvent> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`Cannot record an event for unknown user ${userId}`);
+    }
+    
+    const seq = user.lastEventSeq + 1;
+    this.users.set(userId, { ...user, lastEventSeq: seq });
+    
+    const id = this.userEventId++;
+    const event: UserEvent = { id, userId, seq, type, data, createdAt: new Date() };
+    this.userEvents.set(id, event);
+    return event;
+  }
+  
+  async getUserEventsAfter(userId: number, afterSeq: number, limit: number): Promise<UserEvent[]> {
+    return Array.from(this.userEvents.values())
+      .filter(event => event.userId === userId && event.seq > afterSeq)
+      .sort((a, b) => a.seq - b.seq)
+      .slice(0, limit);
+  }
+  
+  async deleteUserEventsBefore(cutoff: Date): Promise<number> {
+    const expired = Array.from(this.userEvents.values())
+      .filter(event => event.createdAt && event.createdAt < cutoff);
+    expired.forEach(event => this.userEvents.delete(event.id));
+    return expired.length;
+  }
+  
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const id = this.authTokenId++;
+    
+    const token: AuthToken = {
+      id,
+      ...insertToken,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.authTokens.set(id, token);
+    return token;
+  }
+  
+  async getAuthTokenByHash(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    return Array.from(this.authTokens.values())
+      .find(token => token.tokenHash === tokenHash && token.purpose === purpose);
+  }
+  
+  async markAuthTokenUsed(id: number): Promise<AuthToken | undefined> {
+    const token = this.authTokens.get(id);
+    if (!token || token.usedAt) return undefined;
+    
+    const usedToken = { ...token, usedAt: new Date() };
+    this.authTokens.set(id, usedToken);
+    return usedToken;
+  }
+  
+  async invalidateAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    const now = new Date();
+    this.authTokens.forEach((token, id) => {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.authTokens.set(id, { ...token, usedAt: now });
+      }
+    });
+  }
 
   // Data management methods
   resetIds(): void {
@@ -1738,21 +2607,86 @@ export class MemStorage implements IStorage {
     this.bidId = 1;
     this.messageId = 1;
     this.notificationId = 1;
+    this.reviewId = 1;
+    this.authTokenId = 1;
+    this.auctionHistoryId = 1;
+    this.dealershipId = 1;
+    this.dealershipMemberId = 1;
+    this.adminAuditId = 1;
+    this.savedSearchId = 1;
+    this.savedSearchMatchId = 1;
+    this.watchlistEntryId = 1;
+    this.userEventId = 1;
+    this.notificationPreferencesId = 1;
     console.log('All ID counters have been reset to 1');
   }
 
   // Helper methods
+  async hashPassword(password: string): Promise<string> {
+    return hashPassword(password);
+  }
+
   async comparePasswords(supplied: string, stored: string): Promise<boolean> {
     return comparePasswords(supplied, stored);
   }
 }
 
-import { eq, and, or, desc, isNull, inArray } from "drizzle-orm";
+import { eq, and, or, asc, desc, isNull, inArray, sql, gt, gte, lt, lte, ilike, SQL, AnyColumn } from "drizzle-orm";
 import { db } from "./db";
 import connectPg from "connect-pg-simple";
 
 const PostgresSessionStore = connectPg(session);
 
+// Engine size in cc parsed from the free-text column; must agree with parseEngineSize in auction-search.ts
+function searchEngineSize(): SQL<number | null> {
+  const match = sql`regexp_match(${motorcycles.engineSize}, '(\\d+(?:\\.\\d+)?)\\s*(cc|l|litre|liter)?', 'i')`;
+  return sql<number | null>`(case
+    when (${match})[1] is null then null
+    when lower((${match})[2]) = 'cc' then round((${match})[1]::numeric)
+    when (${match})[2] is not null or (${match})[1]::numeric < 10 then round((${match})[1]::numeric * 1000)
+    else round((${match})[1]::numeric)
+  end)`;
+}
+
+/**
+ * Which auctions the search may show a user (mirrors isAuctionVisibleToUser). Radius-limited auctions
+ * are let through, since they can only be checked once the seller has been geocoded.
+ */
+function searchVisibility(user: User | null | undefined): SQL | undefined {
+  if (!user) {
+    return eq(auctions.visibilityType, "all");
+  }
+  return or(
+    eq(auctions.visibilityType, "all"),
+    eq(auctions.dealerId, user.id),
+    and(eq(auctions.visibilityType, "favorites"), sql`${user.id} = any(${users.favoriteDealers})`),
+    and(eq(auctions.visibilityType, "radius"), gt(auctions.visibilityRadius, 0))
+  );
+}
+
+// Search sort keys as numbers, to match sortKey in auction-search.ts; null for distance, which needs geocoding
+function searchSortKey(sort: AuctionSearchSort, price: SQL<number | null>): SQL | null {
+  // Truncated to the millisecond, like the Date the row is read into
+  const epochMillis = (column: AnyColumn) =>
+    sql`round(extract(epoch from date_trunc('milliseconds', ${column})) * 1000)`;
+
+  switch (sort) {
+    case "ending_soon":
+      return epochMillis(auctions.endTime);
+    case "newest":
+      return sql`coalesce(${epochMillis(auctions.createdAt)}, 0)`;
+    case "price_asc":
+    case "price_desc":
+      return sql`coalesce(${price}, ${UNPRICED_KEYS[sort]}::bigint)`;
+    case "mileage_asc":
+      return sql`${motorcycles.mileage}`;
+    case "year_desc":
+      return sql`${motorcycles.year}`;
+    case "distance":
+      return null;
+  }
+}
+
 export class DatabaseStorage implements IStorage {
   readonly sessionStore: session.Store;
 
@@ -1789,6 +2723,35 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`);
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    return this.updateUser(id, { password: await hashPassword(password) });
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, customerId));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.id);
+  }
+
+  async getUsersByVerificationStatus(status: VerificationStatus): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(and(eq(users.role, 'dealer'), eq(users.verificationStatus, status)))
+      .orderBy(users.verificationSubmittedAt, users.id);
+  }
+
   getAllUsers(): Map<number, User> {
     // This is a legacy method - convert DB results to a Map for compatibility
     const userMap = new Map<number, User>();
@@ -1882,7 +2845,7 @@ export class DatabaseStorage implements IStorage {
     const auctionBids = await db
       .select()
       .from(bids)
-      .where(eq(bids.auctionId, id));
+      .where(and(eq(bids.auctionId, id), isNull(bids.voidedAt)));
     
     const highestBid = await this.getHighestBidForAuction(id);
     
@@ -1896,25 +2859,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getActiveAuctions(currentUserId: number | null = null): Promise<AuctionWithDetails[]> {
-    const now = new Date();
     const activeAuctions = await db
       .select()
       .from(auctions)
-      .where(and(
-        eq(auctions.status, "active"),
-        or(
-          eq(auctions.visibilityType, "all"),
-          currentUserId ? eq(auctions.dealerId, currentUserId) : undefined
-        )
-      ));
+      .where(eq(auctions.status, "active"));
     
     // Early return if no auctions
     if (activeAuctions.length === 0) return [];
     
+    // Get current user if logged in
+    const currentUser = currentUserId ? await this.getUser(currentUserId) : null;
+    
     const result: AuctionWithDetails[] = [];
     
     // Process each auction to add details
     for (const auction of activeAuctions) {
+      // Check if this auction should be visible to the current user
+      const isVisible = await this.isAuctionVisibleToUser(auction, currentUser);
+      if (!isVisible) continue;
+      
       const [motorcycle] = await db
         .select()
         .from(motorcycles)
@@ -1925,39 +2888,196 @@ export class DatabaseStorage implements IStorage {
       const auctionBids = await db
         .select()
         .from(bids)
-        .where(eq(bids.auctionId, auction.id));
+        .where(and(eq(bids.auctionId, auction.id), isNull(bids.voidedAt)));
       
       const highestBid = await this.getHighestBidForAuction(auction.id);
       
-      // Check if this auction should be visible to the current user
-      let isVisible = true;
-      
-      if (auction.visibilityType === "favorites" && currentUserId) {
-        const [seller] = await db
-          .select()
-          .from(users)
-          .where(eq(users.id, auction.dealerId));
-        
-        if (seller && seller.favoriteDealers) {
-          isVisible = seller.favoriteDealers.includes(currentUserId);
-        } else {
-          isVisible = false;
+      result.push({
+        ...auction,
+        motorcycle,
+        bids: auctionBids,
+        currentBid: highestBid?.amount,
+        totalBids: auctionBids.length
+      });
+    }
+    
+    return result;
+  }
+
+  async searchActiveAuctions(filters: AuctionSearchFilters, currentUserId: number | null = null): Promise<AuctionSearchPage> {
+    const after = filters.cursor ? decodeCursor(filters.cursor, filters.sort) : null;
+    const currentUser = currentUserId ? await this.getUser(currentUserId) : null;
+    const origin = filters.postcode ? await geocodePostcode(filters.postcode) : null;
+
+    const bidTotals = db
+      .select({
+        auctionId: bids.auctionId,
+        highestBid: sql<number>`max(${bids.amount})`.as("highest_bid"),
+        totalBids: sql<number>`count(*)::int`.as("total_bids")
+      })
+      .from(bids)
+      .where(isNull(bids.voidedAt))
+      .groupBy(bids.auctionId)
+      .as("bid_totals");
+    // Must agree with auctionPrice in auction-search.ts: blind auctions have no public price
+    const price = sql<number | null>`case when ${auctions.auctionType} = 'blind' then null else coalesce(${bidTotals.highestBid}, 0) end`;
+    const engineSize = searchEngineSize();
+
+    const conditions: (SQL | undefined)[] = [
+      eq(auctions.status, "active"),
+      gt(auctions.endTime, new Date()),
+      searchVisibility(currentUser)
+    ];
+    if (filters.make) {
+      conditions.push(sql`lower(${motorcycles.make}) = ${filters.make.toLowerCase()}`);
+    }
+    if (filters.model) {
+      conditions.push(ilike(motorcycles.model, `%${filters.model.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+    if (filters.yearMin !== undefined) conditions.push(gte(motorcycles.year, filters.yearMin));
+    if (filters.yearMax !== undefined) conditions.push(lte(motorcycles.year, filters.yearMax));
+    if (filters.mileageMin !== undefined) conditions.push(gte(motorcycles.mileage, filters.mileageMin));
+    if (filters.mileageMax !== undefined) conditions.push(lte(motorcycles.mileage, filters.mileageMax));
+    if (filters.condition) {
+      conditions.push(inArray(sql`lower(${motorcycles.condition})`, filters.condition.map(condition => condition.toLowerCase())));
+    }
+    if (filters.engineSizeMin !== undefined) conditions.push(sql`${engineSize} >= ${filters.engineSizeMin}`);
+    if (filters.engineSizeMax !== undefined) conditions.push(sql`${engineSize} <= ${filters.engineSizeMax}`);
+    if (filters.priceMin !== undefined) conditions.push(sql`${price} >= ${filters.priceMin}`);
+    if (filters.priceMax !== undefined) conditions.push(sql`${price} <= ${filters.priceMax}`);
+    if (filters.minRating !== undefined) conditions.push(sql`coalesce(${users.rating}, 0) >= ${filters.minRating}`);
+
+    // Distance has to be worked out after geocoding, so that ordering is left to applyAuctionSearch
+    const sortKey = searchSortKey(filters.sort, price);
+    const direction = SORT_DIRECTIONS[filters.sort];
+    // Radius checks drop rows after the query, so read a page at a time until there are enough left
+    const batchSize = sortKey && filters.limit !== undefined ? filters.limit + 1 : undefined;
+
+    const matches: { auction: AuctionWithDetails; position: CursorPosition }[] = [];
+    let position = sortKey ? after : null;
+    for (;;) {
+      const query = db
+        .select({
+          auction: auctions,
+          motorcycle: motorcycles,
+          seller: { postcode: users.postcode, address: users.address },
+          highestBid: bidTotals.highestBid,
+          totalBids: bidTotals.totalBids,
+          sortKey: sql<string>`${sortKey ?? sql`0`}`
+        })
+        .from(auctions)
+        .innerJoin(motorcycles, eq(motorcycles.id, auctions.motorcycleId))
+        .leftJoin(users, eq(users.id, auctions.dealerId))
+        .leftJoin(bidTotals, eq(bidTotals.auctionId, auctions.id))
+        .where(and(
+          ...conditions,
+          sortKey && position ? or(
+            direction === 1 ? sql`${sortKey} > ${position.key}` : sql`${sortKey} < ${position.key}`,
+            and(sql`${sortKey} = ${position.key}`, gt(auctions.id, position.id))
+          ) : undefined
+        ))
+        .orderBy(...(sortKey ? [direction === 1 ? sql`${sortKey} asc` : sql`${sortKey} desc`, auctions.id] : [auctions.id]))
+        .$dynamic();
+      const rows = batchSize !== undefined ? await query.limit(batchSize) : await query;
+
+      for (const row of rows) {
+        const { auction, seller } = row;
+        // Radius-limited auctions got through the where-clause, and are checked now the seller can be geocoded
+        if (auction.visibilityType === "radius" && currentUser && auction.dealerId !== currentUser.id &&
+            !(seller && await isWithinRadius(seller, currentUser, auction.visibilityRadius!))) continue;
+
+        let distanceMiles: number | undefined;
+        if (origin && sortKey) {
+          distanceMiles = await distanceToSeller(origin, seller);
+          // Sellers we cannot locate are left out of radius searches
+          if (filters.radiusMiles !== undefined && (distanceMiles === undefined || distanceMiles > filters.radiusMiles)) continue;
         }
-      }
-      
-      // Add to results if visible
-      if (isVisible) {
-        result.push({
-          ...auction,
-          motorcycle,
-          bids: auctionBids,
-          currentBid: highestBid?.amount,
-          totalBids: auctionBids.length
+
+        matches.push({
+          auction: {
+            ...auction,
+            motorcycle: row.motorcycle,
+            bids: [],
+            currentBid: row.highestBid ?? undefined,
+            totalBids: row.totalBids ?? 0,
+            ...(distanceMiles !== undefined ? { distanceMiles } : {})
+          },
+          position: { key: Number(row.sortKey), id: auction.id }
         });
       }
+
+      if (batchSize === undefined || rows.length < batchSize || matches.length >= batchSize) break;
+      const last = rows[rows.length - 1];
+      position = { key: Number(last.sortKey), id: last.auction.id };
+    }
+
+    let page: AuctionSearchPage;
+    if (sortKey) {
+      const pageMatches = filters.limit !== undefined ? matches.slice(0, filters.limit) : matches;
+      const hasMore = pageMatches.length < matches.length;
+      page = {
+        auctions: pageMatches.map(match => match.auction),
+        nextCursor: hasMore ? encodeCursor(filters.sort, pageMatches[pageMatches.length - 1].position) : null
+      };
+    } else {
+      page = await applyAuctionSearch(matches.map(match => match.auction), filters, id => this.getUser(id));
+    }
+
+    // Only the bids of the auctions on this page are loaded, in one query
+    const auctionIds = page.auctions.map(auction => auction.id);
+    const pageBids = auctionIds.length > 0
+      ? await db.select().from(bids).where(and(inArray(bids.auctionId, auctionIds), isNull(bids.voidedAt)))
+      : [];
+    return {
+      ...page,
+      auctions: page.auctions.map(auction => ({
+        ...auction,
+        bids: pageBids.filter(bid => bid.auctionId === auction.id)
+      }))
+    };
+  }
+
+  // Helper method to check if an auction is visible to a specific user (mirrors MemStorage)
+  async isAuctionVisibleToUser(auction: Auction, user: User | null | undefined): Promise<boolean> {
+    // If user is not logged in, only show 'all' visibility auctions
+    if (!user) {
+      return auction.visibilityType === "all";
     }
     
-    return result;
+    // Auction owner can always see their own auctions
+    if (auction.dealerId === user.id) {
+      return true;
+    }
+    
+    switch (auction.visibilityType) {
+      case "all":
+        return true;
+        
+      case "favorites": {
+        // Check if auction owner has current user in their favorites
+        const seller = await this.getUser(auction.dealerId);
+        if (!seller || !seller.favoriteDealers) {
+          return false;
+        }
+        return seller.favoriteDealers.includes(user.id);
+      }
+        
+      case "radius": {
+        // Only dealers within the radius (in miles) of the seller can see the auction
+        if (!auction.visibilityRadius) {
+          return false;
+        }
+        
+        const seller = await this.getUser(auction.dealerId);
+        if (!seller) {
+          return false;
+        }
+        return isWithinRadius(seller, user, auction.visibilityRadius);
+      }
+        
+      default:
+        return false;
+    }
   }
 
   async getAuctionsByDealerId(dealerId: number): Promise<AuctionWithDetails[]> {
@@ -1983,7 +3103,7 @@ export class DatabaseStorage implements IStorage {
       const auctionBids = await db
         .select()
         .from(bids)
-        .where(eq(bids.auctionId, auction.id));
+        .where(and(eq(bids.auctionId, auction.id), isNull(bids.voidedAt)));
       
       const highestBid = await this.getHighestBidForAuction(auction.id);
       
@@ -1999,6 +3119,13 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getAuctionsByStatus(status: string): Promise<Auction[]> {
+    return db
+      .select()
+      .from(auctions)
+      .where(eq(auctions.status, status));
+  }
+
   async updateAuction(id: number, auctionData: Partial<Auction>): Promise<Auction | undefined> {
     const [updatedAuction] = await db
       .update(auctions)
@@ -2008,6 +3135,31 @@ export class DatabaseStorage implements IStorage {
     return updatedAuction;
   }
 
+  async updateAuctionIfStatus(
+    id: number,
+    expectedStatus: string,
+    auctionData: Partial<Auction>,
+    winningBid?: InsertBid
+  ): Promise<Auction | undefined> {
+    return db.transaction(async (tx) => {
+      // Conditional UPDATE, so concurrent requests cannot both succeed
+      const [updatedAuction] = await tx
+        .update(auctions)
+        .set(auctionData)
+        .where(and(eq(auctions.id, id), eq(auctions.status, expectedStatus)))
+        .returning();
+      if (!updatedAuction || !winningBid) return updatedAuction;
+
+      const [bid] = await tx.insert(bids).values(winningBid).returning();
+      const [withWinningBid] = await tx
+        .update(auctions)
+        .set({ winningBidId: bid.id })
+        .where(eq(auctions.id, id))
+        .returning();
+      return withWinningBid;
+    });
+  }
+
   async deleteAuction(id: number, dealerId: number): Promise<boolean> {
     const result = await db
       .delete(auctions)
@@ -2020,28 +3172,25 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
-  async archiveAuctionAsNoSale(id: number, dealerId: number): Promise<Auction | undefined> {
-    const [updatedAuction] = await db
-      .update(auctions)
-      .set({ 
-        status: "cancelled",
-        completedAt: new Date().toISOString()
-      })
-      .where(and(
-        eq(auctions.id, id),
-        eq(auctions.dealerId, dealerId)
-      ))
-      .returning();
-      
-    if (updatedAuction) {
-      // Update the motorcycle status
-      await db
-        .update(motorcycles)
-        .set({ status: "available" })
-        .where(eq(motorcycles.id, updatedAuction.motorcycleId));
-    }
-    
-    return updatedAuction;
+  async removeAuction(id: number): Promise<boolean> {
+    // Nothing cascades in the schema, so everything pointing at the auction goes in the same transaction
+    return db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(auctions)
+        .where(eq(auctions.id, id))
+        .returning();
+      if (!removed) {
+        return false;
+      }
+
+      await tx.delete(bids).where(eq(bids.auctionId, id));
+      await tx.delete(auctionHistory).where(eq(auctionHistory.auctionId, id));
+      await tx.delete(watchlistEntries).where(eq(watchlistEntries.auctionId, id));
+      await tx.delete(savedSearchMatches).where(eq(savedSearchMatches.auctionId, id));
+      await tx.update(messages).set({ auctionId: null }).where(eq(messages.auctionId, id));
+      await tx.delete(motorcycles).where(eq(motorcycles.id, removed.motorcycleId));
+      return true;
+    });
   }
 
   // Bid methods
@@ -2061,11 +3210,29 @@ export class DatabaseStorage implements IStorage {
     return bid;
   }
 
+  async voidBid(id: number): Promise<Bid | undefined> {
+    const [voided] = await db
+      .update(bids)
+      .set({ voidedAt: new Date() })
+      .where(and(eq(bids.id, id), isNull(bids.voidedAt)))
+      .returning();
+    return voided;
+  }
+
+  async voidBidsForAuction(auctionId: number): Promise<number> {
+    const voided = await db
+      .update(bids)
+      .set({ voidedAt: new Date() })
+      .where(and(eq(bids.auctionId, auctionId), isNull(bids.voidedAt)))
+      .returning({ id: bids.id });
+    return voided.length;
+  }
+
   async getBidsByAuctionId(auctionId: number): Promise<Bid[]> {
     return db
       .select()
       .from(bids)
-      .where(eq(bids.auctionId, auctionId))
+      .where(and(eq(bids.auctionId, auctionId), isNull(bids.voidedAt)))
       .orderBy(desc(bids.amount));
   }
 
@@ -2073,7 +3240,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(bids)
-      .where(eq(bids.dealerId, dealerId))
+      .where(and(eq(bids.dealerId, dealerId), isNull(bids.voidedAt)))
       .orderBy(desc(bids.createdAt));
   }
 
@@ -2081,22 +3248,30 @@ export class DatabaseStorage implements IStorage {
     const [highestBid] = await db
       .select()
       .from(bids)
-      .where(eq(bids.auctionId, auctionId))
-      .orderBy(desc(bids.amount))
+      .where(and(eq(bids.auctionId, auctionId), isNull(bids.voidedAt)))
+      .orderBy(desc(bids.amount), asc(bids.id)) // the earliest bid wins a tie
       .limit(1);
     
     return highestBid;
   }
 
+  async withAuctionLock<T>(auctionId: number, fn: () => Promise<T>): Promise<T> {
+    // A transaction-scoped advisory lock, so it is shared by every server process and released if one dies
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('auction'), ${auctionId})`);
+      return fn();
+    });
+  }
+
   async getAuctionsWithBidsByDealer(dealerId: number): Promise<AuctionWithDetails[]> {
     // Get all bids by this dealer
     const dealerBids = await db
       .select()
       .from(bids)
-      .where(eq(bids.dealerId, dealerId));
+      .where(and(eq(bids.dealerId, dealerId), isNull(bids.voidedAt)));
     
     // Extract unique auction IDs
-    const auctionIds = [...new Set(dealerBids.map(bid => bid.auctionId))];
+    const auctionIds = Array.from(new Set(dealerBids.map(bid => bid.auctionId)));
     
     if (auctionIds.length === 0) return [];
     
@@ -2153,7 +3328,7 @@ export class DatabaseStorage implements IStorage {
   async markMessageAsRead(messageId: number, userId: number): Promise<Message | undefined> {
     const [updatedMessage] = await db
       .update(messages)
-      .set({ read: true })
+      .set({ read: true, readAt: sql`coalesce(${messages.readAt}, now())` })
       .where(and(
         eq(messages.id, messageId),
         eq(messages.receiverId, userId)
@@ -2163,6 +3338,19 @@ export class DatabaseStorage implements IStorage {
     return updatedMessage;
   }
 
+  async markThreadAsRead(receiverId: number, senderId: number, auctionId: number | null): Promise<Message[]> {
+    return db
+      .update(messages)
+      .set({ read: true, readAt: new Date() })
+      .where(and(
+        eq(messages.receiverId, receiverId),
+        eq(messages.senderId, senderId),
+        auctionId === null ? isNull(messages.auctionId) : eq(messages.auctionId, auctionId),
+        eq(messages.read, false)
+      ))
+      .returning();
+  }
+
   async getUnreadMessageCount(userId: number): Promise<number> {
     const unreadMessages = await db
       .select()
@@ -2210,12 +3398,339 @@ export class DatabaseStorage implements IStorage {
     return updatedNotification;
   }
 
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(userId: number, input: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const values = { ...input, updatedAt: new Date() };
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return preferences;
+  }
+
+  // Review methods
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    const [review] = await db
+      .insert(reviews)
+      .values(insertReview)
+      .returning();
+    return review;
+  }
+
+  async getReviewsByRevieweeId(revieweeId: number): Promise<Review[]> {
+    return db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.revieweeId, revieweeId))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async getReviewsByAuctionId(auctionId: number): Promise<Review[]> {
+    return db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.auctionId, auctionId));
+  }
+
+  // Auction history methods
+  async createAuctionHistoryEntry(insertEntry: InsertAuctionHistoryEntry): Promise<AuctionHistoryEntry> {
+    const [entry] = await db
+      .insert(auctionHistory)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getAuctionHistory(auctionId: number): Promise<AuctionHistoryEntry[]> {
+    return db
+      .select()
+      .from(auctionHistory)
+      .where(eq(auctionHistory.auctionId, auctionId))
+      .orderBy(auctionHistory.id);
+  }
+
+  // Admin audit log methods
+  async createAdminAuditEntry(insertEntry: InsertAdminAuditEntry): Promise<AdminAuditEntry> {
+    const [entry] = await db
+      .insert(adminAuditLog)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getAdminAuditLog(limit: number): Promise<AdminAuditEntry[]> {
+    return db
+      .select()
+      .from(adminAuditLog)
+      .orderBy(desc(adminAuditLog.id))
+      .limit(limit);
+  }
+
+  // Dealership methods
+  async createDealership(insertDealership: InsertDealership): Promise<Dealership> {
+    const [dealership] = await db
+      .insert(dealerships)
+      .values(insertDealership)
+      .returning();
+    return dealership;
+  }
+
+  async getDealership(id: number): Promise<Dealership | undefined> {
+    const [dealership] = await db.select().from(dealerships).where(eq(dealerships.id, id));
+    return dealership;
+  }
+
+  async updateDealership(id: number, dealershipData: Partial<Dealership>): Promise<Dealership | undefined> {
+    const [updatedDealership] = await db
+      .update(dealerships)
+      .set(dealershipData)
+      .where(eq(dealerships.id, id))
+      .returning();
+    return updatedDealership;
+  }
+
+  async createDealershipMember(insertMember: InsertDealershipMember): Promise<DealershipMember> {
+    const [member] = await db
+      .insert(dealershipMembers)
+      .values(insertMember)
+      .returning();
+    return member;
+  }
+
+  async getDealershipMemberByUserId(userId: number): Promise<DealershipMember | undefined> {
+    const [member] = await db.select().from(dealershipMembers).where(eq(dealershipMembers.userId, userId));
+    return member;
+  }
+
+  async getDealershipMembers(dealershipId: number): Promise<DealershipMember[]> {
+    return db
+      .select()
+      .from(dealershipMembers)
+      .where(and(eq(dealershipMembers.dealershipId, dealershipId), isNull(dealershipMembers.removedAt)))
+      .orderBy(dealershipMembers.id);
+  }
+
+  async updateDealershipMember(userId: number, memberData: Partial<DealershipMember>): Promise<DealershipMember | undefined> {
+    const [updatedMember] = await db
+      .update(dealershipMembers)
+      .set(memberData)
+      .where(eq(dealershipMembers.userId, userId))
+      .returning();
+    return updatedMember;
+  }
+
+  async removeDealershipMember(userId: number): Promise<boolean> {
+    const removed = await db
+      .update(dealershipMembers)
+      .set({ removedAt: new Date() })
+      .where(and(eq(dealershipMembers.userId, userId), isNull(dealershipMembers.removedAt)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Saved search methods
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [search] = await db
+      .insert(savedSearches)
+      .values(insertSearch)
+      .returning();
+    return search;
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search;
+  }
+
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(savedSearches.id);
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return db.select().from(savedSearches);
+  }
+
+  async updateSavedSearch(id: number, searchData: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const [search] = await db
+      .update(savedSearches)
+      .set(searchData)
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return search;
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    await db.delete(savedSearchMatches).where(eq(savedSearchMatches.savedSearchId, id));
+    const deleted = await db
+      .delete(savedSearches)
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async recordSavedSearchMatch(savedSearchId: number, auctionId: number, emailPending: boolean): Promise<SavedSearchMatch | undefined> {
+    // The unique index makes concurrent calls for the same listing insert at most one row
+    const [match] = await db
+      .insert(savedSearchMatches)
+      .values({ savedSearchId, auctionId, emailPending })
+      .onConflictDoNothing()
+      .returning();
+    return match;
+  }
+
+  async getPendingEmailMatches(): Promise<SavedSearchMatch[]> {
+    return db
+      .select()
+      .from(savedSearchMatches)
+      .where(eq(savedSearchMatches.emailPending, true))
+      .orderBy(savedSearchMatches.id);
+  }
+
+  async markMatchesEmailed(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(savedSearchMatches)
+      .set({ emailPending: false })
+      .where(inArray(savedSearchMatches.id, ids));
+  }
+
+  // Watchlist methods
+  async addToWatchlist(userId: number, auctionId: number): Promise<WatchlistEntry> {
+    const [created] = await db
+      .insert(watchlistEntries)
+      .values({ userId, auctionId })
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(watchlistEntries)
+      .where(and(eq(watchlistEntries.userId, userId), eq(watchlistEntries.auctionId, auctionId)));
+    return existing;
+  }
+
+  async removeFromWatchlist(userId: number, auctionId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(watchlistEntries)
+      .where(and(eq(watchlistEntries.userId, userId), eq(watchlistEntries.auctionId, auctionId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+    return db
+      .select()
+      .from(watchlistEntries)
+      .where(eq(watchlistEntries.userId, userId))
+      .orderBy(desc(watchlistEntries.id));
+  }
+
+  async claimEndingSoonNotifications(auctionId: number): Promise<WatchlistEntry[]> {
+    // A single conditional update, so a timer and a concurrent reschedule cannot both claim an entry
+    return db
+      .update(watchlistEntries)
+      .set({ endingSoonNotifiedAt: new Date() })
+      .where(and(eq(watchlistEntries.auctionId, auctionId), isNull(watchlistEntries.endingSoonNotifiedAt)))
+      .returning();
+  }
+
+  // Live event log methods
+  async recordUserEvent(userId: number, type: string, data: unknown): Promise<UserEvent> {
+    // Increment-and-return in one statement, so concurrent events for a user never share a number
+    const [counter] = await db
+      .update(users)
+      .set({ lastEventSeq: sql`${users.lastEventSeq} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ seq: users.lastEventSeq });
+    if (!counter) {
+      throw new Error(`Cannot record an event for unknown user ${userId}`);
+    }
+
+    const [event] = await db
+      .insert(userEvents)
+      .values({ userId, seq: counter.seq, type, data })
+      .returning();
+    return event;
+  }
+
+  async getUserEventsAfter(userId: number, afterSeq: number, limit: number): Promise<UserEvent[]> {
+    return db
+      .select()
+      .from(userEvents)
+      .where(and(eq(userEvents.userId, userId), gt(userEvents.seq, afterSeq)))
+      .orderBy(userEvents.seq)
+      .limit(limit);
+  }
+
+  async deleteUserEventsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(userEvents)
+      .where(lt(userEvents.createdAt, cutoff))
+      .returning({ id: userEvents.id });
+    return deleted.length;
+  }
+
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await db
+      .insert(authTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getAuthTokenByHash(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.tokenHash, tokenHash), eq(authTokens.purpose, purpose)));
+    return token;
+  }
+
+  async markAuthTokenUsed(id: number): Promise<AuthToken | undefined> {
+    // Conditional update so two requests racing with the same token cannot both redeem it
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.id, id), isNull(authTokens.usedAt)))
+      .returning();
+    return token;
+  }
+
+  async invalidateAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      ));
+  }
+
   // Data management - not needed for DB implementation
   resetIds(): void {
     // No action needed, database handles IDs
   }
 
   // Helper methods
+  async hashPassword(password: string): Promise<string> {
+    return hashPassword(password);
+  }
+
   async comparePasswords(supplied: string, stored: string): Promise<boolean> {
     return comparePasswords(supplied, stored);
   }
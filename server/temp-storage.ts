@@ -413,6 +413,9 @@ export class MemStorage implements IStorage {
     const bid: Bid = { 
       id,
       ...insertBid,
+      maxAmount: insertBid.maxAmount ?? null,
+      isProxy: insertBid.isProxy ?? false,
+      voidedAt: null,
       createdAt: new Date()
     };
     
@@ -0,0 +1,96 @@
+// Helpers for the server tests (`npm test`). They run against the in-memory storage, so no database is needed.
+
+import express, { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import { createServer, RequestListener } from "http";
+import { AddressInfo } from "net";
+import { storage, MemStorage } from "./storage";
+import { Auction, InsertMotorcycle, User } from "@shared/schema";
+
+/**
+ * Points the shared `storage` at a fresh MemStorage, so modules that import it (routes, bidding, lifecycle)
+ * read and write memory instead of Postgres. Returns the store for direct setup and assertions.
+ */
+export function useMemoryStorage(): MemStorage {
+  const memory = new MemStorage();
+
+  for (const name of Object.getOwnPropertyNames(MemStorage.prototype)) {
+    const member = (memory as any)[name];
+    if (name !== "constructor" && typeof member === "function") {
+      (storage as any)[name] = member.bind(memory);
+    }
+  }
+  Object.defineProperty(storage, "sessionStore", { value: memory.sessionStore });
+
+  return memory;
+}
+
+let testUserCount = 0;
+
+// A verified dealer with a unique username and email; `changes` overrides any field
+export async function createTestUser(changes: Partial<User> = {}): Promise<User> {
+  testUserCount++;
+  const user = await storage.createUser({
+    username: `test-dealer-${testUserCount}`,
+    password: "not-used",
+    email: `test-dealer-${testUserCount}@example.com`,
+    companyName: `Test Motorcycles ${testUserCount}`,
+    role: "dealer",
+  });
+  return (await storage.updateUser(user.id, { emailVerified: true, ...changes }))!;
+}
+
+/**
+ * An active open auction of a test motorcycle ending tomorrow, bidding in £50 steps.
+ * `changes` and `motorcycleChanges` override any field of the auction and motorcycle.
+ */
+export async function createTestAuction(
+  sellerId: number,
+  changes: Partial<Auction> = {},
+  motorcycleChanges: Partial<InsertMotorcycle> = {}
+): Promise<Auction> {
+  const motorcycle = await storage.createMotorcycle({
+    dealerId: sellerId,
+    make: "Honda",
+    model: "CB500F",
+    year: 2021,
+    ...motorcycleChanges
+  });
+  const auction = await storage.createAuction({
+    motorcycleId: motorcycle.id,
+    dealerId: sellerId,
+    startTime: new Date(),
+    endTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    auctionType: "open",
+    visibilityType: "all",
+    bidIncrement: 50,
+  });
+  return (await storage.updateAuction(auction.id, { status: "active", ...changes }))!;
+}
+
+/**
+ * Express app for route tests. Requests are signed in as `signedInAs()` (or signed out when it returns
+ * undefined), standing in for passport's session login.
+ */
+export function createTestApp(signedInAs: () => User | undefined, bodyParser: RequestHandler = express.json()): Express {
+  const app = express();
+  app.use(bodyParser);
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    const user = signedInAs();
+    req.user = user;
+    req.isAuthenticated = (() => !!user) as Request["isAuthenticated"];
+    next();
+  });
+  return app;
+}
+
+// Serves a request handler (an Express app or a bare function) on a free local port
+export async function listen(handler: RequestListener): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
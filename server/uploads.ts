@@ -0,0 +1,107 @@
+import express, { Express, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { isAuthenticated } from "./auth";
+import { imageStorage, UPLOADS_DIR, UPLOADS_PUBLIC_PATH } from "./image-storage";
+import { MAX_MOTORCYCLE_IMAGES } from "@shared/schema";
+
+const MAX_IMAGE_SIZE = 15 * 1024 * 1024; // 15MB per image
+
+// Sizes generated for every uploaded image (longest edge in pixels)
+const IMAGE_VARIANTS = {
+  full: { width: 2048, height: 2048, fit: "inside" as const, quality: 85 },
+  web: { width: 1280, height: 1280, fit: "inside" as const, quality: 80 },
+  thumb: { width: 400, height: 300, fit: "cover" as const, quality: 75 },
+};
+
+type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export interface UploadedImage {
+  url: string; // web-sized image, stored in motorcycles.images
+  fullUrl: string;
+  thumbnailUrl: string;
+}
+
+// Keep uploads in memory until sharp has re-encoded them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMAGE_SIZE,
+    files: MAX_MOTORCYCLE_IMAGES,
+  },
+  fileFilter: (req, file, callback) => {
+    callback(null, file.mimetype.startsWith("image/"));
+  },
+});
+
+/**
+ * Generate the full, web and thumbnail variants of an uploaded image.
+ * Images are auto-rotated and re-encoded without metadata, which drops EXIF GPS location.
+ */
+async function processImage(data: Buffer): Promise<UploadedImage> {
+  const imageId = randomUUID();
+
+  const saveVariant = async (variant: ImageVariant) => {
+    const options = IMAGE_VARIANTS[variant];
+    const output = await sharp(data)
+      .rotate()
+      .resize({ width: options.width, height: options.height, fit: options.fit, withoutEnlargement: true })
+      .jpeg({ quality: options.quality, mozjpeg: true })
+      .toBuffer();
+
+    return imageStorage.save(`motorcycles/${imageId}/${variant}.jpg`, output, "image/jpeg");
+  };
+
+  return {
+    fullUrl: await saveVariant("full"),
+    url: await saveVariant("web"),
+    thumbnailUrl: await saveVariant("thumb"),
+  };
+}
+
+// Turn multer limit errors into 400 responses
+const receiveImages = (req: Request, res: Response, next: NextFunction) => {
+  upload.array("images", MAX_MOTORCYCLE_IMAGES)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Images must be smaller than ${MAX_IMAGE_SIZE / (1024 * 1024)}MB`
+        : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+          ? `You can upload a maximum of ${MAX_MOTORCYCLE_IMAGES} images per motorcycle`
+          : error.message;
+      return res.status(400).json({ message });
+    }
+    next(error);
+  });
+};
+
+// Register image upload routes and serve stored images
+export function setupUploadRoutes(app: Express) {
+  // Uploaded files never change, so they can be cached aggressively
+  app.use(UPLOADS_PUBLIC_PATH, express.static(UPLOADS_DIR, { maxAge: "30d", immutable: true }));
+
+  // Upload one or more motorcycle images (multipart field "images")
+  app.post("/api/uploads/motorcycle-images", isAuthenticated, receiveImages, async (req, res, next) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No images were uploaded" });
+      }
+
+      const images: UploadedImage[] = [];
+      for (const file of files) {
+        try {
+          images.push(await processImage(file.buffer));
+        } catch (error) {
+          console.error(`Failed to process image ${file.originalname}:`, error);
+          return res.status(400).json({ message: `${file.originalname} is not a supported image` });
+        }
+      }
+
+      res.status(201).json({ images });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,171 @@
+import { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { requirePlan } from "./billing";
+import { requireDealershipPermission, isDealershipMember } from "./dealerships";
+import { VEHICLE_HISTORY_FIXTURES } from "./data/vehicle-history";
+import {
+  Motorcycle,
+  VehicleCheckResult,
+  WriteOffCategory,
+  WRITE_OFF_CATEGORIES,
+  normaliseRegNumber
+} from "@shared/schema";
+
+// What a provider knows about a registration
+export interface VehicleHistory {
+  reference: string | null;
+  outstandingFinance: boolean;
+  stolen: boolean;
+  writeOffCategory: WriteOffCategory | null;
+  mileageReadings: number[]; // odometer readings from MOTs and services
+}
+
+// Source of vehicle history data. Swap implementations without touching the code that runs checks.
+export interface VehicleCheckProvider {
+  readonly name: string;
+  // Resolves to null when the provider has no record of the registration
+  getHistory(regNumber: string): Promise<VehicleHistory | null>;
+}
+
+export class VehicleCheckError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502,
+    readonly code = "vehicle_check_unavailable"
+  ) {
+    super(message);
+    this.name = "VehicleCheckError";
+  }
+}
+
+// Response body of the history API's GET /vehicles/:reg
+interface HttpVehicleHistoryResponse {
+  reportId?: string;
+  finance?: { outstanding?: boolean };
+  stolen?: boolean;
+  writeOff?: { category?: string } | null;
+  mileage?: { reading: number }[];
+}
+
+/**
+ * Queries an HPI-style vehicle history JSON API
+ */
+export class HttpVehicleCheckProvider implements VehicleCheckProvider {
+  readonly name = "hpi";
+
+  constructor(private baseUrl: string, private apiKey: string) {}
+
+  async getHistory(regNumber: string): Promise<VehicleHistory | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/vehicles/${encodeURIComponent(regNumber)}`, {
+        headers: { "x-api-key": this.apiKey, accept: "application/json" }
+      });
+    } catch (error) {
+      console.error("Vehicle check: request failed:", error);
+      throw new VehicleCheckError("The vehicle check service is unavailable - please try again later");
+    }
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      console.error(`Vehicle check: provider responded ${response.status}`);
+      throw new VehicleCheckError("The vehicle check service is unavailable - please try again later");
+    }
+
+    const body = await response.json() as HttpVehicleHistoryResponse;
+    const category = body.writeOff?.category?.toUpperCase();
+
+    return {
+      reference: body.reportId ?? null,
+      outstandingFinance: !!body.finance?.outstanding,
+      stolen: !!body.stolen,
+      writeOffCategory: WRITE_OFF_CATEGORIES.find(known => known === category) ?? null,
+      mileageReadings: (body.mileage || []).map(entry => entry.reading).filter(Number.isFinite)
+    };
+  }
+}
+
+/**
+ * Development and test provider: answers from the fixtures in data/vehicle-history.
+ * Unknown registrations come back clean.
+ */
+export class FakeVehicleCheckProvider implements VehicleCheckProvider {
+  readonly name = "fake";
+
+  async getHistory(regNumber: string): Promise<VehicleHistory | null> {
+    const fixture = VEHICLE_HISTORY_FIXTURES[regNumber] || {};
+
+    return {
+      reference: `FAKE-${regNumber}`,
+      outstandingFinance: !!fixture.outstandingFinance,
+      stolen: !!fixture.stolen,
+      writeOffCategory: fixture.writeOffCategory ?? null,
+      mileageReadings: fixture.mileageReadings || []
+    };
+  }
+}
+
+// Use the real provider when it is configured, otherwise answer from fixtures
+export const vehicleCheckProvider: VehicleCheckProvider = process.env.VEHICLE_CHECK_API_URL && process.env.VEHICLE_CHECK_API_KEY
+  ? new HttpVehicleCheckProvider(process.env.VEHICLE_CHECK_API_URL, process.env.VEHICLE_CHECK_API_KEY)
+  : new FakeVehicleCheckProvider();
+
+/**
+ * Run a history check on a motorcycle's registration and store the result on it
+ * @returns The updated motorcycle
+ */
+export async function runVehicleCheck(
+  motorcycle: Motorcycle,
+  provider: VehicleCheckProvider = vehicleCheckProvider
+): Promise<Motorcycle> {
+  const regNumber = normaliseRegNumber(motorcycle.regNumber || "");
+  if (!regNumber) {
+    throw new VehicleCheckError("Add the registration number before running a vehicle check", 400, "reg_number_required");
+  }
+
+  const history = await provider.getHistory(regNumber);
+  if (!history) {
+    throw new VehicleCheckError(`No vehicle history was found for ${regNumber}`, 404, "vehicle_not_found");
+  }
+
+  const highestRecordedMileage = history.mileageReadings.length > 0 ? Math.max(...history.mileageReadings) : null;
+  const vehicleCheck: VehicleCheckResult = {
+    provider: provider.name,
+    reference: history.reference,
+    regNumber,
+    checkedAt: new Date().toISOString(),
+    outstandingFinance: history.outstandingFinance,
+    stolen: history.stolen,
+    writeOffCategory: history.writeOffCategory,
+    // The listing can't honestly show fewer miles than have already been recorded
+    mileageDiscrepancy: highestRecordedMileage !== null && highestRecordedMileage > motorcycle.mileage,
+    highestRecordedMileage
+  };
+
+  const updated = await storage.updateMotorcycle(motorcycle.id, { vehicleCheck });
+  return updated ?? { ...motorcycle, vehicleCheck };
+}
+
+// Register vehicle check routes
+export function setupVehicleCheckRoutes(app: Express) {
+  // Run (or re-run) the history check for one of the dealership's motorcycles
+  app.post(
+    "/api/motorcycles/:id/vehicle-check",
+    isAuthenticated,
+    requirePlan("pro"),
+    requireDealershipPermission("list"),
+    async (req, res, next) => {
+      try {
+        const motorcycle = await storage.getMotorcycle(parseInt(req.params.id, 10));
+        if (!motorcycle || !await isDealershipMember(req.membership!.dealershipId, motorcycle.dealerId)) {
+          return res.status(404).json({ message: "Motorcycle not found" });
+        }
+
+        res.json(await runVehicleCheck(motorcycle));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+}
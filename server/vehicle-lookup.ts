@@ -0,0 +1,133 @@
+import { Express } from "express";
+import { isAuthenticated } from "./auth";
+import { requireDealershipPermission } from "./dealerships";
+import { VEHICLE_REGISTRATION_FIXTURES } from "./data/vehicle-registrations";
+import { formatRegNumber, normaliseRegNumber } from "@shared/schema";
+
+// What the registration data tells us about a vehicle, used to prefill a listing
+export interface VehicleDetails {
+  regNumber: string; // formatted as on the plate
+  make: string;
+  model: string | null; // not every source knows the model
+  year: number | null;
+  engineCapacity: number | null; // cc
+  colour: string | null;
+}
+
+// Source of registration data. Swap implementations without touching the lookup route.
+export interface VehicleDataProvider {
+  readonly name: string;
+  // Resolves to null when there is no vehicle with that registration
+  lookup(regNumber: string): Promise<VehicleDetails | null>;
+}
+
+export class VehicleLookupError extends Error {
+  readonly status = 502;
+  readonly code = "vehicle_lookup_unavailable";
+
+  constructor(message = "Registration lookup is unavailable - please enter the details by hand") {
+    super(message);
+    this.name = "VehicleLookupError";
+  }
+}
+
+// Response body of the DVLA Vehicle Enquiry Service
+interface DvlaVehicleResponse {
+  registrationNumber: string;
+  make?: string;
+  yearOfManufacture?: number;
+  engineCapacity?: number;
+  colour?: string;
+}
+
+/**
+ * Looks registrations up with the DVLA Vehicle Enquiry Service
+ */
+export class DvlaVehicleDataProvider implements VehicleDataProvider {
+  readonly name = "dvla";
+
+  constructor(
+    private apiKey: string,
+    private baseUrl = "https://driver-vehicle-licensing.api.gov.uk/vehicle-enquiry/v1"
+  ) {}
+
+  async lookup(regNumber: string): Promise<VehicleDetails | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/vehicles`, {
+        method: "POST",
+        headers: { "x-api-key": this.apiKey, "content-type": "application/json" },
+        body: JSON.stringify({ registrationNumber: normaliseRegNumber(regNumber) })
+      });
+    } catch (error) {
+      console.error("Vehicle lookup: request failed:", error);
+      throw new VehicleLookupError();
+    }
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      console.error(`Vehicle lookup: DVLA responded ${response.status}`);
+      throw new VehicleLookupError();
+    }
+
+    const body = await response.json() as DvlaVehicleResponse;
+    if (!body.make) return null;
+
+    return {
+      regNumber: formatRegNumber(body.registrationNumber) ?? regNumber,
+      make: body.make,
+      model: null,
+      year: body.yearOfManufacture ?? null,
+      engineCapacity: body.engineCapacity ?? null,
+      colour: body.colour ?? null
+    };
+  }
+}
+
+/**
+ * Development and test provider: answers from the fixtures in data/vehicle-registrations
+ */
+export class FixtureVehicleDataProvider implements VehicleDataProvider {
+  readonly name = "fixture";
+
+  async lookup(regNumber: string): Promise<VehicleDetails | null> {
+    const fixture = VEHICLE_REGISTRATION_FIXTURES[normaliseRegNumber(regNumber)];
+    if (!fixture) return null;
+
+    return {
+      regNumber: formatRegNumber(regNumber) ?? regNumber,
+      make: fixture.make,
+      model: fixture.model ?? null,
+      year: fixture.yearOfManufacture,
+      engineCapacity: fixture.engineCapacity ?? null,
+      colour: fixture.colour
+    };
+  }
+}
+
+// Use the DVLA when it is configured, otherwise answer from fixtures
+export const vehicleDataProvider: VehicleDataProvider = process.env.DVLA_API_KEY
+  ? new DvlaVehicleDataProvider(process.env.DVLA_API_KEY, process.env.DVLA_API_URL)
+  : new FixtureVehicleDataProvider();
+
+// Register registration lookup routes
+export function setupVehicleLookupRoutes(app: Express) {
+  // Details for a registration, used to prefill a new listing
+  app.get("/api/vehicle-lookup/:reg", isAuthenticated, requireDealershipPermission("list"), async (req, res, next) => {
+    try {
+      const regNumber = formatRegNumber(req.params.reg);
+      if (!regNumber) {
+        return res.status(400).json({ message: "Enter a valid UK registration, e.g. AB12 CDE", code: "invalid_reg_number" });
+      }
+
+      const vehicle = await vehicleDataProvider.lookup(regNumber);
+      if (!vehicle) {
+        return res.status(404).json({ message: `We couldn't find a vehicle registered ${regNumber}`, code: "vehicle_not_found" });
+      }
+
+      res.json(vehicle);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
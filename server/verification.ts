@@ -0,0 +1,279 @@
+import { Express, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { isAdmin } from "./admin-routes";
+import { notify } from "./notifications";
+import { LocalDiskImageStorage } from "./image-storage";
+import {
+  User,
+  VERIFICATION_STATUSES,
+  VerificationStatus,
+  MAX_VERIFICATION_DOCUMENTS,
+  verificationSubmissionSchema,
+  verificationRejectionSchema
+} from "@shared/schema";
+import { VerificationSummary } from "@shared/types";
+
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB per document
+
+// Proof documents are private, so they live outside the public uploads directory
+// and are only served through an authenticated route
+export const VERIFICATION_DOCS_DIR = process.env.VERIFICATION_DOCS_DIR || path.resolve(process.cwd(), "verification-documents");
+const DOCUMENTS_PUBLIC_PATH = "/api/verification/documents";
+const documentStorage = new LocalDiskImageStorage(VERIFICATION_DOCS_DIR, DOCUMENTS_PUBLIC_PATH);
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+};
+
+const DOCUMENT_FILENAME = /^[0-9a-f-]{36}\.(pdf|jpg|png)$/;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_DOCUMENT_SIZE,
+    files: MAX_VERIFICATION_DOCUMENTS,
+  },
+  fileFilter: (req, file, callback) => {
+    callback(null, file.mimetype in DOCUMENT_EXTENSIONS);
+  },
+});
+
+// Turn multer limit errors into 400 responses
+const receiveDocuments = (req: Request, res: Response, next: NextFunction) => {
+  upload.array("documents", MAX_VERIFICATION_DOCUMENTS)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Documents must be smaller than ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB`
+        : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+          ? `You can upload a maximum of ${MAX_VERIFICATION_DOCUMENTS} documents`
+          : error.message;
+      return res.status(400).json({ message });
+    }
+    next(error);
+  });
+};
+
+// Whether a user may trade (bid and list). Admins are never blocked.
+export function isVerifiedDealer(user: Pick<User, "role" | "verificationStatus">): boolean {
+  return user.role === "admin" || user.verificationStatus === "verified";
+}
+
+/**
+ * Middleware that blocks unverified dealers from trading actions.
+ * Use after isAuthenticated; unverified dealers can still browse.
+ */
+export const requireVerifiedDealer = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  if (!isVerifiedDealer(req.user as User)) {
+    return res.status(403).json({
+      message: req.user.verificationStatus === "rejected"
+        ? "Your trade verification was rejected. Please update your company details to bid or list."
+        : "Your account is awaiting trade verification. You can bid and list once it has been approved.",
+      code: "verification_required",
+      verificationStatus: req.user.verificationStatus
+    });
+  }
+
+  next();
+};
+
+// The verification details shown to the dealer themselves and to admins
+function toVerificationSummary(user: User): VerificationSummary {
+  return {
+    userId: user.id,
+    username: user.username,
+    companyName: user.companyName,
+    email: user.email,
+    status: user.verificationStatus,
+    vatNumber: user.vatNumber,
+    companyNumber: user.companyNumber,
+    documents: user.verificationDocuments || [],
+    submittedAt: user.verificationSubmittedAt,
+    reviewedAt: user.verificationReviewedAt,
+    notes: user.verificationNotes
+  };
+}
+
+// Tell a dealer their verification has been decided, in real time and however else they've asked to hear
+async function notifyVerificationDecision(user: User) {
+  const content = user.verificationStatus === "verified"
+    ? "Your company has been verified. You can now bid and list motorcycles."
+    : `Your trade verification was rejected: ${user.verificationNotes}`;
+
+  await notify({
+    userId: user.id,
+    type: "verification_updated",
+    content,
+    relatedId: null,
+    event: {
+      type: "verification_updated",
+      data: { status: user.verificationStatus, notes: user.verificationNotes },
+      timestamp: Date.now()
+    }
+  });
+}
+
+/**
+ * Record a verification decision for a dealer and everyone else in their dealership,
+ * since staff trade under the dealership's verification
+ */
+async function applyVerificationDecision(dealer: User, decision: Partial<User>): Promise<User> {
+  const membership = await storage.getDealershipMemberByUserId(dealer.id);
+  const members = membership && !membership.removedAt ? await storage.getDealershipMembers(membership.dealershipId) : [];
+  const staffIds = members.map(member => member.userId).filter(userId => userId !== dealer.id);
+
+  const updatedDealer = await storage.updateUser(dealer.id, decision);
+  await notifyVerificationDecision(updatedDealer!);
+
+  for (const userId of staffIds) {
+    const updatedStaff = await storage.updateUser(userId, {
+      verificationStatus: decision.verificationStatus,
+      verificationNotes: decision.verificationNotes
+    });
+    if (updatedStaff) await notifyVerificationDecision(updatedStaff);
+  }
+
+  return updatedDealer!;
+}
+
+// Register dealer verification routes and the admin review queue
+export function setupVerificationRoutes(app: Express) {
+  // The current dealer's verification status and submitted details
+  app.get("/api/verification", isAuthenticated, async (req, res) => {
+    res.json(toVerificationSummary(req.user as User));
+  });
+
+  // Submit (or resubmit after a rejection) company details and proof documents
+  app.post("/api/verification", isAuthenticated, receiveDocuments, async (req, res, next) => {
+    try {
+      const user = req.user as User;
+
+      if (user.verificationStatus === "verified") {
+        return res.status(409).json({ message: "Your company is already verified" });
+      }
+
+      const validationResult = verificationSubmissionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: validationResult.error.errors[0]?.message || "Invalid verification details",
+          errors: validationResult.error.format()
+        });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0 && !user.verificationDocuments?.length) {
+        return res.status(400).json({ message: "Upload at least one proof document (PDF, JPEG or PNG)" });
+      }
+
+      // New uploads replace any documents from an earlier submission
+      const documents = files.length > 0
+        ? await Promise.all(files.map(file =>
+            documentStorage.save(`${user.id}/${randomUUID()}${DOCUMENT_EXTENSIONS[file.mimetype]}`, file.buffer, file.mimetype)))
+        : user.verificationDocuments;
+
+      const updatedUser = await storage.updateUser(user.id, {
+        verificationStatus: "pending_verification",
+        companyNumber: validationResult.data.companyNumber,
+        vatNumber: validationResult.data.vatNumber ?? null,
+        verificationDocuments: documents,
+        verificationSubmittedAt: new Date(),
+        verificationReviewedAt: null,
+        verificationReviewedBy: null,
+        verificationNotes: null
+      });
+
+      res.json(toVerificationSummary(updatedUser!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Serve a proof document to the dealer who uploaded it or an admin
+  app.get(`${DOCUMENTS_PUBLIC_PATH}/:userId/:filename`, isAuthenticated, (req, res) => {
+    const userId = parseInt(req.params.userId, 10);
+    const { filename } = req.params;
+
+    if (req.user!.id !== userId && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Not authorized to view this document" });
+    }
+
+    if (!DOCUMENT_FILENAME.test(filename)) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+
+    res.sendFile(path.join(VERIFICATION_DOCS_DIR, String(userId), filename), error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: "Document not found" });
+      }
+    });
+  });
+
+  // Admin review queue, pending submissions by default
+  app.get("/api/admin/verifications", isAdmin, async (req, res, next) => {
+    try {
+      const status = (req.query.status as VerificationStatus) || "pending_verification";
+      if (!VERIFICATION_STATUSES.includes(status)) {
+        return res.status(400).json({ message: "Invalid verification status" });
+      }
+
+      const dealers = await storage.getUsersByVerificationStatus(status);
+      res.json(dealers.map(toVerificationSummary));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/verifications/:userId/approve", isAdmin, async (req, res, next) => {
+    try {
+      const dealer = await storage.getUser(parseInt(req.params.userId, 10));
+      if (!dealer || dealer.role !== "dealer") {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+
+      const updatedDealer = await applyVerificationDecision(dealer, {
+        verificationStatus: "verified",
+        verificationReviewedAt: new Date(),
+        verificationReviewedBy: req.user!.id,
+        verificationNotes: null
+      });
+
+      res.json(toVerificationSummary(updatedDealer));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/verifications/:userId/reject", isAdmin, async (req, res, next) => {
+    try {
+      const validationResult = verificationRejectionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "A reason is required" });
+      }
+
+      const dealer = await storage.getUser(parseInt(req.params.userId, 10));
+      if (!dealer || dealer.role !== "dealer") {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+
+      const updatedDealer = await applyVerificationDecision(dealer, {
+        verificationStatus: "rejected",
+        verificationReviewedAt: new Date(),
+        verificationReviewedBy: req.user!.id,
+        verificationNotes: validationResult.data.reason
+      });
+
+      res.json(toVerificationSummary(updatedDealer));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
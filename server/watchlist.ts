@@ -0,0 +1,111 @@
+import { Express } from "express";
+import { storage, AuctionWithDetails } from "./storage";
+import { isAuthenticated } from "./auth";
+import { notify } from "./notifications";
+import { redactAuctionForViewer } from "./bidding";
+import { User } from "@shared/schema";
+
+// How long before an auction ends its watchers are alerted
+export const ENDING_SOON_WINDOW = 15 * 60 * 1000;
+
+/**
+ * Tell everyone watching an auction that it is about to end. Called by the auction
+ * scheduler, and when a watch is added after the alert has gone out; each watcher is
+ * only alerted once, even if the end time is extended.
+ */
+export async function notifyWatchersEndingSoon(auctionId: number): Promise<void> {
+  const auction = await storage.getAuctionWithDetails(auctionId);
+  if (!auction || auction.status !== "active") return;
+
+  const entries = await storage.claimEndingSoonNotifications(auctionId);
+  if (entries.length === 0) return;
+
+  const motorcycleName = `${auction.motorcycle.make} ${auction.motorcycle.model}`;
+  const minutesLeft = Math.max(1, Math.round((new Date(auction.endTime).getTime() - Date.now()) / 60000));
+
+  for (const entry of entries) {
+    try {
+      await notify({
+        userId: entry.userId,
+        type: "auction_ending",
+        content: `The auction for ${motorcycleName} on your watchlist ends in ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"}`,
+        relatedId: auctionId,
+        event: {
+          type: "auction_ending",
+          data: {
+            auctionId,
+            motorcycleName,
+            endTime: auction.endTime,
+            minutesLeft
+          },
+          timestamp: Date.now()
+        }
+      });
+    } catch (error) {
+      console.error(`Watchlist: failed to alert user ${entry.userId} about auction ${auctionId}:`, error);
+    }
+  }
+}
+
+// Register watchlist routes
+export function setupWatchlistRoutes(app: Express) {
+  // Watched auctions with their details, most recently watched first
+  app.get("/api/watchlist", isAuthenticated, async (req, res, next) => {
+    try {
+      const entries = await storage.getWatchlist(req.user!.id);
+      const auctions = await Promise.all(entries.map(entry => storage.getAuctionWithDetails(entry.auctionId)));
+
+      // Listings removed since they were watched are left out
+      res.json(auctions
+        .filter((auction): auction is AuctionWithDetails => !!auction)
+        .map(auction => redactAuctionForViewer(auction, req.user!.id)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/watchlist/:auctionId", isAuthenticated, async (req, res, next) => {
+    try {
+      const auction = await storage.getAuction(parseInt(req.params.auctionId, 10));
+
+      // Auctions the dealer is not allowed to see are treated as missing
+      if (!auction || !await storage.isAuctionVisibleToUser(auction, req.user as User)) {
+        return res.status(404).json({ message: "Auction not found" });
+      }
+
+      if (auction.dealerId === req.user!.id) {
+        return res.status(400).json({ message: "You can't watch your own listing" });
+      }
+
+      if (auction.status !== "active") {
+        return res.status(400).json({ message: "Only live auctions can be watched", code: "auction_not_active" });
+      }
+
+      const entry = await storage.addToWatchlist(req.user!.id, auction.id);
+
+      // The scheduler's alert has already gone out, so a late watcher is alerted straight away
+      if (new Date(auction.endTime).getTime() - Date.now() <= ENDING_SOON_WINDOW) {
+        await notifyWatchersEndingSoon(auction.id).catch(error => {
+          console.error(`Watchlist: failed to alert user ${req.user!.id} about auction ${auction.id}:`, error);
+        });
+      }
+
+      res.status(201).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/watchlist/:auctionId", isAuthenticated, async (req, res, next) => {
+    try {
+      const removed = await storage.removeFromWatchlist(req.user!.id, parseInt(req.params.auctionId, 10));
+      if (!removed) {
+        return res.status(404).json({ message: "That auction is not on your watchlist" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
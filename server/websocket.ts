@@ -1,47 +1,81 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
 import { storage } from './storage';
-import { WSMessage } from '@shared/types';
+import { getSessionUser } from './auth';
+import { WSMessage, WSMessageType, UserPresence } from '@shared/types';
+import { User } from '@shared/schema';
 
-// Map to store connected clients by user ID
-const clients = new Map<number, WebSocket>();
+// Open connections by user ID - one per tab or device
+const clients = new Map<number, Set<WebSocket>>();
+
+// Everything that changes data goes through the REST API, which validates it and sends the resulting
+// events. The socket only carries these client messages.
+const CLIENT_MESSAGE_TYPES = new Set(['register', 'ping', 'typing']);
+
+// Events sent to a user are logged with a per-user sequence number, so a client that reconnects can
+// say which one it saw last and be sent the rest. These only matter as they happen and are never logged.
+const EPHEMERAL_MESSAGE_TYPES = new Set(['typing']);
+
+// Most missed events replayed on reconnect; a client further behind is told to refetch everything
+const MAX_REPLAY_EVENTS = 200;
+
+// Logged events are kept this long, checked hourly
+const EVENT_RETENTION = 7 * 24 * 60 * 60 * 1000;
+const EVENT_PRUNE_INTERVAL = 60 * 60 * 1000;
+
+// Connections that have registered and caught up; only these are sent a user's events
+const liveConnections = new WeakSet<WebSocket>();
+
+// Each user's pending event deliveries and replays, run one at a time so events go out in sequence order
+const deliveryQueues = new Map<number, Promise<void>>();
+
+// Typing indicators relayed at most this often per user; the client sends one every 3s while typing
+const TYPING_RELAY_INTERVAL = 2000;
+const lastTypingRelayAt = new Map<number, number>();
 
 export function setupWebSocket(server: Server) {
-  // Configure WebSocket server with error handling for port conflicts
-  let wss;
-  try {
-    wss = new WebSocketServer({ 
-      server, 
-      path: '/ws',
-      clientTracking: true,
-      // Use simpler configuration for better cross-domain support
-      perMessageDeflate: {
-        zlibDeflateOptions: {
-          chunkSize: 1024,
-          level: 3
-        },
-        zlibInflateOptions: {
-          chunkSize: 10 * 1024
-        },
-        serverNoContextTakeover: true,
-        clientNoContextTakeover: true,
-        threshold: 1024
-      }
-    });
-  } catch (error: any) {
-    console.error('WebSocket server error:', error);
-    if (error.code === 'EADDRINUSE') {
-      console.log('WebSocket port conflict detected, creating simplified server...');
-      // Create a basic WebSocket server without advanced options
-      wss = new WebSocketServer({ 
-        server, 
-        path: '/ws',
-        clientTracking: true
-      });
-    } else {
-      throw error;
+  // Upgrades are handled below so they can be authenticated before the socket is accepted
+  const wss = new WebSocketServer({ 
+    noServer: true,
+    clientTracking: true,
+    // Use simpler configuration for better cross-domain support
+    perMessageDeflate: {
+      zlibDeflateOptions: {
+        chunkSize: 1024,
+        level: 3
+      },
+      zlibInflateOptions: {
+        chunkSize: 10 * 1024
+      },
+      serverNoContextTakeover: true,
+      clientNoContextTakeover: true,
+      threshold: 1024
     }
-  }
+  });
+  
+  // Only signed-in users may connect, and the socket belongs to the user in the session cookie.
+  // Other upgrade paths (e.g. the Vite HMR socket in development) are left to their own handlers.
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') return;
+    
+    getSessionUser(req)
+      .then((user) => {
+        if (!user) {
+          console.log('Rejected unauthenticated WebSocket upgrade');
+          socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        
+        wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, req, user));
+      })
+      .catch((error) => {
+        console.error('Error authenticating WebSocket upgrade:', error);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+        socket.destroy();
+      });
+  });
   
   // Add isAlive property to WebSocket
   function heartbeat(this: WebSocket) {
@@ -63,9 +97,21 @@ export function setupWebSocket(server: Server) {
     });
   }, 20000); // Check more frequently
   
-  // Clean up interval on close
+  // Forget logged events once they are too old to be worth replaying
+  const pruneInterval = setInterval(() => {
+    storage.deleteUserEventsBefore(new Date(Date.now() - EVENT_RETENTION))
+      .then((count) => {
+        if (count > 0) console.log(`Pruned ${count} logged WebSocket events`);
+      })
+      .catch((error) => {
+        console.error('Error pruning logged WebSocket events:', error);
+      });
+  }, EVENT_PRUNE_INTERVAL);
+  
+  // Clean up intervals on close
   wss.on('close', () => {
     clearInterval(interval);
+    clearInterval(pruneInterval);
     console.log('WebSocket server closed');
   });
   
@@ -73,20 +119,27 @@ export function setupWebSocket(server: Server) {
     console.error('WebSocket server error:', error);
   });
   
-  wss.on('connection', (ws, req) => {
+  function handleConnection(ws: WebSocket, req: IncomingMessage, user: User) {
     const clientIp = req.headers['x-forwarded-for'] || 
                      req.socket.remoteAddress || 
                      'unknown';
     const origin = req.headers.origin || 'unknown';
     
-    console.log(`WebSocket connection established - IP: ${clientIp}, Origin: ${origin}`);
-    console.log(`WebSocket headers:`, JSON.stringify(req.headers, null, 2));
+    console.log(`WebSocket connection established for user ${user.id} - IP: ${clientIp}, Origin: ${origin}`);
+    
+    // Bind the connection to the session's user, alongside their other tabs and devices
+    const connections = clients.get(user.id) ?? new Set<WebSocket>();
+    connections.add(ws);
+    clients.set(user.id, connections);
+    if (connections.size === 1) {
+      broadcastPresence({ userId: user.id, online: true, lastSeenAt: null }, user.id);
+    }
     
     // Send immediate welcome message to verify connection
     try {
       ws.send(JSON.stringify({
         type: 'CONNECTED',
-        data: { message: 'Connected to TradeBikes WebSocket server' },
+        data: { message: 'Connected to TradeBikes WebSocket server', userId: user.id },
         timestamp: Date.now()
       }));
       console.log('Sent welcome message to client');
@@ -99,35 +152,32 @@ export function setupWebSocket(server: Server) {
     ws.on('pong', heartbeat);
     
     // Handle incoming messages
-    ws.on('message', async (message) => {
+    ws.on('message', (message) => {
       try {
         const data = JSON.parse(message.toString()) as WSMessage;
-        console.log('Received WebSocket message:', data.type);
+        console.log(`Received WebSocket message from user ${user.id}:`, data.type);
         
-        const userId = data.data?.userId;
-        
-        // Store connection if user ID is provided
-        if (userId) {
-          clients.set(userId, ws);
-          console.log(`User ${userId} connection stored`);
+        if (!CLIENT_MESSAGE_TYPES.has(data.type)) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            data: {
+              message: `'${data.type}' can't be sent over the WebSocket - use the API instead`,
+              code: 'unsupported_message'
+            },
+            timestamp: Date.now()
+          }));
+          return;
         }
         
         // Process message based on type
         switch (data.type) {
-          case 'register':
-            // Handle user registration
-            if (data.data?.userId) {
-              clients.set(data.data.userId, ws);
-              console.log(`User ${data.data.userId} registered with WebSocket`);
-              
-              // Send a confirmation message back
-              ws.send(JSON.stringify({
-                type: 'register_confirmed',
-                data: { userId: data.data.userId },
-                timestamp: Date.now()
-              }));
-            }
+          case 'register': {
+            // The socket is already bound to the session's user, whatever userId is sent. A reconnecting
+            // client sends the sequence number of the last event it saw and is sent the ones it missed.
+            const lastSeq = Number.isInteger(data.data?.lastSeq) ? Number(data.data.lastSeq) : null;
+            inDeliveryOrder(user.id, () => catchUp(ws, user.id, lastSeq));
             break;
+          }
           case 'ping':
             // Handle ping requests with a pong response
             ws.send(JSON.stringify({
@@ -136,36 +186,30 @@ export function setupWebSocket(server: Server) {
               timestamp: Date.now()
             }));
             break;
-          case 'new_bid':
-            await handleNewBid(data);
-            break;
-          case 'auction_ending':
-            // Handle auction ending notifications
-            break;
-          case 'underwrite_completed':
-            await handleUnderwriteCompleted(data);
-            break;
-          case 'new_message':
-            await handleNewMessage(data);
-            break;
-          case 'auction_created':
-            await handleAuctionCreated(data);
-            break;
-          case 'bid_accepted':
-            await handleBidAccepted(data);
-            break;
-          case 'deal_confirmed':
-            await handleDealConfirmed(data);
-            break;
-          case 'collection_scheduled':
-            await handleCollectionScheduled(data);
-            break;
-          case 'collection_confirmed':
-            await handleCollectionConfirmed(data);
-            break;
-          case 'date_extended':
-            await handleDateExtended(data);
+          case 'typing': {
+            // Relay typing indicators to the other dealer in an existing thread; the sender comes from the session
+            const receiverId = Number(data.data?.receiverId);
+            const auctionId = Number(data.data?.auctionId) || null;
+            if (!Number.isInteger(receiverId) || receiverId === user.id) break;
+            
+            const now = Date.now();
+            if (now - (lastTypingRelayAt.get(user.id) ?? 0) < TYPING_RELAY_INTERVAL) break;
+            lastTypingRelayAt.set(user.id, now);
+            
+            sharesThread(user.id, receiverId, auctionId)
+              .then((shared) => {
+                if (!shared) return;
+                sendToUser(receiverId, {
+                  type: 'typing',
+                  data: { senderId: user.id, auctionId },
+                  timestamp: now
+                });
+              })
+              .catch((error) => {
+                console.error('Error relaying typing indicator:', error);
+              });
             break;
+          }
         }
       } catch (error) {
         console.error('Error processing WebSocket message:', error);
@@ -203,524 +247,147 @@ export function setupWebSocket(server: Server) {
       }
       console.log(`WebSocket close code ${code} meaning: ${codeMeaning}`);
       
-      // Remove client from map
-      Array.from(clients.entries()).forEach(([userId, client]) => {
-        if (client === ws) {
-          clients.delete(userId);
-          console.log(`User ${userId} disconnected from WebSocket`);
-        }
+      // Remove this connection; the user goes offline when their last one closes
+      const connections = clients.get(user.id);
+      if (!connections?.delete(ws) || connections.size > 0) return;
+      
+      clients.delete(user.id);
+      lastTypingRelayAt.delete(user.id);
+      console.log(`User ${user.id} disconnected from WebSocket`);
+      
+      const lastSeenAt = new Date();
+      broadcastPresence({ userId: user.id, online: false, lastSeenAt: lastSeenAt.toISOString() }, user.id);
+      storage.updateUser(user.id, { lastSeenAt }).catch((error) => {
+        console.error(`Error recording last seen time for user ${user.id}:`, error);
       });
     });
-  });
+  }
   
   return wss;
 }
 
-// Send message to specific user
+// Send message to every open tab and device of a specific user, logging it first so it can be replayed
+// to any of them that are disconnected
 export function sendToUser(userId: number, message: WSMessage) {
-  const client = clients.get(userId);
-  if (client && client.readyState === WebSocket.OPEN) {
-    client.send(JSON.stringify(message));
+  if (EPHEMERAL_MESSAGE_TYPES.has(message.type)) {
+    deliver(userId, message);
+    return;
   }
+  
+  inDeliveryOrder(userId, async () => {
+    try {
+      const event = await storage.recordUserEvent(userId, message.type, message.data ?? null);
+      deliver(userId, { ...message, seq: event.seq });
+    } catch (error) {
+      // Still send it to whoever is connected; it just can't be replayed
+      console.error(`Error logging '${message.type}' event for user ${userId}:`, error);
+      deliver(userId, message);
+    }
+  });
 }
 
-// Broadcast message to all connected clients
-export function broadcast(message: WSMessage, excludeUserId?: number) {
-  Array.from(clients.entries()).forEach(([userId, client]) => {
-    if (excludeUserId && userId === excludeUserId) return;
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(JSON.stringify(message));
+function deliver(userId: number, message: WSMessage) {
+  const payload = JSON.stringify(message);
+  clients.get(userId)?.forEach((client) => {
+    if (liveConnections.has(client) && client.readyState === WebSocket.OPEN) {
+      client.send(payload);
     }
   });
 }
 
-// Handle new bid event
-async function handleNewBid(message: WSMessage) {
-  const { auctionId, dealerId, bidId, amount } = message.data;
-  
-  try {
-    // Get auction details
-    const auction = await storage.getAuction(auctionId);
-    if (!auction) return;
-    
-    const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
-    if (!motorcycle) return;
-    
-    // Notify seller about new bid
-    const sellerNotificationContent = `New bid received on your underwrite`;
-    await storage.createNotification({
-      userId: auction.dealerId,
-      type: 'bid',
-      content: sellerNotificationContent,
-      relatedId: auctionId
-    });
-    
-    // Notify bidder about their placed bid
-    const bidderNotificationContent = `Your bid on ${motorcycle.make} ${motorcycle.model} has been placed`;
-    await storage.createNotification({
-      userId: dealerId,
-      type: 'bid_placed',
-      content: bidderNotificationContent,
-      relatedId: auctionId
-    });
-    
-    // Send real-time notification to seller and update their stats
-    sendToUser(auction.dealerId, {
-      type: 'new_bid',
-      data: {
-        auctionId,
-        dealerId,
-        bidId,
-        amount,
-        motorcycle
-      },
-      timestamp: Date.now()
-    });
-    
-    // Send real-time notification to bidder about their placed bid
-    sendToUser(dealerId, {
-      type: 'bid_placed',
-      data: {
-        auctionId,
-        dealerId,
-        bidId,
-        amount,
-        motorcycle
-      },
-      timestamp: Date.now()
+function inDeliveryOrder(userId: number, task: () => Promise<void>) {
+  const queued = (deliveryQueues.get(userId) ?? Promise.resolve())
+    .then(task)
+    .catch((error) => {
+      console.error(`Error delivering WebSocket events to user ${userId}:`, error);
     });
-    
-    // Invalidate seller's dashboard stats to update bid count
-    sendToUser(auction.dealerId, {
-      type: 'refresh_stats',
-      data: {},
-      timestamp: Date.now()
-    });
-    
-    // Invalidate bidder's dashboard stats to update their placed bids
-    sendToUser(dealerId, {
-      type: 'refresh_stats',
-      data: {},
-      timestamp: Date.now()
-    });
-    
-    // Don't broadcast bid amount to others - keeping it blind
-    broadcast({
-      type: 'auction_updated',
-      data: {
-        auctionId
-      },
-      timestamp: Date.now()
-    }, dealerId); // exclude the trader who placed the bid
-  } catch (error) {
-    console.error('Error handling new bid:', error);
-  }
+  deliveryQueues.set(userId, queued);
+  queued.then(() => {
+    if (deliveryQueues.get(userId) === queued) deliveryQueues.delete(userId);
+  });
 }
 
-// Handle underwrite completed event
-async function handleUnderwriteCompleted(message: WSMessage) {
-  const { auctionId } = message.data;
+// Replay what a newly registered connection missed, then start sending it live events. This runs in the
+// user's delivery queue, so no event can be logged between the replay and the connection going live.
+async function catchUp(ws: WebSocket, userId: number, lastSeq: number | null) {
+  const send = (message: WSMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
   
+  let latestSeq = 0;
   try {
-    const auction = await storage.getAuction(auctionId);
-    if (!auction) return;
+    const user = await storage.getUser(userId);
+    latestSeq = user?.lastEventSeq ?? 0;
     
-    const highestBid = await storage.getHighestBidForAuction(auctionId);
-    const motorcycle = await storage.getMotorcycle(auction.motorcycleId);
-    
-    if (highestBid) {
-      // Update auction with winning bid and move to pending collection
-      await storage.updateAuction(auctionId, {
-        status: 'pending_collection',
-        winningBidId: highestBid.id,
-        winningBidderId: highestBid.dealerId
-      });
+    if (lastSeq !== null && lastSeq !== latestSeq) {
+      const missed = lastSeq < latestSeq
+        ? await storage.getUserEventsAfter(userId, lastSeq, MAX_REPLAY_EVENTS + 1)
+        : [];
       
-      // Notify dealer
-      await storage.createNotification({
-        userId: auction.dealerId,
-        type: 'underwrite_completed',
-        content: `Your underwrite for ${motorcycle?.make} ${motorcycle?.model} has ended with a winning bid of £${highestBid.amount}`,
-        relatedId: auctionId
-      });
-      
-      // Notify winning bidder
-      await storage.createNotification({
-        userId: highestBid.dealerId,
-        type: 'underwrite_completed',
-        content: `Congratulations! You won the underwrite for ${motorcycle?.make} ${motorcycle?.model} with a bid of £${highestBid.amount}`,
-        relatedId: auctionId
-      });
-      
-      // Send real-time notifications
-      sendToUser(auction.dealerId, {
-        type: 'underwrite_completed',
-        data: {
-          auctionId,
-          winningBid: highestBid.amount,
-          winningBidderId: highestBid.dealerId
-        },
-        timestamp: Date.now()
-      });
-      
-      sendToUser(highestBid.dealerId, {
-        type: 'underwrite_completed',
-        data: {
-          auctionId,
-          winningBid: highestBid.amount,
-          motorcycle
-        },
-        timestamp: Date.now()
-      });
-    } else {
-      // No bids, auction ended without sale
-      await storage.updateAuction(auctionId, {
-        status: 'completed'
-      });
-      
-      // Notify dealer
-      await storage.createNotification({
-        userId: auction.dealerId,
-        type: 'underwrite_completed',
-        content: `Your underwrite for ${motorcycle?.make} ${motorcycle?.model} has ended with no bids`,
-        relatedId: auctionId
-      });
-      
-      sendToUser(auction.dealerId, {
-        type: 'underwrite_completed',
-        data: {
-          auctionId,
-          noBids: true
-        },
-        timestamp: Date.now()
-      });
+      // Too far behind, events already pruned, or a sequence number we never sent (e.g. the data was reset)
+      const complete = missed.length > 0 && missed.length <= MAX_REPLAY_EVENTS && missed[0].seq === lastSeq + 1;
+      if (complete) {
+        console.log(`Replaying ${missed.length} missed WebSocket events to user ${userId}`);
+        missed.forEach((event) => send({
+          type: event.type as WSMessageType,
+          data: event.data,
+          timestamp: event.createdAt ? event.createdAt.getTime() : Date.now(),
+          seq: event.seq
+        }));
+      } else {
+        send({ type: 'force_data_refresh', data: { reason: 'missed_events' }, timestamp: Date.now() });
+      }
     }
   } catch (error) {
-    console.error('Error handling underwrite completed:', error);
-  }
-}
-
-// Handle new message event
-async function handleNewMessage(message: WSMessage) {
-  const { senderId, receiverId, content, auctionId } = message.data;
-  
-  try {
-    // Store message - make sure to match the schema type
-    const newMessage = await storage.createMessage({
-      senderId: senderId,
-      receiverId: receiverId,
-      content: content,
-      auctionId: auctionId || null
-    });
-    
-    // Create notification
-    const sender = await storage.getUser(senderId);
-    await storage.createNotification({
-      userId: receiverId,
-      type: 'message',
-      content: `New message from ${sender?.companyName}`,
-      relatedId: newMessage.id
-    });
-    
-    // Send real-time notification
-    sendToUser(receiverId, {
-      type: 'new_message',
-      data: {
-        messageId: newMessage.id,
-        senderId,
-        senderName: sender?.companyName,
-        content,
-        auctionId,
-        timestamp: newMessage.createdAt
-      },
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Error handling new message:', error);
+    console.error(`Error replaying missed WebSocket events to user ${userId}:`, error);
+    send({ type: 'force_data_refresh', data: { reason: 'missed_events' }, timestamp: Date.now() });
   }
-}
-
-// Handle underwrite created event
-async function handleAuctionCreated(message: WSMessage) {
-  const { auctionId, dealerId } = message.data;
   
-  try {
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) return;
-    
-    // Broadcast to all bidders
-    await Promise.all(Array.from(clients.entries()).map(async ([userId, client]) => {
-      try {
-        const user = await storage.getUser(userId);
-        if (user && user.role === 'bidder' && client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'underwrite_created',
-            data: {
-              auction
-            },
-            timestamp: Date.now()
-          }));
-        }
-      } catch (error) {
-        console.error(`Error sending underwrite_created to user ${userId}:`, error);
-      }
-    }));
-  } catch (error) {
-    console.error('Error handling underwrite created:', error);
-  }
+  liveConnections.add(ws);
+  send({
+    type: 'register_confirmed',
+    data: { userId, seq: latestSeq },
+    timestamp: Date.now()
+  });
 }
 
-// Handle bid accepted event
-async function handleBidAccepted(message: WSMessage) {
-  const { auctionId, dealerId, bidderId, motorcycleId } = message.data;
-  
-  try {
-    console.log(`Processing bid acceptance for auction ${auctionId}, from dealer ${dealerId} to bidder ${bidderId}, motorcycle ${motorcycleId}`);
-    
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) {
-      console.error(`Cannot find auction with ID ${auctionId} for bid acceptance`);
-      return;
-    }
-    
-    // Get motorcycle ID from message or auction
-    const motoId = motorcycleId || auction.motorcycle.id;
-    
-    // Double check the motorcycle exists
-    const currentMotorcycle = await storage.getMotorcycle(motoId);
-    if (!currentMotorcycle) {
-      console.error(`Cannot find motorcycle with ID ${motoId} for bid acceptance`);
-      return;
-    }
-    
-    console.log(`Motorcycle ${motoId} current status: ${currentMotorcycle.status}`);
-    
-    // Update motorcycle status to pending collection
-    const updatedMotorcycle = await storage.updateMotorcycle(motoId, {
-      status: 'pending_collection'
-    });
-    
-    if (!updatedMotorcycle) {
-      console.error(`Failed to update motorcycle ${motoId} status for bid acceptance`);
-    } else {
-      console.log(`Updated motorcycle ${motoId} status to 'pending_collection'`);
-    }
-    
-    // Verify the status was updated
-    const verifiedMotorcycle = await storage.getMotorcycle(motoId);
-    console.log(`Verified motorcycle ${motoId} status after update: ${verifiedMotorcycle?.status}`);
-    
-    // If for some reason the status wasn't updated properly, try again
-    if (verifiedMotorcycle && verifiedMotorcycle.status !== 'pending_collection') {
-      console.log(`Retrying motorcycle ${motoId} status update - current status: ${verifiedMotorcycle.status}`);
-      await storage.updateMotorcycle(motoId, {
-        status: 'pending_collection'
-      });
-    }
-    
-    // Update auction status to pending collection if not already
-    if (auction.status !== 'pending_collection') {
-      await storage.updateAuction(auctionId, {
-        status: 'pending_collection'
-      });
-      console.log(`Updated auction ${auctionId} status to 'pending_collection'`);
-    }
-    
-    // Notify the bidder
-    await storage.createNotification({
-      userId: bidderId,
-      type: 'bid_accepted',
-      content: `Your bid on ${auction.motorcycle.make} ${auction.motorcycle.model} has been accepted by the dealer.`,
-      relatedId: auctionId
-    });
-
-    // Create updated motorcycle object with the new status - this ensures all clients have the same format
-    const updatedMotorcycleData = {
-      ...auction.motorcycle,
-      status: 'pending_collection'
-    };
-    
-    console.log('Sending detailed motorcycle data with status update:', updatedMotorcycleData);
-    
-    // Send WebSocket notification to bidder with detailed motorcycle info and proper status
-    sendToUser(bidderId, {
-      type: 'bid_accepted',
-      data: {
-        auctionId,
-        dealerId,
-        motorcycleId: auction.motorcycle.id,
-        motorcycle: updatedMotorcycleData,
-        amount: auction.currentBid,
-        make: auction.motorcycle.make,
-        model: auction.motorcycle.model,
-        year: auction.motorcycle.year
-      },
-      timestamp: Date.now()
-    });
-    
-    // Also notify the dealer (seller) to ensure their UI updates with the same motorcycle data structure
-    sendToUser(dealerId, {
-      type: 'bid_accepted_confirm',
-      data: {
-        auctionId,
-        bidderId,
-        motorcycleId: auction.motorcycle.id,
-        motorcycle: updatedMotorcycleData,
-        amount: auction.currentBid,
-        auction: {
-          id: auctionId,
-          status: 'pending_collection'
-        }
-      },
-      timestamp: Date.now()
-    });
-    
-    // Broadcast status change to all users with complete motorcycle data
-    broadcast({
-      type: 'auction_status_changed',
-      data: {
-        auctionId,
-        newStatus: 'pending_collection',
-        motorcycleId: auction.motorcycle.id,
-        motorcycle: updatedMotorcycleData
-      },
-      timestamp: Date.now()
-    });
-    
-    console.log(`Bid acceptance processed successfully for auction ${auctionId}`);
-  } catch (error) {
-    console.error('Error handling bid accepted:', error);
-  }
+// Whether two users already have a message thread (per auction, or the general one when auctionId is null)
+async function sharesThread(userId: number, counterpartId: number, auctionId: number | null): Promise<boolean> {
+  const messages = await storage.getMessagesBetweenUsers(userId, counterpartId);
+  return messages.some((message) => (message.auctionId ?? null) === auctionId);
 }
 
-// Handle deal confirmation event
-async function handleDealConfirmed(message: WSMessage) {
-  const { auctionId, dealerId, bidderId } = message.data;
-  
-  try {
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) return;
-    
-    // Notify the dealer
-    await storage.createNotification({
-      userId: dealerId,
-      type: 'deal_confirmed',
-      content: `The buyer has confirmed the deal for ${auction.motorcycle.make} ${auction.motorcycle.model}. Please schedule a collection date.`,
-      relatedId: auctionId
-    });
-
-    sendToUser(dealerId, {
-      type: 'deal_confirmed',
-      data: {
-        auctionId,
-        bidderId,
-        motorcycle: auction.motorcycle
-      },
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Error handling deal confirmed:', error);
-  }
+// Close every open tab and device of a user, e.g. once they are suspended. Sockets are only checked against the
+// session when they connect, so without this they would keep receiving events.
+export function disconnectUser(userId: number, reason: string) {
+  clients.get(userId)?.forEach((client) => {
+    client.close(1008, reason); // Policy Violation
+  });
 }
 
-// Handle collection scheduled event
-async function handleCollectionScheduled(message: WSMessage) {
-  const { auctionId, dealerId, bidderId, collectionDate } = message.data;
-  
-  try {
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) return;
-    
-    // Notify the bidder
-    await storage.createNotification({
-      userId: bidderId,
-      type: 'collection_scheduled',
-      content: `Collection for ${auction.motorcycle.make} ${auction.motorcycle.model} has been scheduled for ${new Date(collectionDate).toLocaleDateString()}.`,
-      relatedId: auctionId
-    });
-
-    sendToUser(bidderId, {
-      type: 'collection_scheduled',
-      data: {
-        auctionId,
-        dealerId,
-        motorcycle: auction.motorcycle,
-        collectionDate
-      },
-      timestamp: Date.now()
+// Broadcast message to all connected clients
+export function broadcast(message: WSMessage, excludeUserId?: number) {
+  const payload = JSON.stringify(message);
+  Array.from(clients.entries()).forEach(([userId, connections]) => {
+    if (excludeUserId && userId === excludeUserId) return;
+    connections.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
     });
-  } catch (error) {
-    console.error('Error handling collection scheduled:', error);
-  }
+  });
 }
 
-// Handle collection confirmation event
-async function handleCollectionConfirmed(message: WSMessage) {
-  const { auctionId, dealerId, bidderId } = message.data;
-  
-  try {
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) return;
-    
-    // Notify the dealer
-    await storage.createNotification({
-      userId: dealerId,
-      type: 'collection_confirmed',
-      content: `The buyer has confirmed collection of ${auction.motorcycle.make} ${auction.motorcycle.model}. The transaction is now complete.`,
-      relatedId: auctionId
-    });
-
-    sendToUser(dealerId, {
-      type: 'collection_confirmed',
-      data: {
-        auctionId,
-        bidderId,
-        motorcycle: auction.motorcycle
-      },
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Error handling collection confirmed:', error);
-  }
+// Whether the user has the app open anywhere
+export function isUserOnline(userId: number): boolean {
+  return (clients.get(userId)?.size ?? 0) > 0;
 }
 
-// Handle date extended event
-async function handleDateExtended(message: WSMessage) {
-  const { auctionId, motorcycleId, sellerId, bidderId, newAvailabilityDate } = message.data;
-  
-  try {
-    // Retrieve auction and motorcycle details
-    const auction = await storage.getAuctionWithDetails(auctionId);
-    if (!auction) {
-      console.error('Missing auction data for date extension');
-      return;
-    }
-    
-    const formattedDate = new Date(newAvailabilityDate).toLocaleDateString();
-    
-    // Create notification for buyer
-    if (bidderId) {
-      await storage.createNotification({
-        userId: bidderId,
-        type: 'date_extended',
-        content: `The seller has extended the availability date for ${auction.motorcycle.make} ${auction.motorcycle.model} to ${formattedDate}.`,
-        relatedId: auctionId
-      });
-      
-      sendToUser(bidderId, {
-        type: 'date_extended',
-        data: {
-          auctionId,
-          sellerId,
-          motorcycle: auction.motorcycle,
-          newAvailabilityDate
-        },
-        timestamp: Date.now()
-      });
-    }
-    
-    console.log(`Date extension notification sent for auction ${auctionId}`);
-  } catch (error) {
-    console.error('Error handling date extension:', error);
-  }
+// Tell everyone else that a user came online or went offline
+function broadcastPresence(presence: UserPresence, userId: number) {
+  broadcast({
+    type: 'presence_changed',
+    data: presence,
+    timestamp: Date.now()
+  }, userId);
 }
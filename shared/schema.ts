@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,29 @@ export const users = pgTable("users", {
   postcode: text("postcode"),
   rating: integer("rating").default(0), // 0-5 rating
   totalRatings: integer("total_ratings").default(0),
+  paymentRating: integer("payment_rating"), // 0-5 average payment promptness (reviews as a buyer)
+  communicationRating: integer("communication_rating"), // 0-5 average communication quality
+  emailVerified: boolean("email_verified").notNull().default(false), // set once the emailed verification link is followed
+  // Subscription billing (kept in sync by the Stripe webhook)
+  subscriptionPlan: text("subscription_plan").notNull().default("free"), // free, basic, pro
+  subscriptionStatus: text("subscription_status"), // Stripe status: active, trialing, past_due, canceled, ...
+  subscriptionCurrentPeriodEnd: timestamp("subscription_current_period_end"),
+  stripeCustomerId: text("stripe_customer_id").unique(),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  // Trade verification - dealers cannot bid or list until an admin approves their company details
+  verificationStatus: text("verification_status").notNull().default("pending_verification"), // pending_verification, verified, rejected
+  vatNumber: text("vat_number"),
+  companyNumber: text("company_number"), // Companies House registration number
+  verificationDocuments: text("verification_documents").array(), // URLs of uploaded proof documents
+  verificationSubmittedAt: timestamp("verification_submitted_at"),
+  verificationReviewedAt: timestamp("verification_reviewed_at"),
+  verificationReviewedBy: integer("verification_reviewed_by"), // admin who approved or rejected
+  verificationNotes: text("verification_notes"), // reason given when rejected
+  // Moderation - suspended users cannot log in
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
+  lastSeenAt: timestamp("last_seen_at"), // when the user's last open tab or device disconnected
+  lastEventSeq: integer("last_event_seq").notNull().default(0), // sequence number of the latest live event sent to the user
   favoriteDealers: integer("favorite_dealers").array(), // Array of dealer IDs marked as favorites
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -40,6 +63,8 @@ export const motorcycles = pgTable("motorcycles", {
   images: text("images").array(), // URLs of uploaded images
   status: text("status").default("available"), // available, pending, sold
   soldDate: text("sold_date"), // Date when the motorcycle was sold
+  vehicleCheck: jsonb("vehicle_check").$type<VehicleCheckResult>(), // latest history check on regNumber, shown to buyers
+  conditionReport: jsonb("condition_report").$type<ConditionReport>(), // structured inspection captured when listing
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -61,6 +86,14 @@ export const auctions = pgTable("auctions", {
   // New visibility options
   visibilityType: text("visibility_type").notNull().default("all"), // all, favorites, radius
   visibilityRadius: integer("visibility_radius"), // radius in miles (used when visibilityType is 'radius')
+  // Bidding format
+  auctionType: text("auction_type").notNull().default("blind"), // blind, open, reserve
+  bidIncrement: integer("bid_increment").notNull().default(50), // minimum step between bids, also used by automatic bids
+  reservePrice: integer("reserve_price"), // hidden minimum sale price (reserve auctions only)
+  buyNowPrice: integer("buy_now_price"), // optional price at which a buyer can end the auction immediately
+  // Soft close: a bid in the final softCloseMinutes pushes endTime back by softCloseExtensionMinutes (0 disables)
+  softCloseMinutes: integer("soft_close_minutes").notNull().default(5),
+  softCloseExtensionMinutes: integer("soft_close_extension_minutes").notNull().default(5),
   completedAt: text("completed_at"), // Date when the deal was completed
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -71,6 +104,21 @@ export const bids = pgTable("bids", {
   auctionId: integer("auction_id").notNull(), // foreign key to auctions
   dealerId: integer("dealer_id").notNull(), // foreign key to users (the bidder)
   amount: integer("amount").notNull(),
+  maxAmount: integer("max_amount"), // ceiling for automatic (proxy) bidding, hidden from other dealers
+  isProxy: boolean("is_proxy").default(false), // placed automatically on the bidder's behalf
+  voidedAt: timestamp("voided_at"), // set when the bid stops counting, e.g. the auction was relisted; kept for the record
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Lifecycle log: one entry per status change of an auction (and the motorcycle that follows it)
+export const auctionHistory = pgTable("auction_history", {
+  id: serial("id").primaryKey(),
+  auctionId: integer("auction_id").notNull(), // foreign key to auctions
+  event: text("event").notNull(), // what happened, e.g. "expired", "bid_accepted" (see AUCTION_HISTORY_EVENTS)
+  fromStatus: text("from_status"), // null when the auction was created
+  toStatus: text("to_status").notNull(),
+  motorcycleStatus: text("motorcycle_status"), // motorcycle status after the change
+  actorId: integer("actor_id"), // user who caused the change; null for the system (e.g. expiry)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -81,7 +129,9 @@ export const messages = pgTable("messages", {
   receiverId: integer("receiver_id").notNull(), // foreign key to users
   auctionId: integer("auction_id"), // optional reference to an auction
   content: text("content").notNull(),
+  attachments: jsonb("attachments").$type<MessageAttachment[]>().notNull().default([]),
   read: boolean("read").default(false),
+  readAt: timestamp("read_at"), // when the receiver opened it, shown to the sender as a read receipt
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -89,25 +139,319 @@ export const messages = pgTable("messages", {
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(), // foreign key to users
-  type: text("type").notNull(), // e.g. "bid", "auction_ending", "auction_won"
+  type: text("type").notNull(), // one of NOTIFICATION_TYPES, e.g. "bid", "auction_ending"
   content: text("content").notNull(),
   relatedId: integer("related_id"), // related entity ID (auction, bid, etc.)
   read: boolean("read").default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Reviews left by the two parties of a completed auction about each other
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  auctionId: integer("auction_id").notNull(), // foreign key to auctions
+  reviewerId: integer("reviewer_id").notNull(), // foreign key to users (author)
+  revieweeId: integer("reviewee_id").notNull(), // foreign key to users (dealer being reviewed)
+  reviewerRole: text("reviewer_role").notNull(), // "seller" (reviewing the buyer) or "buyer" (reviewing the seller)
+  rating: integer("rating").notNull(), // 1-5 overall rating
+  title: text("title").notNull(),
+  comment: text("comment").notNull(),
+  paymentPromptness: text("payment_promptness"), // prompt, acceptable, delayed (seller reviewing buyer)
+  communicationQuality: text("communication_quality"), // excellent, good, poor
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use tokens sent by email for verifying addresses and resetting passwords
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // foreign key to users
+  purpose: text("purpose").notNull(), // email_verification, password_reset
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token - the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when the token is redeemed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Dealerships - a trading business whose staff share its listings and purchases
+export const dealerships = pgTable("dealerships", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Staff accounts belonging to a dealership. Each user belongs to exactly one dealership.
+export const dealershipMembers = pgTable("dealership_members", {
+  id: serial("id").primaryKey(),
+  dealershipId: integer("dealership_id").notNull(), // foreign key to dealerships
+  userId: integer("user_id").notNull().unique(), // foreign key to users
+  role: text("role").notNull().default("viewer"), // owner, buyer, seller, viewer
+  removedAt: timestamp("removed_at"), // set when the owner removes them; the row stays so they don't get a dealership of their own
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Admin moderation actions. Append-only: entries are never updated or deleted.
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull(), // foreign key to users
+  action: text("action").notNull(), // see ADMIN_AUDIT_ACTIONS
+  targetType: text("target_type").notNull(), // user, auction, bid
+  targetId: integer("target_id").notNull(),
+  reason: text("reason"),
+  details: jsonb("details"), // snapshot of what was changed or removed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A dealer's saved auction search; newly listed auctions that match it trigger an alert
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // foreign key to users
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").$type<AuctionSearchCriteria>().notNull(),
+  emailDigest: boolean("email_digest").notNull().default(false), // also email new matches in a periodic digest
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// New listings that matched a saved search - one row per search and auction, so each listing alerts once
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  id: serial("id").primaryKey(),
+  savedSearchId: integer("saved_search_id").notNull(), // foreign key to saved_searches
+  auctionId: integer("auction_id").notNull(), // foreign key to auctions
+  emailPending: boolean("email_pending").notNull().default(false), // waiting to go out in the next email digest
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("saved_search_matches_search_auction_idx").on(table.savedSearchId, table.auctionId)
+]);
+
+// Auctions a dealer is keeping an eye on
+export const watchlistEntries = pgTable("watchlist_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // foreign key to users
+  auctionId: integer("auction_id").notNull(), // foreign key to auctions
+  endingSoonNotifiedAt: timestamp("ending_soon_notified_at"), // set once the "ending soon" alert has been sent
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("watchlist_entries_user_auction_idx").on(table.userId, table.auctionId)
+]);
+
+// Live events sent to a user, numbered per user so a client that reconnects can be sent what it missed
+export const userEvents = pgTable("user_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // foreign key to users
+  seq: integer("seq").notNull(), // 1, 2, 3... per user, taken from users.last_event_seq
+  type: text("type").notNull(), // WebSocket message type
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("user_events_user_seq_idx").on(table.userId, table.seq)
+]);
+
+// How each dealer wants to hear about each type of notification; dealers without a row get the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(), // foreign key to users
+  channels: jsonb("channels").$type<NotificationChannelSettings>().notNull().default({}), // types not listed use the defaults
+  quietHoursStart: text("quiet_hours_start"), // "22:00" - no SMS or push from then until quietHoursEnd
+  quietHoursEnd: text("quiet_hours_end"), // "07:00"
+  timezone: text("timezone").notNull().default("Europe/London"), // the quiet hours are in this time zone
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Define insert schemas using drizzle-zod
 export const insertUserSchema = createInsertSchema(users).omit({ 
   id: true, 
   createdAt: true,
   rating: true,
-  totalRatings: true 
+  totalRatings: true,
+  paymentRating: true,
+  communicationRating: true,
+  emailVerified: true,
+  subscriptionPlan: true,
+  subscriptionStatus: true,
+  subscriptionCurrentPeriodEnd: true,
+  stripeCustomerId: true,
+  stripeSubscriptionId: true,
+  verificationStatus: true,
+  vatNumber: true,
+  companyNumber: true,
+  verificationDocuments: true,
+  verificationSubmittedAt: true,
+  verificationReviewedAt: true,
+  verificationReviewedBy: true,
+  verificationNotes: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  lastSeenAt: true,
+  lastEventSeq: true
+});
+
+export const VERIFICATION_STATUSES = ["pending_verification", "verified", "rejected"] as const;
+export type VerificationStatus = typeof VERIFICATION_STATUSES[number];
+
+// Maximum number of proof documents per verification submission
+export const MAX_VERIFICATION_DOCUMENTS = 5;
+
+// Details a dealer submits for trade verification (documents are uploaded alongside as files)
+export const verificationSubmissionSchema = z.object({
+  companyNumber: z.string()
+    .transform(value => value.replace(/\s+/g, "").toUpperCase())
+    .pipe(z.string().regex(/^([A-Z]{2}\d{6}|\d{8})$/, "Enter a valid Companies House number, e.g. 01234567 or SC123456")),
+  vatNumber: z.string()
+    .transform(value => value.replace(/\s+/g, "").toUpperCase().replace(/^GB/, ""))
+    .pipe(z.string().regex(/^(\d{9}|\d{12})$/, "Enter a valid UK VAT number, e.g. GB123456789"))
+    .optional()
+    .or(z.literal("").transform(() => undefined))
+});
+
+export const verificationRejectionSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason so the dealer can fix their submission")
+});
+
+// Paid plans, in ascending order of access
+export const SUBSCRIPTION_PLANS = ["basic", "pro"] as const;
+export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[number];
+
+export const BILLING_INTERVALS = ["month", "year"] as const;
+export type BillingInterval = typeof BILLING_INTERVALS[number];
+
+export const checkoutRequestSchema = z.object({
+  plan: z.enum(SUBSCRIPTION_PLANS),
+  interval: z.enum(BILLING_INTERVALS).default("month")
+});
+
+// Maximum number of images per motorcycle listing
+export const MAX_MOTORCYCLE_IMAGES = 20;
+
+// UK registration plate formats, matched without spaces; the two groups are either side of the space
+const UK_REG_PATTERNS = [
+  /^([A-Z]{2}[0-9]{2})([A-Z]{3})$/, // current (2001 on): AB12 CDE
+  /^([A-Z][0-9]{1,3})([A-Z]{3})$/, // prefix (1983-2001): A123 BCD
+  /^([A-Z]{3})([0-9]{1,3}[A-Z])$/, // suffix (1963-1983): ABC 123D
+  /^([A-Z]{1,3})([0-9]{1,4})$/, // dateless: ABC 1234
+  /^([0-9]{1,4})([A-Z]{1,3})$/ // dateless: 1234 ABC
+];
+
+// Registrations are compared and looked up without spaces, in capitals
+export const normaliseRegNumber = (regNumber: string) => regNumber.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Format a registration the way it appears on the plate (e.g. "ab12cde" becomes "AB12 CDE")
+ * @returns The formatted registration, or null if it isn't a valid UK registration
+ */
+export function formatRegNumber(regNumber: string): string | null {
+  const reg = normaliseRegNumber(regNumber);
+  for (const pattern of UK_REG_PATTERNS) {
+    const match = reg.match(pattern);
+    if (match) return `${match[1]} ${match[2]}`;
+  }
+  return null;
+}
+
+// A UK registration, formatted as it appears on the plate
+export const regNumberSchema = z.string()
+  .refine(value => formatRegNumber(value) !== null, "Enter a valid UK registration, e.g. AB12 CDE")
+  .transform(value => formatRegNumber(value)!);
+
+// Structured condition report: each component is graded from 5 (best) to 1
+export const CONDITION_REPORT_COMPONENTS = ["frame", "forks", "engine", "electrics", "brakes"] as const;
+export type ConditionReportComponent = typeof CONDITION_REPORT_COMPONENTS[number];
+
+export const CONDITION_REPORT_COMPONENT_LABELS: Record<ConditionReportComponent, string> = {
+  frame: "Frame",
+  forks: "Forks",
+  engine: "Engine",
+  electrics: "Electrics",
+  brakes: "Brakes"
+};
+
+// Grade names, matching the options for the free-text condition field
+export const CONDITION_GRADE_LABELS: Record<number, string> = {
+  5: "Excellent",
+  4: "Very Good",
+  3: "Good",
+  2: "Fair",
+  1: "Poor"
+};
+
+export const DAMAGE_SEVERITIES = ["minor", "moderate", "major"] as const;
+export type DamageSeverity = typeof DAMAGE_SEVERITIES[number];
+
+// How far each damage marker pulls the overall grade down
+const DAMAGE_GRADE_PENALTIES: Record<DamageSeverity, number> = {
+  minor: 0.1,
+  moderate: 0.3,
+  major: 0.75
+};
+
+// UK legal minimum tread depth for motorcycles over 50cc
+export const MIN_LEGAL_TREAD_DEPTH_MM = 1;
+
+export const MAX_DAMAGE_MARKERS = 30;
+export const MAX_DAMAGE_PHOTOS = 5;
+
+const conditionGradeSchema = z.number().int().min(1, "Grades run from 1 to 5").max(5, "Grades run from 1 to 5");
+const treadDepthSchema = z.number().min(0, "Tread depth cannot be negative").max(15, "Tread depth is measured in mm");
+
+// A damage marker placed on the bike outline diagram
+export const damageMarkerSchema = z.object({
+  x: z.number().min(0).max(100), // position as a percentage of the diagram's width
+  y: z.number().min(0).max(100), // and of its height
+  severity: z.enum(DAMAGE_SEVERITIES),
+  note: z.string().trim().min(1, "Describe the damage").max(200, "Keep the description under 200 characters"),
+  photos: z.array(z.string()).max(MAX_DAMAGE_PHOTOS, `Each marker can have at most ${MAX_DAMAGE_PHOTOS} photos`).default([])
+});
+
+export type DamageMarker = z.infer<typeof damageMarkerSchema>;
+
+const conditionReportFieldsSchema = z.object({
+  components: z.object({
+    frame: conditionGradeSchema,
+    forks: conditionGradeSchema,
+    engine: conditionGradeSchema,
+    electrics: conditionGradeSchema,
+    brakes: conditionGradeSchema
+  }),
+  frontTreadMm: treadDepthSchema,
+  rearTreadMm: treadDepthSchema,
+  damage: z.array(damageMarkerSchema).max(MAX_DAMAGE_MARKERS, `Add at most ${MAX_DAMAGE_MARKERS} damage markers`).default([])
 });
 
+export type ConditionReportFields = z.infer<typeof conditionReportFieldsSchema>;
+
+// Tread depth as a grade: 4mm or more is as good as new, below the legal minimum is Poor
+const gradeTreadDepth = (mm: number) =>
+  mm >= 4 ? 5 : mm >= 3 ? 4 : mm >= 2 ? 3 : mm >= MIN_LEGAL_TREAD_DEPTH_MM ? 2 : 1;
+
+/**
+ * Overall grade (1-5) for a condition report: the average of the component and tyre grades,
+ * less a penalty for each damage marker, and never more than one grade above the worst part
+ */
+export function computeConditionGrade(report: ConditionReportFields): number {
+  const grades = [
+    ...CONDITION_REPORT_COMPONENTS.map(component => report.components[component]),
+    gradeTreadDepth(report.frontTreadMm),
+    gradeTreadDepth(report.rearTreadMm)
+  ];
+
+  const average = grades.reduce((total, grade) => total + grade, 0) / grades.length;
+  const penalty = report.damage.reduce((total, marker) => total + DAMAGE_GRADE_PENALTIES[marker.severity], 0);
+  const grade = Math.min(average - penalty, Math.min(...grades) + 1);
+
+  return Math.min(5, Math.max(1, Math.round(grade)));
+}
+
+// The overall grade is always worked out from the report, never taken from the client
+export const conditionReportSchema = conditionReportFieldsSchema.transform(report => ({
+  ...report,
+  overallGrade: computeConditionGrade(report)
+}));
+
+export type ConditionReport = z.infer<typeof conditionReportSchema>;
+
 export const insertMotorcycleSchema = createInsertSchema(motorcycles)
   .omit({ 
     id: true, 
-    createdAt: true 
+    createdAt: true,
+    vehicleCheck: true // only ever set by the vehicle check service
   })
   .extend({
     // Only make is required, rest are optional
@@ -122,11 +466,50 @@ export const insertMotorcycleSchema = createInsertSchema(motorcycles)
     serviceHistory: z.string().optional(),
     tyreCondition: z.string().optional(),
     dateAvailable: z.string().optional(),
-    regNumber: z.string().optional(),
+    regNumber: z.union([z.literal(""), regNumberSchema]).optional(),
+    conditionReport: conditionReportSchema.nullable().optional(),
     auctionDuration: z.string().optional(),
-    images: z.array(z.string()).optional()
+    images: z.array(z.string()).max(MAX_MOTORCYCLE_IMAGES, `A listing can have at most ${MAX_MOTORCYCLE_IMAGES} images`).optional()
   });
 
+// Auction formats:
+// blind - sealed bids, only the seller sees amounts
+// open - ascending bids visible to all bidders, each at least bidIncrement above the last
+// reserve - open ascending, but the sale only goes ahead if the hidden reserve price is met
+export const AUCTION_TYPES = ["blind", "open", "reserve"] as const;
+export type AuctionType = typeof AUCTION_TYPES[number];
+
+// Bidding format chosen by the seller when listing
+export const auctionFormatSchema = z.object({
+  auctionType: z.enum(AUCTION_TYPES).default("blind"),
+  bidIncrement: z.preprocess(
+    val => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().positive("Bid increment must be a positive amount").default(50)
+  ),
+  reservePrice: z.preprocess(
+    val => (val === '' || val == null ? null : Number(val)),
+    z.number().int().positive("Reserve price must be a positive amount").nullable()
+  ),
+  buyNowPrice: z.preprocess(
+    val => (val === '' || val == null ? null : Number(val)),
+    z.number().int().positive("Buy-now price must be a positive amount").nullable()
+  ),
+  softCloseMinutes: z.preprocess(
+    val => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().min(0).max(60, "The soft-close window cannot be longer than 60 minutes").default(5)
+  ),
+  softCloseExtensionMinutes: z.preprocess(
+    val => (val === '' || val == null ? undefined : Number(val)),
+    z.number().int().min(1, "Extensions must be at least 1 minute").max(60, "Extensions cannot be longer than 60 minutes").default(5)
+  )
+}).refine(format => format.auctionType !== "reserve" || format.reservePrice !== null, {
+  message: "A reserve price is required for reserve auctions",
+  path: ["reservePrice"]
+}).refine(format => format.buyNowPrice === null || format.reservePrice === null || format.buyNowPrice >= format.reservePrice, {
+  message: "The buy-now price cannot be lower than the reserve price",
+  path: ["buyNowPrice"]
+});
+
 export const insertAuctionSchema = createInsertSchema(auctions)
   .omit({ 
     id: true,
@@ -148,11 +531,13 @@ export const insertAuctionSchema = createInsertSchema(auctions)
     endTime: z.union([
       z.string().transform(val => new Date(val)),
       z.date()
-    ])
+    ]),
+    auctionType: z.enum(AUCTION_TYPES).optional()
   });
 
 export const insertBidSchema = createInsertSchema(bids).omit({ 
   id: true, 
+  voidedAt: true,
   createdAt: true 
 });
 
@@ -160,15 +545,417 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true, 
   createdAt: true,
   read: true,
+  readAt: true,
   // Do not omit senderId - it's needed for message creation
 });
 
+export const MAX_MESSAGE_LENGTH = 5000;
+export const MAX_MESSAGE_ATTACHMENTS = 5;
+export const MESSAGE_ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"] as const;
+
+// A file attached to a message. Attachments are private and only served to the two people in the conversation.
+export interface MessageAttachment {
+  url: string;
+  name: string; // original filename, shown to the recipient
+  contentType: typeof MESSAGE_ATTACHMENT_TYPES[number];
+  size: number; // bytes
+}
+
+export const messageAttachmentSchema = z.object({
+  url: z.string().min(1),
+  name: z.string().min(1).max(255),
+  contentType: z.enum(MESSAGE_ATTACHMENT_TYPES),
+  size: z.number().int().nonnegative()
+});
+
+// A message as sent by a dealer: the sender comes from the session, and attachments are uploaded first
+export const sendMessageSchema = z.object({
+  receiverId: z.number().int().positive(),
+  auctionId: z.number().int().positive().nullable().optional(),
+  content: z.string().trim().max(MAX_MESSAGE_LENGTH, `Keep messages under ${MAX_MESSAGE_LENGTH} characters`),
+  attachments: z.array(messageAttachmentSchema)
+    .max(MAX_MESSAGE_ATTACHMENTS, `Attach at most ${MAX_MESSAGE_ATTACHMENTS} files`)
+    .default([])
+}).refine(message => message.content.length > 0 || message.attachments.length > 0, {
+  message: "Write a message or attach a file",
+  path: ["content"]
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({ 
   id: true, 
   createdAt: true,
   read: true 
 });
 
+// Types of notification, each of which a dealer can choose how to receive
+export const NOTIFICATION_TYPES = [
+  "bid",
+  "bid_placed",
+  "outbid",
+  "bid_accepted",
+  "auction_ending",
+  "auction_completed",
+  "deal_confirmed",
+  "collection_scheduled",
+  "collection_confirmed",
+  "transaction_completed",
+  "date_extended",
+  "review_received",
+  "saved_search_match",
+  "verification_updated",
+  "account_reinstated",
+  "auction_cancelled",
+  "auction_relisted",
+  "listing_removed",
+  "bid_voided",
+  "message"
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  bid: "New bids on your listings",
+  bid_placed: "Your bid was placed",
+  outbid: "You've been outbid",
+  bid_accepted: "Bids accepted and buy-now sales",
+  auction_ending: "Watched auctions ending soon",
+  auction_completed: "Auctions ending",
+  deal_confirmed: "Buyer confirmed the deal",
+  collection_scheduled: "Collection scheduled",
+  collection_confirmed: "Collection confirmed",
+  transaction_completed: "Transaction completed",
+  date_extended: "Availability date changed",
+  review_received: "New reviews",
+  saved_search_match: "Saved search matches",
+  verification_updated: "Trade verification",
+  account_reinstated: "Account reinstated",
+  auction_cancelled: "Auction cancelled by TradeBikes",
+  auction_relisted: "Auction relisted by TradeBikes",
+  listing_removed: "Listing removed by TradeBikes",
+  bid_voided: "Bid voided by TradeBikes",
+  message: "New messages"
+};
+
+// Account and moderation notices always appear in-app, whatever else a dealer chooses
+export const REQUIRED_IN_APP_NOTIFICATION_TYPES: readonly NotificationType[] = [
+  "verification_updated",
+  "account_reinstated",
+  "auction_cancelled",
+  "auction_relisted",
+  "listing_removed",
+  "bid_voided"
+];
+
+// Ways a notification can reach a dealer. SMS and push interrupt, so they respect quiet hours.
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "sms", "push"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  sms: "SMS",
+  push: "Push"
+};
+
+export const INTERRUPTING_NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["sms", "push"];
+
+// Channels per notification type; an empty list turns the type off
+export type NotificationChannelSettings = Partial<Record<NotificationType, NotificationChannel[]>>;
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannel[] = ["in_app"];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour time such as 22:00");
+
+const isKnownTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// What a dealer sends to save their notification preferences
+export const notificationPreferencesSchema = z.object({
+  channels: z.record(
+    z.enum(NOTIFICATION_TYPES),
+    z.array(z.enum(NOTIFICATION_CHANNELS)).transform(channels => Array.from(new Set(channels)))
+  ),
+  quietHoursStart: timeOfDaySchema.nullable(),
+  quietHoursEnd: timeOfDaySchema.nullable(),
+  timezone: z.string().refine(isKnownTimeZone, "Unknown time zone")
+}).refine(preferences => (preferences.quietHoursStart === null) === (preferences.quietHoursEnd === null), {
+  message: "Set both a start and an end for quiet hours, or neither",
+  path: ["quietHoursEnd"]
+}).refine(preferences => preferences.quietHoursStart === null || preferences.quietHoursStart !== preferences.quietHoursEnd, {
+  message: "Quiet hours must start and end at different times",
+  path: ["quietHoursEnd"]
+});
+
+// A dealer's preferences with the defaults filled in, as returned by the API
+export interface NotificationSettings {
+  channels: Record<NotificationType, NotificationChannel[]>;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+export const insertReviewSchema = createInsertSchema(reviews)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    rating: z.number().int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+    title: z.string().min(3, "Title must be at least 3 characters").max(100),
+    comment: z.string().min(10, "Review must be at least 10 characters").max(500),
+    reviewerRole: z.enum(["seller", "buyer"]),
+    paymentPromptness: z.enum(["prompt", "acceptable", "delayed"]).nullable().optional(),
+    communicationQuality: z.enum(["excellent", "good", "poor"]).nullable().optional()
+  });
+
+export const AUTH_TOKEN_PURPOSES = ["email_verification", "password_reset"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens)
+  .omit({
+    id: true,
+    createdAt: true,
+    usedAt: true
+  })
+  .extend({
+    purpose: z.enum(AUTH_TOKEN_PURPOSES)
+  });
+
+// Staff roles within a dealership and what each one may do
+export const DEALERSHIP_ROLES = ["owner", "buyer", "seller", "viewer"] as const;
+export type DealershipRole = typeof DEALERSHIP_ROLES[number];
+
+export const DEALERSHIP_PERMISSIONS = ["bid", "list", "accept_bids", "view_financials", "manage_staff"] as const;
+export type DealershipPermission = typeof DEALERSHIP_PERMISSIONS[number];
+
+export const DEALERSHIP_ROLE_PERMISSIONS: Record<DealershipRole, readonly DealershipPermission[]> = {
+  owner: DEALERSHIP_PERMISSIONS,
+  buyer: ["bid"],
+  seller: ["list", "accept_bids"],
+  viewer: []
+};
+
+export const insertDealershipSchema = createInsertSchema(dealerships).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertDealershipMemberSchema = createInsertSchema(dealershipMembers)
+  .omit({
+    id: true,
+    removedAt: true,
+    createdAt: true
+  })
+  .extend({
+    role: z.enum(DEALERSHIP_ROLES)
+  });
+
+// An owner adding a staff account to their dealership
+export const createStaffMemberSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  email: z.string().trim().email("Enter a valid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  role: z.enum(DEALERSHIP_ROLES)
+});
+
+export const updateStaffMemberSchema = z.object({
+  role: z.enum(DEALERSHIP_ROLES)
+});
+
+// Auction statuses:
+// active - open for bids
+// pending_collection - a winner has been chosen and the sale is being completed
+// completed - finished, either sold (winningBidderId set) or ended without a sale
+// no_sale - withdrawn by the seller
+export const AUCTION_STATUSES = ["active", "pending_collection", "completed", "no_sale"] as const;
+export type AuctionStatus = typeof AUCTION_STATUSES[number];
+
+export const MOTORCYCLE_STATUSES = ["available", "pending_collection", "sold"] as const;
+export type MotorcycleStatus = typeof MOTORCYCLE_STATUSES[number];
+
+export const AUCTION_HISTORY_EVENTS = [
+  "created",
+  "expired",
+  "ended_early",
+  "bid_accepted",
+  "bought_now",
+  "deal_confirmed",
+  "collection_confirmed",
+  "deal_completed",
+  "archived_no_sale",
+  "relisted",
+  "cancelled_by_admin"
+] as const;
+export type AuctionHistoryEvent = typeof AUCTION_HISTORY_EVENTS[number];
+
+export const insertAuctionHistorySchema = createInsertSchema(auctionHistory)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    event: z.enum(AUCTION_HISTORY_EVENTS)
+  });
+
+export const ADMIN_AUDIT_ACTIONS = [
+  "dealer_suspended",
+  "dealer_reinstated",
+  "auction_cancelled",
+  "auction_relisted",
+  "listing_removed",
+  "bid_voided",
+  "impersonation_started",
+  "impersonation_ended"
+] as const;
+export type AdminAuditAction = typeof ADMIN_AUDIT_ACTIONS[number];
+
+export const insertAdminAuditEntrySchema = createInsertSchema(adminAuditLog)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    action: z.enum(ADMIN_AUDIT_ACTIONS),
+    targetType: z.enum(["user", "auction", "bid"])
+  });
+
+// The reason an admin gives for a moderation action, shown to the affected dealer
+export const moderationReasonSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500, "Keep the reason under 500 characters")
+});
+
+// Orderings for auction search results
+export const AUCTION_SEARCH_SORTS = ["ending_soon", "newest", "price_asc", "price_desc", "mileage_asc", "year_desc", "distance"] as const;
+export type AuctionSearchSort = typeof AUCTION_SEARCH_SORTS[number];
+
+export const MAX_AUCTION_SEARCH_LIMIT = 100;
+
+// Query string values arrive as strings - blank means "not set"
+const optionalQueryNumber = (schema: z.ZodNumber) => z.preprocess(
+  val => (val === '' || val == null ? undefined : Number(val)),
+  schema.optional()
+);
+
+const optionalQueryText = z.preprocess(
+  val => (typeof val === 'string' && val.trim() !== '' ? val.trim() : undefined),
+  z.string().max(100).optional()
+);
+
+// What to look for in an auction search, also stored by saved searches.
+// Prices are the current highest bid (0 before the first bid), engine sizes are in cc.
+export const auctionSearchCriteriaSchema = z.object({
+  make: optionalQueryText,
+  model: optionalQueryText,
+  yearMin: optionalQueryNumber(z.number().int().min(1900)),
+  yearMax: optionalQueryNumber(z.number().int().min(1900)),
+  mileageMin: optionalQueryNumber(z.number().int().min(0)),
+  mileageMax: optionalQueryNumber(z.number().int().min(0)),
+  engineSizeMin: optionalQueryNumber(z.number().int().min(0)),
+  engineSizeMax: optionalQueryNumber(z.number().int().min(0)),
+  // One condition or a comma-separated list, e.g. "Excellent,Good"
+  condition: z.preprocess(
+    val => {
+      const list = (Array.isArray(val) ? val : typeof val === 'string' ? val.split(',') : [])
+        .map(item => String(item).trim())
+        .filter(Boolean);
+      return list.length > 0 ? list : undefined;
+    },
+    z.array(z.string().max(50)).optional()
+  ),
+  priceMin: optionalQueryNumber(z.number().int().min(0)),
+  priceMax: optionalQueryNumber(z.number().int().min(0)),
+  postcode: optionalQueryText,
+  radiusMiles: optionalQueryNumber(z.number().positive("Radius must be a positive number of miles").max(1000)),
+  minRating: optionalQueryNumber(z.number().min(0).max(5, "Seller rating is out of 5"))
+});
+
+export type AuctionSearchCriteria = z.infer<typeof auctionSearchCriteriaSchema>;
+
+// Ranges must be the right way round, and a radius needs a postcode to measure from
+function checkSearchCriteria(search: AuctionSearchCriteria, ctx: z.RefinementCtx) {
+  const ranges = [
+    ["yearMin", "yearMax", "Minimum year cannot be after maximum year"],
+    ["mileageMin", "mileageMax", "Minimum mileage cannot be more than maximum mileage"],
+    ["engineSizeMin", "engineSizeMax", "Minimum engine size cannot be more than maximum engine size"],
+    ["priceMin", "priceMax", "Minimum price cannot be more than maximum price"]
+  ] as const;
+
+  for (const [min, max, message] of ranges) {
+    const low = search[min];
+    const high = search[max];
+    if (low !== undefined && high !== undefined && low > high) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [min] });
+    }
+  }
+
+  if (search.radiusMiles !== undefined && !search.postcode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A postcode is required to search by distance", path: ["postcode"] });
+  }
+}
+
+// Query parameters for GET /api/auctions
+export const auctionSearchSchema = auctionSearchCriteriaSchema.extend({
+  sort: z.preprocess(
+    val => (val === '' || val == null ? undefined : val),
+    z.enum(AUCTION_SEARCH_SORTS).default("ending_soon")
+  ),
+  cursor: optionalQueryText,
+  // Without a limit every matching auction is returned
+  limit: optionalQueryNumber(z.number().int().min(1).max(MAX_AUCTION_SEARCH_LIMIT, `Limit cannot be more than ${MAX_AUCTION_SEARCH_LIMIT}`))
+}).superRefine((search, ctx) => {
+  checkSearchCriteria(search, ctx);
+  if (search.sort === "distance" && !search.postcode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A postcode is required to sort by distance", path: ["postcode"] });
+  }
+});
+
+export type AuctionSearchFilters = z.infer<typeof auctionSearchSchema>;
+
+export const MAX_SAVED_SEARCHES = 20;
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    criteria: auctionSearchCriteriaSchema
+  });
+
+// What a dealer sends to save a search or change one
+export const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Give the search a name").max(100, "Keep the name under 100 characters"),
+  criteria: auctionSearchCriteriaSchema.superRefine(checkSearchCriteria),
+  emailDigest: z.boolean().default(false)
+});
+
+export const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Give the search a name").max(100, "Keep the name under 100 characters").optional(),
+  emailDigest: z.boolean().optional()
+});
+
+// Insurance write-off categories recorded against a vehicle
+export const WRITE_OFF_CATEGORIES = ["A", "B", "S", "N"] as const;
+export type WriteOffCategory = typeof WRITE_OFF_CATEGORIES[number];
+
+// Outcome of a vehicle history check, stored on the motorcycle it was run for
+export interface VehicleCheckResult {
+  provider: string;
+  reference: string | null; // the provider's report ID
+  regNumber: string; // the registration that was checked
+  checkedAt: string; // ISO timestamp
+  outstandingFinance: boolean;
+  stolen: boolean;
+  writeOffCategory: WriteOffCategory | null;
+  mileageDiscrepancy: boolean; // a higher mileage has been recorded than the listing states
+  highestRecordedMileage: number | null;
+}
+
 // Define types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -187,3 +974,33 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type AuctionHistoryEntry = typeof auctionHistory.$inferSelect;
+export type InsertAuctionHistoryEntry = z.infer<typeof insertAuctionHistorySchema>;
+
+export type Dealership = typeof dealerships.$inferSelect;
+export type InsertDealership = z.infer<typeof insertDealershipSchema>;
+
+export type DealershipMember = typeof dealershipMembers.$inferSelect;
+export type InsertDealershipMember = z.infer<typeof insertDealershipMemberSchema>;
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+
+export type WatchlistEntry = typeof watchlistEntries.$inferSelect;
+
+export type UserEvent = typeof userEvents.$inferSelect;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditEntry = z.infer<typeof insertAdminAuditEntrySchema>;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
@@ -7,6 +7,8 @@ export interface AuctionWithDetails extends Auction {
   bids: Bid[];
   currentBid?: number;
   totalBids: number;
+  reserveMet?: boolean; // Only set for reserve auctions; the reserve price itself is hidden from bidders
+  distanceMiles?: number; // Only set when searching from a postcode
 }
 
 // Activity item for dashboard
@@ -37,6 +39,60 @@ export interface DashboardStats {
   amountSpent: number;
 }
 
+// A dealer's trade verification, as shown to the dealer and in the admin review queue
+export interface VerificationSummary {
+  userId: number;
+  username: string;
+  companyName: string;
+  email: string;
+  status: string; // pending_verification, verified, rejected
+  vatNumber: string | null;
+  companyNumber: string | null;
+  documents: string[]; // URLs of the uploaded proof documents
+  submittedAt: Date | null;
+  reviewedAt: Date | null;
+  notes: string | null; // reason given when rejected
+}
+
+// A staff login in a dealership, as listed on the dealership page
+export interface DealershipStaffMember {
+  userId: number;
+  username: string;
+  email: string;
+  role: string; // owner, buyer, seller, viewer
+  joinedAt: Date | null;
+}
+
+// The current user's dealership and what their role lets them do
+export interface DealershipSummary {
+  dealership: { id: number; name: string; createdAt: Date | null };
+  role: string;
+  permissions: string[]; // bid, list, accept_bids, view_financials, manage_staff
+  staff: DealershipStaffMember[];
+}
+
+// A conversation thread: messages with one counterpart, either about a specific auction or general
+export interface ConversationSummary {
+  counterpart: {
+    id: number;
+    username: string;
+    companyName: string;
+  };
+  auction: {
+    id: number;
+    title: string; // e.g. "2021 Honda CBR650R"
+  } | null;
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+// Whether a dealer has the app open, and when they were last seen if not
+export interface UserPresence {
+  userId: number;
+  online: boolean;
+  lastSeenAt: string | null; // ISO date; null while online or if never seen
+}
+
 // WebSocket message types
 export type WSMessageType = 
   // Connection & system messages
@@ -44,12 +100,14 @@ export type WSMessageType =
   'register_confirmed' |
   'ping' |
   'pong' |
+  'error' |
   
   // Bid-related messages
   'new_bid' | 
   'bid_placed' |
   'bid_accepted' | 
   'bid_accepted_confirm' |
+  'outbid' |
   
   // Auction/Underwrite messages
   'auction_ending' | 
@@ -68,11 +126,16 @@ export type WSMessageType =
   
   // Communication & notifications
   'new_message' |
+  'messages_read' |
+  'typing' |
   'refresh_stats' |
+  'presence_changed' |
+  'verification_updated' |
   'force_data_refresh';
 
 export interface WSMessage {
   type: WSMessageType;
   data: any;
   timestamp: number;
+  seq?: number; // per-user sequence number of logged events, sent back on reconnect to replay missed ones
 }